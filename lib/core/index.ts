@@ -1,11 +1,16 @@
 export * from './utils/global.utils.js';
 export * from './utils/processing-utils.js';
 export * from './utils/http.utils.js';
+export * from './utils/rate-limit.utils.js';
 export * from './utils/confirm.utils.js';
 export * from './utils/error.utils.js';
 export * from './utils/run.utils.js';
 export * from './utils/external-id.utils.js';
 export * from './utils/binary-data.utils.js';
+export * from './utils/package-manifest.utils.js';
+export * from './utils/package-upgrade.utils.js';
+export * from './utils/encryption.utils.js';
+export * from './utils/json-lines.utils.js';
 export * from './utils/array.utils.js';
 export * from './utils/management-client-utils.js';
 
@@ -1,15 +1,98 @@
 import chalk, { ChalkInstance } from 'chalk';
 import { match, P } from 'ts-pattern';
-import { Logger, LogSpinnerMessage } from '../models/log.models.js';
+import {
+    DebugType,
+    JsonLogEntry,
+    Logger,
+    LoggerConfig,
+    LogLevel,
+    LogMessage,
+    LogSpinnerData,
+    LogSpinnerMessage
+} from '../models/log.models.js';
 import { getCurrentEnvironment } from '../utils/global.utils.js';
 
 const originalWarn = console.warn;
+const logLevels: readonly LogLevel[] = ['debug', 'info', 'warning', 'error'];
+const ansiColorsRegex = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
 
-export function getDefaultLogger(): Logger {
-    return match(getCurrentEnvironment())
-        .with('node', () => defaultNodeLogger)
-        .with('browser', () => defaultBrowserLogger)
+export function getDefaultLogger(config?: LoggerConfig): Logger {
+    const logger = match(config?.format ?? 'pretty')
+        .returnType<Logger>()
+        .with('pretty', () =>
+            match(getCurrentEnvironment())
+                .with('node', () => defaultNodeLogger)
+                .with('browser', () => defaultBrowserLogger)
+                .exhaustive()
+        )
+        .with('plain', () => plainLogger)
+        .with('json', () => warningsCapturingLogger(jsonLogger((line) => console.log(line))))
         .exhaustive();
+
+    return config?.level ? logLevelFilter(logger, config.level) : logger;
+}
+
+/**
+ * Logs one json object per message. Colors are removed from messages
+ */
+export function jsonLogger(writeLine: (line: string) => void): Logger {
+    const writeEntry = (data: LogSpinnerMessage): void => writeLine(JSON.stringify(getJsonLogEntry(data)));
+
+    return {
+        log: writeEntry,
+        logWithSpinnerAsync: async (func) => await func(writeEntry)
+    };
+}
+
+/**
+ * Only messages of given or higher level are passed to the logger
+ */
+export function logLevelFilter(logger: Logger, level: LogLevel): Logger {
+    const isLogged = (data: LogMessage): boolean => logLevels.indexOf(getLogLevel(data.type)) >= logLevels.indexOf(level);
+
+    return {
+        log: (data) => {
+            if (isLogged(data)) {
+                logger.log(data);
+            }
+        },
+        logWithSpinnerAsync: async (func) => {
+            return await logger.logWithSpinnerAsync(async (logSpinner) => {
+                return await func((data) => {
+                    if (isLogged(data)) {
+                        logSpinner(data);
+                    }
+                });
+            });
+        }
+    };
+}
+
+/**
+ * Messages are passed to all loggers, i.e. to log both to console & to a file
+ */
+export function combineLoggers(loggers: readonly Logger[]): Logger {
+    return {
+        log: (data) => loggers.forEach((logger) => logger.log(data)),
+        logWithSpinnerAsync: async <T>(func: (logData: LogSpinnerData) => Promise<T>): Promise<T> => {
+            const logSpinners: LogSpinnerData[] = [];
+
+            const runWithSpinnerAsync = async (index: number): Promise<T> => {
+                const logger = loggers[index];
+
+                if (!logger) {
+                    return await func((data) => logSpinners.forEach((logSpinner) => logSpinner(data)));
+                }
+
+                return await logger.logWithSpinnerAsync(async (logSpinner) => {
+                    logSpinners.push(logSpinner);
+                    return await runWithSpinnerAsync(index + 1);
+                });
+            };
+
+            return await runWithSpinnerAsync(0);
+        }
+    };
 }
 
 const defaultNodeLogger: Logger = {
@@ -54,6 +137,72 @@ const defaultBrowserLogger: Logger = {
     }
 };
 
+const plainLogger: Logger = {
+    log: (data) => console.log(removeColors(getLogDataMessage(data))),
+    logWithSpinnerAsync: async (func) => {
+        return await func((data) => {
+            const prefix = data.prefix ? `${data.prefix}: ` : '';
+            console.log(removeColors(`${prefix}${getLogDataMessage(data)}`));
+        });
+    }
+};
+
+/**
+ * Warnings logged by JS SDK (i.e. for retried requests) while spinner is active are passed to the logger
+ * instead of being printed as they are
+ */
+function warningsCapturingLogger(logger: Logger): Logger {
+    return {
+        log: (data) => logger.log(data),
+        logWithSpinnerAsync: async (func) => {
+            return await logger.logWithSpinnerAsync(async (logSpinner) => {
+                const previousWarn = global.console.warn.bind(global.console);
+                global.console.warn = (m) => {
+                    if (m) {
+                        logSpinner({ type: 'warning', message: (m as unknown)?.toString() ?? 'Invalid warn value' });
+                    }
+                };
+
+                try {
+                    return await func(logSpinner);
+                } finally {
+                    global.console.warn = previousWarn;
+                }
+            });
+        }
+    };
+}
+
+function getJsonLogEntry(data: LogSpinnerMessage): JsonLogEntry {
+    return {
+        timestamp: new Date().toISOString(),
+        level: getLogLevel(data.type),
+        type: data.type,
+        prefix: data.prefix ? removeColors(data.prefix) : undefined,
+        mapiType: data.mapiType,
+        itemCodename: data.itemCodename,
+        languageCodename: data.languageCodename,
+        durationMs: data.durationMs,
+        message: removeColors(data.message)
+    };
+}
+
+function getLogLevel(type: DebugType | undefined): LogLevel {
+    return match(type)
+        .returnType<LogLevel>()
+        .with(P.union('error', 'errorData', 'cancel'), () => 'error')
+        .with('warning', () => 'warning')
+        .with(P.union('info', 'completed', 'skip', undefined), () => 'info')
+        .otherwise(() => 'debug');
+}
+
+/**
+ * Removes ansi color codes (i.e. added by chalk) from text
+ */
+export function removeColors(text: string): string {
+    return text.replace(ansiColorsRegex, '');
+}
+
 function getLogDataMessage(data: LogSpinnerMessage): string {
     if (!data.type) {
         return data.message;
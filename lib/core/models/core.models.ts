@@ -3,8 +3,29 @@ import { MigrationElementType } from './migration.models.js';
 
 export type LiteralUnion<T extends string> = T | (string & {});
 export type TargetItemState = 'exists' | 'doesNotExists';
-export type CliAction = 'export' | 'import' | 'migrate';
+export type CliAction =
+    | 'export'
+    | 'import'
+    | 'migrate'
+    | 'validate'
+    | 'rollback'
+    | 'upgrade-package'
+    | 'package-to-csv'
+    | 'csv-to-package'
+    | 'package-to-xliff'
+    | 'xliff-to-package';
 export type EnvContext = 'browser' | 'node';
+export type PackageFormat = 'zip' | 'folder';
+export type ItemsFormat = 'json' | 'jsonl';
+/**
+ * Stage 'assets' covers upload of new assets while 'assetEdits' covers updates of existing assets
+ */
+export type ProcessingStage = 'fetch' | 'downloads' | 'contentItems' | 'languageVariants' | 'assets' | 'assetEdits';
+
+/**
+ * Max number of objects processed in parallel in each processing stage
+ */
+export type ConcurrencyConfig = Partial<Readonly<Record<ProcessingStage, number>>>;
 
 export type MapiAction =
     | 'list'
@@ -16,6 +37,8 @@ export type MapiAction =
     | 'upload'
     | 'create'
     | 'upsert'
+    | 'delete'
+    | 'modify'
     | 'schedulePublish'
     | 'scheduleUnpublish'
     | 'cancelScheduledPublish'
@@ -88,6 +111,20 @@ export interface ItemStateInTargetEnvironmentByCodename {
     readonly externalIdToUse: string;
 }
 
+export interface SyncStateVariant {
+    readonly itemCodename: string;
+    readonly languageCodename: string;
+    readonly lastModified: string;
+}
+
+/**
+ * Last modified timestamps of language variants migrated by previous incremental migrations
+ */
+export interface SyncState {
+    readonly lastSync: string;
+    readonly variants: readonly SyncStateVariant[];
+}
+
 export interface LanguageVariantStateData {
     readonly languageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant> | undefined;
     readonly workflow: Readonly<WorkflowModels.Workflow> | undefined;
@@ -109,17 +146,6 @@ export interface AssetStateInTargetEnvironmentByCodename {
     readonly externalIdToUse: string;
 }
 
-export interface PackageMetadata {
-    readonly created: Date;
-    readonly environmentId: string;
-    readonly dataOverview: PackageDataOverview;
-}
-
-export interface PackageDataOverview {
-    readonly contentItemsCount: number;
-    readonly assetsCount: number;
-}
-
 export interface FlattenedContentTypeElement {
     readonly codename: string;
     readonly id: string;
@@ -160,4 +186,18 @@ export type ItemProcessingResult<InputItem, OutputItem> =
     | {
           readonly state: '404';
           readonly inputItem: InputItem;
+      }
+    | {
+          /**
+           * Item was successfully processed in a previous run that the current run resumed from
+           */
+          readonly state: 'resumed';
+          readonly inputItem: InputItem;
+      }
+    | {
+          /**
+           * Item was left untouched because it is identical to the one in target environment
+           */
+          readonly state: 'skipped';
+          readonly inputItem: InputItem;
       };
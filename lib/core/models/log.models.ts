@@ -16,15 +16,28 @@ export type DebugType =
     | MapiType
     | MapiAction;
 
+export type LogLevel = 'debug' | 'info' | 'warning' | 'error';
+
+export type LogFormat = 'pretty' | 'plain' | 'json';
+
 export interface LogMessage {
     readonly type?: DebugType;
     readonly message: string;
+    readonly mapiType?: MapiType;
+    readonly itemCodename?: string;
+    readonly languageCodename?: string;
+    readonly durationMs?: number;
 }
 
 export interface LogSpinnerMessage extends LogMessage {
     readonly prefix?: string;
 }
 
+export interface JsonLogEntry extends LogSpinnerMessage {
+    readonly timestamp: string;
+    readonly level: LogLevel;
+}
+
 export type LogData = (data: LogMessage) => void;
 export type LogSpinnerData = (data: LogSpinnerMessage) => void;
 
@@ -32,3 +45,15 @@ export interface Logger {
     readonly logWithSpinnerAsync: <T>(func: (logData: LogSpinnerData) => Promise<T>) => Promise<T>;
     readonly log: LogData;
 }
+
+export interface LoggerConfig {
+    /**
+     * 'pretty' prints colored messages with spinner, 'plain' prints messages without colors & 'json' prints
+     * one json object per message. Defaults to 'pretty'
+     */
+    readonly format?: LogFormat;
+    /**
+     * Messages below this level are not logged. Defaults to 'debug'
+     */
+    readonly level?: LogLevel;
+}
@@ -1,8 +1,16 @@
 import { z } from 'zod';
 import {
+    LazyBinaryDataSchema,
     MigrationAssetDescriptionSchema,
+    MigrationAssetFolderSchema,
     MigrationAssetSchema,
+    MigrationBinaryDataSchema,
+    MigrationCollectionSchema,
     MigrationComponentSchema,
+    MigrationContentModelSchema,
+    MigrationContentTypeElementSchema,
+    MigrationContentTypeSchema,
+    MigrationContentTypeSnippetSchema,
     MigrationDataSchema,
     MigrationElementSchema,
     MigrationElementsSchema,
@@ -12,7 +20,12 @@ import {
     MigrationItemSystemSchema,
     MigrationItemVersionSchema,
     MigrationReferenceSchema,
-    MigrationUrlSlugModeSchema
+    MigrationTaxonomyTermSchema,
+    MigrationUrlSlugModeSchema,
+    PackageDataOverviewSchema,
+    PackageMetadataSchema,
+    PackageSourceSchema,
+    PackageVolumeSchema
 } from './migration.schema.js';
 
 export namespace MigrationElementModels {
@@ -62,8 +75,21 @@ export type MigrationElement = z.infer<typeof MigrationElementSchema>;
 export type MigrationElementTransformData = Omit<MigrationElement, 'type'>;
 export type MigrationElements = z.infer<typeof MigrationElementsSchema>;
 export type MigrationAssetDescription = z.infer<typeof MigrationAssetDescriptionSchema>;
+export type LazyBinaryData = z.infer<typeof LazyBinaryDataSchema>;
+export type MigrationBinaryData = z.infer<typeof MigrationBinaryDataSchema>;
 export type MigrationAsset = z.infer<typeof MigrationAssetSchema>;
 export type MigrationData = z.infer<typeof MigrationDataSchema>;
+export type PackageSource = z.infer<typeof PackageSourceSchema>;
+export type PackageMetadata = z.infer<typeof PackageMetadataSchema>;
+export type PackageDataOverview = z.infer<typeof PackageDataOverviewSchema>;
+export type PackageVolume = z.infer<typeof PackageVolumeSchema>;
+export type MigrationCollection = z.infer<typeof MigrationCollectionSchema>;
+export type MigrationTaxonomyTerm = z.infer<typeof MigrationTaxonomyTermSchema>;
+export type MigrationAssetFolder = z.infer<typeof MigrationAssetFolderSchema>;
+export type MigrationContentTypeElement = z.infer<typeof MigrationContentTypeElementSchema>;
+export type MigrationContentTypeSnippet = z.infer<typeof MigrationContentTypeSnippetSchema>;
+export type MigrationContentType = z.infer<typeof MigrationContentTypeSchema>;
+export type MigrationContentModel = z.infer<typeof MigrationContentModelSchema>;
 
 export type MigrationItemVersion<
     TElements extends MigrationElements = MigrationElements,
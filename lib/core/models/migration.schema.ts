@@ -1,4 +1,5 @@
 import { Buffer as BufferProxy } from 'buffer';
+import { Readable } from 'stream';
 import { z } from 'zod';
 
 interface Elements {
@@ -108,7 +109,8 @@ export const MigrationItemVersionSchema = z
     .strictObject({
         workflow_step: MigrationReferenceSchema,
         elements: MigrationElementsSchema,
-        schedule: ScheduleSchema.optional()
+        schedule: ScheduleSchema.optional(),
+        last_modified: z.string().optional()
     })
     .readonly();
 
@@ -144,21 +146,171 @@ const BaseMigrationAssetSchema = z.strictObject({
     folder: z.optional(MigrationReferenceSchema)
 });
 
+const FileBinaryDataSchema = z.union([z.instanceof(BufferProxy), z.instanceof(Blob)]);
+
+export const LazyBinaryDataSchema = z
+    .strictObject({
+        size: z.number(),
+        loadAsync: z.custom<() => Promise<z.infer<typeof FileBinaryDataSchema>>>((value) => typeof value === 'function'),
+        /**
+         * Streams binary data without holding it in memory. Available only in node.js
+         */
+        openStreamAsync: z.custom<() => Promise<Readable>>((value) => typeof value === 'function').optional()
+    })
+    .readonly();
+
+export const MigrationBinaryDataSchema = z.union([FileBinaryDataSchema, LazyBinaryDataSchema]);
+
 export const MigrationAssetSchema = BaseMigrationAssetSchema.extend({
-    binary_data: z.union([z.instanceof(BufferProxy), z.instanceof(Blob)])
+    binary_data: MigrationBinaryDataSchema
 }).readonly();
 
 export const ZipMigrationAssetSchema = BaseMigrationAssetSchema.extend({
     _zipFilename: z.string()
 }).readonly();
 
+export const FolderMigrationAssetSchema = BaseMigrationAssetSchema.extend({
+    _filePath: z.string()
+}).readonly();
+
 export const MigrationAssetsSchema = z.array(MigrationAssetSchema).readonly();
 export const ZipMigrationAssetsSchema = z.array(ZipMigrationAssetSchema).readonly();
+export const FolderMigrationAssetsSchema = z.array(FolderMigrationAssetSchema).readonly();
 export const MigrationItemsSchema = z.array(MigrationItemSchema).readonly();
 
+interface TaxonomyTerm {
+    readonly codename: string;
+    readonly name: string;
+    readonly terms: readonly TaxonomyTerm[];
+}
+
+interface AssetFolder {
+    readonly codename: string;
+    readonly name: string;
+    readonly folders: readonly AssetFolder[];
+}
+
+export const MigrationCollectionSchema = z
+    .strictObject({
+        codename: z.string(),
+        name: z.string()
+    })
+    .readonly();
+
+export const MigrationTaxonomyTermSchema: z.ZodReadonly<z.ZodType<TaxonomyTerm>> = z
+    .strictObject({
+        codename: z.string(),
+        name: z.string(),
+        terms: z.array(z.lazy(() => MigrationTaxonomyTermSchema)).readonly()
+    })
+    .readonly();
+
+export const MigrationAssetFolderSchema: z.ZodReadonly<z.ZodType<AssetFolder>> = z
+    .strictObject({
+        codename: z.string(),
+        name: z.string(),
+        folders: z.array(z.lazy(() => MigrationAssetFolderSchema)).readonly()
+    })
+    .readonly();
+
+/**
+ * Element definition as used by Management API where all references (content groups, taxonomies, snippets, types...)
+ * are made by codename
+ */
+export const MigrationContentTypeElementSchema = z
+    .object({
+        codename: z.string(),
+        type: z.string()
+    })
+    .passthrough()
+    .readonly();
+
+export const MigrationContentTypeSnippetSchema = z
+    .strictObject({
+        codename: z.string(),
+        name: z.string(),
+        elements: z.array(MigrationContentTypeElementSchema).readonly()
+    })
+    .readonly();
+
+export const MigrationContentTypeSchema = z
+    .strictObject({
+        codename: z.string(),
+        name: z.string(),
+        content_groups: z.array(MigrationCollectionSchema).readonly(),
+        elements: z.array(MigrationContentTypeElementSchema).readonly()
+    })
+    .readonly();
+
+export const MigrationContentModelSchema = z
+    .strictObject({
+        collections: z.array(MigrationCollectionSchema).readonly(),
+        assetFolders: z.array(MigrationAssetFolderSchema).readonly(),
+        taxonomies: z.array(MigrationTaxonomyTermSchema).readonly(),
+        contentTypeSnippets: z.array(MigrationContentTypeSnippetSchema).readonly(),
+        contentTypes: z.array(MigrationContentTypeSchema).readonly()
+    })
+    .readonly();
+
+export const PackageSourceSchema = z
+    .strictObject({
+        environmentId: z.string(),
+        environmentName: z.string(),
+        exportSelection: z.strictObject({
+            items: z.array(z.strictObject({ itemCodename: z.string(), languageCodename: z.string() })).readonly(),
+            query: z
+                .strictObject({
+                    contentTypes: z.array(z.string()).readonly().optional(),
+                    collections: z.array(z.string()).readonly().optional(),
+                    languages: z.array(z.string()).readonly().optional(),
+                    workflowSteps: z.array(z.string()).readonly().optional(),
+                    modifiedSince: z.string().optional(),
+                    modifiedUntil: z.string().optional()
+                })
+                .optional(),
+            includeDependencies: z.boolean(),
+            dependenciesDepth: z.number().optional(),
+            includeContentModel: z.boolean()
+        })
+    })
+    .readonly();
+
+export const PackageVolumeSchema = z
+    .strictObject({
+        // shared by all volumes of the same package
+        packageId: z.string(),
+        index: z.number(),
+        count: z.number()
+    })
+    .readonly();
+
 export const MigrationDataSchema = z
     .strictObject({
         items: MigrationItemsSchema,
-        assets: MigrationAssetsSchema
+        assets: MigrationAssetsSchema,
+        contentModel: MigrationContentModelSchema.optional(),
+        source: PackageSourceSchema.optional(),
+        // set when data is a single volume of a split package
+        volume: PackageVolumeSchema.optional()
+    })
+    .readonly();
+
+export const PackageDataOverviewSchema = z
+    .strictObject({
+        contentItemsCount: z.number(),
+        assetsCount: z.number()
+    })
+    .readonly();
+
+export const PackageMetadataSchema = z
+    .strictObject({
+        toolkitVersion: z.string(),
+        schemaVersion: z.number(),
+        created: z.string(),
+        source: PackageSourceSchema.optional(),
+        volume: PackageVolumeSchema.optional(),
+        dataOverview: PackageDataOverviewSchema,
+        // SHA-256 of asset binaries by asset codename
+        checksums: z.record(z.string(), z.string())
     })
     .readonly();
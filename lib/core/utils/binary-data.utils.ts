@@ -1,17 +1,17 @@
+import { Buffer as BufferProxy } from 'buffer';
+import { Readable } from 'stream';
 import { FileBinaryData } from '../../zip/index.js';
-import { defaultHttpService, defaultRetryStrategy } from './http.utils.js';
+import { LazyBinaryData, MigrationBinaryData } from '../models/migration.models.js';
+import { defaultHttpService, getRetryStrategy } from './http.utils.js';
 
 export async function getBinaryDataFromUrlAsync(url: string): Promise<{ readonly data: FileBinaryData; readonly contentLength: number }> {
-    // temp fix for Kontent.ai Repository not validating url
-    const fixedUrl = url.replace('#', '%23');
-
     const response = await defaultHttpService.getAsync<FileBinaryData>(
         {
-            url: fixedUrl
+            url: getFixedUrl(url)
         },
         {
             responseType: 'arraybuffer',
-            retryStrategy: defaultRetryStrategy
+            retryStrategy: getRetryStrategy(undefined)
         }
     );
 
@@ -20,6 +20,43 @@ export async function getBinaryDataFromUrlAsync(url: string): Promise<{ readonly
     return { data: response.data, contentLength: contentLength };
 }
 
-export function geSizeInBytes(data: FileBinaryData): number {
+/**
+ * Response is streamed so that large binaries are never held in memory. Available only in node.js
+ */
+export async function getBinaryDataStreamFromUrlAsync(url: string): Promise<Readable> {
+    const response = await defaultHttpService.getAsync<Readable>(
+        {
+            url: getFixedUrl(url)
+        },
+        {
+            responseType: 'stream',
+            retryStrategy: getRetryStrategy(undefined)
+        }
+    );
+
+    return response.data;
+}
+
+export function geSizeInBytes(data: MigrationBinaryData): number {
+    if (isLazyBinaryData(data)) {
+        return data.size;
+    }
     return data instanceof Blob ? data.size : data.byteLength;
 }
+
+/**
+ * Lazy binary data is loaded only when it's needed so that packages with large assets
+ * are not kept in memory as a whole
+ */
+export async function loadBinaryDataAsync(data: MigrationBinaryData): Promise<FileBinaryData> {
+    return isLazyBinaryData(data) ? await data.loadAsync() : data;
+}
+
+export function isLazyBinaryData(data: MigrationBinaryData): data is LazyBinaryData {
+    return !(data instanceof Blob) && !(data instanceof BufferProxy);
+}
+
+function getFixedUrl(url: string): string {
+    // temp fix for Kontent.ai Repository not validating url
+    return url.replace('#', '%23');
+}
@@ -8,7 +8,10 @@ export async function confirmExportAsync(data: {
     readonly apiKey: string;
     readonly logger: Logger;
     readonly dataToExport: {
-        readonly itemsCount: number;
+        /**
+         * Undefined when items are selected by export query and their count is not known in advance
+         */
+        readonly itemsCount: number | undefined;
     };
 }): Promise<void> {
     const environment = await managementClientUtils(
@@ -19,9 +22,14 @@ export async function confirmExportAsync(data: {
         data.logger
     ).getEnvironmentAsync();
 
-    const text: string = `Are you sure to export '${chalk.cyan(data.dataToExport.itemsCount)}' content ${getItemsPluralText(
-        data.dataToExport.itemsCount
-    )} from ${chalk.yellow(environment.name)} (${chalk.magenta(environment.environment)})?`;
+    const itemsText: string =
+        data.dataToExport.itemsCount === undefined
+            ? `content items matching the export query`
+            : `'${chalk.cyan(data.dataToExport.itemsCount)}' content ${getItemsPluralText(data.dataToExport.itemsCount)}`;
+
+    const text: string = `Are you sure to export ${itemsText} from ${chalk.yellow(environment.name)} (${chalk.magenta(
+        environment.environment
+    )})?`;
 
     await confirmAsync({
         force: data.force,
@@ -99,6 +107,33 @@ export async function confirmImportAsync(data: {
     });
 }
 
+export async function confirmRollbackAsync(data: {
+    readonly force: boolean;
+    readonly environmentId: string;
+    readonly apiKey: string;
+    readonly logger: Logger;
+    readonly changeLogFilename: string;
+}): Promise<void> {
+    const environment = await managementClientUtils(
+        getMigrationManagementClient({
+            environmentId: data.environmentId,
+            apiKey: data.apiKey
+        }),
+        data.logger
+    ).getEnvironmentAsync();
+
+    const text: string = `Are you sure to roll back changes recorded in '${chalk.cyan(data.changeLogFilename)}' in ${chalk.yellow(
+        environment.name
+    )} (${chalk.magenta(environment.environment)})?`;
+
+    await confirmAsync({
+        force: data.force,
+        logger: data.logger,
+        action: 'Rollback',
+        message: text
+    });
+}
+
 async function confirmAsync(data: {
     readonly action: string;
     readonly message: string;
@@ -0,0 +1,155 @@
+import chalk from 'chalk';
+import type { webcrypto } from 'crypto';
+
+/**
+ * Passphrase or contents of a key file
+ */
+export type EncryptionKey = string | Uint8Array;
+
+export interface PackageCipher {
+    readonly header: Uint8Array;
+    readonly chunkSize: number;
+    readonly encryptChunkAsync: (chunk: Uint8Array, index: number, isFinal: boolean) => Promise<Uint8Array>;
+    readonly decryptChunkAsync: (chunk: Uint8Array, index: number, isFinal: boolean) => Promise<Uint8Array>;
+}
+
+/**
+ * Encrypted package starts with an unencrypted header followed by AES-256-GCM encrypted chunks of the archive.
+ * Header: magic (6) | format version (1) | reserved (1) | PBKDF2 iterations (4) | chunk size (4) | salt (16) | nonce (12)
+ */
+const encryptionMagic: string = 'KMTENC';
+const encryptionFormatVersion: number = 1;
+const pbkdf2Iterations: number = 600_000;
+const defaultChunkSize: number = 1024 * 1024;
+const saltLength: number = 16;
+const nonceLength: number = 12;
+
+export const encryptionHeaderLength: number = 44;
+export const encryptionTagLength: number = 16;
+
+export function isEncryptedPackage(data: Uint8Array): boolean {
+    return data.length >= encryptionHeaderLength && new TextDecoder().decode(data.subarray(0, encryptionMagic.length)) === encryptionMagic;
+}
+
+export async function createPackageCipherAsync(key: EncryptionKey): Promise<PackageCipher> {
+    const header = new Uint8Array(encryptionHeaderLength);
+    const view = new DataView(header.buffer);
+
+    header.set(new TextEncoder().encode(encryptionMagic), 0);
+    view.setUint8(6, encryptionFormatVersion);
+    view.setUint32(8, pbkdf2Iterations);
+    view.setUint32(12, defaultChunkSize);
+    header.set(crypto.getRandomValues(new Uint8Array(saltLength)), 16);
+    header.set(crypto.getRandomValues(new Uint8Array(nonceLength)), 32);
+
+    return await getPackageCipherAsync(key, header);
+}
+
+export async function getPackageCipherAsync(key: EncryptionKey, header: Uint8Array): Promise<PackageCipher> {
+    if (!isEncryptedPackage(header)) {
+        throw Error(`Package is not encrypted`);
+    }
+
+    const view = new DataView(header.buffer, header.byteOffset, encryptionHeaderLength);
+    const version = view.getUint8(6);
+
+    if (version !== encryptionFormatVersion) {
+        throw Error(`Unsupported encryption format version '${chalk.red(version.toString())}'`);
+    }
+
+    // copy as node buffers share memory when sliced
+    const packageHeader = Uint8Array.from(header.subarray(0, encryptionHeaderLength));
+    const chunkSize = view.getUint32(12);
+    const nonce = packageHeader.subarray(32, 32 + nonceLength);
+    const cryptoKey = await deriveKeyAsync(key, packageHeader.subarray(16, 16 + saltLength), view.getUint32(8));
+
+    const getChunkParams = (index: number, isFinal: boolean): webcrypto.AesGcmParams => {
+        const chunkNonce = Uint8Array.from(nonce);
+        const nonceView = new DataView(chunkNonce.buffer);
+        nonceView.setUint32(nonceLength - 4, nonceView.getUint32(nonceLength - 4) ^ index);
+
+        // final flag prevents truncation of the package
+        const additionalData = new Uint8Array(encryptionHeaderLength + 1);
+        additionalData.set(packageHeader, 0);
+        additionalData[encryptionHeaderLength] = isFinal ? 1 : 0;
+
+        return { name: 'AES-GCM', iv: chunkNonce, additionalData: additionalData, tagLength: encryptionTagLength * 8 };
+    };
+
+    return {
+        header: packageHeader,
+        chunkSize: chunkSize,
+        encryptChunkAsync: async (chunk, index, isFinal) => {
+            return new Uint8Array(await crypto.subtle.encrypt(getChunkParams(index, isFinal), cryptoKey, chunk));
+        },
+        decryptChunkAsync: async (chunk, index, isFinal) => {
+            try {
+                return new Uint8Array(await crypto.subtle.decrypt(getChunkParams(index, isFinal), cryptoKey, chunk));
+            } catch {
+                throw Error(`Failed to decrypt package. The encryption key is invalid or the package is corrupted`);
+            }
+        }
+    };
+}
+
+export async function encryptPackageAsync(data: Uint8Array, key: EncryptionKey): Promise<Uint8Array> {
+    const cipher = await createPackageCipherAsync(key);
+    const chunksCount = Math.max(1, Math.ceil(data.length / cipher.chunkSize));
+    const chunks: Uint8Array[] = [cipher.header];
+
+    for (let index = 0; index < chunksCount; index++) {
+        const chunk = data.subarray(index * cipher.chunkSize, (index + 1) * cipher.chunkSize);
+        chunks.push(await cipher.encryptChunkAsync(chunk, index, index === chunksCount - 1));
+    }
+
+    return concatBytes(chunks);
+}
+
+export async function decryptPackageAsync(data: Uint8Array, key: EncryptionKey): Promise<Uint8Array> {
+    const cipher = await getPackageCipherAsync(key, data);
+    const encryptedChunkSize = cipher.chunkSize + encryptionTagLength;
+    const encryptedData = data.subarray(encryptionHeaderLength);
+    const chunksCount = getEncryptedChunksCount(encryptedData.length, cipher.chunkSize);
+    const chunks: Uint8Array[] = [];
+
+    for (let index = 0; index < chunksCount; index++) {
+        const chunk = encryptedData.subarray(index * encryptedChunkSize, (index + 1) * encryptedChunkSize);
+        chunks.push(await cipher.decryptChunkAsync(chunk, index, index === chunksCount - 1));
+    }
+
+    return concatBytes(chunks);
+}
+
+export function getEncryptedChunksCount(encryptedDataLength: number, chunkSize: number): number {
+    return Math.max(1, Math.ceil(encryptedDataLength / (chunkSize + encryptionTagLength)));
+}
+
+async function deriveKeyAsync(key: EncryptionKey, salt: Uint8Array, iterations: number): Promise<webcrypto.CryptoKey> {
+    const keyMaterial = await crypto.subtle.importKey(
+        'raw',
+        typeof key === 'string' ? new TextEncoder().encode(key) : key,
+        'PBKDF2',
+        false,
+        ['deriveKey']
+    );
+
+    return await crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: salt, iterations: iterations },
+        keyMaterial,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+}
+
+function concatBytes(chunks: readonly Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+    let offset = 0;
+
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+
+    return result;
+}
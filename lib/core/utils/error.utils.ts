@@ -17,7 +17,8 @@ export function extractErrorData(error: unknown): ErrorData {
                     error: error,
                     message: `${error.message} ${error.validationErrors.map((m) => m.message).join(', ')}`,
                     requestUrl: originalError?.response?.config?.url,
-                    requestData: originalError?.response?.config?.data
+                    // streamed request body (i.e. uploaded binary file) is not included
+                    requestData: typeof originalError?.response?.config?.data === 'string' ? originalError.response.config.data : undefined
                 };
             }
         )
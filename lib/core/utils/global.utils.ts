@@ -2,7 +2,7 @@ import { ITrackingEventData, getTrackingService } from '@kontent-ai-consulting/t
 import { isBrowser, isNode, isWebWorker } from 'browser-or-node';
 import { format } from 'bytes';
 import { getDefaultLogger } from '../logs/loggers.js';
-import { EnvContext } from '../models/core.models.js';
+import { EnvContext, PackageFormat } from '../models/core.models.js';
 import { Logger } from '../models/log.models.js';
 import { extractErrorData } from './error.utils.js';
 
@@ -34,6 +34,14 @@ export function getCurrentEnvironment(): EnvContext {
 }
 
 export const defaultZipFilename: string = 'data.zip';
+export const defaultFolderName: string = 'data';
+export const defaultCsvFolderName: string = 'csv';
+export const defaultImportJournalFilename: string = 'import-journal.jsonl';
+export const defaultSyncStateFilename: string = 'sync-state.json';
+
+export function getDefaultPackageFilename(packageFormat: PackageFormat): string {
+    return packageFormat === 'folder' ? defaultFolderName : defaultZipFilename;
+}
 
 export async function executeWithTrackingAsync<TResult>(data: {
     readonly func: () => Promise<TResult extends void ? void : Readonly<TResult>>;
@@ -1,6 +1,10 @@
-import { HttpService, IRetryStrategyOptions } from '@kontent-ai/core-sdk';
+import { HttpService, IRetryStrategyOptions, retryHelper } from '@kontent-ai/core-sdk';
+import { SharedModels } from '@kontent-ai/management-sdk';
+import { Readable } from 'stream';
 import { match } from 'ts-pattern';
 import { OriginalManagementError } from '../models/core.models.js';
+import { sleepAsync } from './global.utils.js';
+import { mapiRequestsTracker } from './rate-limit.utils.js';
 
 const rateExceededErrorCode: number = 10000;
 
@@ -29,3 +33,72 @@ export const defaultRetryStrategy: Readonly<IRetryStrategyOptions> = {
     maxAttempts: 3,
     deltaBackoffMs: 1000
 };
+
+/**
+ * Retries of given (or default) strategy are tracked so that running processing backs off when rate limit is exceeded.
+ * Streamed request body is consumed by the first attempt & cannot be sent again, so requests with streamed body
+ * are never retried by http service. Use 'runStreamedRequestAsync' to retry them with a newly opened stream.
+ */
+export function getRetryStrategy(retryStrategy: Readonly<IRetryStrategyOptions> | undefined): Readonly<IRetryStrategyOptions> {
+    const strategy = withRetryTracking(retryStrategy ?? defaultRetryStrategy);
+
+    return {
+        ...strategy,
+        canRetryError: (err) => !hasStreamedBody(err) && (strategy.canRetryError?.(err) ?? false)
+    };
+}
+
+export async function runStreamedRequestAsync<TResult>(data: {
+    readonly openStreamAsync: () => Promise<Readable>;
+    readonly func: (stream: Readable) => Promise<TResult>;
+}): Promise<TResult> {
+    for (let retryAttempt = 0; ; retryAttempt++) {
+        const stream = await data.openStreamAsync();
+
+        try {
+            return await data.func(stream);
+        } catch (error) {
+            stream.destroy();
+
+            const retryResult = retryHelper.getRetryErrorResult({
+                retryAttempt: retryAttempt,
+                error: error instanceof SharedModels.ContentManagementBaseKontentError ? (error.originalError as unknown) : error,
+                retryStrategy: withRetryTracking(defaultRetryStrategy)
+            });
+
+            if (!retryResult.canRetry) {
+                throw error;
+            }
+
+            await sleepAsync(retryResult.retryInMs);
+        }
+    }
+}
+
+function hasStreamedBody(err: unknown): boolean {
+    const requestData = (err as { readonly config?: { readonly data?: { readonly pipe?: unknown } } } | undefined)?.config?.data;
+    return typeof requestData?.pipe === 'function';
+}
+
+function withRetryTracking(retryStrategy: Readonly<IRetryStrategyOptions>): Readonly<IRetryStrategyOptions> {
+    const canRetryError = retryStrategy.canRetryError ?? retryHelper.defaultRetryStrategy.canRetryError;
+
+    return {
+        ...retryStrategy,
+        canRetryError: (err) => {
+            const canRetry = canRetryError(err);
+
+            if (canRetry) {
+                // rate exceeded retries make running processing back off
+                mapiRequestsTracker.trackRetry(isRateExceededError(err));
+            }
+
+            return canRetry;
+        }
+    };
+}
+
+function isRateExceededError(err: unknown): boolean {
+    const originalError = err as OriginalManagementError | undefined;
+    return originalError?.response?.data?.error_code === rateExceededErrorCode || originalError?.response?.status === 429;
+}
@@ -0,0 +1,82 @@
+import chalk from 'chalk';
+import { z } from 'zod';
+import { MigrationItem } from '../models/migration.models.js';
+import { MigrationItemSchema, MigrationItemsSchema } from '../models/migration.schema.js';
+import { extractErrorData } from './error.utils.js';
+
+export interface JsonLine {
+    readonly lineNumber: number;
+    readonly value: unknown;
+}
+
+export function toJsonLines(values: readonly unknown[]): string {
+    return Array.from(getJsonLines(values)).join('');
+}
+
+export function* getJsonLines(values: readonly unknown[]): Generator<string> {
+    for (const value of values) {
+        yield `${JSON.stringify(value)}\n`;
+    }
+}
+
+/**
+ * Reads JSON Lines (one JSON value per line) without loading the whole input in memory. Empty lines are skipped.
+ */
+export async function* readJsonLinesAsync(lines: AsyncIterable<string> | Iterable<string>): AsyncGenerator<JsonLine> {
+    let lineNumber = 0;
+
+    for await (const line of lines) {
+        lineNumber++;
+
+        if (!line.trim()) {
+            continue;
+        }
+
+        yield { lineNumber: lineNumber, value: parseJsonLine(line, lineNumber) };
+    }
+}
+
+export function parseJsonLineValue<T>(line: JsonLine, schema: z.ZodType<T>): T {
+    const result = schema.safeParse(line.value);
+
+    if (!result.success) {
+        throw Error(
+            `Invalid value on line '${chalk.red(line.lineNumber.toString())}': ${result.error.issues
+                .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+                .join(', ')}`
+        );
+    }
+
+    return result.data;
+}
+
+/**
+ * Streams migration items from JSON Lines & validates every line
+ */
+export async function* parseItemsJsonLinesAsync(lines: AsyncIterable<string> | Iterable<string>): AsyncGenerator<MigrationItem> {
+    for await (const line of readJsonLinesAsync(lines)) {
+        yield parseJsonLineValue(line, MigrationItemSchema);
+    }
+}
+
+/**
+ * Validates raw items of the package. When items were read from JSON Lines, errors reference line numbers of invalid items.
+ */
+export function parseMigrationItems(rawItems: unknown, lines: readonly JsonLine[] | undefined): readonly MigrationItem[] {
+    if (!lines) {
+        return MigrationItemsSchema.parse(rawItems ?? []);
+    }
+
+    return z
+        .array(z.unknown())
+        .parse(rawItems)
+        .map((item, index) => parseJsonLineValue({ lineNumber: lines[index].lineNumber, value: item }, MigrationItemSchema));
+}
+
+function parseJsonLine(line: string, lineNumber: number): unknown {
+    try {
+        return JSON.parse(line) as unknown;
+    } catch (error) {
+        throw Error(`Invalid JSON on line '${chalk.red(lineNumber.toString())}': ${extractErrorData(error).message}`);
+    }
+}
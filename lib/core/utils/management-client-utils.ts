@@ -17,7 +17,7 @@ import { FlattenedContentType, FlattenedContentTypeElement } from '../models/cor
 import { LogSpinnerData, Logger } from '../models/log.models.js';
 import { findRequired } from './array.utils.js';
 import { isNotUndefined } from './global.utils.js';
-import { defaultHttpService, defaultRetryStrategy } from './http.utils.js';
+import { defaultHttpService, getRetryStrategy } from './http.utils.js';
 import { runMapiRequestAsync } from './run.utils.js';
 
 export interface ManagementClientConfig {
@@ -30,7 +30,7 @@ export interface ManagementClientConfig {
 export function getMigrationManagementClient(config: ManagementClientConfig): Readonly<ManagementClient> {
     return createManagementClient({
         environmentId: config.environmentId,
-        retryStrategy: config.retryStrategy ?? defaultRetryStrategy,
+        retryStrategy: getRetryStrategy(config.retryStrategy),
         httpService: defaultHttpService,
         apiKey: config.apiKey,
         baseUrl: config.baseUrl,
@@ -154,22 +154,31 @@ export function managementClientUtils(client: Readonly<ManagementClient>, logger
             .filter(isNotUndefined);
     };
 
-    const getFlattenedContentTypesAsync = async (logSpinner: LogSpinnerData): Promise<readonly FlattenedContentType[]> => {
-        const contentTypes = await runMapiRequestAsync({
+    const getAllContentTypesAsync = async (logSpinner: LogSpinnerData): Promise<readonly ContentTypeModels.ContentType[]> => {
+        return await runMapiRequestAsync({
             logger: logger,
             logSpinner: logSpinner,
             func: async () => (await client.listContentTypes().toAllPromise()).data.items,
             action: 'list',
             type: 'contentType'
         });
+    };
 
-        const contentTypeSnippets = await runMapiRequestAsync({
+    const getAllContentTypeSnippetsAsync = async (
+        logSpinner: LogSpinnerData
+    ): Promise<readonly ContentTypeSnippetModels.ContentTypeSnippet[]> => {
+        return await runMapiRequestAsync({
             logger: logger,
             logSpinner: logSpinner,
             func: async () => (await client.listContentTypeSnippets().toAllPromise()).data.items,
             action: 'list',
             type: 'contentTypeSnippet'
         });
+    };
+
+    const getFlattenedContentTypesAsync = async (logSpinner: LogSpinnerData): Promise<readonly FlattenedContentType[]> => {
+        const contentTypes = await getAllContentTypesAsync(logSpinner);
+        const contentTypeSnippets = await getAllContentTypeSnippetsAsync(logSpinner);
 
         return [
             ...contentTypes.map((contentType) => {
@@ -189,6 +198,8 @@ export function managementClientUtils(client: Readonly<ManagementClient>, logger
         getAllLanguagesAsync,
         getAllWorkflowsAsync,
         getAllTaxonomiesAsync,
+        getAllContentTypesAsync,
+        getAllContentTypeSnippetsAsync,
         getFlattenedContentTypesAsync,
         getEnvironmentAsync,
         getAllAssetFoldersAsync
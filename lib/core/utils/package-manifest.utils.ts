@@ -0,0 +1,142 @@
+import { Buffer as BufferProxy } from 'buffer';
+import chalk from 'chalk';
+import { Readable } from 'stream';
+import { libMetadata } from '../../metadata.js';
+import { FileBinaryData } from '../../zip/index.js';
+import { Logger } from '../models/log.models.js';
+import { MigrationAsset, MigrationData, PackageMetadata } from '../models/migration.models.js';
+import { PackageMetadataSchema } from '../models/migration.schema.js';
+import { geSizeInBytes, isLazyBinaryData, loadBinaryDataAsync } from './binary-data.utils.js';
+
+export const packageManifestFilename: string = 'manifest.json';
+export const packageSchemaVersion: number = 1;
+
+export async function getChecksumAsync(data: FileBinaryData): Promise<string> {
+    const hash = await crypto.subtle.digest('SHA-256', data instanceof Blob ? await data.arrayBuffer() : data);
+    return BufferProxy.from(hash).toString('hex');
+}
+
+export function getPackageManifest(data: MigrationData, checksums: Readonly<Record<string, string>>): PackageMetadata {
+    return {
+        toolkitVersion: libMetadata.version,
+        schemaVersion: packageSchemaVersion,
+        created: new Date().toISOString(),
+        source: data.source,
+        volume: data.volume,
+        dataOverview: {
+            contentItemsCount: data.items.length,
+            assetsCount: data.assets.length
+        },
+        checksums: checksums
+    };
+}
+
+/**
+ * Verifies package against its manifest. Binaries that are already loaded are verified immediately,
+ * lazy binaries are verified once they are loaded.
+ */
+export async function verifyPackageManifestAsync(config: {
+    readonly manifest: unknown;
+    readonly data: MigrationData;
+    readonly logger: Logger;
+}): Promise<MigrationData> {
+    if (!config.manifest) {
+        config.logger.log({
+            type: 'warning',
+            message: `Package does not contain '${chalk.yellow(packageManifestFilename)}'. Integrity of the package cannot be verified`
+        });
+        return config.data;
+    }
+
+    const manifest = PackageMetadataSchema.parse(config.manifest);
+
+    if (manifest.toolkitVersion !== libMetadata.version) {
+        config.logger.log({
+            type: 'warning',
+            message: `Package was created with toolkit version '${chalk.yellow(manifest.toolkitVersion)}' while current version is '${chalk.yellow(
+                libMetadata.version
+            )}'`
+        });
+    }
+
+    if (
+        manifest.dataOverview.contentItemsCount !== config.data.items.length ||
+        manifest.dataOverview.assetsCount !== config.data.assets.length
+    ) {
+        throw Error(
+            `Package is corrupted. Manifest lists '${chalk.red(manifest.dataOverview.contentItemsCount.toString())}' items & '${chalk.red(
+                manifest.dataOverview.assetsCount.toString()
+            )}' assets, but package contains '${chalk.red(config.data.items.length.toString())}' items & '${chalk.red(
+                config.data.assets.length.toString()
+            )}' assets`
+        );
+    }
+
+    const assets: MigrationAsset[] = [];
+
+    for (const asset of config.data.assets) {
+        assets.push(await getVerifiedAssetAsync(asset, manifest.checksums[asset.codename]));
+    }
+
+    return {
+        ...config.data,
+        assets: assets,
+        source: manifest.source,
+        volume: manifest.volume
+    };
+}
+
+async function getVerifiedAssetAsync(asset: MigrationAsset, checksum: string | undefined): Promise<MigrationAsset> {
+    const verifyAsync = async (data: FileBinaryData): Promise<FileBinaryData> => {
+        if ((await getChecksumAsync(data)) !== checksum) {
+            throw Error(`Binary data of asset '${chalk.red(asset.codename)}' is corrupted. Checksum does not match package manifest`);
+        }
+        return data;
+    };
+
+    if (!isLazyBinaryData(asset.binary_data)) {
+        return { ...asset, binary_data: await verifyAsync(asset.binary_data) };
+    }
+
+    const binaryData = asset.binary_data;
+    const openStreamAsync = binaryData.openStreamAsync;
+
+    return {
+        ...asset,
+        binary_data: {
+            size: geSizeInBytes(binaryData),
+            loadAsync: async () => await verifyAsync(await loadBinaryDataAsync(binaryData)),
+            openStreamAsync: openStreamAsync
+                ? async () => await getVerifiedStreamAsync(await openStreamAsync(), checksum, asset.codename)
+                : undefined
+        }
+    };
+}
+
+/**
+ * Checksum of streamed data is computed as the data flows through. Stream fails at its end when checksum does not match
+ */
+async function getVerifiedStreamAsync(stream: Readable, checksum: string | undefined, assetCodename: string): Promise<Readable> {
+    // node.js modules are loaded dynamically as streams are not available in browser
+    const { createHash } = await import('crypto');
+    const { pipeline, Transform } = await import('stream');
+    const hash = createHash('sha256');
+
+    return pipeline(
+        stream,
+        new Transform({
+            transform(chunk: BufferProxy, _encoding, callback) {
+                hash.update(chunk);
+                callback(null, chunk);
+            },
+            flush(callback) {
+                callback(
+                    hash.digest('hex') === checksum
+                        ? null
+                        : Error(`Binary data of asset '${chalk.red(assetCodename)}' is corrupted. Checksum does not match package manifest`)
+                );
+            }
+        }),
+        () => {}
+    );
+}
@@ -0,0 +1,119 @@
+import chalk from 'chalk';
+import { z } from 'zod';
+import { Logger } from '../models/log.models.js';
+import { packageSchemaVersion } from './package-manifest.utils.js';
+
+/**
+ * Package data as stored in the package before it's validated with current schemas
+ */
+export interface RawPackageData {
+    readonly items: unknown;
+    readonly assets: unknown;
+    readonly contentModel: unknown;
+}
+
+interface PackageUpgrader {
+    readonly fromVersion: number;
+    readonly description: string;
+    readonly upgrade: (data: RawPackageData) => RawPackageData;
+}
+
+type RawRecord = Readonly<Record<string, unknown>>;
+
+const PackageSchemaVersionSchema = z.object({ schemaVersion: z.number() });
+
+/**
+ * Upgraders are applied in sequence starting with the version of the package. Every upgrader
+ * migrates the data to the next schema version.
+ */
+const packageUpgraders: readonly PackageUpgrader[] = [
+    {
+        fromVersion: 0,
+        description: 'flattens element values of packages created before schema versioning',
+        upgrade: (data) => {
+            return {
+                ...data,
+                items: Array.isArray(data.items) ? data.items.map((item) => upgradeUnversionedItem(item)) : data.items
+            };
+        }
+    }
+];
+
+export function getPackageSchemaVersion(manifest: unknown): number {
+    // packages created before schema versioning do not contain manifest
+    return manifest ? PackageSchemaVersionSchema.parse(manifest).schemaVersion : 0;
+}
+
+export function upgradePackageData(config: {
+    readonly manifest: unknown;
+    readonly data: RawPackageData;
+    readonly logger: Logger;
+}): RawPackageData {
+    const schemaVersion = getPackageSchemaVersion(config.manifest);
+
+    if (schemaVersion > packageSchemaVersion) {
+        throw Error(
+            `Package schema version '${chalk.red(schemaVersion.toString())}' is newer than supported version '${chalk.yellow(
+                packageSchemaVersion.toString()
+            )}'. Update the toolkit to load this package`
+        );
+    }
+
+    return packageUpgraders
+        .filter((upgrader) => upgrader.fromVersion >= schemaVersion)
+        .reduce<RawPackageData>((data, upgrader) => {
+            config.logger.log({
+                type: 'info',
+                message: `Upgrading package from schema version '${chalk.yellow(upgrader.fromVersion.toString())}' to '${chalk.yellow(
+                    (upgrader.fromVersion + 1).toString()
+                )}' (${upgrader.description})`
+            });
+
+            return upgrader.upgrade(data);
+        }, config.data);
+}
+
+function upgradeUnversionedItem(item: unknown): unknown {
+    if (!isRawRecord(item) || !Array.isArray(item.versions)) {
+        return item;
+    }
+
+    return {
+        ...item,
+        versions: item.versions.map((version: unknown) =>
+            isRawRecord(version) ? { ...version, elements: upgradeUnversionedElements(version.elements) } : version
+        )
+    };
+}
+
+function upgradeUnversionedElements(elements: unknown): unknown {
+    if (!isRawRecord(elements)) {
+        return elements;
+    }
+
+    return Object.fromEntries(Object.entries(elements).map(([codename, element]) => [codename, upgradeUnversionedElement(element)]));
+}
+
+function upgradeUnversionedElement(element: unknown): unknown {
+    if (!isRawRecord(element)) {
+        return element;
+    }
+
+    // toolkit 1.x stored element options (i.e. components, url slug mode or display timezone) along with the value
+    const flattenedElement: RawRecord = isRawRecord(element.value) ? { ...element, ...element.value } : element;
+
+    if (!Array.isArray(flattenedElement.components)) {
+        return flattenedElement;
+    }
+
+    return {
+        ...flattenedElement,
+        components: flattenedElement.components.map((component: unknown) =>
+            isRawRecord(component) ? { ...component, elements: upgradeUnversionedElements(component.elements) } : component
+        )
+    };
+}
+
+function isRawRecord(value: unknown): value is RawRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,7 +1,7 @@
 import chalk from 'chalk';
-import pLimit from 'p-limit';
-import { ItemInfo, ItemProcessingResult } from '../models/core.models.js';
+import { ConcurrencyConfig, ItemInfo, ItemProcessingResult, ProcessingStage } from '../models/core.models.js';
 import { LogSpinnerData, Logger } from '../models/log.models.js';
+import { adaptiveLimiter } from './rate-limit.utils.js';
 
 type ProcessSetAction =
     | 'Fetching assets'
@@ -12,14 +12,32 @@ type ProcessSetAction =
     | 'Importing language variants'
     | 'Fetching language variants'
     | 'Upserting assets'
-    | 'Uploading assets';
+    | 'Uploading assets'
+    | 'Rolling back language variants'
+    | 'Rolling back content items'
+    | 'Rolling back assets'
+    | 'Rolling back content types'
+    | 'Rolling back content type snippets';
+
+export const defaultConcurrency: Readonly<Record<ProcessingStage, number>> = {
+    fetch: 1,
+    downloads: 5,
+    contentItems: 1,
+    languageVariants: 1,
+    assets: 3,
+    assetEdits: 1
+};
+
+export function getConcurrency(config: ConcurrencyConfig | undefined, stage: ProcessingStage): number {
+    return config?.[stage] ?? defaultConcurrency[stage];
+}
 
 export async function processItemsAsync<InputItem, OutputItem>(data: {
     readonly action: ProcessSetAction;
     readonly logger: Logger;
     readonly items: Readonly<InputItem[]>;
     readonly parallelLimit: number;
-    readonly processAsync: (item: Readonly<InputItem>, logSpinner: LogSpinnerData) => Promise<Readonly<OutputItem> | '404'>;
+    readonly processAsync: (item: Readonly<InputItem>, logSpinner: LogSpinnerData) => Promise<Readonly<OutputItem> | '404' | 'skipped'>;
     readonly itemInfo: (item: Readonly<InputItem>) => ItemInfo;
 }): Promise<readonly ItemProcessingResult<InputItem, OutputItem>[]> {
     if (!data.items.length) {
@@ -29,14 +47,14 @@ export async function processItemsAsync<InputItem, OutputItem>(data: {
     const firstItemInfo = data.itemInfo(data.items[0]);
 
     return await data.logger.logWithSpinnerAsync(async (logSpinner) => {
-        const limit = pLimit(data.parallelLimit);
+        const limiter = adaptiveLimiter(data.parallelLimit);
         let processedItemsCount: number = 1;
 
         const requests: Promise<ItemProcessingResult<InputItem, OutputItem>>[] = data.items.map((item) =>
-            limit(() => {
+            limiter.runAsync(() => {
                 return data
                     .processAsync(item, logSpinner)
-                    .then<OutputItem | '404'>((output) => {
+                    .then<OutputItem | '404' | 'skipped'>((output) => {
                         const itemInfo = data.itemInfo(item);
                         const prefix = getPercentagePrefix(processedItemsCount, data.items.length);
 
@@ -56,6 +74,12 @@ export async function processItemsAsync<InputItem, OutputItem>(data: {
                                 inputItem: item
                             };
                         }
+                        if (outputItem === 'skipped') {
+                            return {
+                                state: 'skipped',
+                                inputItem: item
+                            };
+                        }
                         return {
                             inputItem: item,
                             outputItem: outputItem,
@@ -79,17 +103,19 @@ export async function processItemsAsync<InputItem, OutputItem>(data: {
             type: firstItemInfo.itemType
         });
 
-        // Only '<parallelLimit>' promises at a time
-        const resultItems = await Promise.all(requests);
+        // Only '<parallelLimit>' promises at a time (less when rate limit is exceeded)
+        const resultItems = await Promise.all(requests).finally(() => limiter.dispose());
 
         const failedItemsCount = resultItems.filter((m) => m.state === 'error').length;
         const failedText = failedItemsCount ? ` Failed '${chalk.red(failedItemsCount)}' items` : ``;
+        const skippedItemsCount = resultItems.filter((m) => m.state === 'skipped').length;
+        const skippedText = skippedItemsCount ? ` Skipped '${chalk.gray(skippedItemsCount)}' unchanged items.` : ``;
 
         logSpinner({
             type: 'info',
             message: `Completed '${chalk.yellow(data.action)}'. Successfully processed '${chalk.green(
                 resultItems.filter((m) => m.state === 'valid').length
-            )}' items.${failedText}`
+            )}' items.${skippedText}${failedText}`
         });
 
         return resultItems;
@@ -0,0 +1,128 @@
+import chalk from 'chalk';
+
+export interface MapiRequestsStats {
+    readonly timestamp: number;
+    readonly requests: number;
+    readonly retries: number;
+    readonly rateExceededRetries: number;
+}
+
+type RateExceededListener = () => void;
+
+const maxDelayMs: number = 5000;
+const minDelayMs: number = 100;
+
+const rateExceededListeners = new Set<RateExceededListener>();
+const requestsStats: { requests: number; retries: number; rateExceededRetries: number } = {
+    requests: 0,
+    retries: 0,
+    rateExceededRetries: 0
+};
+
+/**
+ * Tracks Management API requests & retries so that processing can adapt to rate limits & throughput can be reported
+ */
+export const mapiRequestsTracker = {
+    trackRequest(): void {
+        requestsStats.requests++;
+    },
+    trackRetry(isRateExceeded: boolean): void {
+        requestsStats.retries++;
+
+        if (isRateExceeded) {
+            requestsStats.rateExceededRetries++;
+            rateExceededListeners.forEach((listener) => listener());
+        }
+    },
+    onRateExceeded(listener: RateExceededListener): () => void {
+        rateExceededListeners.add(listener);
+        return () => rateExceededListeners.delete(listener);
+    },
+    getStats(): MapiRequestsStats {
+        return { ...requestsStats, timestamp: Date.now() };
+    }
+};
+
+export function getMapiRequestsStatsMessage(since: MapiRequestsStats): string {
+    const stats = mapiRequestsTracker.getStats();
+    const requests = stats.requests - since.requests;
+    const seconds = Math.max((stats.timestamp - since.timestamp) / 1000, 0.001);
+
+    return `Sent '${chalk.yellow(requests)}' requests in '${chalk.yellow(seconds.toFixed(1))}s' ('${chalk.yellow(
+        (requests / seconds).toFixed(2)
+    )}' requests per second). Retried '${chalk.yellow(stats.retries - since.retries)}' requests ('${chalk.yellow(
+        stats.rateExceededRetries - since.rateExceededRetries
+    )}' due to rate limit)`;
+}
+
+/**
+ * Runs up to 'maxConcurrency' tasks at a time. When rate limit is exceeded, concurrency is halved & once it can't be lowered
+ * anymore, a delay between tasks is introduced. Every successful task ramps the limiter up again.
+ */
+export function adaptiveLimiter(maxConcurrency: number) {
+    const queue: (() => void)[] = [];
+    let concurrency: number = Math.max(1, maxConcurrency);
+    let delayMs: number = 0;
+    let activeCount: number = 0;
+    let successesCount: number = 0;
+
+    const next = (): void => {
+        while (activeCount < concurrency && queue.length) {
+            activeCount++;
+            queue.shift()?.();
+        }
+    };
+
+    const backOff = (): void => {
+        successesCount = 0;
+
+        if (concurrency > 1) {
+            concurrency = Math.max(1, Math.floor(concurrency / 2));
+        } else {
+            delayMs = Math.min(maxDelayMs, Math.max(minDelayMs, delayMs * 2));
+        }
+    };
+
+    const rampUp = (): void => {
+        successesCount++;
+
+        if (delayMs) {
+            delayMs = delayMs / 2 < minDelayMs ? 0 : delayMs / 2;
+        } else if (concurrency < maxConcurrency && successesCount >= concurrency) {
+            concurrency++;
+            successesCount = 0;
+        }
+    };
+
+    const unsubscribe = mapiRequestsTracker.onRateExceeded(backOff);
+
+    return {
+        async runAsync<T>(func: () => Promise<T>): Promise<T> {
+            return await new Promise<T>((resolve, reject) => {
+                queue.push(() => {
+                    new Promise((resolveDelay) => setTimeout(resolveDelay, delayMs))
+                        .then(func)
+                        .then((result) => {
+                            rampUp();
+                            resolve(result);
+                        }, reject)
+                        .finally(() => {
+                            activeCount--;
+                            next();
+                        });
+                });
+
+                next();
+            });
+        },
+        getConcurrency(): number {
+            return concurrency;
+        },
+        getDelayMs(): number {
+            return delayMs;
+        },
+        dispose(): void {
+            unsubscribe();
+        }
+    };
+}
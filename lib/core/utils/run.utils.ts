@@ -2,6 +2,8 @@ import chalk from 'chalk';
 import { match } from 'ts-pattern';
 import { MapiAction, MapiType } from '../models/core.models.js';
 import { LogMessage, LogSpinnerData, Logger } from '../models/log.models.js';
+import { extractErrorData, is404Error } from './error.utils.js';
+import { mapiRequestsTracker } from './rate-limit.utils.js';
 
 export async function runMapiRequestAsync<TResult>(data: {
     readonly logger: Logger;
@@ -10,6 +12,8 @@ export async function runMapiRequestAsync<TResult>(data: {
     readonly type: MapiType;
     readonly func: () => Promise<TResult>;
     readonly itemName?: string;
+    readonly itemCodename?: string;
+    readonly languageCodename?: string;
 }): Promise<TResult> {
     const logData: LogMessage = match(data)
         .returnType<LogMessage>()
@@ -38,13 +42,56 @@ export async function runMapiRequestAsync<TResult>(data: {
             };
         });
 
+    const requestLogData: LogMessage = {
+        ...logData,
+        mapiType: data.type,
+        itemCodename: data.itemCodename,
+        languageCodename: data.languageCodename
+    };
+
+    // request is logged when it starts so that failed & long running requests (i.e. binary uploads) are visible
     logSpinnerOrDefault({
         logSpinner: data.logSpinner,
         logger: data.logger,
-        logData: logData
+        logData: requestLogData
     });
 
-    return await data.func();
+    mapiRequestsTracker.trackRequest();
+
+    const startTime = performance.now();
+
+    try {
+        const result = await data.func();
+        const durationMs = Math.round(performance.now() - startTime);
+
+        logSpinnerOrDefault({
+            logSpinner: data.logSpinner,
+            logger: data.logger,
+            logData: {
+                ...requestLogData,
+                message: `${requestLogData.message} (${chalk.yellow(`${durationMs}ms`)})`,
+                durationMs: durationMs
+            }
+        });
+
+        return result;
+    } catch (error) {
+        // missing objects are expected by callers checking whether object exists
+        const isNotFound = is404Error(error);
+
+        logSpinnerOrDefault({
+            logSpinner: data.logSpinner,
+            logger: data.logger,
+            logData: {
+                ...requestLogData,
+                type: isNotFound ? requestLogData.type : 'errorData',
+                message: `${requestLogData.message} ${isNotFound ? 'not found' : `failed: ${extractErrorData(error).message}`}`,
+                durationMs: Math.round(performance.now() - startTime)
+            }
+        });
+
+        throw error;
+    }
 }
 
 function logSpinnerOrDefault(data: {
@@ -0,0 +1,217 @@
+import chalk from 'chalk';
+import { match, P } from 'ts-pattern';
+import {
+    FlattenedContentType,
+    FlattenedContentTypeElement,
+    Logger,
+    MigrationElement,
+    MigrationElements,
+    MigrationItem,
+    MigrationItemVersion,
+    parseAsMigrationReferencesArray
+} from '../core/index.js';
+import { CsvSheet } from './csv.models.js';
+import { CsvRow, parseCsv, toCsv } from './csv.utils.js';
+
+const systemColumns = {
+    codename: 'system.codename',
+    name: 'system.name',
+    language: 'system.language',
+    collection: 'system.collection',
+    workflow: 'system.workflow',
+    workflowStep: 'system.workflow_step'
+} as const;
+
+const requiredSystemColumns: readonly (keyof typeof systemColumns)[] = ['codename', 'name', 'language'];
+
+const referencesSeparator: string = ',';
+
+/**
+ * Published step has the same codename in every workflow
+ */
+const publishedStepCodename: string = 'published';
+
+/**
+ * Transforms migration items to flat csv sheets (one per content type) with a row per item & language
+ * and a column per element. Only the latest version of each language variant (draft version when it exists) is included.
+ */
+export function csvTransformer(logger: Logger) {
+    /**
+     * When language variant has both published & draft version, the draft version is the latest one
+     */
+    const getLatestVersion = (item: MigrationItem): MigrationItemVersion | undefined => {
+        return item.versions.find((version) => version.workflow_step.codename !== publishedStepCodename) ?? item.versions[0];
+    };
+
+    const getElementValue = (item: MigrationItem, elementCodename: string, element: MigrationElement | undefined): string => {
+        if (!element) {
+            return '';
+        }
+
+        return match(element.type)
+            .returnType<string>()
+            .with(P.union('asset', 'modular_content', 'subpages', 'taxonomy', 'multiple_choice'), () =>
+                parseAsMigrationReferencesArray(element.value)
+                    .map((reference) => reference.codename)
+                    .join(referencesSeparator)
+            )
+            .otherwise((type) => {
+                if (type === 'rich_text' && element.components?.length) {
+                    logger.log({
+                        type: 'warning',
+                        message: `Components of element '${chalk.yellow(elementCodename)}' in item '${chalk.yellow(
+                            item.system.codename
+                        )}' cannot be stored in csv`
+                    });
+                }
+
+                return element.value?.toString() ?? '';
+            });
+    };
+
+    const transformItems = (items: readonly MigrationItem[]): readonly CsvSheet[] => {
+        const itemsByType = new Map<string, MigrationItem[]>();
+
+        for (const item of items) {
+            itemsByType.set(item.system.type.codename, [...(itemsByType.get(item.system.type.codename) ?? []), item]);
+        }
+
+        return Array.from(itemsByType.entries()).map<CsvSheet>(([contentTypeCodename, typeItems]) => {
+            const elementCodenames = Array.from(new Set(typeItems.flatMap((item) => Object.keys(getLatestVersion(item)?.elements ?? {}))));
+
+            const rows = typeItems.map<CsvRow>((item) => {
+                const latestVersion = getLatestVersion(item);
+
+                return [
+                    item.system.codename,
+                    item.system.name,
+                    item.system.language.codename,
+                    item.system.collection.codename,
+                    item.system.workflow.codename,
+                    latestVersion?.workflow_step.codename ?? '',
+                    ...elementCodenames.map((codename) => getElementValue(item, codename, latestVersion?.elements[codename]))
+                ];
+            });
+
+            return {
+                contentTypeCodename: contentTypeCodename,
+                filename: `${contentTypeCodename}.csv`,
+                csv: toCsv([[...Object.values(systemColumns), ...elementCodenames], ...rows])
+            };
+        });
+    };
+
+    const parseElement = (element: FlattenedContentTypeElement, value: string): MigrationElement => {
+        return match(element.type)
+            .returnType<MigrationElement>()
+            .with(P.union('asset', 'modular_content', 'subpages', 'taxonomy', 'multiple_choice'), (type) => {
+                return {
+                    type: type,
+                    value: value
+                        .split(referencesSeparator)
+                        .map((codename) => codename.trim())
+                        .filter((codename) => codename.length)
+                        .map((codename) => ({ codename: codename }))
+                };
+            })
+            .with('number', (type) => {
+                const numberValue = value.trim() ? Number(value) : undefined;
+
+                if (numberValue !== undefined && isNaN(numberValue)) {
+                    throw Error(`Invalid number '${chalk.red(value)}' in element '${chalk.red(element.codename)}'`);
+                }
+
+                return { type: type, value: numberValue };
+            })
+            .with('url_slug', (type) => {
+                // edited slugs are kept as they are, otherwise the slug would be generated from the item again
+                return { type: type, value: value || undefined, mode: value ? 'custom' : 'autogenerated' };
+            })
+            .otherwise((type) => {
+                return { type: type, value: value || undefined };
+            });
+    };
+
+    const parseSheet = (sheet: Pick<CsvSheet, 'csv' | 'filename'>, contentType: FlattenedContentType): readonly MigrationItem[] => {
+        const [header, ...rows] = parseCsv(sheet.csv);
+
+        if (!header) {
+            return [];
+        }
+
+        const getColumnIndex = (column: string): number => {
+            const index = header.indexOf(column);
+
+            if (index < 0) {
+                throw Error(`Missing column '${chalk.red(column)}' in csv '${chalk.red(sheet.filename)}'`);
+            }
+
+            return index;
+        };
+
+        const systemColumnIndexes = {
+            codename: getColumnIndex(systemColumns.codename),
+            name: getColumnIndex(systemColumns.name),
+            language: getColumnIndex(systemColumns.language),
+            collection: getColumnIndex(systemColumns.collection),
+            workflow: getColumnIndex(systemColumns.workflow),
+            workflowStep: getColumnIndex(systemColumns.workflowStep)
+        };
+
+        const elementColumns = header
+            .map((column, index) => ({ column, index }))
+            .filter(({ column }) => !Object.values<string>(systemColumns).includes(column))
+            .map(({ column, index }) => {
+                const element = contentType.elements.find((element) => element.codename === column);
+
+                if (!element) {
+                    throw Error(
+                        `Element '${chalk.red(column)}' does not exist in content type '${chalk.red(contentType.contentTypeCodename)}'`
+                    );
+                }
+
+                return { element, index };
+            });
+
+        return rows
+            .map((row, index) => ({ row, rowNumber: index + 2 }))
+            .filter(({ row }) => row.some((value) => value.trim()))
+            .map<MigrationItem>(({ row, rowNumber }) => {
+                for (const column of requiredSystemColumns) {
+                    if (!row[systemColumnIndexes[column]]?.trim()) {
+                        throw Error(
+                            `Missing value of column '${chalk.red(systemColumns[column])}' in row '${chalk.red(rowNumber.toString())}' of csv '${chalk.red(
+                                sheet.filename
+                            )}'`
+                        );
+                    }
+                }
+
+                const elements = elementColumns.reduce<MigrationElements>((elements, { element, index }) => {
+                    return { ...elements, [element.codename]: parseElement(element, row[index] ?? '') };
+                }, {});
+
+                return {
+                    system: {
+                        codename: row[systemColumnIndexes.codename],
+                        name: row[systemColumnIndexes.name],
+                        language: { codename: row[systemColumnIndexes.language] },
+                        type: { codename: contentType.contentTypeCodename },
+                        collection: { codename: row[systemColumnIndexes.collection] },
+                        workflow: { codename: row[systemColumnIndexes.workflow] }
+                    },
+                    versions: [
+                        {
+                            workflow_step: { codename: row[systemColumnIndexes.workflowStep] },
+                            elements: elements
+                        }
+                    ]
+                };
+            });
+    };
+
+    return {
+        transformItems,
+        parseSheet
+    };
+}
@@ -0,0 +1,5 @@
+export interface CsvSheet {
+    readonly contentTypeCodename: string;
+    readonly filename: string;
+    readonly csv: string;
+}
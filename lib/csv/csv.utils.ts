@@ -0,0 +1,78 @@
+export type CsvRow = readonly string[];
+
+const byteOrderMark: string = '\uFEFF';
+
+/**
+ * Values starting with these characters are interpreted as formulas by spreadsheet applications (csv injection). Leading
+ * apostrophes are matched as well so that values already starting with apostrophe round-trip.
+ */
+const formulaPrefixRegex: RegExp = /^'*[=+\-@]/;
+const formulaEscape: string = `'`;
+
+/**
+ * Creates RFC 4180 compliant csv. Byte order mark is included so that spreadsheet applications detect UTF-8 encoding &
+ * values that could be interpreted as formulas are prefixed with apostrophe. The prefix is removed by 'parseCsv'.
+ */
+export function toCsv(rows: readonly CsvRow[]): string {
+    return byteOrderMark + rows.map((row) => row.map((value) => escapeCsvValue(value)).join(',')).join('\r\n') + '\r\n';
+}
+
+export function parseCsv(csv: string): readonly CsvRow[] {
+    const text = csv.startsWith(byteOrderMark) ? csv.slice(byteOrderMark.length) : csv;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let value: string = '';
+    let isQuoted: boolean = false;
+
+    for (let index = 0; index < text.length; index++) {
+        const char = text[index];
+
+        if (isQuoted) {
+            if (char === '"' && text[index + 1] === '"') {
+                value += '"';
+                index++;
+            } else if (char === '"') {
+                isQuoted = false;
+            } else {
+                value += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            isQuoted = true;
+        } else if (char === ',') {
+            row.push(unescapeCsvValue(value));
+            value = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[index + 1] === '\n') {
+                index++;
+            }
+            rows.push([...row, unescapeCsvValue(value)]);
+            row = [];
+            value = '';
+        } else {
+            value += char;
+        }
+    }
+
+    if (isQuoted) {
+        throw Error(`Invalid csv. Quoted value is not terminated`);
+    }
+
+    if (value || row.length) {
+        rows.push([...row, unescapeCsvValue(value)]);
+    }
+
+    return rows;
+}
+
+function escapeCsvValue(value: string): string {
+    const safeValue = formulaPrefixRegex.test(value) ? `${formulaEscape}${value}` : value;
+
+    return /[",\r\n]/.test(safeValue) ? `"${safeValue.replaceAll('"', '""')}"` : safeValue;
+}
+
+function unescapeCsvValue(value: string): string {
+    return value.startsWith(formulaEscape) && formulaPrefixRegex.test(value) ? value.slice(formulaEscape.length) : value;
+}
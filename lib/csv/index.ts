@@ -0,0 +1,3 @@
+export * from './csv.models.js';
+export * from './csv.utils.js';
+export * from './csv-transformer.js';
@@ -9,28 +9,50 @@ import {
 import chalk from 'chalk';
 import {
     AssetStateInSourceEnvironmentById,
+    extractErrorData,
     findRequired,
     FlattenedContentType,
     is404Error,
     ItemStateInSourceEnvironmentById,
     LogSpinnerData,
     managementClientUtils,
+    getConcurrency,
     processItemsAsync,
     runMapiRequestAsync,
+    SyncState,
     workflowHelper
 } from '../../core/index.js';
-import { itemsExtractionProcessor } from '../../translation/index.js';
+import { ExtractItemById, itemsExtractionProcessor } from '../../translation/index.js';
 import {
     DefaultExportContextConfig,
     ExportContext,
     ExportContextEnvironmentData,
     ExportItem,
     ExportItemVersion,
+    ExportQuery,
     GetFlattenedElementByIds,
     SourceExportItem
 } from '../export.models.js';
 import { throwErrorForItemRequest } from '../utils/export.utils.js';
 
+interface ExportDependency {
+    readonly parentKey: string;
+    readonly childKey: string;
+}
+
+interface DependencyRoot extends ExtractItemById {
+    readonly requestItem: SourceExportItem;
+    readonly contentItem: Readonly<ContentItemModels.ContentItem>;
+}
+
+interface PreparedExportItems {
+    readonly exportItems: readonly ExportItem[];
+    /**
+     * Language variants not modified since last sync. These are not exported, but their dependencies are crawled
+     */
+    readonly unmodifiedItems: readonly DependencyRoot[];
+}
+
 export async function exportContextFetcherAsync(config: DefaultExportContextConfig) {
     const getEnvironmentDataAsync = async (): Promise<ExportContextEnvironmentData> => {
         const mapiUtils = managementClientUtils(config.managementClient, config.logger);
@@ -67,30 +89,40 @@ export async function exportContextFetcherAsync(config: DefaultExportContextConf
             },
             action: 'view',
             type: 'contentItem',
-            itemName: `codename -> ${sourceItem.itemCodename}`
+            itemName: `codename -> ${sourceItem.itemCodename}`,
+            itemCodename: sourceItem.itemCodename
         });
     };
 
     const getLatestLanguageVariantAsync = async (
         sourceItem: SourceExportItem,
         logSpinner: LogSpinnerData
-    ): Promise<Readonly<LanguageVariantModels.ContentItemLanguageVariant>> => {
+    ): Promise<Readonly<LanguageVariantModels.ContentItemLanguageVariant> | undefined> => {
         return await runMapiRequestAsync({
             logger: config.logger,
             logSpinner: logSpinner,
             func: async () => {
-                return (
-                    await config.managementClient
-                        .viewLanguageVariant()
-                        .byItemCodename(sourceItem.itemCodename)
-                        .byLanguageCodename(sourceItem.languageCodename)
-                        .toPromise()
-                ).data;
+                try {
+                    return (
+                        await config.managementClient
+                            .viewLanguageVariant()
+                            .byItemCodename(sourceItem.itemCodename)
+                            .byLanguageCodename(sourceItem.languageCodename)
+                            .toPromise()
+                    ).data;
+                } catch (error) {
+                    if (is404Error(error)) {
+                        return undefined;
+                    }
+                    throw error;
+                }
             },
 
             action: 'view',
             type: 'languageVariant',
-            itemName: `codename -> ${sourceItem.itemCodename} -> latest (${sourceItem.languageCodename})`
+            itemName: `codename -> ${sourceItem.itemCodename} -> latest (${sourceItem.languageCodename})`,
+            itemCodename: sourceItem.itemCodename,
+            languageCodename: sourceItem.languageCodename
         });
     };
 
@@ -118,9 +150,9 @@ export async function exportContextFetcherAsync(config: DefaultExportContextConf
     const getExportItemVersionsAsync = async (
         sourceItem: SourceExportItem,
         contentItem: Readonly<ContentItemModels.ContentItem>,
+        latestLanguageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>,
         logSpinner: LogSpinnerData
     ): Promise<readonly ExportItemVersion[]> => {
-        const latestLanguageVariant = await getLatestLanguageVariantAsync(sourceItem, logSpinner);
         const latestExportVersion = mapToExportVersionItem(sourceItem, contentItem, latestLanguageVariant);
 
         if (isLanguageVariantPublished(latestLanguageVariant)) {
@@ -163,7 +195,9 @@ export async function exportContextFetcherAsync(config: DefaultExportContextConf
             },
             action: 'view',
             type: 'languageVariant',
-            itemName: `codename -> ${sourceItem.itemCodename} -> published (${sourceItem.languageCodename})`
+            itemName: `codename -> ${sourceItem.itemCodename} -> published (${sourceItem.languageCodename})`,
+            itemCodename: sourceItem.itemCodename,
+            languageCodename: sourceItem.languageCodename
         });
     };
 
@@ -227,54 +261,268 @@ export async function exportContextFetcherAsync(config: DefaultExportContextConf
         };
     };
 
-    const prepareExportItemsAsync = async (exportItems: readonly SourceExportItem[]): Promise<readonly ExportItem[]> => {
+    const validateExportQuery = (query: ExportQuery): void => {
+        const validateCodenames = (codenames: readonly string[] | undefined, availableCodenames: readonly string[], type: string): void => {
+            const invalidCodename = codenames?.find((codename) => !availableCodenames.includes(codename));
+
+            if (invalidCodename) {
+                throw Error(
+                    `Invalid ${type} '${chalk.red(invalidCodename)}' in export query. Available values are: ${availableCodenames
+                        .map((m) => chalk.cyan(m))
+                        .join(', ')}`
+                );
+            }
+        };
+
+        validateCodenames(
+            query.contentTypes,
+            environmentData.contentTypes.map((m) => m.contentTypeCodename),
+            'content type'
+        );
+        validateCodenames(
+            query.collections,
+            environmentData.collections.map((m) => m.codename),
+            'collection'
+        );
+        validateCodenames(
+            query.languages,
+            environmentData.languages.map((m) => m.codename),
+            'language'
+        );
+        validateCodenames(
+            query.workflowSteps,
+            environmentData.workflows.flatMap((workflow) => [
+                ...workflow.steps.map((m) => m.codename),
+                workflow.publishedStep.codename,
+                workflow.archivedStep.codename,
+                workflow.scheduledStep.codename
+            ]),
+            'workflow step'
+        );
+    };
+
+    const matchesCodename = (codenames: readonly string[] | undefined, codename: string): boolean => {
+        return codenames ? codenames.includes(codename) : true;
+    };
+
+    const matchesContentItem = (query: ExportQuery, contentItem: Readonly<ContentItemModels.ContentItem>): boolean => {
+        const contentType = environmentData.contentTypes.find((m) => m.contentTypeId === contentItem.type.id);
+        const collection = environmentData.collections.find((m) => m.id === contentItem.collection.id);
+
+        return (
+            matchesCodename(query.contentTypes, contentType?.contentTypeCodename ?? '') &&
+            matchesCodename(query.collections, collection?.codename ?? '')
+        );
+    };
+
+    const matchesLanguageVariant = (
+        query: ExportQuery,
+        languageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>
+    ): boolean => {
+        const language = environmentData.languages.find((m) => m.id === languageVariant.language.id);
+        const workflow = environmentData.workflows.find((m) => m.id === languageVariant.workflow.workflowIdentifier.id);
+        const workflowStepCodename = workflow
+            ? workflowHelper(environmentData.workflows).getWorkflowStepById(workflow, languageVariant.workflow.stepIdentifier.id ?? '')
+                  .codename
+            : '';
+        const lastModified = new Date(languageVariant.lastModified);
+
+        return (
+            matchesCodename(query.languages, language?.codename ?? '') &&
+            matchesCodename(query.workflowSteps, workflowStepCodename) &&
+            (query.modifiedSince ? lastModified >= query.modifiedSince : true) &&
+            (query.modifiedUntil ? lastModified <= query.modifiedUntil : true)
+        );
+    };
+
+    const getExportItemsByQueryAsync = async (query: ExportQuery): Promise<readonly SourceExportItem[]> => {
+        validateExportQuery(query);
+
+        return await config.logger.logWithSpinnerAsync(async (logSpinner) => {
+            logSpinner({ type: 'info', message: `Resolving export query` });
+
+            const contentItems = (
+                await runMapiRequestAsync({
+                    logger: config.logger,
+                    logSpinner: logSpinner,
+                    func: async () => (await config.managementClient.listContentItems().toAllPromise()).data.items,
+                    action: 'list',
+                    type: 'contentItem'
+                })
+            ).filter((contentItem) => matchesContentItem(query, contentItem));
+
+            // language variants can only be listed per content type, so only types of matching content items are listed
+            const contentTypeIds = new Set<string>(contentItems.map((m) => m.type.id));
+            const sourceItems: SourceExportItem[] = [];
+
+            for (const contentTypeId of contentTypeIds) {
+                const languageVariants = await runMapiRequestAsync({
+                    logger: config.logger,
+                    logSpinner: logSpinner,
+                    func: async () =>
+                        (await config.managementClient.listLanguageVariantsOfContentType().byTypeId(contentTypeId).toAllPromise()).data
+                            .items,
+                    action: 'list',
+                    type: 'languageVariant',
+                    itemName: `type -> ${contentTypeId}`
+                });
+
+                for (const languageVariant of languageVariants.filter((m) => matchesLanguageVariant(query, m))) {
+                    const contentItem = contentItems.find((m) => m.id === languageVariant.item.id);
+                    const language = environmentData.languages.find((m) => m.id === languageVariant.language.id);
+
+                    if (contentItem && language) {
+                        sourceItems.push({ itemCodename: contentItem.codename, languageCodename: language.codename });
+                    }
+                }
+            }
+
+            logSpinner({
+                type: 'info',
+                message: `Export query matched '${chalk.yellow(sourceItems.length.toString())}' language variants`
+            });
+
+            return sourceItems;
+        });
+    };
+
+    const getSourceExportItemsAsync = async (): Promise<readonly SourceExportItem[]> => {
+        const queryItems = config.query ? await getExportItemsByQueryAsync(config.query) : [];
+
+        return [...config.exportItems, ...queryItems].filter(
+            (item, index, items) =>
+                items.findIndex((m) => m.itemCodename === item.itemCodename && m.languageCodename === item.languageCodename) === index
+        );
+    };
+
+    const isModifiedSinceLastSync = (
+        sourceItem: SourceExportItem,
+        latestLanguageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>,
+        syncState: SyncState
+    ): boolean => {
+        const syncedVariant = syncState.variants.find(
+            (m) => m.itemCodename === sourceItem.itemCodename && m.languageCodename === sourceItem.languageCodename
+        );
+
+        if (!syncedVariant) {
+            return true;
+        }
+
+        // published version can't be modified later than the latest version
+        return new Date(latestLanguageVariant.lastModified) > new Date(syncedVariant.lastModified);
+    };
+
+    const prepareExportItemsAsync = async (
+        exportItems: readonly SourceExportItem[],
+        skipMissingLanguageVariants: boolean
+    ): Promise<PreparedExportItems> => {
         config.logger.log({
             type: 'info',
-            message: `Preparing '${chalk.yellow(config.exportItems.length.toString())}' items for export`
+            message: `Preparing '${chalk.yellow(exportItems.length.toString())}' items for export`
         });
 
-        return (
-            await processItemsAsync<SourceExportItem, ExportItem>({
-                logger: config.logger,
-                action: 'Preparing content items & language variants',
-                parallelLimit: 1,
-                itemInfo: (input) => {
-                    return {
-                        title: `${input.itemCodename} (${input.languageCodename})`,
-                        itemType: 'exportItem'
-                    };
-                },
-                items: exportItems,
-                processAsync: async (requestItem, logSpinner) => {
-                    const contentItem = await getContentItemAsync(requestItem, logSpinner);
-                    const versions = await getExportItemVersionsAsync(requestItem, contentItem, logSpinner);
-
-                    // get shared attributes from any version
-                    const anyVersion = versions[0];
-                    if (!anyVersion) {
-                        throwErrorForItemRequest(requestItem, `Expected at least 1 version of the content item`);
+        const unmodifiedItems: DependencyRoot[] = [];
+
+        const preparedItems = await processItemsAsync<SourceExportItem, ExportItem>({
+            logger: config.logger,
+            action: 'Preparing content items & language variants',
+            parallelLimit: getConcurrency(config.concurrency, 'fetch'),
+            itemInfo: (input) => {
+                return {
+                    title: `${input.itemCodename} (${input.languageCodename})`,
+                    itemType: 'exportItem'
+                };
+            },
+            items: exportItems,
+            processAsync: async (requestItem, logSpinner) => {
+                const contentItem = await getContentItemAsync(requestItem, logSpinner);
+                const latestLanguageVariant = await getLatestLanguageVariantAsync(requestItem, logSpinner);
+
+                if (!latestLanguageVariant) {
+                    if (!skipMissingLanguageVariants) {
+                        throwErrorForItemRequest(requestItem, `Language variant does not exist`);
                     }
 
-                    const { collection, contentType, language, workflow } = validateExportItem({
-                        sourceItem: requestItem,
+                    // item is not translated to one of requested languages
+                    return '404';
+                }
+
+                if (config.syncState && !isModifiedSinceLastSync(requestItem, latestLanguageVariant, config.syncState)) {
+                    unmodifiedItems.push({
+                        requestItem: requestItem,
                         contentItem: contentItem,
-                        languageVariant: anyVersion.languageVariant
+                        contentTypeId: contentItem.type.id,
+                        elements: latestLanguageVariant.elements
                     });
+                    return 'skipped';
+                }
 
-                    return {
-                        contentItem,
-                        versions,
-                        contentType,
-                        requestItem,
-                        workflow,
-                        collection,
-                        language
-                    };
+                const versions = await getExportItemVersionsAsync(requestItem, contentItem, latestLanguageVariant, logSpinner);
+
+                // get shared attributes from any version
+                const anyVersion = versions[0];
+                if (!anyVersion) {
+                    throwErrorForItemRequest(requestItem, `Expected at least 1 version of the content item`);
                 }
-            })
-        )
-            .filter((m) => m.state === 'valid')
-            .map((m) => m.outputItem);
+
+                const { collection, contentType, language, workflow } = validateExportItem({
+                    sourceItem: requestItem,
+                    contentItem: contentItem,
+                    languageVariant: anyVersion.languageVariant
+                });
+
+                return {
+                    contentItem,
+                    versions,
+                    contentType,
+                    requestItem,
+                    workflow,
+                    collection,
+                    language
+                };
+            }
+        });
+
+        for (const skippedItem of preparedItems.filter((m) => m.state === '404')) {
+            config.logger.log({
+                type: 'skip',
+                message: `Language variant '${chalk.yellow(skippedItem.inputItem.itemCodename)}' does not exist in language '${chalk.cyan(
+                    skippedItem.inputItem.languageCodename
+                )}'`
+            });
+        }
+
+        for (const failedItem of preparedItems) {
+            if (failedItem.state === 'error') {
+                config.logger.log({
+                    type: 'error',
+                    message: extractErrorData(failedItem.error).message
+                });
+            }
+        }
+
+        if (config.syncState && unmodifiedItems.length) {
+            config.logger.log({
+                type: 'skip',
+                message: `Skipping '${chalk.yellow(unmodifiedItems.length.toString())}' language variants not modified since last sync at '${chalk.cyan(
+                    config.syncState.lastSync
+                )}'`
+            });
+        }
+
+        return {
+            exportItems: preparedItems.filter((m) => m.state === 'valid').map((m) => m.outputItem),
+            unmodifiedItems: unmodifiedItems
+        };
+    };
+
+    const toDependencyRoot = (exportItem: ExportItem): DependencyRoot => {
+        return {
+            requestItem: exportItem.requestItem,
+            contentItem: exportItem.contentItem,
+            contentTypeId: exportItem.contentType.contentTypeId,
+            elements: exportItem.versions.flatMap((m) => m.languageVariant.elements)
+        };
     };
 
     const getContentItemsByIdsAsync = async (itemIds: ReadonlySet<string>): Promise<readonly Readonly<ContentItemModels.ContentItem>[]> => {
@@ -282,7 +530,7 @@ export async function exportContextFetcherAsync(config: DefaultExportContextConf
             await processItemsAsync<string, Readonly<ContentItemModels.ContentItem>>({
                 logger: config.logger,
                 action: 'Fetching content items',
-                parallelLimit: 1,
+                parallelLimit: getConcurrency(config.concurrency, 'fetch'),
                 items: Array.from(itemIds),
                 itemInfo: (id) => {
                     return {
@@ -319,7 +567,7 @@ export async function exportContextFetcherAsync(config: DefaultExportContextConf
             await processItemsAsync<string, Readonly<AssetModels.Asset>>({
                 logger: config.logger,
                 action: 'Fetching assets',
-                parallelLimit: 1,
+                parallelLimit: getConcurrency(config.concurrency, 'fetch'),
                 items: Array.from(itemIds),
                 itemInfo: (id) => {
                     return {
@@ -397,8 +645,125 @@ export async function exportContextFetcherAsync(config: DefaultExportContextConf
         return getFunc;
     };
 
+    const getSourceItemKey = (sourceItem: SourceExportItem): string => {
+        return `${sourceItem.itemCodename} (${sourceItem.languageCodename})`;
+    };
+
+    const logDependencyTree = (rootItems: readonly DependencyRoot[], dependencies: readonly ExportDependency[]): void => {
+        const logChildren = (parentKey: string, level: number): void => {
+            for (const dependency of dependencies.filter((m) => m.parentKey === parentKey)) {
+                config.logger.log({
+                    type: 'info',
+                    message: `${'  '.repeat(level)}└ ${chalk.yellow(dependency.childKey)}`
+                });
+                logChildren(dependency.childKey, level + 1);
+            }
+        };
+
+        config.logger.log({
+            type: 'info',
+            message: `Discovered '${chalk.yellow(dependencies.length.toString())}' dependencies`
+        });
+
+        for (const rootItem of rootItems) {
+            const rootKey = getSourceItemKey(rootItem.requestItem);
+
+            if (dependencies.some((m) => m.parentKey === rootKey)) {
+                config.logger.log({ type: 'info', message: rootKey });
+                logChildren(rootKey, 1);
+            }
+        }
+    };
+
+    const getDependenciesAsync = async (
+        rootItems: readonly DependencyRoot[],
+        skipMissingLanguageVariants: boolean
+    ): Promise<readonly ExportItem[]> => {
+        const maxDepth = config.dependenciesDepth ?? Number.POSITIVE_INFINITY;
+        const exportedKeys = new Set<string>(rootItems.map((m) => getSourceItemKey(m.requestItem)));
+        const contentItemsById = new Map<string, Readonly<ContentItemModels.ContentItem>>(
+            rootItems.map((m) => [m.contentItem.id, m.contentItem])
+        );
+        const dependencies: ExportDependency[] = [];
+        const dependencyItems: ExportItem[] = [];
+
+        let currentLevelItems: readonly DependencyRoot[] = rootItems;
+
+        for (let depth = 1; depth <= maxDepth && currentLevelItems.length; depth++) {
+            config.logger.log({
+                type: 'info',
+                message: `Crawling dependencies of '${chalk.yellow(currentLevelItems.length.toString())}' items (depth ${chalk.yellow(
+                    depth.toString()
+                )})`
+            });
+
+            const referencedItems = currentLevelItems.map((rootItem) => {
+                return {
+                    rootItem: rootItem,
+                    itemIds: itemsExtractionProcessor().extractReferencedDataFromExtractItems([rootItem], getElementByIds()).itemIds
+                };
+            });
+
+            const unknownItemIds = new Set<string>(
+                referencedItems.flatMap((m) => Array.from(m.itemIds)).filter((id) => !contentItemsById.has(id))
+            );
+            (await getContentItemsByIdsAsync(unknownItemIds)).forEach((contentItem) => contentItemsById.set(contentItem.id, contentItem));
+
+            const sourceItems: SourceExportItem[] = [];
+
+            for (const { rootItem, itemIds } of referencedItems) {
+                for (const itemId of itemIds) {
+                    const contentItem = contentItemsById.get(itemId);
+
+                    if (!contentItem) {
+                        // item does not exist in source environment
+                        continue;
+                    }
+
+                    const sourceItem: SourceExportItem = {
+                        itemCodename: contentItem.codename,
+                        languageCodename: rootItem.requestItem.languageCodename
+                    };
+                    const key = getSourceItemKey(sourceItem);
+
+                    if (exportedKeys.has(key)) {
+                        continue;
+                    }
+
+                    exportedKeys.add(key);
+                    sourceItems.push(sourceItem);
+                    dependencies.push({ parentKey: getSourceItemKey(rootItem.requestItem), childKey: key });
+                }
+            }
+
+            const preparedItems: PreparedExportItems = sourceItems.length
+                ? await prepareExportItemsAsync(sourceItems, skipMissingLanguageVariants)
+                : { exportItems: [], unmodifiedItems: [] };
+
+            dependencyItems.push(...preparedItems.exportItems);
+            currentLevelItems = [...preparedItems.exportItems.map(toDependencyRoot), ...preparedItems.unmodifiedItems];
+        }
+
+        logDependencyTree(rootItems, dependencies);
+
+        return dependencyItems;
+    };
+
     const getExportContextAsync = async (): Promise<ExportContext> => {
-        const preparedItems = await prepareExportItemsAsync(config.exportItems);
+        const sourceItems = await getSourceExportItemsAsync();
+        // items are not expected to be translated to all languages when exporting multiple languages
+        const skipMissingLanguageVariants = new Set<string>(sourceItems.map((m) => m.languageCodename)).size > 1;
+        const requestedItems = await prepareExportItemsAsync(sourceItems, skipMissingLanguageVariants);
+        // dependencies are crawled from unmodified items as well because their dependencies might have changed
+        const preparedItems = config.includeDependencies
+            ? [
+                  ...requestedItems.exportItems,
+                  ...(await getDependenciesAsync(
+                      [...requestedItems.exportItems.map(toDependencyRoot), ...requestedItems.unmodifiedItems],
+                      skipMissingLanguageVariants
+                  ))
+              ]
+            : requestedItems.exportItems;
 
         config.logger.log({
             type: 'info',
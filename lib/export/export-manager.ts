@@ -1,29 +1,28 @@
-import { AssetFolderModels, AssetModels, CollectionModels, ElementModels } from '@kontent-ai/management-sdk';
+import { AssetFolderModels, AssetModels, CollectionModels } from '@kontent-ai/management-sdk';
 import chalk from 'chalk';
 import {
-    extractErrorData,
     findRequired,
-    FlattenedContentType,
-    FlattenedContentTypeElement,
-    getBinaryDataFromUrlAsync,
+    getConcurrency,
     getDefaultLogger,
+    getMapiRequestsStatsMessage,
     getMigrationManagementClient,
     isNotUndefined,
+    managementClientUtils,
+    mapiRequestsTracker,
     MigrationAsset,
     MigrationAssetsSchema,
-    MigrationComponent,
+    MigrationContentModelSchema,
     MigrationData,
-    MigrationElements,
-    MigrationElementTransformData,
     MigrationItem,
     MigrationItemsSchema,
     MigrationItemVersion,
-    processItemsAsync,
-    Writeable
+    PackageSource
 } from '../core/index.js';
-import { exportTransforms } from '../translation/index.js';
 import { exportContextFetcherAsync } from './context/export-context-fetcher.js';
 import { ExportConfig, ExportContext, ExportItem } from './export.models.js';
+import { contentModelExporter } from './exporters/content-model-exporter.js';
+import { assetBinaryDownloader } from './utils/asset-binary-downloader.js';
+import { getMigrationElements } from './utils/export.utils.js';
 
 export function exportManager(config: ExportConfig) {
     const logger = config.logger ?? getDefaultLogger();
@@ -56,7 +55,8 @@ export function exportManager(config: ExportConfig) {
                     },
                     workflow_step: {
                         codename: version.workflowStepCodename
-                    }
+                    },
+                    last_modified: version.languageVariant.lastModified.toISOString()
                 };
             })
         };
@@ -64,190 +64,119 @@ export function exportManager(config: ExportConfig) {
         return migrationItem;
     };
 
-    const mapToMigrationComponent = (
-        context: ExportContext,
-        component: Readonly<ElementModels.ContentItemElementComponent>
-    ): MigrationComponent => {
-        const componentType = context.environmentData.contentTypes.find((m) => m.contentTypeId === component.type.id);
+    const exportAssets = (context: ExportContext): readonly Readonly<MigrationAsset>[] => {
+        const assets = Array.from(context.referencedData.assetIds)
+            .map<Readonly<AssetModels.Asset> | undefined>((assetId) => context.getAssetStateInSourceEnvironment(assetId).asset)
+            .filter(isNotUndefined);
 
-        if (!componentType) {
-            throw Error(`Could not find content type with id '${chalk.red(component.type.id)}' for component '${chalk.red(component.id)}'`);
-        }
+        logger.log({
+            type: 'info',
+            message: `Preparing '${chalk.yellow(assets.length.toString())}' assets. Binary data is downloaded only when it's stored or imported`
+        });
 
-        const migrationItem: MigrationComponent = {
-            system: {
-                id: component.id,
-                type: {
-                    codename: componentType.contentTypeCodename
-                }
-            },
-            elements: getMigrationElements(context, componentType, component.elements)
-        };
+        // downloads overlap as binaries of a few following assets are prefetched
+        const binaryDownloader = assetBinaryDownloader({
+            logger: logger,
+            assets: assets,
+            prefetchCount: getConcurrency(config.concurrency, 'downloads')
+        });
 
-        return migrationItem;
+        return assets.map((asset) => mapToMigrationAsset(asset, context, binaryDownloader));
     };
 
-    const getMigrationElements = (
+    const mapToMigrationAsset = (
+        asset: Readonly<AssetModels.Asset>,
         context: ExportContext,
-        contentType: FlattenedContentType,
-        elements: readonly Readonly<ElementModels.ContentItemElement>[]
-    ): MigrationElements => {
-        return contentType.elements
-            .toSorted((a, b) => {
-                if (a.codename < b.codename) {
-                    return -1;
-                }
-                if (a.codename > b.codename) {
-                    return 1;
-                }
-                return 0;
-            })
-            .reduce<Writeable<MigrationElements>>((model, typeElement) => {
-                const itemElement = findRequired(
-                    elements,
-                    (m) => m.element.id === typeElement.id,
-                    `Could not find element '${chalk.red(typeElement.codename)}'`
+        binaryDownloader: ReturnType<typeof assetBinaryDownloader>
+    ): MigrationAsset => {
+        const assetCollection: Readonly<CollectionModels.Collection> | undefined = context.environmentData.collections.find(
+            (m) => m.id === asset.collection?.reference?.id
+        );
+        const assetFolder: Readonly<AssetFolderModels.AssetFolder> | undefined = context.environmentData.assetFolders.find(
+            (m) => m.id === asset.folder?.id
+        );
+
+        const migrationAsset: MigrationAsset = {
+            filename: asset.fileName,
+            title: asset.title ?? '',
+            codename: asset.codename,
+            binary_data: binaryDownloader.getBinaryData(asset),
+            collection: assetCollection ? { codename: assetCollection.codename } : undefined,
+            folder: assetFolder ? { codename: assetFolder.codename } : undefined,
+            descriptions: asset.descriptions.map((description) => {
+                const language = findRequired(
+                    context.environmentData.languages,
+                    (language) => language.id === description.language.id,
+                    `Could not find language with id '${chalk.red(description.language.id)}' requested by asset '${chalk.red(
+                        asset.codename
+                    )}'`
                 );
 
-                model[typeElement.codename] = {
-                    type: typeElement.type,
-                    ...getMigrationElementToStore({
-                        context: context,
-                        contentType: contentType,
-                        exportElement: itemElement,
-                        typeElement: typeElement
-                    })
+                return {
+                    description: description.description ?? undefined,
+                    language: {
+                        codename: language.codename
+                    }
                 };
+            })
+        };
 
-                return model;
-            }, {});
+        return migrationAsset;
     };
 
-    const getMigrationElementToStore = (data: {
-        readonly context: ExportContext;
-        readonly contentType: FlattenedContentType;
-        readonly typeElement: FlattenedContentTypeElement;
-        readonly exportElement: ElementModels.ContentItemElement;
-    }): MigrationElementTransformData => {
-        try {
-            return exportTransforms[data.typeElement.type]({
-                context: data.context,
-                typeElement: data.typeElement,
-                exportElement: {
-                    components: data.exportElement.components.map((component) => mapToMigrationComponent(data.context, component)),
-                    value: data.exportElement.value,
-                    urlSlugMode: data.exportElement.mode,
-                    displayTimezone: data.exportElement.display_timezone
-                }
-            });
-        } catch (error) {
-            const errorData = extractErrorData(error);
-            let jsonValue = 'n/a';
-
-            try {
-                jsonValue = JSON.stringify(data.exportElement.value);
-            } catch (jsonError) {
-                console.error(`Failed to convert json value`, jsonError);
+    const getPackageSourceAsync = async (): Promise<PackageSource> => {
+        const environment = await managementClientUtils(managementClient, logger).getEnvironmentAsync();
+
+        return {
+            environmentId: environment.id,
+            environmentName: environment.name,
+            exportSelection: {
+                items: config.exportItems ?? [],
+                query: config.query
+                    ? {
+                          ...config.query,
+                          modifiedSince: config.query.modifiedSince?.toISOString(),
+                          modifiedUntil: config.query.modifiedUntil?.toISOString()
+                      }
+                    : undefined,
+                includeDependencies: config.includeDependencies ?? false,
+                dependenciesDepth: config.dependenciesDepth,
+                includeContentModel: config.includeContentModel ?? false
             }
-
-            throw new Error(
-                `Failed to map value of element '${chalk.yellow(data.typeElement.codename)}' of type '${chalk.cyan(
-                    data.typeElement.type
-                )}'. Value: ${chalk.bgMagenta(jsonValue)}. Message: ${errorData.message}`
-            );
-        }
-    };
-
-    const exportAssetsAsync = async (context: ExportContext): Promise<readonly Readonly<MigrationAsset>[]> => {
-        const assets = Array.from(context.referencedData.assetIds)
-            .map<Readonly<AssetModels.Asset> | undefined>((assetId) => context.getAssetStateInSourceEnvironment(assetId).asset)
-            .filter(isNotUndefined);
-
-        return await getMigrationAssetsWithBinaryDataAsync(assets, context);
-    };
-
-    const getMigrationAssetsWithBinaryDataAsync = async (
-        assets: readonly Readonly<AssetModels.Asset>[],
-        context: ExportContext
-    ): Promise<readonly MigrationAsset[]> => {
-        logger.log({
-            type: 'info',
-            message: `Preparing to download '${chalk.yellow(assets.length.toString())}' assets`
-        });
-
-        return (
-            await processItemsAsync<Readonly<AssetModels.Asset>, MigrationAsset>({
-                action: 'Downloading assets',
-                logger: logger,
-                parallelLimit: 5,
-                itemInfo: (input) => {
-                    return {
-                        title: input.codename,
-                        itemType: 'asset'
-                    };
-                },
-                items: assets,
-                processAsync: async (asset, logSpinner) => {
-                    const assetCollection: Readonly<CollectionModels.Collection> | undefined = context.environmentData.collections.find(
-                        (m) => m.id === asset.collection?.reference?.id
-                    );
-                    const assetFolder: Readonly<AssetFolderModels.AssetFolder> | undefined = context.environmentData.assetFolders.find(
-                        (m) => m.id === asset.folder?.id
-                    );
-
-                    logSpinner({
-                        type: 'download',
-                        message: `${asset.url}`
-                    });
-
-                    const migrationAsset: MigrationAsset = {
-                        filename: asset.fileName,
-                        title: asset.title ?? '',
-                        codename: asset.codename,
-                        binary_data: (await getBinaryDataFromUrlAsync(asset.url)).data,
-                        collection: assetCollection ? { codename: assetCollection.codename } : undefined,
-                        folder: assetFolder ? { codename: assetFolder.codename } : undefined,
-                        descriptions: asset.descriptions.map((description) => {
-                            const language = findRequired(
-                                context.environmentData.languages,
-                                (language) => language.id === description.language.id,
-                                `Could not find language with id '${chalk.red(description.language.id)}' requested by asset '${chalk.red(
-                                    asset.codename
-                                )}'`
-                            );
-
-                            return {
-                                description: description.description ?? undefined,
-                                language: {
-                                    codename: language.codename
-                                }
-                            };
-                        })
-                    };
-
-                    return migrationAsset;
-                }
-            })
-        )
-            .filter((m) => m.state === 'valid')
-            .map((m) => m.outputItem);
+        };
     };
 
     return {
         async exportAsync(): Promise<MigrationData> {
+            const requestsStats = mapiRequestsTracker.getStats();
             const exportContext = await (
                 await exportContextFetcherAsync({
-                    exportItems: config.exportItems,
+                    exportItems: config.exportItems ?? [],
+                    query: config.query,
+                    includeDependencies: config.includeDependencies ?? false,
+                    dependenciesDepth: config.dependenciesDepth,
+                    syncState: config.syncState,
                     logger: logger,
-                    managementClient: managementClient
+                    managementClient: managementClient,
+                    concurrency: config.concurrency
                 })
             ).getExportContextAsync();
 
             const migrationData: MigrationData = {
                 items: MigrationItemsSchema.parse(getMigrationItems(exportContext)),
-                assets: MigrationAssetsSchema.parse(await exportAssetsAsync(exportContext))
+                assets: MigrationAssetsSchema.parse(exportAssets(exportContext)),
+                contentModel: config.includeContentModel
+                    ? MigrationContentModelSchema.parse(
+                          await contentModelExporter({ logger: logger, managementClient: managementClient }).exportAsync()
+                      )
+                    : undefined,
+                source: await getPackageSourceAsync()
             };
 
+            logger.log({
+                type: 'info',
+                message: getMapiRequestsStatsMessage(requestsStats)
+            });
             logger.log({
                 type: 'completed',
                 message: `Finished export`
@@ -11,6 +11,7 @@ import {
 } from '@kontent-ai/management-sdk';
 import {
     AssetStateInSourceEnvironmentById,
+    ConcurrencyConfig,
     FlattenedContentType,
     FlattenedContentTypeElement,
     ItemStateInSourceEnvironmentById,
@@ -19,7 +20,8 @@ import {
     MigrationComponent,
     MigrationElementTransformData,
     MigrationUrlSlugMode,
-    ReferencedDataInLanguageVariants
+    ReferencedDataInLanguageVariants,
+    SyncState
 } from '../core/index.js';
 
 export interface ExportContextEnvironmentData {
@@ -60,15 +62,58 @@ export interface SourceExportItem {
     readonly languageCodename: string;
 }
 
+/**
+ * Selects language variants for export. All conditions must be met for the language variant to be exported and
+ * conditions that are not set are ignored.
+ */
+export interface ExportQuery {
+    readonly contentTypes?: readonly string[];
+    readonly collections?: readonly string[];
+    readonly languages?: readonly string[];
+    readonly workflowSteps?: readonly string[];
+    readonly modifiedSince?: Date;
+    readonly modifiedUntil?: Date;
+}
+
 export interface ExportConfig extends ManagementClientConfig {
-    readonly exportItems: readonly SourceExportItem[];
+    readonly exportItems?: readonly SourceExportItem[];
+    /**
+     * Language variants matching the query are exported along with the explicitly listed 'exportItems'
+     */
+    readonly query?: ExportQuery;
+    /**
+     * When enabled, items referenced in linked items, subpages & rich text elements (including components) are
+     * exported as well in the language of the item referencing them
+     */
+    readonly includeDependencies?: boolean;
+    /**
+     * Max depth of crawled dependencies. Dependencies are crawled until no new items are found when not set
+     */
+    readonly dependenciesDepth?: number;
+    /**
+     * When enabled, content types, snippets, taxonomies, collections & asset folders are exported as well
+     */
+    readonly includeContentModel?: boolean;
+    /**
+     * Language variants that were not modified since the timestamp recorded in sync state are not exported
+     */
+    readonly syncState?: SyncState;
     readonly logger?: Logger;
+    /**
+     * Max number of objects fetched & asset binaries downloaded in parallel. Processing backs off automatically when rate limit is exceeded
+     */
+    readonly concurrency?: Pick<ConcurrencyConfig, 'fetch' | 'downloads'>;
 }
 
 export interface DefaultExportContextConfig {
     readonly logger: Logger;
     readonly exportItems: readonly SourceExportItem[];
+    readonly query: ExportQuery | undefined;
+    readonly includeDependencies: boolean;
+    readonly dependenciesDepth: number | undefined;
+    readonly syncState: SyncState | undefined;
     readonly managementClient: Readonly<ManagementClient>;
+    readonly concurrency: ConcurrencyConfig | undefined;
 }
 
 export type GetFlattenedElementByIds = (contentTypeId: string, elementId: string) => FlattenedContentTypeElement;
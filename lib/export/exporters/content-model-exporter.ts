@@ -0,0 +1,150 @@
+import {
+    AssetFolderModels,
+    ContentTypeModels,
+    ContentTypeSnippetModels,
+    ManagementClient,
+    TaxonomyModels
+} from '@kontent-ai/management-sdk';
+import chalk from 'chalk';
+import {
+    isNotUndefined,
+    Logger,
+    managementClientUtils,
+    MigrationAssetFolder,
+    MigrationContentModel,
+    MigrationContentTypeElement,
+    MigrationContentTypeElementSchema,
+    MigrationTaxonomyTerm
+} from '../../core/index.js';
+
+export function contentModelExporter(config: { readonly logger: Logger; readonly managementClient: Readonly<ManagementClient> }) {
+    const mapTaxonomy = (taxonomy: Readonly<TaxonomyModels.Taxonomy>): MigrationTaxonomyTerm => {
+        return {
+            codename: taxonomy.codename,
+            name: taxonomy.name,
+            terms: taxonomy.terms.map((term) => mapTaxonomy(term))
+        };
+    };
+
+    const mapAssetFolder = (folder: Readonly<AssetFolderModels.AssetFolder>): MigrationAssetFolder => {
+        return {
+            codename: folder.codename,
+            name: folder.name,
+            folders: folder.folders.map((m) => mapAssetFolder(m))
+        };
+    };
+
+    const getCodenamesById = (data: {
+        readonly contentTypes: readonly Readonly<ContentTypeModels.ContentType>[];
+        readonly contentTypeSnippets: readonly Readonly<ContentTypeSnippetModels.ContentTypeSnippet>[];
+        readonly taxonomies: readonly Readonly<TaxonomyModels.Taxonomy>[];
+    }): ReadonlyMap<string, string> => {
+        const codenamesById = new Map<string, string>();
+
+        const addTaxonomy = (taxonomy: Readonly<TaxonomyModels.Taxonomy>): void => {
+            codenamesById.set(taxonomy.id, taxonomy.codename);
+            taxonomy.terms.forEach((term) => addTaxonomy(term));
+        };
+
+        const addObjects = (objects: readonly { readonly id?: string; readonly codename?: string }[]): void => {
+            objects.forEach((object) => (object.id && object.codename ? codenamesById.set(object.id, object.codename) : {}));
+        };
+
+        data.taxonomies.forEach((taxonomy) => addTaxonomy(taxonomy));
+
+        for (const contentModelObject of [...data.contentTypes, ...data.contentTypeSnippets]) {
+            codenamesById.set(contentModelObject.id, contentModelObject.codename);
+            addObjects(contentModelObject._raw.elements);
+            addObjects(
+                contentModelObject._raw.elements.flatMap((element) =>
+                    'options' in element ? (element.options as { id?: string; codename?: string }[]) : []
+                )
+            );
+        }
+
+        data.contentTypes.forEach((contentType) => addObjects(contentType._raw.content_groups ?? []));
+
+        return codenamesById;
+    };
+
+    const toCodenameReferences = (value: unknown, codenamesById: ReadonlyMap<string, string>): unknown => {
+        if (Array.isArray(value)) {
+            return value.map((m) => toCodenameReferences(m, codenamesById)).filter(isNotUndefined);
+        }
+
+        if (value && typeof value === 'object') {
+            const entries = Object.entries(value);
+            const [firstEntry] = entries;
+
+            if (entries.length === 1 && firstEntry?.[0] === 'id' && typeof firstEntry[1] === 'string') {
+                // reference object - references to objects outside of content model (e.g. default linked items) are dropped
+                const codename = codenamesById.get(firstEntry[1]);
+                return codename ? { codename: codename } : undefined;
+            }
+
+            return Object.fromEntries(
+                entries
+                    .filter(([key]) => key !== 'id' && key !== 'external_id')
+                    .map(([key, propertyValue]) => [key, toCodenameReferences(propertyValue, codenamesById)])
+            );
+        }
+
+        return value;
+    };
+
+    const mapElements = (
+        elements: readonly unknown[],
+        codenamesById: ReadonlyMap<string, string>
+    ): readonly MigrationContentTypeElement[] => {
+        return elements.map((element) => MigrationContentTypeElementSchema.parse(toCodenameReferences(element, codenamesById)));
+    };
+
+    return {
+        async exportAsync(): Promise<MigrationContentModel> {
+            const mapiUtils = managementClientUtils(config.managementClient, config.logger);
+
+            const contentModel = await config.logger.logWithSpinnerAsync(async (logSpinner) => {
+                logSpinner({ type: 'info', message: `Loading content model` });
+
+                const contentTypes = await mapiUtils.getAllContentTypesAsync(logSpinner);
+                const contentTypeSnippets = await mapiUtils.getAllContentTypeSnippetsAsync(logSpinner);
+                const taxonomies = await mapiUtils.getAllTaxonomiesAsync(logSpinner);
+                const codenamesById = getCodenamesById({ contentTypes, contentTypeSnippets, taxonomies });
+
+                return {
+                    collections: (await mapiUtils.getAllCollectionsAsync(logSpinner)).map((m) => {
+                        return { codename: m.codename, name: m.name };
+                    }),
+                    assetFolders: (await mapiUtils.getAllAssetFoldersAsync(logSpinner)).map((m) => mapAssetFolder(m)),
+                    taxonomies: taxonomies.map((m) => mapTaxonomy(m)),
+                    contentTypeSnippets: contentTypeSnippets.map((snippet) => {
+                        return {
+                            codename: snippet.codename,
+                            name: snippet.name,
+                            elements: mapElements(snippet._raw.elements, codenamesById)
+                        };
+                    }),
+                    contentTypes: contentTypes.map((contentType) => {
+                        return {
+                            codename: contentType.codename,
+                            name: contentType.name,
+                            content_groups: (contentType._raw.content_groups ?? []).map((m) => {
+                                return { codename: m.codename ?? '', name: m.name };
+                            }),
+                            elements: mapElements(contentType._raw.elements, codenamesById)
+                        };
+                    })
+                } satisfies MigrationContentModel;
+            });
+
+            config.logger.log({
+                type: 'info',
+                message: `Exported content model with '${chalk.yellow(contentModel.contentTypes.length.toString())}' content types, '${chalk.yellow(
+                    contentModel.contentTypeSnippets.length.toString()
+                )}' snippets & '${chalk.yellow(contentModel.taxonomies.length.toString())}' taxonomies`
+            });
+
+            return contentModel;
+        }
+    };
+}
@@ -1,2 +1,3 @@
 export * from './export.models.js';
 export * from './export-manager.js';
+export * from './utils/export.utils.js';
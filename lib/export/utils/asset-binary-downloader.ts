@@ -0,0 +1,88 @@
+import { AssetModels } from '@kontent-ai/management-sdk';
+import { Buffer as BufferProxy } from 'buffer';
+import { Readable } from 'stream';
+import { getBinaryDataFromUrlAsync, getBinaryDataStreamFromUrlAsync, LazyBinaryData, Logger } from '../../core/index.js';
+import { FileBinaryData } from '../../zip/index.js';
+
+/**
+ * Larger binaries are always streamed so that they are never held in memory as a whole
+ */
+const maxPrefetchedSizeInBytes: number = 10 * 1024 * 1024;
+
+/**
+ * Binaries are downloaded only when they are requested. Requesting a binary also starts downloading binaries of the
+ * following assets so that downloads overlap when binaries are consumed one by one (i.e. when they are written to zip).
+ * At most 'prefetchCount' prefetched binaries are held in memory at once.
+ */
+export function assetBinaryDownloader(config: {
+    readonly logger: Logger;
+    readonly assets: readonly Readonly<AssetModels.Asset>[];
+    readonly prefetchCount: number;
+}) {
+    const prefetchedBinaries = new Map<string, Promise<FileBinaryData>>();
+    const requestedAssetIds = new Set<string>();
+
+    const downloadAsync = async (asset: Readonly<AssetModels.Asset>): Promise<FileBinaryData> => {
+        config.logger.log({
+            type: 'download',
+            message: `${asset.url}`
+        });
+
+        return (await getBinaryDataFromUrlAsync(asset.url)).data;
+    };
+
+    const prefetchFollowingAssets = (asset: Readonly<AssetModels.Asset>): void => {
+        const index = config.assets.indexOf(asset);
+
+        for (const followingAsset of config.assets.slice(index + 1, index + 1 + config.prefetchCount)) {
+            if (
+                prefetchedBinaries.size >= config.prefetchCount ||
+                prefetchedBinaries.has(followingAsset.id) ||
+                requestedAssetIds.has(followingAsset.id) ||
+                followingAsset.size > maxPrefetchedSizeInBytes
+            ) {
+                continue;
+            }
+
+            const binaryData = downloadAsync(followingAsset);
+            // failed download is reported once the binary is requested
+            binaryData.catch(() => undefined);
+
+            prefetchedBinaries.set(followingAsset.id, binaryData);
+        }
+    };
+
+    const requestAsset = (asset: Readonly<AssetModels.Asset>): Promise<FileBinaryData> | undefined => {
+        const prefetchedBinary = prefetchedBinaries.get(asset.id);
+
+        prefetchedBinaries.delete(asset.id);
+        requestedAssetIds.add(asset.id);
+        prefetchFollowingAssets(asset);
+
+        return prefetchedBinary;
+    };
+
+    return {
+        getBinaryData(asset: Readonly<AssetModels.Asset>): LazyBinaryData {
+            return {
+                size: asset.size,
+                loadAsync: async () => await (requestAsset(asset) ?? downloadAsync(asset)),
+                openStreamAsync: async () => {
+                    const prefetchedBinary = requestAsset(asset);
+
+                    if (prefetchedBinary) {
+                        const binaryData = await prefetchedBinary;
+                        return Readable.from([binaryData instanceof Blob ? BufferProxy.from(await binaryData.arrayBuffer()) : binaryData]);
+                    }
+
+                    config.logger.log({
+                        type: 'download',
+                        message: `${asset.url}`
+                    });
+
+                    return await getBinaryDataStreamFromUrlAsync(asset.url);
+                }
+            };
+        }
+    };
+}
@@ -1,5 +1,17 @@
+import { ElementModels } from '@kontent-ai/management-sdk';
 import chalk from 'chalk';
-import { SourceExportItem } from '../export.models.js';
+import {
+    extractErrorData,
+    findRequired,
+    FlattenedContentType,
+    FlattenedContentTypeElement,
+    MigrationComponent,
+    MigrationElements,
+    MigrationElementTransformData,
+    Writeable
+} from '../../core/index.js';
+import { exportTransforms } from '../../translation/index.js';
+import { ExportContext, SourceExportItem } from '../export.models.js';
 
 export function throwErrorForItemRequest(itemRequest: SourceExportItem, message: string): never {
     throw Error(
@@ -8,3 +20,97 @@ export function throwErrorForItemRequest(itemRequest: SourceExportItem, message:
         )}'. Reason: ${message}`
     );
 }
+
+function mapToMigrationComponent(
+    context: ExportContext,
+    component: Readonly<ElementModels.ContentItemElementComponent>
+): MigrationComponent {
+    const componentType = context.environmentData.contentTypes.find((m) => m.contentTypeId === component.type.id);
+
+    if (!componentType) {
+        throw Error(`Could not find content type with id '${chalk.red(component.type.id)}' for component '${chalk.red(component.id)}'`);
+    }
+
+    const migrationItem: MigrationComponent = {
+        system: {
+            id: component.id,
+            type: {
+                codename: componentType.contentTypeCodename
+            }
+        },
+        elements: getMigrationElements(context, componentType, component.elements)
+    };
+
+    return migrationItem;
+}
+
+export function getMigrationElements(
+    context: ExportContext,
+    contentType: FlattenedContentType,
+    elements: readonly Readonly<ElementModels.ContentItemElement>[]
+): MigrationElements {
+    return contentType.elements
+        .toSorted((a, b) => {
+            if (a.codename < b.codename) {
+                return -1;
+            }
+            if (a.codename > b.codename) {
+                return 1;
+            }
+            return 0;
+        })
+        .reduce<Writeable<MigrationElements>>((model, typeElement) => {
+            const itemElement = findRequired(
+                elements,
+                (m) => m.element.id === typeElement.id,
+                `Could not find element '${chalk.red(typeElement.codename)}'`
+            );
+
+            model[typeElement.codename] = {
+                type: typeElement.type,
+                ...getMigrationElementToStore({
+                    context: context,
+                    contentType: contentType,
+                    exportElement: itemElement,
+                    typeElement: typeElement
+                })
+            };
+
+            return model;
+        }, {});
+}
+
+function getMigrationElementToStore(data: {
+    readonly context: ExportContext;
+    readonly contentType: FlattenedContentType;
+    readonly typeElement: FlattenedContentTypeElement;
+    readonly exportElement: ElementModels.ContentItemElement;
+}): MigrationElementTransformData {
+    try {
+        return exportTransforms[data.typeElement.type]({
+            context: data.context,
+            typeElement: data.typeElement,
+            exportElement: {
+                components: data.exportElement.components.map((component) => mapToMigrationComponent(data.context, component)),
+                value: data.exportElement.value,
+                urlSlugMode: data.exportElement.mode,
+                displayTimezone: data.exportElement.display_timezone
+            }
+        });
+    } catch (error) {
+        const errorData = extractErrorData(error);
+        let jsonValue = 'n/a';
+
+        try {
+            jsonValue = JSON.stringify(data.exportElement.value);
+        } catch (jsonError) {
+            console.error(`Failed to convert json value`, jsonError);
+        }
+
+        throw new Error(
+            `Failed to map value of element '${chalk.yellow(data.typeElement.codename)}' of type '${chalk.cyan(
+                data.typeElement.type
+            )}'. Value: ${chalk.bgMagenta(jsonValue)}. Message: ${errorData.message}`
+        );
+    }
+}
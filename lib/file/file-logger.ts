@@ -0,0 +1,9 @@
+import { appendFileSync } from 'fs';
+import { jsonLogger, Logger } from '../core/index.js';
+
+/**
+ * Appends log messages as json lines to given file
+ */
+export function fileLogger(filename: string): Logger {
+    return jsonLogger((line) => appendFileSync(filename, `${line}\n`));
+}
@@ -31,8 +31,33 @@ export function fileManager(logger: Logger) {
         await promises.writeFile(filePath, content);
     };
 
+    const appendFileAsync = async (filename: string, content: string): Promise<void> => {
+        // appending is used for frequent small writes (i.e. journals) so it's not logged
+        await promises.appendFile(getFilePath(filename), content);
+    };
+
+    const renameFileAsync = async (filename: string, newFilename: string): Promise<void> => {
+        logger.log({
+            type: 'writeFs',
+            message: `Renaming file '${chalk.yellow(getFilePath(filename))}' to '${chalk.yellow(getFilePath(newFilename))}'`
+        });
+        await promises.rename(getFilePath(filename), getFilePath(newFilename));
+    };
+
+    const fileExistsAsync = async (filename: string): Promise<boolean> => {
+        try {
+            await promises.access(getFilePath(filename));
+            return true;
+        } catch {
+            return false;
+        }
+    };
+
     return {
         loadFileAsync,
-        writeFileAsync
+        writeFileAsync,
+        appendFileAsync,
+        renameFileAsync,
+        fileExistsAsync
     };
 }
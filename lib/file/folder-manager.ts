@@ -0,0 +1,231 @@
+import { Buffer as BufferProxy } from 'buffer';
+import chalk from 'chalk';
+import { createReadStream, promises } from 'fs';
+import { dirname, join } from 'path';
+import { z } from 'zod';
+import {
+    FolderMigrationAssetSchema,
+    FolderMigrationAssetsSchema,
+    Logger,
+    MigrationAsset,
+    MigrationContentModel,
+    MigrationContentModelSchema,
+    MigrationData,
+    MigrationItem,
+    MigrationItemsSchema,
+    getChecksumAsync,
+    getPackageManifest,
+    loadBinaryDataAsync,
+    mapAsync,
+    packageManifestFilename,
+    upgradePackageData,
+    verifyPackageManifestAsync
+} from '../core/index.js';
+
+type FolderAssetRecord = z.infer<typeof FolderMigrationAssetSchema>;
+
+const ItemsIndexSchema = z.array(z.string()).readonly();
+
+/**
+ * Stores migration data as an unzipped folder with a separate json file per item & language
+ * so that packages can be reviewed and versioned in git
+ */
+export function folderManager(logger: Logger) {
+    const itemsFolderName: string = 'items';
+    const itemsIndexFilename: string = 'items-index.json';
+    const assetsFilename: string = 'assets.json';
+    const contentModelFilename: string = 'content-model.json';
+    const assetsBinaryFolderName: string = 'binary_data';
+
+    const getItemFilePath = (item: MigrationItem): string => {
+        return `${itemsFolderName}/${item.system.type.codename}/${item.system.codename}.${item.system.language.codename}.json`;
+    };
+
+    const getAssetFilePath = (asset: MigrationAsset): string => {
+        return `${assetsBinaryFolderName}/${asset.codename.slice(0, 2)}/${asset.codename}/${asset.filename}`;
+    };
+
+    const toJson = (data: unknown): string => {
+        return `${JSON.stringify(data, undefined, 4)}\n`;
+    };
+
+    const writeAsync = async (folder: string, relativePath: string, content: string | BufferProxy | Blob): Promise<void> => {
+        const filePath = join(folder, relativePath);
+
+        await promises.mkdir(dirname(filePath), { recursive: true });
+        await promises.writeFile(filePath, content instanceof Blob ? BufferProxy.from(await content.arrayBuffer()) : content);
+    };
+
+    const readAsync = async (folder: string, relativePath: string): Promise<BufferProxy | undefined> => {
+        try {
+            return await promises.readFile(join(folder, relativePath));
+        } catch {
+            return undefined;
+        }
+    };
+
+    const readJsonAsync = async (folder: string, relativePath: string): Promise<unknown> => {
+        const content = await readAsync(folder, relativePath);
+        return content ? (JSON.parse(content.toString()) as unknown) : undefined;
+    };
+
+    const storeItemsAsync = async (folder: string, items: readonly MigrationItem[]): Promise<void> => {
+        const itemPaths = items.map((item) => getItemFilePath(item));
+
+        for (const [index, item] of items.entries()) {
+            await writeAsync(folder, itemPaths[index], toJson(item));
+        }
+
+        await writeAsync(folder, itemsIndexFilename, toJson(itemPaths));
+    };
+
+    const storeAssetsAsync = async (folder: string, assets: readonly MigrationAsset[]): Promise<Readonly<Record<string, string>>> => {
+        const assetRecords: FolderAssetRecord[] = [];
+        const checksums: Record<string, string> = {};
+
+        for (const asset of assets) {
+            const filePath = getAssetFilePath(asset);
+
+            assetRecords.push({
+                _filePath: filePath,
+                filename: asset.filename,
+                title: asset.title,
+                codename: asset.codename,
+                collection: asset.collection,
+                descriptions: asset.descriptions,
+                folder: asset.folder
+            });
+
+            const binaryData = await loadBinaryDataAsync(asset.binary_data);
+            checksums[asset.codename] = await getChecksumAsync(binaryData);
+            await writeAsync(folder, filePath, binaryData);
+        }
+
+        await writeAsync(folder, assetsFilename, toJson(assetRecords));
+
+        return checksums;
+    };
+
+    const storeContentModelAsync = async (folder: string, contentModel: MigrationContentModel | undefined): Promise<void> => {
+        if (!contentModel) {
+            return;
+        }
+
+        await writeAsync(folder, contentModelFilename, toJson(contentModel));
+    };
+
+    const readItemsAsync = async (folder: string): Promise<readonly unknown[] | undefined> => {
+        const itemsIndex = await readJsonAsync(folder, itemsIndexFilename);
+
+        if (!itemsIndex) {
+            return undefined;
+        }
+
+        return await mapAsync(ItemsIndexSchema.parse(itemsIndex), async (itemPath) => {
+            const item = await readJsonAsync(folder, itemPath);
+
+            if (!item) {
+                throw Error(`Could not load item file '${chalk.red(itemPath)}'`);
+            }
+
+            return item;
+        });
+    };
+
+    const parseAssetsAsync = async (folder: string, assetRecords: readonly FolderAssetRecord[]): Promise<readonly MigrationAsset[]> => {
+        return await mapAsync(assetRecords, async (assetRecord) => {
+            const filePath = join(folder, assetRecord._filePath);
+            const fileStats = await promises.stat(filePath).catch(() => undefined);
+
+            if (!fileStats) {
+                throw Error(`Could not load binary data for file '${chalk.red(assetRecord._filePath)}'`);
+            }
+
+            const migrationAsset: MigrationAsset = {
+                codename: assetRecord.codename,
+                filename: assetRecord.filename,
+                collection: assetRecord.collection,
+                title: assetRecord.title,
+                descriptions: assetRecord.descriptions,
+                folder: assetRecord.folder,
+                binary_data: {
+                    size: fileStats.size,
+                    loadAsync: async () => await promises.readFile(filePath),
+                    openStreamAsync: () => Promise.resolve(createReadStream(filePath))
+                }
+            };
+
+            return migrationAsset;
+        });
+    };
+
+    const verifyFolderCanBeOverwrittenAsync = async (folder: string): Promise<void> => {
+        const folderContent = await promises.readdir(folder).catch(() => []);
+
+        // packages stored by older versions do not contain manifest
+        if (folderContent.length && !folderContent.some((m) => m === packageManifestFilename || m === itemsIndexFilename)) {
+            throw Error(
+                `Folder '${chalk.red(folder)}' is not empty and does not contain a previously stored package. Use an empty folder instead`
+            );
+        }
+    };
+
+    const storeFolderAsync = async (folder: string, data: MigrationData): Promise<void> => {
+        logger.log({
+            type: 'writeFs',
+            message: `Storing package in folder '${chalk.yellow(folder)}'`
+        });
+
+        await verifyFolderCanBeOverwrittenAsync(folder);
+
+        // previously stored files are removed so that deleted items do not linger in the package
+        for (const path of [
+            itemsFolderName,
+            assetsBinaryFolderName,
+            itemsIndexFilename,
+            assetsFilename,
+            contentModelFilename,
+            packageManifestFilename
+        ]) {
+            await promises.rm(join(folder, path), { recursive: true, force: true });
+        }
+
+        await storeItemsAsync(folder, data.items);
+        const checksums = await storeAssetsAsync(folder, data.assets);
+        await storeContentModelAsync(folder, data.contentModel);
+        await writeAsync(folder, packageManifestFilename, toJson(getPackageManifest(data, checksums)));
+    };
+
+    const parseFolderAsync = async (folder: string): Promise<MigrationData> => {
+        logger.log({
+            type: 'readFs',
+            message: `Reading package from folder '${chalk.yellow(folder)}'`
+        });
+
+        const manifest = await readJsonAsync(folder, packageManifestFilename);
+        const rawData = upgradePackageData({
+            manifest: manifest,
+            data: {
+                items: await readItemsAsync(folder),
+                assets: await readJsonAsync(folder, assetsFilename),
+                contentModel: await readJsonAsync(folder, contentModelFilename)
+            },
+            logger: logger
+        });
+
+        return await verifyPackageManifestAsync({
+            manifest: manifest,
+            data: {
+                items: MigrationItemsSchema.parse(rawData.items ?? []),
+                assets: await parseAssetsAsync(folder, FolderMigrationAssetsSchema.parse(rawData.assets ?? [])),
+                contentModel: rawData.contentModel ? MigrationContentModelSchema.parse(rawData.contentModel) : undefined
+            },
+            logger: logger
+        });
+    };
+
+    return {
+        storeFolderAsync,
+        parseFolderAsync
+    };
+}
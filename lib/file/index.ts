@@ -1 +1,5 @@
 export * from './file-manager.js';
+export * from './folder-manager.js';
+export * from './volume-manager.js';
+export * from './json-lines-file-manager.js';
+export * from './file-logger.js';
@@ -0,0 +1,41 @@
+import chalk from 'chalk';
+import { createReadStream, createWriteStream } from 'fs';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { getJsonLines, Logger, MigrationItem, parseItemsJsonLinesAsync } from '../core/index.js';
+
+/**
+ * Reads & writes standalone JSON Lines files with one migration item per line so that items
+ * can be processed line by line by external tools
+ */
+export function jsonLinesFileManager(logger: Logger) {
+    const storeItemsAsync = async (filename: string, items: readonly MigrationItem[]): Promise<void> => {
+        logger.log({
+            type: 'writeFs',
+            message: `Storing '${chalk.yellow(items.length.toString())}' items into '${chalk.yellow(filename)}'`
+        });
+
+        await pipeline(Readable.from(getJsonLines(items)), createWriteStream(filename));
+    };
+
+    const readItemsAsync = async function* (filename: string): AsyncGenerator<MigrationItem> {
+        logger.log({
+            type: 'readFs',
+            message: `Reading items from '${chalk.yellow(filename)}'`
+        });
+
+        const lineReader = createInterface({ input: createReadStream(filename), crlfDelay: Infinity });
+
+        try {
+            yield* parseItemsJsonLinesAsync(lineReader);
+        } finally {
+            lineReader.close();
+        }
+    };
+
+    return {
+        storeItemsAsync,
+        readItemsAsync
+    };
+}
@@ -0,0 +1,220 @@
+import { Buffer as BufferProxy } from 'buffer';
+import chalk from 'chalk';
+import { randomUUID } from 'crypto';
+import { promises } from 'fs';
+import { basename, dirname, extname, join } from 'path';
+import { match } from 'ts-pattern';
+import {
+    formatBytes,
+    geSizeInBytes,
+    Logger,
+    MigrationAsset,
+    MigrationData,
+    MigrationElements,
+    MigrationItem,
+    parseAsMigrationReferencesArray
+} from '../core/index.js';
+import { richTextProcessor } from '../translation/index.js';
+
+interface VolumeData {
+    readonly items: MigrationItem[];
+    readonly assets: MigrationAsset[];
+    size: number;
+}
+
+/**
+ * Splits packages into numbered volumes (i.e. 'data.vol001.zip', 'data.vol002.zip') & reassembles them back
+ */
+export function volumeManager(logger: Logger) {
+    const volumeIndexLength: number = 3;
+    // 'vol' prefix of the index prevents treating files such as 'backup.2024.zip' as volumes
+    const volumeIndexPrefix: string = 'vol';
+    const volumeFilenameRegex: RegExp = new RegExp(`^(.+)\\.${volumeIndexPrefix}\\d{${volumeIndexLength}}((?:\\.[^.]+)?)$`);
+
+    const getVolumeFilename = (filename: string, index: number): string => {
+        const extension = extname(filename);
+        const name = filename.slice(0, filename.length - extension.length);
+
+        return `${name}.${volumeIndexPrefix}${index.toString().padStart(volumeIndexLength, '0')}${extension}`;
+    };
+
+    const getJsonSize = (data: unknown): number => {
+        return BufferProxy.byteLength(JSON.stringify(data));
+    };
+
+    const getReferencedAssetCodenames = (elements: MigrationElements): readonly string[] => {
+        return Object.values(elements).flatMap((element) =>
+            match(element.type)
+                .returnType<readonly string[]>()
+                .with('asset', () => parseAsMigrationReferencesArray(element.value).map((reference) => reference.codename))
+                .with('rich_text', () => {
+                    const richTextHtml = typeof element.value === 'string' ? element.value : '';
+
+                    return [
+                        ...richTextProcessor().processAssetCodenames(richTextHtml).codenames,
+                        ...richTextProcessor().processLinkAssetCodenames(richTextHtml).codenames,
+                        ...(element.components ?? []).flatMap((component) => getReferencedAssetCodenames(component.elements))
+                    ];
+                })
+                .otherwise(() => [])
+        );
+    };
+
+    const groupItemsByCodename = (items: readonly MigrationItem[]): readonly (readonly MigrationItem[])[] => {
+        const groups = new Map<string, MigrationItem[]>();
+
+        for (const item of items) {
+            groups.set(item.system.codename, [...(groups.get(item.system.codename) ?? []), item]);
+        }
+
+        return Array.from(groups.values());
+    };
+
+    /**
+     * Language variants of an item are always stored in the same volume along with assets they reference unless
+     * these assets were already stored in a previous volume. Volumes exceed the max size only when a single item
+     * with its assets is larger than the max size.
+     */
+    const splitIntoVolumes = (data: MigrationData, maxPackageSize: number): readonly MigrationData[] => {
+        const assetsByCodename = new Map(data.assets.map((asset) => [asset.codename, asset]));
+        const volumes: VolumeData[] = [{ items: [], assets: [], size: data.contentModel ? getJsonSize(data.contentModel) : 0 }];
+
+        const addToVolume = (items: readonly MigrationItem[], assets: readonly MigrationAsset[]): void => {
+            const size =
+                items.reduce((sum, item) => sum + getJsonSize(item), 0) +
+                assets.reduce((sum, asset) => sum + geSizeInBytes(asset.binary_data), 0);
+            const lastVolume = volumes[volumes.length - 1];
+            const volume: VolumeData =
+                lastVolume.size > 0 && lastVolume.size + size > maxPackageSize ? { items: [], assets: [], size: 0 } : lastVolume;
+
+            if (volume !== lastVolume) {
+                volumes.push(volume);
+            }
+
+            volume.items.push(...items);
+            volume.assets.push(...assets);
+            volume.size += size;
+        };
+
+        const takeAssets = (codenames: readonly string[]): readonly MigrationAsset[] => {
+            return Array.from(new Set(codenames)).flatMap((codename) => {
+                const asset = assetsByCodename.get(codename);
+                assetsByCodename.delete(codename);
+
+                return asset ? [asset] : [];
+            });
+        };
+
+        for (const items of groupItemsByCodename(data.items)) {
+            addToVolume(
+                items,
+                takeAssets(items.flatMap((item) => item.versions.flatMap((version) => getReferencedAssetCodenames(version.elements))))
+            );
+        }
+
+        for (const asset of Array.from(assetsByCodename.values())) {
+            addToVolume([], [asset]);
+        }
+
+        if (volumes.length > 1) {
+            logger.log({
+                type: 'info',
+                message: `Splitting package into '${chalk.yellow(volumes.length.toString())}' volumes with max size of '${chalk.yellow(
+                    formatBytes(maxPackageSize)
+                )}'`
+            });
+        }
+
+        const packageId = randomUUID();
+
+        return volumes.map<MigrationData>((volume, index) => {
+            return {
+                items: volume.items,
+                assets: volume.assets,
+                contentModel: index === 0 ? data.contentModel : undefined,
+                source: data.source,
+                volume: volumes.length > 1 ? { packageId: packageId, index: index + 1, count: volumes.length } : undefined
+            };
+        });
+    };
+
+    /**
+     * Gets filenames of all volumes from the name of the first volume or a glob pattern (i.e. 'data.vol*.zip').
+     * Any other filename is considered to be a package without volumes.
+     */
+    const getVolumeFilenamesAsync = async (filename: string): Promise<readonly string[]> => {
+        const name = basename(filename);
+        const isGlob = /[*?]/.test(name);
+        const volumeFilename = volumeFilenameRegex.exec(name);
+
+        if (!isGlob && !volumeFilename) {
+            return [filename];
+        }
+
+        const folder = dirname(filename);
+        const filenameRegex = volumeFilename
+            ? new RegExp(
+                  `^${escapeRegex(volumeFilename[1])}\\.${volumeIndexPrefix}\\d{${volumeIndexLength}}${escapeRegex(volumeFilename[2])}$`
+              )
+            : new RegExp(`^${escapeRegex(name).replaceAll('\\*', '.*').replaceAll('\\?', '.')}$`);
+
+        const filenames = (await promises.readdir(folder))
+            .filter((file) => filenameRegex.test(file))
+            .sort()
+            .map((file) => join(folder, file));
+
+        if (!filenames.length) {
+            throw Error(`Could not find any package matching '${chalk.red(filename)}'`);
+        }
+
+        return filenames;
+    };
+
+    const mergeVolumes = (volumes: readonly MigrationData[]): MigrationData => {
+        if (volumes.length === 1 && !volumes[0].volume) {
+            return volumes[0];
+        }
+
+        const volumesCount = volumes[0].volume?.count ?? 0;
+        const packageId = volumes[0].volume?.packageId;
+
+        for (let index = 1; index <= Math.max(volumesCount, volumes.length); index++) {
+            const volume = volumes.find(
+                (volume) => volume.volume?.index === index && volume.volume.count === volumesCount && volume.volume.packageId === packageId
+            );
+
+            if (!volume) {
+                throw Error(
+                    `Volume '${chalk.red(index.toString())}' of package is missing or belongs to another package. Expected '${chalk.yellow(
+                        volumesCount.toString()
+                    )}' volumes, but found '${chalk.red(volumes.length.toString())}'`
+                );
+            }
+        }
+
+        logger.log({
+            type: 'info',
+            message: `Reassembled package from '${chalk.yellow(volumes.length.toString())}' volumes`
+        });
+
+        const orderedVolumes = [...volumes].sort((a, b) => (a.volume?.index ?? 0) - (b.volume?.index ?? 0));
+
+        return {
+            items: orderedVolumes.flatMap((volume) => volume.items),
+            assets: orderedVolumes.flatMap((volume) => volume.assets),
+            contentModel: orderedVolumes.find((volume) => volume.contentModel)?.contentModel,
+            source: orderedVolumes[0].source
+        };
+    };
+
+    return {
+        getVolumeFilename,
+        getVolumeFilenamesAsync,
+        splitIntoVolumes,
+        mergeVolumes
+    };
+}
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,122 @@
+import { AssetModels, ElementContracts, SharedContracts } from '@kontent-ai/management-sdk';
+import chalk from 'chalk';
+import { z } from 'zod';
+import { Logger } from '../../core/index.js';
+import { fileManager as fileManagerInit } from '../../file/index.js';
+import { ImportChangeLog, ImportChangeLogEntry } from '../import.models.js';
+
+const isObject = (value: unknown): boolean => typeof value === 'object' && value !== null;
+
+const ImportChangeLogVariantVersionSchema = z
+    .strictObject({
+        workflowCodename: z.string(),
+        stepCodename: z.string(),
+        elements: z.array(z.custom<ElementContracts.IContentItemElementContract>(isObject)).readonly()
+    })
+    .readonly();
+
+const ImportChangeLogEntrySchema = z.discriminatedUnion('type', [
+    z.strictObject({
+        type: z.literal('asset'),
+        codename: z.string(),
+        previousAsset: z.custom<AssetModels.IUpsertAssetRequestData>(isObject).optional()
+    }),
+    z.strictObject({
+        type: z.literal('contentItem'),
+        codename: z.string(),
+        previousItem: z
+            .strictObject({
+                name: z.string(),
+                collection: z.custom<SharedContracts.IReferenceObjectContract>(isObject)
+            })
+            .optional()
+    }),
+    z.strictObject({
+        type: z.literal('languageVariant'),
+        codename: z.string(),
+        languageCodename: z.string(),
+        previousPublishedVersion: ImportChangeLogVariantVersionSchema.optional(),
+        previousDraftVersion: ImportChangeLogVariantVersionSchema.optional()
+    }),
+    z.strictObject({
+        type: z.enum(['contentType', 'contentTypeSnippet']),
+        codename: z.string()
+    })
+]);
+
+export function getImportChangeLogEntryKey(entry: ImportChangeLogEntry): string {
+    return `${entry.type}:${entry.codename}:${entry.type === 'languageVariant' ? entry.languageCodename : ''}`;
+}
+
+export async function importChangeLogAsync(config: {
+    readonly logger: Logger;
+    readonly changeLogFilename: string;
+    /**
+     * Resumed import keeps appending to the change log of the interrupted run
+     */
+    readonly append: boolean;
+}): Promise<ImportChangeLog> {
+    const fileManager = fileManagerInit(config.logger);
+    const recordedKeys = new Set<string>();
+
+    const changeLogExists = await fileManager.fileExistsAsync(config.changeLogFilename);
+
+    if (!config.append && changeLogExists && (await fileManager.loadFileAsync(config.changeLogFilename)).length) {
+        // change log of a previous import is the only way to roll it back
+        throw Error(
+            `Change log '${chalk.red(
+                config.changeLogFilename
+            )}' already exists. Roll back the previous import, remove the change log or use a different change log filename`
+        );
+    }
+
+    if (!config.append || !changeLogExists) {
+        await fileManager.writeFileAsync(config.changeLogFilename, '');
+    }
+
+    return {
+        filename: config.changeLogFilename,
+        async addEntryAsync(entry: ImportChangeLogEntry): Promise<void> {
+            const key = getImportChangeLogEntryKey(entry);
+
+            // only the state preceding the first modification is needed for rollback
+            if (recordedKeys.has(key)) {
+                return;
+            }
+            recordedKeys.add(key);
+
+            await fileManager.appendFileAsync(config.changeLogFilename, `${JSON.stringify(entry)}\n`);
+        }
+    };
+}
+
+export async function loadImportChangeLogAsync(config: {
+    readonly logger: Logger;
+    readonly changeLogFilename: string;
+}): Promise<readonly ImportChangeLogEntry[]> {
+    const fileManager = fileManagerInit(config.logger);
+
+    if (!(await fileManager.fileExistsAsync(config.changeLogFilename))) {
+        throw Error(`Change log '${chalk.red(config.changeLogFilename)}' does not exist`);
+    }
+
+    return (await fileManager.loadFileAsync(config.changeLogFilename))
+        .toString()
+        .split('\n')
+        .filter((line) => line.trim().length)
+        .map((line) => ImportChangeLogEntrySchema.parse(JSON.parse(line)));
+}
+
+/**
+ * Rolled back change log is kept under a new name so that the same change log filename can be used by the next import
+ */
+export async function archiveImportChangeLogAsync(config: {
+    readonly logger: Logger;
+    readonly changeLogFilename: string;
+}): Promise<string> {
+    const archivedFilename = `${config.changeLogFilename}.rolled-back-${new Date().toISOString().replaceAll(':', '-')}`;
+
+    await fileManagerInit(config.logger).renameFileAsync(config.changeLogFilename, archivedFilename);
+
+    return archivedFilename;
+}
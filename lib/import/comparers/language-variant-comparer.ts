@@ -0,0 +1,172 @@
+import { LanguageVariantModels, WorkflowModels } from '@kontent-ai/management-sdk';
+import deepEqual from 'deep-equal';
+import {
+    findRequired,
+    LanguageVariantStateData,
+    LanguageVariantStateInTargetEnvironmentByCodename,
+    MigrationElements,
+    MigrationItem,
+    MigrationItemVersion
+} from '../../core/index.js';
+import { ExportContext, getMigrationElements } from '../../export/index.js';
+import { ImportContext } from '../import.models.js';
+
+export function isLanguageVariantUnchanged(data: {
+    readonly migrationItem: MigrationItem;
+    readonly targetVariantState: LanguageVariantStateInTargetEnvironmentByCodename;
+    readonly importContext: ImportContext;
+}): boolean {
+    const workflow = data.importContext.environmentData.workflows.find((m) => m.codename === data.migrationItem.system.workflow.codename);
+
+    if (!workflow || data.targetVariantState.state === 'doesNotExists') {
+        return false;
+    }
+
+    const publishedVersion = data.migrationItem.versions.find((m) => m.workflow_step.codename === workflow.publishedStep.codename);
+    const draftVersion = data.migrationItem.versions.find((m) => m.workflow_step.codename !== workflow.publishedStep.codename);
+
+    return (
+        isVersionIdentical({
+            ...data,
+            workflow: workflow,
+            migrationVersion: publishedVersion,
+            targetVariant: data.targetVariantState.publishedLanguageVariant
+        }) &&
+        isVersionIdentical({
+            ...data,
+            workflow: workflow,
+            migrationVersion: draftVersion,
+            targetVariant: data.targetVariantState.draftLanguageVariant
+        })
+    );
+}
+
+function isVersionIdentical(data: {
+    readonly migrationItem: MigrationItem;
+    readonly workflow: Readonly<WorkflowModels.Workflow>;
+    readonly migrationVersion: MigrationItemVersion | undefined;
+    readonly targetVariant: LanguageVariantStateData | undefined;
+    readonly importContext: ImportContext;
+}): boolean {
+    const targetLanguageVariant = data.targetVariant?.languageVariant;
+
+    if (!data.migrationVersion || !targetLanguageVariant) {
+        return !data.migrationVersion && !targetLanguageVariant;
+    }
+
+    return (
+        isWorkflowStepIdentical({ ...data, migrationVersion: data.migrationVersion, targetLanguageVariant: targetLanguageVariant }) &&
+        isScheduleIdentical({ migrationVersion: data.migrationVersion, targetLanguageVariant: targetLanguageVariant }) &&
+        areElementsIdentical({ ...data, migrationVersion: data.migrationVersion, targetLanguageVariant: targetLanguageVariant })
+    );
+}
+
+function isWorkflowStepIdentical(data: {
+    readonly workflow: Readonly<WorkflowModels.Workflow>;
+    readonly migrationVersion: MigrationItemVersion;
+    readonly targetLanguageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>;
+}): boolean {
+    const targetStep = [...data.workflow.steps, data.workflow.publishedStep, data.workflow.archivedStep, data.workflow.scheduledStep].find(
+        (m) => m.id === data.targetLanguageVariant.workflow.stepIdentifier.id
+    );
+
+    return (
+        data.workflow.id === data.targetLanguageVariant.workflow.workflowIdentifier.id &&
+        targetStep?.codename === data.migrationVersion.workflow_step.codename
+    );
+}
+
+function isScheduleIdentical(data: {
+    readonly migrationVersion: MigrationItemVersion;
+    readonly targetLanguageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>;
+}): boolean {
+    const schedule = data.migrationVersion.schedule;
+    const targetSchedule = data.targetLanguageVariant.schedule;
+
+    return (
+        isTimeIdentical(schedule?.publish_time, targetSchedule.publishTime) &&
+        isTimeIdentical(schedule?.unpublish_time, targetSchedule.unpublishTime) &&
+        (schedule?.publish_display_timezone ?? null) === (targetSchedule.publishDisplayTimezone ?? null) &&
+        (schedule?.unpublish_display_timezone ?? null) === (targetSchedule.unpublishDisplayTimezone ?? null)
+    );
+}
+
+function isTimeIdentical(time: string | undefined, targetTime: string | null): boolean {
+    if (!time || !targetTime) {
+        return !time && !targetTime;
+    }
+
+    // compare parsed dates as the same time may be serialized differently (e.g. with or without milliseconds)
+    return new Date(time).getTime() === new Date(targetTime).getTime();
+}
+
+function areElementsIdentical(data: {
+    readonly migrationItem: MigrationItem;
+    readonly migrationVersion: MigrationItemVersion;
+    readonly targetLanguageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>;
+    readonly importContext: ImportContext;
+}): boolean {
+    const contentType = data.importContext.environmentData.types.find(
+        (m) => m.contentTypeCodename === data.migrationItem.system.type.codename
+    );
+
+    if (!contentType) {
+        return false;
+    }
+
+    try {
+        // transform target elements to the same codename based form as migration elements
+        const targetElements = getMigrationElements(getExportContext(data.importContext), contentType, data.targetLanguageVariant.elements);
+
+        return deepEqual(normalizeElements(data.migrationVersion.elements), normalizeElements(targetElements));
+    } catch {
+        // target variant references objects that are unknown to the import (e.g. items outside of migration data)
+        return false;
+    }
+}
+
+function normalizeElements(elements: MigrationElements): unknown {
+    return JSON.parse(
+        JSON.stringify(
+            Object.fromEntries(
+                Object.entries(elements).map(([codename, element]) => [
+                    codename,
+                    { ...element, components: element.components?.length ? element.components : undefined }
+                ])
+            )
+        )
+    );
+}
+
+function getExportContext(importContext: ImportContext): ExportContext {
+    return {
+        environmentData: {
+            languages: importContext.environmentData.languages,
+            contentTypes: importContext.environmentData.types,
+            collections: importContext.environmentData.collections,
+            assetFolders: importContext.environmentData.assetFolders,
+            workflows: importContext.environmentData.workflows,
+            taxonomies: importContext.environmentData.taxonomies
+        },
+        referencedData: { itemIds: new Set(), assetIds: new Set() },
+        exportItems: [],
+        getItemStateInSourceEnvironment: (id) => {
+            const item = importContext.getItemInTargetEnvironmentById(id);
+            return { id: id, item: item, state: item ? 'exists' : 'doesNotExists' };
+        },
+        getAssetStateInSourceEnvironment: (id) => {
+            const asset = importContext.getAssetInTargetEnvironmentById(id);
+            return { id: id, asset: asset, state: asset ? 'exists' : 'doesNotExists' };
+        },
+        getElement: (contentTypeId, elementId) =>
+            findRequired(
+                findRequired(
+                    importContext.environmentData.types,
+                    (m) => m.contentTypeId === contentTypeId,
+                    `Could not find content type with id '${contentTypeId}'`
+                ).elements,
+                (m) => m.id === elementId,
+                `Could not find element with id '${elementId}'`
+            )
+    };
+}
@@ -13,6 +13,7 @@ import {
     MigrationItem,
     WorkflowStep,
     findRequired,
+    getConcurrency,
     is404Error,
     managementClientUtils,
     processItemsAsync,
@@ -40,7 +41,8 @@ export async function importContextFetcherAsync(config: ImportContextConfig) {
                 languages: await mapiUtils.getAllLanguagesAsync(spinnerData),
                 workflows: await mapiUtils.getAllWorkflowsAsync(spinnerData),
                 types: await mapiUtils.getFlattenedContentTypesAsync(spinnerData),
-                assetFolders: await mapiUtils.getAllAssetFoldersAsync(spinnerData)
+                assetFolders: await mapiUtils.getAllAssetFoldersAsync(spinnerData),
+                taxonomies: await mapiUtils.getAllTaxonomiesAsync(spinnerData)
             };
 
             spinnerData({ type: 'info', message: `Environmental data loaded` });
@@ -100,7 +102,9 @@ export async function importContextFetcherAsync(config: ImportContextConfig) {
                 action: 'view',
                 type: 'languageVariant',
                 logSpinner: logSpinner,
-                itemName: `latest -> codename -> ${migrationItem.system.codename} (${migrationItem.system.language.codename})`
+                itemName: `latest -> codename -> ${migrationItem.system.codename} (${migrationItem.system.language.codename})`,
+                itemCodename: migrationItem.system.codename,
+                languageCodename: migrationItem.system.language.codename
             });
 
             return latestLanguageVariant;
@@ -132,7 +136,9 @@ export async function importContextFetcherAsync(config: ImportContextConfig) {
                 action: 'view',
                 type: 'languageVariant',
                 logSpinner: logSpinner,
-                itemName: `published -> codename -> ${migrationItem.system.codename} (${migrationItem.system.language.codename})`
+                itemName: `published -> codename -> ${migrationItem.system.codename} (${migrationItem.system.language.codename})`,
+                itemCodename: migrationItem.system.codename,
+                languageCodename: migrationItem.system.language.codename
             });
 
             return draftLanguageVariant;
@@ -152,7 +158,7 @@ export async function importContextFetcherAsync(config: ImportContextConfig) {
             await processItemsAsync<MigrationItem, LanguageVariantWrapper>({
                 action: 'Fetching language variants',
                 logger: config.logger,
-                parallelLimit: 1,
+                parallelLimit: getConcurrency(config.concurrency, 'fetch'),
                 items: migrationItems,
                 itemInfo: (item) => {
                     return {
@@ -197,7 +203,7 @@ export async function importContextFetcherAsync(config: ImportContextConfig) {
             await processItemsAsync<string, Readonly<ContentItemModels.ContentItem>>({
                 action: 'Fetching content items',
                 logger: config.logger,
-                parallelLimit: 1,
+                parallelLimit: getConcurrency(config.concurrency, 'fetch'),
                 items: Array.from(itemCodenames),
                 itemInfo: (codename) => {
                     return {
@@ -234,7 +240,7 @@ export async function importContextFetcherAsync(config: ImportContextConfig) {
             await processItemsAsync<string, Readonly<AssetModels.Asset>>({
                 action: 'Fetching assets',
                 logger: config.logger,
-                parallelLimit: 1,
+                parallelLimit: getConcurrency(config.concurrency, 'fetch'),
                 items: Array.from(assetCodenames),
                 itemInfo: (codename) => {
                     return {
@@ -456,6 +462,8 @@ export async function importContextFetcherAsync(config: ImportContextConfig) {
                     `Invalid state for asset '${chalk.red(assetCodename)}'. It is expected that all asset states will be initialized`
                 );
             },
+            getItemInTargetEnvironmentById: (id) => itemStates.find((m) => m.item?.id === id)?.item,
+            getAssetInTargetEnvironmentById: (id) => assetStates.find((m) => m.asset?.id === id)?.asset,
             getElement: getElementByCodenames
         };
     };
@@ -1,47 +1,69 @@
 import { ManagementClient } from '@kontent-ai/management-sdk';
 import chalk from 'chalk';
-import { defaultExternalIdGenerator, extractErrorData, getDefaultLogger, getMigrationManagementClient, Logger } from '../core/index.js';
+import { match } from 'ts-pattern';
+import {
+    DebugType,
+    defaultExternalIdGenerator,
+    extractErrorData,
+    getDefaultLogger,
+    getMapiRequestsStatsMessage,
+    getMigrationManagementClient,
+    ItemProcessingResult,
+    Logger,
+    mapiRequestsTracker,
+    MigrationAsset,
+    MigrationContentModel,
+    MigrationData,
+    MigrationItem,
+    removeColors
+} from '../core/index.js';
 import { importContextFetcherAsync } from './context/import-context-fetcher.js';
-import { ImportConfig, ImportContext, ImportedItem, ImportedLanguageVariant, ImportResult } from './import.models.js';
+import {
+    AppliedImportMapping,
+    ImportChangeLog,
+    ImportConfig,
+    ImportContext,
+    ImportedAsset,
+    ImportedItem,
+    ImportedLanguageVariant,
+    ImportJournal,
+    ImportJournalEntry,
+    ImportPlan,
+    ImportReport,
+    ImportReportError,
+    ImportReportItem,
+    ImportResult
+} from './import.models.js';
 import { assetsImporter } from './importers/assets-importer.js';
 import { contentItemsImporter } from './importers/content-items-importer.js';
+import { contentModelImporter } from './importers/content-model-importer.js';
 import { languageVariantImporter } from './importers/language-variant-importer.js';
+import { importChangeLogAsync } from './change-log/import-change-log.js';
+import { importJournalAsync } from './journal/import-journal.js';
+import { importMapper } from './mapping/import-mapper.js';
+import { getImportHtmlReport } from './report/import-html-report.js';
 
 const reportFilename: string = `import-report.json`;
+const htmlReportFilename: string = `import-report.html`;
+const planFilename: string = `import-plan.json`;
 
-type ReportResult = {
-    readonly errorsCount: number;
-    readonly assets: {
-        readonly count: number;
-        readonly successful: Array<{ readonly codename: string }>;
-        readonly failed: Array<{ readonly codename: string; readonly error: string }>;
-    };
-    readonly languageVariants: {
-        readonly count: number;
-        readonly successful: Array<{
-            readonly codename: string;
-            readonly language: { readonly codename: string };
-            readonly type: { readonly codename: string };
-        }>;
-        readonly failed: Array<{
-            readonly codename: string;
-            readonly language: { readonly codename: string };
-            readonly type: { readonly codename: string };
-            readonly error: string;
-        }>;
-    };
-    readonly contentItems: {
-        readonly count: number;
-        readonly successful: Array<{ readonly codename: string }>;
-        readonly failed: Array<{ readonly codename: string; readonly type: { readonly codename: string }; readonly error: string }>;
-    };
-};
+function getAssetJournalEntry(asset: MigrationAsset): ImportJournalEntry {
+    return { type: 'asset', codename: asset.codename };
+}
+
+function getLanguageVariantJournalEntry(item: MigrationItem): ImportJournalEntry {
+    return { type: 'languageVariant', codename: item.system.codename, languageCodename: item.system.language.codename };
+}
 
 export function importManager(config: ImportConfig) {
     const logger: Logger = config.logger ?? getDefaultLogger();
     const targetEnvironmentClient: Readonly<ManagementClient> = getMigrationManagementClient(config);
 
-    const importAssetsAsync = async (importContext: ImportContext): Promise<Pick<ImportResult, 'editedAssets' | 'uploadedAssets'>> => {
+    const importAssetsAsync = async (
+        importContext: ImportContext,
+        journal: ImportJournal | undefined,
+        changeLog: ImportChangeLog | undefined
+    ): Promise<Pick<ImportResult, 'editedAssets' | 'uploadedAssets'>> => {
         if (!importContext.categorizedImportData.assets.length) {
             logger.log({
                 type: 'info',
@@ -56,11 +78,18 @@ export function importManager(config: ImportConfig) {
         return await assetsImporter({
             client: targetEnvironmentClient,
             importContext: importContext,
-            logger: logger
+            logger: logger,
+            journal: journal,
+            changeLog: changeLog,
+            concurrency: config.concurrency
         }).importAsync();
     };
 
-    const importContentItemsAsync = async (importContext: ImportContext): Promise<readonly ImportedItem[]> => {
+    const importContentItemsAsync = async (
+        importContext: ImportContext,
+        journal: ImportJournal | undefined,
+        changeLog: ImportChangeLog | undefined
+    ): Promise<readonly ImportedItem[]> => {
         if (!importContext.categorizedImportData.contentItems.length) {
             logger.log({
                 type: 'info',
@@ -71,13 +100,18 @@ export function importManager(config: ImportConfig) {
         return await contentItemsImporter({
             client: targetEnvironmentClient,
             importContext: importContext,
-            logger: logger
+            logger: logger,
+            journal: journal,
+            changeLog: changeLog,
+            concurrency: config.concurrency
         }).importAsync();
     };
 
     const importLanguageVariantsAsync = async (
         importContext: ImportContext,
-        contentItems: readonly ImportedItem[]
+        contentItems: readonly ImportedItem[],
+        journal: ImportJournal | undefined,
+        changeLog: ImportChangeLog | undefined
     ): Promise<readonly ImportedLanguageVariant[]> => {
         if (!importContext.categorizedImportData.contentItems.length) {
             logger.log({
@@ -90,12 +124,166 @@ export function importManager(config: ImportConfig) {
             client: targetEnvironmentClient,
             importContext: importContext,
             logger: logger,
-            preparedContentItems: contentItems
+            preparedContentItems: contentItems,
+            journal: journal,
+            changeLog: changeLog,
+            skipUnchangedVariants: config.skipUnchangedVariants ?? true,
+            concurrency: config.concurrency
         }).importAsync();
     };
 
-    const getReportResult = (importResult: ImportResult): ReportResult => {
+    const isSuccessful = <InputItem, OutputItem>(result: ItemProcessingResult<InputItem, OutputItem>): boolean => {
+        // items completed in a previous run are merged into the result of the resumed run
+        return result.state === 'valid' || result.state === 'resumed';
+    };
+
+    const importContentModelAsync = async (
+        contentModel: MigrationContentModel | undefined,
+        changeLog: ImportChangeLog | undefined
+    ): Promise<void> => {
+        if (!config.importContentModel) {
+            return;
+        }
+
+        if (!contentModel) {
+            logger.log({
+                type: 'warning',
+                message: `Migration data do not contain content model. Skipping content model import`
+            });
+            return;
+        }
+
+        if (config.dryRun) {
+            logger.log({
+                type: 'warning',
+                message: `Content model is not imported in dry run`
+            });
+            return;
+        }
+
+        await contentModelImporter({
+            client: targetEnvironmentClient,
+            logger: logger,
+            changeLog: changeLog
+        }).importAsync(contentModel);
+    };
+
+    const getJournalAsync = async (): Promise<ImportJournal | undefined> => {
+        if (config.dryRun) {
+            // dry run only reads the journal it resumes from & never writes to it
+            return config.resumeFrom
+                ? await importJournalAsync({ logger: logger, journalFilename: config.resumeFrom, resumeFrom: config.resumeFrom })
+                : undefined;
+        }
+
+        const journalFilename = config.journalFilename ?? config.resumeFrom;
+
+        if (!journalFilename) {
+            return undefined;
+        }
+
+        return await importJournalAsync({
+            logger: logger,
+            journalFilename: journalFilename,
+            resumeFrom: config.resumeFrom
+        });
+    };
+
+    const getChangeLogAsync = async (): Promise<ImportChangeLog | undefined> => {
+        if (config.dryRun || !config.changeLogFilename) {
+            return undefined;
+        }
+
+        return await importChangeLogAsync({
+            logger: logger,
+            changeLogFilename: config.changeLogFilename,
+            append: config.resumeFrom !== undefined
+        });
+    };
+
+    const getMappedMigrationData = (): { readonly data: MigrationData; readonly appliedMappings: readonly AppliedImportMapping[] } => {
+        if (!config.mapping) {
+            return { data: config.data, appliedMappings: [] };
+        }
+
+        const mappedData = importMapper(config.mapping).mapMigrationData(config.data);
+
+        for (const appliedMapping of mappedData.appliedMappings) {
+            logger.log({
+                type: 'info',
+                message: `Mapped ${appliedMapping.objectType} '${chalk.yellow(appliedMapping.from)}' to '${chalk.green(appliedMapping.to)}'${
+                    appliedMapping.contentTypeCodename ? ` in content type '${chalk.cyan(appliedMapping.contentTypeCodename)}'` : ''
+                } (${appliedMapping.count}x)`
+            });
+        }
+
+        return mappedData;
+    };
+
+    const getPendingMigrationData = (journal: ImportJournal | undefined, migrationData: MigrationData): MigrationData => {
+        if (!journal) {
+            return migrationData;
+        }
+
+        return {
+            assets: migrationData.assets.filter((asset) => !journal.isCompleted(getAssetJournalEntry(asset))),
+            items: migrationData.items.filter((item) => !journal.isCompleted(getLanguageVariantJournalEntry(item)))
+        };
+    };
+
+    const mergeWithResumedData = (importResult: ImportResult, migrationData: MigrationData, pendingData: MigrationData): ImportResult => {
+        const resumedAssets = migrationData.assets.filter((asset) => !pendingData.assets.includes(asset));
+        const resumedLanguageVariants = migrationData.items.filter((item) => !pendingData.items.includes(item));
+        const resumedContentItems = resumedLanguageVariants
+            .filter((item) => !importResult.contentItems.some((m) => m.inputItem.system.codename === item.system.codename))
+            .filter((item, index, items) => items.findIndex((m) => m.system.codename === item.system.codename) === index);
+
+        return {
+            ...importResult,
+            uploadedAssets: [
+                ...resumedAssets.map<ImportedAsset>((m) => ({ state: 'resumed', inputItem: m })),
+                ...importResult.uploadedAssets
+            ],
+            contentItems: [
+                ...resumedContentItems.map<ImportedItem>((m) => ({ state: 'resumed', inputItem: m })),
+                ...importResult.contentItems
+            ],
+            languageVariants: [
+                ...resumedLanguageVariants.map<ImportedLanguageVariant>((m) => ({ state: 'resumed', inputItem: m })),
+                ...importResult.languageVariants
+            ]
+        };
+    };
+
+    const getReportError = (error: unknown): ImportReportError => {
+        const errorData = extractErrorData(error);
+
+        return {
+            error: removeColors(errorData.message),
+            requestUrl: errorData.requestUrl,
+            requestData: errorData.requestData
+        };
+    };
+
+    const getReportResult = (importResult: ImportResult): ImportReport => {
+        const itemIds = new Map<string, string>([
+            ...importResult.contentItems.flatMap<[string, string]>((m) =>
+                m.state === 'valid' ? [[m.inputItem.system.codename, m.outputItem.id]] : []
+            )
+        ]);
+
+        const getReportItem = (migrationItem: MigrationItem): ImportReportItem => {
+            return {
+                codename: migrationItem.system.codename,
+                itemId: itemIds.get(migrationItem.system.codename),
+                language: migrationItem.system.language,
+                type: migrationItem.system.type
+            };
+        };
+
         return {
+            environmentId: config.environmentId,
+            appliedMappings: importResult.appliedMappings,
             errorsCount:
                 importResult.editedAssets.filter((m) => m.state === 'error').length +
                 importResult.uploadedAssets.filter((m) => m.state === 'error').length +
@@ -104,77 +292,41 @@ export function importManager(config: ImportConfig) {
             assets: {
                 count: importResult.uploadedAssets.length + importResult.editedAssets.length,
                 successful: [
-                    ...importResult.uploadedAssets.filter((m) => m.state === 'valid').map((m) => m.inputItem.codename),
-                    ...importResult.editedAssets.filter((m) => m.state === 'valid').map((m) => m.inputItem.migrationAsset.codename)
+                    ...importResult.uploadedAssets.filter((m) => isSuccessful(m)).map((m) => m.inputItem.codename),
+                    ...importResult.editedAssets.filter((m) => isSuccessful(m)).map((m) => m.inputItem.migrationAsset.codename)
                 ].map((m) => {
                     return {
                         codename: m
                     };
                 }),
                 failed: [
-                    ...importResult.uploadedAssets
-                        .filter((m) => m.state === 'error')
-                        .map((m) => {
-                            return {
-                                codename: m.inputItem.codename,
-                                error: extractErrorData(m.state === 'error').message
-                            };
-                        }),
-                    ...importResult.editedAssets
-                        .filter((m) => m.state === 'error')
-                        .map((m) => {
-                            return {
-                                codename: m.inputItem.migrationAsset.codename,
-                                error: extractErrorData(m.state === 'error').message
-                            };
-                        })
+                    ...importResult.uploadedAssets.flatMap((m) =>
+                        m.state === 'error' ? [{ codename: m.inputItem.codename, ...getReportError(m.error) }] : []
+                    ),
+                    ...importResult.editedAssets.flatMap((m) =>
+                        m.state === 'error' ? [{ codename: m.inputItem.migrationAsset.codename, ...getReportError(m.error) }] : []
+                    )
                 ]
             },
             contentItems: {
                 count: importResult.contentItems.length,
-                successful: importResult.contentItems
-                    .filter((m) => m.state === 'valid')
-                    .map((m) => {
-                        return {
-                            codename: m.inputItem.system.codename
-                        };
-                    }),
-                failed: importResult.contentItems
-                    .filter((m) => m.state === 'error')
-                    .map((m) => {
-                        return {
-                            codename: m.inputItem.system.codename,
-                            type: m.inputItem.system.type,
-                            error: extractErrorData(m.state === 'error').message
-                        };
-                    })
+                successful: importResult.contentItems.filter((m) => isSuccessful(m)).map((m) => getReportItem(m.inputItem)),
+                failed: importResult.contentItems.flatMap((m) =>
+                    m.state === 'error' ? [{ ...getReportItem(m.inputItem), ...getReportError(m.error) }] : []
+                )
             },
             languageVariants: {
                 count: importResult.languageVariants.length,
-                successful: importResult.languageVariants
-                    .filter((m) => m.state === 'valid')
-                    .map((m) => {
-                        return {
-                            codename: m.inputItem.system.codename,
-                            language: m.inputItem.system.language,
-                            type: m.inputItem.system.type
-                        };
-                    }),
-                failed: importResult.languageVariants
-                    .filter((m) => m.state === 'error')
-                    .map((m) => {
-                        return {
-                            codename: m.inputItem.system.codename,
-                            language: m.inputItem.system.language,
-                            type: m.inputItem.system.type,
-                            error: extractErrorData(m.state === 'error').message
-                        };
-                    })
+                successful: importResult.languageVariants.filter((m) => isSuccessful(m)).map((m) => getReportItem(m.inputItem)),
+                skipped: importResult.languageVariants.filter((m) => m.state === 'skipped').map((m) => getReportItem(m.inputItem)),
+                failed: importResult.languageVariants.flatMap((m) =>
+                    m.state === 'error' ? [{ ...getReportItem(m.inputItem), ...getReportError(m.error) }] : []
+                )
             }
         };
     };
 
-    const printReportToConsole = (reportResult: ReportResult, logger: Logger): void => {
+    const printReportToConsole = (reportResult: ImportReport, logger: Logger): void => {
         const errors = [
             ...reportResult.assets.failed.map((m) => [
                 `Object type: ${chalk.yellow('Asset')}`,
@@ -204,31 +356,161 @@ export function importManager(config: ImportConfig) {
         });
     };
 
+    const getImportPlan = (importContext: ImportContext): ImportPlan => {
+        return {
+            assets: assetsImporter({
+                client: targetEnvironmentClient,
+                importContext: importContext,
+                logger: logger
+            }).getPlan(),
+            contentItems: contentItemsImporter({
+                client: targetEnvironmentClient,
+                importContext: importContext,
+                logger: logger
+            }).getPlan(),
+            languageVariants: languageVariantImporter({
+                client: targetEnvironmentClient,
+                importContext: importContext,
+                logger: logger,
+                preparedContentItems: [],
+                skipUnchangedVariants: config.skipUnchangedVariants ?? true
+            }).getPlan()
+        };
+    };
+
+    const printPlanToConsole = (plan: ImportPlan, logger: Logger): void => {
+        plan.assets.forEach((asset) => {
+            logger.log({
+                type: asset.action === 'upload' ? 'upload' : 'upsert',
+                message: `Asset '${chalk.yellow(asset.codename)}'${asset.action === 'edit' && asset.replaceBinaryFile ? ` (${chalk.cyan('replace binary file')})` : ''}`
+            });
+        });
+
+        plan.contentItems.forEach((contentItem) => {
+            logger.log({
+                type: match(contentItem.action)
+                    .returnType<DebugType>()
+                    .with('create', () => 'create')
+                    .with('update', () => 'upsert')
+                    .with('skip', () => 'skip')
+                    .exhaustive(),
+                message: `Content item '${chalk.yellow(contentItem.codename)}' of type '${chalk.cyan(contentItem.type.codename)}'`
+            });
+        });
+
+        plan.languageVariants.forEach((languageVariant) => {
+            const variantTitle = `Language variant '${chalk.yellow(languageVariant.codename)}' (${chalk.cyan(languageVariant.language.codename)})`;
+
+            if (languageVariant.error) {
+                logger.log({
+                    type: 'error',
+                    message: `${variantTitle}: ${chalk.red(languageVariant.error)}`
+                });
+                return;
+            }
+
+            logger.log({
+                type: 'languageVariant',
+                message: `${variantTitle}: ${
+                    languageVariant.actions.length
+                        ? languageVariant.actions
+                              .map((m) => (m.stepCodename ? `${m.action} (${chalk.magenta(m.stepCodename)})` : m.action))
+                              .join(' -> ')
+                        : chalk.gray('unchanged')
+                }`
+            });
+        });
+
+        logger.log({
+            type: 'info',
+            message: `Planned '${chalk.yellow(plan.assets.filter((m) => m.action === 'upload').length)}' asset uploads, '${chalk.yellow(
+                plan.assets.filter((m) => m.action === 'edit').length
+            )}' asset edits, '${chalk.yellow(plan.contentItems.filter((m) => m.action === 'create').length)}' new content items, '${chalk.yellow(
+                plan.contentItems.filter((m) => m.action === 'update').length
+            )}' content item updates & '${chalk.yellow(plan.languageVariants.length)}' language variants`
+        });
+    };
+
     return {
         async importAsync(): Promise<ImportResult> {
+            const requestsStats = mapiRequestsTracker.getStats();
+
+            // mapping is applied first as both content model & journal entries use mapped codenames
+            const { data: migrationData, appliedMappings } = getMappedMigrationData();
+
+            // previous state of modified objects is recorded so that import can be rolled back
+            const changeLog = await getChangeLogAsync();
+
+            // content model needs to exist before import context is prepared
+            await importContentModelAsync(migrationData.contentModel, changeLog);
+
+            const journal = await getJournalAsync();
+            const pendingData = getPendingMigrationData(journal, migrationData);
+
             const importContext = await (
                 await importContextFetcherAsync({
-                    migrationData: config.data,
+                    migrationData: pendingData,
                     externalIdGenerator: config.externalIdGenerator ?? defaultExternalIdGenerator,
                     logger: logger,
-                    managementClient: targetEnvironmentClient
+                    managementClient: targetEnvironmentClient,
+                    concurrency: config.concurrency
                 })
             ).getImportContextAsync();
 
+            if (config.dryRun) {
+                const plan = getImportPlan(importContext);
+
+                printPlanToConsole(plan, logger);
+                logger.log({
+                    type: 'completed',
+                    message: `Finished dry run. No changes were made to the target environment`
+                });
+
+                return {
+                    editedAssets: [],
+                    uploadedAssets: [],
+                    contentItems: [],
+                    languageVariants: [],
+                    appliedMappings: appliedMappings,
+                    plan: plan
+                };
+            }
+
             // #1 Assets
-            const { editedAssets, uploadedAssets } = await importAssetsAsync(importContext);
+            const { editedAssets, uploadedAssets } = await importAssetsAsync(importContext, journal, changeLog);
 
             // #2 Content items
-            const contentItems = await importContentItemsAsync(importContext);
+            const contentItems = await importContentItemsAsync(importContext, journal, changeLog);
 
             // #3 Language variants
-            const languageVariants = await importLanguageVariantsAsync(importContext, contentItems);
+            const languageVariants = await importLanguageVariantsAsync(importContext, contentItems, journal, changeLog);
+
+            const importResult = mergeWithResumedData(
+                {
+                    contentItems,
+                    editedAssets,
+                    languageVariants,
+                    uploadedAssets,
+                    appliedMappings
+                },
+                migrationData,
+                pendingData
+            );
 
-            const reportResult = getReportResult({
-                contentItems,
-                editedAssets,
-                languageVariants,
-                uploadedAssets
+            const reportResult = getReportResult(importResult);
+
+            if (reportResult.languageVariants.skipped.length) {
+                logger.log({
+                    type: 'skip',
+                    message: `Skipped '${chalk.yellow(
+                        reportResult.languageVariants.skipped.length.toString()
+                    )}' language variants identical to the ones in target environment`
+                });
+            }
+
+            logger.log({
+                type: 'info',
+                message: getMapiRequestsStatsMessage(requestsStats)
             });
 
             if (reportResult.errorsCount) {
@@ -246,18 +528,25 @@ export function importManager(config: ImportConfig) {
                 });
             }
 
-            return {
-                editedAssets,
-                uploadedAssets,
-                contentItems,
-                languageVariants
-            };
+            return importResult;
         },
         getReportFile(importResult: ImportResult): { readonly filename: string; readonly content: string } {
             return {
                 filename: reportFilename,
                 content: JSON.stringify(getReportResult(importResult))
             };
+        },
+        getHtmlReportFile(importResult: ImportResult): { readonly filename: string; readonly content: string } {
+            return {
+                filename: htmlReportFilename,
+                content: getImportHtmlReport(getReportResult(importResult))
+            };
+        },
+        getPlanFile(plan: ImportPlan): { readonly filename: string; readonly content: string } {
+            return {
+                filename: planFilename,
+                content: JSON.stringify(plan, undefined, 4)
+            };
         }
     };
 }
@@ -7,10 +7,13 @@ import {
     LanguageModels,
     LanguageVariantModels,
     ManagementClient,
+    SharedContracts,
+    TaxonomyModels,
     WorkflowModels
 } from '@kontent-ai/management-sdk';
 import {
     AssetStateInTargetEnvironmentByCodename,
+    ConcurrencyConfig,
     ExternalIdGenerator,
     FlattenedContentType,
     FlattenedContentTypeElement,
@@ -19,12 +22,16 @@ import {
     LanguageVariantStateInTargetEnvironmentByCodename,
     Logger,
     ManagementClientConfig,
+    MapiAction,
     MigrationAsset,
     MigrationData,
     MigrationElementTransformData,
     MigrationElementType,
     MigrationItem,
-    ReferencedDataInMigrationItems
+    MigrationItemVersion,
+    MigrationReference,
+    ReferencedDataInMigrationItems,
+    TargetItemState
 } from '../core/index.js';
 
 export interface ImportContextConfig {
@@ -32,6 +39,7 @@ export interface ImportContextConfig {
     readonly managementClient: Readonly<ManagementClient>;
     readonly externalIdGenerator: ExternalIdGenerator;
     readonly migrationData: MigrationData;
+    readonly concurrency: ConcurrencyConfig | undefined;
 }
 
 export interface ImportContextEnvironmentData {
@@ -40,6 +48,7 @@ export interface ImportContextEnvironmentData {
     readonly collections: readonly Readonly<CollectionModels.Collection>[];
     readonly workflows: readonly Readonly<WorkflowModels.Workflow>[];
     readonly types: readonly Readonly<FlattenedContentType>[];
+    readonly taxonomies: readonly Readonly<TaxonomyModels.Taxonomy>[];
 }
 
 export type GetFlattenedElementByCodenames = (
@@ -63,6 +72,8 @@ export interface ImportContext {
         languageCodename: string
     ) => LanguageVariantStateInTargetEnvironmentByCodename;
     readonly getAssetStateInTargetEnvironment: (assetCodename: string) => AssetStateInTargetEnvironmentByCodename;
+    readonly getItemInTargetEnvironmentById: (id: string) => Readonly<ContentItemModels.ContentItem> | undefined;
+    readonly getAssetInTargetEnvironmentById: (id: string) => Readonly<AssetModels.Asset> | undefined;
     readonly getElement: GetFlattenedElementByCodenames;
 }
 
@@ -77,7 +88,85 @@ export interface ImportConfig extends ManagementClientConfig {
     readonly data: MigrationData;
     readonly externalIdGenerator?: ExternalIdGenerator;
     readonly createReportFile?: boolean;
+    /**
+     * When enabled, a human readable html report with summary & failed objects is created in current dir
+     */
+    readonly createHtmlReportFile?: boolean;
     readonly logger?: Logger;
+    /**
+     * When enabled, no data are written to target environment. Instead, a plan of all operations
+     * that would be performed is prepared and returned as part of the import result.
+     */
+    readonly dryRun?: boolean;
+    readonly createPlanFile?: boolean;
+    /**
+     * When enabled, content model stored in migration data is imported before assets & content items. Only
+     * missing collections, asset folders, taxonomies, snippets, content types & their elements are added.
+     */
+    readonly importContentModel?: boolean;
+    /**
+     * Name of the checkpoint journal file. An entry is appended to the journal after each successfully
+     * processed asset, content item & language variant. When not set, journal is written only by resumed import
+     */
+    readonly journalFilename?: string;
+    /**
+     * Name of the checkpoint journal file of a previous (interrupted) run. Objects recorded in the journal
+     * are skipped and the import continues where the previous run ended.
+     */
+    readonly resumeFrom?: string;
+    /**
+     * Name of the change log file. State of each asset, content item & language variant is recorded to the change log
+     * before it is modified so that the import can be rolled back. Content types & snippets created by content model import
+     * are recorded as well. When not set, no change log is written. Existing change log is never overwritten
+     */
+    readonly changeLogFilename?: string;
+    /**
+     * When enabled, language variants whose versions are identical to the ones in target environment are left untouched
+     * and reported as 'skipped'. Defaults to true
+     */
+    readonly skipUnchangedVariants?: boolean;
+    /**
+     * Codename mapping rules applied to migration data before import. Used when content model of target environment
+     * differs from the one of source environment.
+     */
+    readonly mapping?: ImportMapping;
+    /**
+     * Max number of objects processed in parallel per stage. Processing backs off automatically when rate limit is exceeded
+     */
+    readonly concurrency?: ConcurrencyConfig;
+}
+
+export type ImportMappingRules = Readonly<Record<string, string>>;
+
+/**
+ * Codenames used in migration data (keys) that are renamed to codenames of target environment (values)
+ */
+export interface ImportMapping {
+    readonly contentTypes?: ImportMappingRules;
+    /**
+     * Element mapping rules per content type. Content types are identified by codenames used in migration data
+     */
+    readonly elements?: Readonly<Record<string, ImportMappingRules>>;
+    readonly collections?: ImportMappingRules;
+    readonly languages?: ImportMappingRules;
+    readonly workflows?: ImportMappingRules;
+    readonly workflowSteps?: ImportMappingRules;
+    readonly taxonomyTerms?: ImportMappingRules;
+    readonly multipleChoiceOptions?: ImportMappingRules;
+}
+
+export type ImportMappingObjectType =
+    'contentType' | 'element' | 'collection' | 'language' | 'workflow' | 'workflowStep' | 'taxonomyTerm' | 'multipleChoiceOption';
+
+export interface AppliedImportMapping {
+    readonly objectType: ImportMappingObjectType;
+    readonly from: string;
+    readonly to: string;
+    /**
+     * Content type of mapped element
+     */
+    readonly contentTypeCodename?: string;
+    readonly count: number;
 }
 
 export interface AssetToEdit {
@@ -86,6 +175,30 @@ export interface AssetToEdit {
     readonly replaceBinaryFile: boolean;
 }
 
+export interface AssetsToImport {
+    readonly assetsToEdit: readonly AssetToEdit[];
+    readonly assetsToUpload: readonly MigrationAsset[];
+}
+
+export type ContentItemAction =
+    { readonly action: 'create' } | { readonly action: 'update' | 'skip'; readonly contentItem: Readonly<ContentItemModels.ContentItem> };
+
+export type WorkflowAction =
+    | { readonly action: 'changeWorkflowStep' | 'publish' | 'archive'; readonly stepCodename: string }
+    | {
+          readonly action: 'schedulePublish';
+          readonly schedule: { readonly publish_time: string; readonly publish_display_timezone: string };
+      }
+    | {
+          readonly action: 'scheduleUnpublish';
+          readonly schedule: { readonly unpublish_time: string; readonly unpublish_display_timezone: string };
+      };
+
+export type LanguageVariantAction =
+    | WorkflowAction
+    | { readonly action: 'cancelScheduledPublish' | 'cancelScheduledUnpublish' | 'createNewVersion' | 'unpublish' }
+    | { readonly action: 'upsert'; readonly stepCodename: string; readonly migrationItemVersion: MigrationItemVersion };
+
 export type ImportedItem = ItemProcessingResult<MigrationItem, Readonly<ContentItemModels.ContentItem>>;
 export type ImportedLanguageVariant = ItemProcessingResult<
     MigrationItem,
@@ -99,4 +212,177 @@ export interface ImportResult {
     readonly editedAssets: readonly EditedAsset[];
     readonly contentItems: readonly ImportedItem[];
     readonly languageVariants: readonly ImportedLanguageVariant[];
+    readonly appliedMappings: readonly AppliedImportMapping[];
+    readonly plan?: ImportPlan;
+}
+
+export interface ImportReportError {
+    readonly error: string;
+    readonly requestUrl?: string;
+    readonly requestData?: string;
+}
+
+export interface ImportReportAsset {
+    readonly codename: string;
+}
+
+export interface ImportReportItem {
+    readonly codename: string;
+    /**
+     * Id of content item in target environment. Undefined when item was not imported
+     */
+    readonly itemId: string | undefined;
+    readonly language: MigrationReference;
+    readonly type: MigrationReference;
+}
+
+export interface ImportReport {
+    readonly environmentId: string;
+    readonly errorsCount: number;
+    readonly appliedMappings: readonly AppliedImportMapping[];
+    readonly assets: {
+        readonly count: number;
+        readonly successful: readonly ImportReportAsset[];
+        readonly failed: readonly (ImportReportAsset & ImportReportError)[];
+    };
+    readonly contentItems: {
+        readonly count: number;
+        readonly successful: readonly ImportReportItem[];
+        readonly failed: readonly (ImportReportItem & ImportReportError)[];
+    };
+    readonly languageVariants: {
+        readonly count: number;
+        readonly successful: readonly ImportReportItem[];
+        readonly skipped: readonly ImportReportItem[];
+        readonly failed: readonly (ImportReportItem & ImportReportError)[];
+    };
+}
+
+export interface PlannedAsset {
+    readonly codename: string;
+    readonly title: string;
+    readonly action: 'upload' | 'edit';
+    readonly replaceBinaryFile: boolean;
+}
+
+export interface PlannedContentItem {
+    readonly codename: string;
+    readonly type: MigrationReference;
+    readonly action: 'create' | 'update' | 'skip';
+}
+
+export interface PlannedLanguageVariantAction {
+    readonly action: MapiAction;
+    readonly stepCodename?: string;
+}
+
+export interface PlannedLanguageVariant {
+    readonly codename: string;
+    readonly language: MigrationReference;
+    readonly type: MigrationReference;
+    readonly state: TargetItemState;
+    readonly actions: readonly PlannedLanguageVariantAction[];
+    readonly error?: string;
+}
+
+export interface ImportPlan {
+    readonly assets: readonly PlannedAsset[];
+    readonly contentItems: readonly PlannedContentItem[];
+    readonly languageVariants: readonly PlannedLanguageVariant[];
+}
+
+export type ImportJournalEntryType = 'asset' | 'contentItem' | 'languageVariant';
+
+export interface ImportJournalEntry {
+    readonly type: ImportJournalEntryType;
+    readonly codename: string;
+    readonly languageCodename?: string;
+}
+
+export type ImportJournal = {
+    readonly filename: string;
+    readonly completedEntries: readonly ImportJournalEntry[];
+    isCompleted(entry: ImportJournalEntry): boolean;
+    addEntryAsync(entry: ImportJournalEntry): Promise<void>;
+};
+
+export interface ImportChangeLogVariantVersion {
+    readonly workflowCodename: string;
+    readonly stepCodename: string;
+    readonly elements: readonly ElementContracts.IContentItemElementContract[];
+}
+
+export interface ImportChangeLogAssetEntry {
+    readonly type: 'asset';
+    readonly codename: string;
+    /**
+     * Undefined when asset was uploaded by the import
+     */
+    readonly previousAsset?: AssetModels.IUpsertAssetRequestData;
+}
+
+export interface ImportChangeLogContentItemEntry {
+    readonly type: 'contentItem';
+    readonly codename: string;
+    /**
+     * Undefined when content item was created by the import
+     */
+    readonly previousItem?: {
+        readonly name: string;
+        readonly collection: SharedContracts.IReferenceObjectContract;
+    };
+}
+
+export interface ImportChangeLogLanguageVariantEntry {
+    readonly type: 'languageVariant';
+    readonly codename: string;
+    readonly languageCodename: string;
+    /**
+     * Both versions are undefined when language variant was created by the import
+     */
+    readonly previousPublishedVersion?: ImportChangeLogVariantVersion;
+    readonly previousDraftVersion?: ImportChangeLogVariantVersion;
+}
+
+/**
+ * Content types & snippets are recorded only when they are created by content model import
+ */
+export interface ImportChangeLogContentModelEntry {
+    readonly type: 'contentType' | 'contentTypeSnippet';
+    readonly codename: string;
+}
+
+/**
+ * State of an object in target environment before it was modified by the import
+ */
+export type ImportChangeLogEntry =
+    ImportChangeLogAssetEntry | ImportChangeLogContentItemEntry | ImportChangeLogLanguageVariantEntry | ImportChangeLogContentModelEntry;
+
+export type ImportChangeLog = {
+    readonly filename: string;
+    addEntryAsync(entry: ImportChangeLogEntry): Promise<void>;
+};
+
+export interface RollbackConfig extends ManagementClientConfig {
+    /**
+     * Change log recorded by the import that is rolled back. It is archived once rollback finishes without errors
+     */
+    readonly changeLogFilename: string;
+    readonly logger?: Logger;
+    readonly concurrency?: ConcurrencyConfig;
+}
+
+export type RollbackAction = 'deleted' | 'restored';
+
+export type RolledBackLanguageVariant = ItemProcessingResult<ImportChangeLogLanguageVariantEntry, RollbackAction>;
+export type RolledBackItem = ItemProcessingResult<ImportChangeLogContentItemEntry, RollbackAction>;
+export type RolledBackAsset = ItemProcessingResult<ImportChangeLogAssetEntry, RollbackAction>;
+export type RolledBackContentModelObject = ItemProcessingResult<ImportChangeLogContentModelEntry, RollbackAction>;
+
+export interface RollbackResult {
+    readonly languageVariants: readonly RolledBackLanguageVariant[];
+    readonly contentItems: readonly RolledBackItem[];
+    readonly assets: readonly RolledBackAsset[];
+    readonly contentTypes: readonly RolledBackContentModelObject[];
+    readonly contentTypeSnippets: readonly RolledBackContentModelObject[];
 }
@@ -1,24 +1,46 @@
 import { AssetModels, LanguageModels, ManagementClient, SharedContracts } from '@kontent-ai/management-sdk';
 import chalk from 'chalk';
 import mime from 'mime';
+import { Readable } from 'stream';
 import {
+    ConcurrencyConfig,
     geSizeInBytes,
+    getConcurrency,
+    getCurrentEnvironment,
+    isLazyBinaryData,
     isNotUndefined,
+    loadBinaryDataAsync,
     Logger,
     LogSpinnerData,
     MigrationAsset,
     MigrationAssetDescription,
     MigrationReference,
     processItemsAsync,
-    runMapiRequestAsync
+    runMapiRequestAsync,
+    runStreamedRequestAsync
 } from '../../core/index.js';
+import { FileBinaryData } from '../../zip/index.js';
 import { shouldReplaceBinaryFile, shouldUpdateAsset } from '../comparers/asset-comparer.js';
-import { AssetToEdit, EditedAsset, ImportContext, ImportedAsset, ImportResult } from '../import.models.js';
+import {
+    AssetsToImport,
+    AssetToEdit,
+    EditedAsset,
+    ImportChangeLog,
+    ImportChangeLogEntry,
+    ImportContext,
+    ImportedAsset,
+    ImportJournal,
+    ImportResult,
+    PlannedAsset
+} from '../import.models.js';
 
 export function assetsImporter(data: {
     readonly logger: Logger;
     readonly client: Readonly<ManagementClient>;
     readonly importContext: ImportContext;
+    readonly journal?: ImportJournal;
+    readonly changeLog?: ImportChangeLog;
+    readonly concurrency?: ConcurrencyConfig;
 }) {
     const getAssetsToUpload = (): readonly MigrationAsset[] => {
         return data.importContext.categorizedImportData.assets
@@ -73,7 +95,7 @@ export function assetsImporter(data: {
         return await processItemsAsync<AssetToEdit, Readonly<AssetModels.Asset>>({
             action: 'Upserting assets',
             logger: data.logger,
-            parallelLimit: 1,
+            parallelLimit: getConcurrency(data.concurrency, 'assetEdits'),
             items: assetsToEdit,
             itemInfo: (input) => {
                 return {
@@ -82,13 +104,15 @@ export function assetsImporter(data: {
                 };
             },
             processAsync: async (assetEditRequest, logSpinner) => {
+                await data.changeLog?.addEntryAsync(getEditedAssetChangeLogEntry(assetEditRequest.targetAsset));
+
                 let uploadedBinaryFile: Readonly<AssetModels.AssetFileReference> | undefined;
 
                 if (assetEditRequest.replaceBinaryFile) {
                     uploadedBinaryFile = await uploadBinaryFileAsync(assetEditRequest.migrationAsset, logSpinner);
                 }
 
-                return await runMapiRequestAsync({
+                const editedAsset = await runMapiRequestAsync({
                     logger: data.logger,
                     func: async () => {
                         return (
@@ -112,10 +136,28 @@ export function assetsImporter(data: {
                     logSpinner: logSpinner,
                     itemName: `${assetEditRequest.migrationAsset.title ?? assetEditRequest.migrationAsset.filename}`
                 });
+
+                await data.journal?.addEntryAsync({ type: 'asset', codename: assetEditRequest.migrationAsset.codename });
+
+                return editedAsset;
             }
         });
     };
 
+    const getEditedAssetChangeLogEntry = (targetAsset: Readonly<AssetModels.Asset>): ImportChangeLogEntry => {
+        return {
+            type: 'asset',
+            codename: targetAsset.codename,
+            previousAsset: {
+                title: targetAsset._raw.title,
+                descriptions: targetAsset._raw.descriptions,
+                file_reference: targetAsset._raw.file_reference,
+                folder: targetAsset._raw.folder,
+                collection: targetAsset._raw.collection
+            }
+        };
+    };
+
     const filterInvalidLanguages = (description: MigrationAssetDescription): Readonly<LanguageModels.LanguageModel> | undefined => {
         return data.importContext.environmentData.languages.find((lang) => lang.codename === description.language.codename);
     };
@@ -161,26 +203,44 @@ export function assetsImporter(data: {
         migrationAsset: MigrationAsset,
         logSpinner: LogSpinnerData
     ): Promise<Readonly<AssetModels.AssetFileReference>> => {
-        return await runMapiRequestAsync({
-            logger: data.logger,
-            func: async () => {
-                return (
-                    await data.client
-                        .uploadBinaryFile()
-                        .withData({
-                            binaryData: migrationAsset.binary_data,
-                            contentLength: geSizeInBytes(migrationAsset.binary_data),
-                            contentType: mime.getType(migrationAsset.filename) ?? '',
-                            filename: migrationAsset.filename
-                        })
-                        .toPromise()
-                ).data;
-            },
-            action: 'upload',
-            type: 'binaryFile',
-            logSpinner: logSpinner,
-            itemName: `${migrationAsset.title ?? migrationAsset.filename}`
-        });
+        const binaryData = migrationAsset.binary_data;
+
+        const uploadAsync = async (
+            body: FileBinaryData | Readable,
+            contentLength: number
+        ): Promise<Readonly<AssetModels.AssetFileReference>> => {
+            return await runMapiRequestAsync({
+                logger: data.logger,
+                func: async () => {
+                    return (
+                        await data.client
+                            .uploadBinaryFile()
+                            .withData({
+                                binaryData: body,
+                                contentLength: contentLength,
+                                contentType: mime.getType(migrationAsset.filename) ?? '',
+                                filename: migrationAsset.filename
+                            })
+                            .toPromise()
+                    ).data;
+                },
+                action: 'upload',
+                type: 'binaryFile',
+                logSpinner: logSpinner,
+                itemName: `${migrationAsset.title ?? migrationAsset.filename}`
+            });
+        };
+
+        // binary data is streamed into the request when possible so that large files are never held in memory
+        if (isLazyBinaryData(binaryData) && binaryData.openStreamAsync && getCurrentEnvironment() === 'node') {
+            return await runStreamedRequestAsync({
+                openStreamAsync: binaryData.openStreamAsync,
+                func: async (stream) => await uploadAsync(stream, binaryData.size)
+            });
+        }
+
+        const loadedBinaryData = await loadBinaryDataAsync(binaryData);
+        return await uploadAsync(loadedBinaryData, geSizeInBytes(loadedBinaryData));
     };
 
     const uploadAssetsAsync = async (assetsToUpload: readonly MigrationAsset[]): Promise<readonly ImportedAsset[]> => {
@@ -192,7 +252,7 @@ export function assetsImporter(data: {
         return await processItemsAsync<MigrationAsset, Readonly<AssetModels.Asset>>({
             action: 'Uploading assets',
             logger: data.logger,
-            parallelLimit: 3,
+            parallelLimit: getConcurrency(data.concurrency, 'assets'),
             items: assetsToUpload,
             itemInfo: (input) => {
                 return {
@@ -201,9 +261,11 @@ export function assetsImporter(data: {
                 };
             },
             processAsync: async (migrationAsset, logSpinner) => {
+                await data.changeLog?.addEntryAsync({ type: 'asset', codename: migrationAsset.codename });
+
                 const uploadedBinaryFile = await uploadBinaryFileAsync(migrationAsset, logSpinner);
 
-                return await runMapiRequestAsync({
+                const uploadedAsset = await runMapiRequestAsync({
                     logger: data.logger,
                     func: async () =>
                         (
@@ -232,18 +294,58 @@ export function assetsImporter(data: {
                     logSpinner: logSpinner,
                     itemName: `${migrationAsset.title ?? migrationAsset.filename}`
                 });
+
+                await data.journal?.addEntryAsync({ type: 'asset', codename: migrationAsset.codename });
+
+                return uploadedAsset;
             }
         });
     };
 
+    /**
+     * Assets are selected the same way for both import & dry run plan
+     */
+    const getAssetsToImport = (): AssetsToImport => {
+        return {
+            assetsToEdit: getAssetsToEdit(),
+            assetsToUpload: getAssetsToUpload()
+        };
+    };
+
     const importAsync = async (): Promise<Pick<ImportResult, 'editedAssets' | 'uploadedAssets'>> => {
+        const { assetsToEdit, assetsToUpload } = getAssetsToImport();
+
         return {
-            editedAssets: await editAssets(getAssetsToEdit()),
-            uploadedAssets: await uploadAssetsAsync(getAssetsToUpload())
+            editedAssets: await editAssets(assetsToEdit),
+            uploadedAssets: await uploadAssetsAsync(assetsToUpload)
         };
     };
 
+    const getPlan = (): readonly PlannedAsset[] => {
+        const { assetsToEdit, assetsToUpload } = getAssetsToImport();
+
+        return [
+            ...assetsToEdit.map<PlannedAsset>((assetToEdit) => {
+                return {
+                    codename: assetToEdit.migrationAsset.codename,
+                    title: assetToEdit.migrationAsset.title,
+                    action: 'edit',
+                    replaceBinaryFile: assetToEdit.replaceBinaryFile
+                };
+            }),
+            ...assetsToUpload.map<PlannedAsset>((migrationAsset) => {
+                return {
+                    codename: migrationAsset.codename,
+                    title: migrationAsset.title,
+                    action: 'upload',
+                    replaceBinaryFile: true
+                };
+            })
+        ];
+    };
+
     return {
-        importAsync
+        importAsync,
+        getPlan
     };
 }
@@ -1,12 +1,25 @@
 import { ContentItemModels, ManagementClient } from '@kontent-ai/management-sdk';
 import chalk from 'chalk';
-import { LogSpinnerData, Logger, MigrationItem, findRequired, processItemsAsync, runMapiRequestAsync } from '../../core/index.js';
-import { ImportContext, ImportedItem } from '../import.models.js';
+import { match } from 'ts-pattern';
+import {
+    ConcurrencyConfig,
+    LogSpinnerData,
+    Logger,
+    MigrationItem,
+    findRequired,
+    getConcurrency,
+    processItemsAsync,
+    runMapiRequestAsync
+} from '../../core/index.js';
+import { ContentItemAction, ImportChangeLog, ImportContext, ImportedItem, ImportJournal, PlannedContentItem } from '../import.models.js';
 
 export function contentItemsImporter(data: {
     readonly logger: Logger;
     readonly client: Readonly<ManagementClient>;
     readonly importContext: ImportContext;
+    readonly journal?: ImportJournal;
+    readonly changeLog?: ImportChangeLog;
+    readonly concurrency?: ConcurrencyConfig;
 }) {
     const shouldUpdateContentItem = (migrationItem: MigrationItem, contentItem: Readonly<ContentItemModels.ContentItem>): boolean => {
         const collection = findRequired(
@@ -18,20 +31,29 @@ export function contentItemsImporter(data: {
         return migrationItem.system.name !== contentItem.name || migrationItem.system.collection.codename !== collection.codename;
     };
 
-    const prepareContentItemAsync = async (
-        logSpinner: LogSpinnerData,
-        migrationItem: MigrationItem
-    ): Promise<{ contentItem: Readonly<ContentItemModels.ContentItem>; status: 'created' | 'itemAlreadyExists' }> => {
+    /**
+     * Only name & collection are updated for existing items, no other changes are supported
+     */
+    const getContentItemAction = (migrationItem: MigrationItem): ContentItemAction => {
         const itemStateInTargetEnv = data.importContext.getItemStateInTargetEnvironment(migrationItem.system.codename);
 
         if (itemStateInTargetEnv.state === 'exists' && itemStateInTargetEnv.item) {
             return {
-                contentItem: itemStateInTargetEnv.item,
-                status: 'itemAlreadyExists'
+                action: shouldUpdateContentItem(migrationItem, itemStateInTargetEnv.item) ? 'update' : 'skip',
+                contentItem: itemStateInTargetEnv.item
             };
         }
 
-        const createdContentItem = await runMapiRequestAsync({
+        return { action: 'create' };
+    };
+
+    const createContentItemAsync = async (
+        logSpinner: LogSpinnerData,
+        migrationItem: MigrationItem
+    ): Promise<Readonly<ContentItemModels.ContentItem>> => {
+        await data.changeLog?.addEntryAsync({ type: 'contentItem', codename: migrationItem.system.codename });
+
+        return await runMapiRequestAsync({
             logger: data.logger,
             func: async () =>
                 (
@@ -42,7 +64,7 @@ export function contentItemsImporter(data: {
                             type: {
                                 codename: migrationItem.system.type.codename
                             },
-                            external_id: itemStateInTargetEnv.externalIdToUse,
+                            external_id: data.importContext.getItemStateInTargetEnvironment(migrationItem.system.codename).externalIdToUse,
                             codename: migrationItem.system.codename,
                             collection: {
                                 codename: migrationItem.system.collection.codename
@@ -53,72 +75,102 @@ export function contentItemsImporter(data: {
             action: 'create',
             type: 'contentItem',
             logSpinner: logSpinner,
-            itemName: `${migrationItem.system.codename} (${migrationItem.system.language.codename})`
+            itemName: `${migrationItem.system.codename} (${migrationItem.system.language.codename})`,
+            itemCodename: migrationItem.system.codename
+        });
+    };
+
+    const updateContentItemAsync = async (
+        logSpinner: LogSpinnerData,
+        migrationItem: MigrationItem,
+        contentItem: Readonly<ContentItemModels.ContentItem>
+    ): Promise<Readonly<ContentItemModels.ContentItem>> => {
+        await data.changeLog?.addEntryAsync({
+            type: 'contentItem',
+            codename: migrationItem.system.codename,
+            previousItem: {
+                name: contentItem.name,
+                collection: { id: contentItem.collection.id }
+            }
+        });
+
+        await runMapiRequestAsync({
+            logger: data.logger,
+            func: async () => {
+                await data.client
+                    .upsertContentItem()
+                    .byItemCodename(migrationItem.system.codename)
+                    .withData({
+                        name: migrationItem.system.name,
+                        collection: {
+                            codename: migrationItem.system.collection.codename
+                        }
+                    })
+                    .toPromise();
+            },
+            action: 'upsert',
+            type: 'contentItem',
+            logSpinner: logSpinner,
+            itemName: `${migrationItem.system.codename} (${migrationItem.system.language.codename})`,
+            itemCodename: migrationItem.system.codename
         });
 
-        return {
-            contentItem: createdContentItem,
-            status: 'created'
-        };
+        return contentItem;
     };
 
     const importContentItemAsync = async (
         logSpinner: LogSpinnerData,
         migrationItem: MigrationItem
     ): Promise<Readonly<ContentItemModels.ContentItem>> => {
-        const preparedContentItemResult = await prepareContentItemAsync(logSpinner, migrationItem);
-
-        // check if name should be updated, no other changes are supported
-        if (preparedContentItemResult.status === 'itemAlreadyExists') {
-            if (shouldUpdateContentItem(migrationItem, preparedContentItemResult.contentItem)) {
-                await runMapiRequestAsync({
-                    logger: data.logger,
-                    func: async () => {
-                        await data.client
-                            .upsertContentItem()
-                            .byItemCodename(migrationItem.system.codename)
-                            .withData({
-                                name: migrationItem.system.name,
-                                collection: {
-                                    codename: migrationItem.system.collection.codename
-                                }
-                            })
-                            .toPromise();
-                    },
-                    action: 'upsert',
-                    type: 'contentItem',
-                    logSpinner: logSpinner,
-                    itemName: `${migrationItem.system.codename} (${migrationItem.system.language.codename})`
-                });
-            }
-        }
+        const contentItem = await match(getContentItemAction(migrationItem))
+            .returnType<Promise<Readonly<ContentItemModels.ContentItem>>>()
+            .with({ action: 'create' }, async () => await createContentItemAsync(logSpinner, migrationItem))
+            .with({ action: 'update' }, async (m) => await updateContentItemAsync(logSpinner, migrationItem, m.contentItem))
+            .with({ action: 'skip' }, async (m) => await Promise.resolve(m.contentItem))
+            .exhaustive();
+
+        await data.journal?.addEntryAsync({ type: 'contentItem', codename: migrationItem.system.codename });
 
-        return preparedContentItemResult.contentItem;
+        return contentItem;
     };
 
-    const importAsync = async (): Promise<readonly ImportedItem[]> => {
+    const isCompleted = (migrationItem: MigrationItem): boolean => {
+        return data.journal?.isCompleted({ type: 'contentItem', codename: migrationItem.system.codename }) ?? false;
+    };
+
+    const getContentItemsToImport = (): readonly MigrationItem[] => {
         // Only import unique content items based on their codename. The input may contain items in various language variants which share
         // the same underlying content item.
-        const contentItemsToImport = data.importContext.categorizedImportData.contentItems.reduce<Readonly<MigrationItem[]>>(
-            (filteredItems, item) => {
-                if (filteredItems.some((m) => m.system.codename === item.system.codename)) {
-                    return filteredItems;
-                }
+        return data.importContext.categorizedImportData.contentItems.reduce<Readonly<MigrationItem[]>>((filteredItems, item) => {
+            if (filteredItems.some((m) => m.system.codename === item.system.codename)) {
+                return filteredItems;
+            }
 
-                return [...filteredItems, item];
-            },
-            []
-        );
+            return [...filteredItems, item];
+        }, []);
+    };
+
+    const importAsync = async (): Promise<readonly ImportedItem[]> => {
+        // content items completed in a previous run are not imported again
+        const resumedContentItems = getContentItemsToImport()
+            .filter((item) => isCompleted(item))
+            .map<ImportedItem>((item) => {
+                return {
+                    state: 'resumed',
+                    inputItem: item
+                };
+            });
+        const contentItemsToImport = getContentItemsToImport().filter((item) => !isCompleted(item));
 
         data.logger.log({
             type: 'info',
             message: `Importing '${chalk.yellow(contentItemsToImport.length.toString())}' content items`
         });
 
-        return await processItemsAsync<MigrationItem, Readonly<ContentItemModels.ContentItem>>({
+        const importedContentItems = await processItemsAsync<MigrationItem, Readonly<ContentItemModels.ContentItem>>({
             action: 'Importing content items',
             logger: data.logger,
-            parallelLimit: 1,
+            parallelLimit: getConcurrency(data.concurrency, 'contentItems'),
             items: contentItemsToImport,
             itemInfo: (item) => {
                 return {
@@ -130,9 +182,22 @@ export function contentItemsImporter(data: {
                 return await importContentItemAsync(logSpinner, item);
             }
         });
+
+        return [...resumedContentItems, ...importedContentItems];
+    };
+
+    const getPlan = (): readonly PlannedContentItem[] => {
+        return getContentItemsToImport().map<PlannedContentItem>((migrationItem) => {
+            return {
+                codename: migrationItem.system.codename,
+                type: migrationItem.system.type,
+                action: getContentItemAction(migrationItem).action
+            };
+        });
     };
 
     return {
-        importAsync
+        importAsync,
+        getPlan
     };
 }
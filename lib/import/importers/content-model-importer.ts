@@ -0,0 +1,573 @@
+import {
+    AssetFolderModels,
+    ContentTypeElements,
+    ContentTypeModels,
+    ContentTypeSnippetModels,
+    ManagementClient,
+    TaxonomyModels
+} from '@kontent-ai/management-sdk';
+import chalk from 'chalk';
+import { match } from 'ts-pattern';
+import { z } from 'zod';
+import {
+    Logger,
+    managementClientUtils,
+    MapiType,
+    MigrationAssetFolder,
+    MigrationContentModel,
+    MigrationContentType,
+    MigrationContentTypeElement,
+    MigrationContentTypeSnippet,
+    MigrationTaxonomyTerm,
+    runMapiRequestAsync
+} from '../../core/index.js';
+import { ImportChangeLog } from '../import.models.js';
+
+interface TargetContentModel {
+    readonly collectionCodenames: readonly string[];
+    readonly assetFolders: readonly Readonly<AssetFolderModels.AssetFolder>[];
+    readonly taxonomies: readonly Readonly<TaxonomyModels.Taxonomy>[];
+    readonly contentTypeSnippets: readonly Readonly<ContentTypeSnippetModels.ContentTypeSnippet>[];
+    readonly contentTypes: readonly Readonly<ContentTypeModels.ContentType>[];
+}
+
+interface DeferredReferences {
+    readonly type: Extract<MapiType, 'contentType' | 'contentTypeSnippet'>;
+    readonly codename: string;
+    readonly operations: readonly ContentTypeModels.IModifyContentTypeData[];
+}
+
+/**
+ * References to content types may point to types that are not yet created and are therefore set once
+ * all types & snippets exist in target environment
+ */
+const deferredReferenceProperties: readonly string[] = ['allowed_content_types', 'allowed_item_link_types'];
+
+const ReferenceSchema = z.object({ codename: z.string() });
+const CountLimitSchema = z.object({ value: z.number(), condition: z.enum(['at_most', 'exactly', 'at_least']) });
+const TextLengthLimitSchema = z.object({ value: z.number(), applies_to: z.enum(['words', 'characters']) });
+const ValidationRegexSchema = z.object({
+    is_active: z.boolean(),
+    regex: z.string(),
+    flags: z
+        .string()
+        .nullish()
+        .transform((m) => m ?? undefined),
+    validation_message: z.string().optional()
+});
+const TextBlocksSchema = z.array(
+    z.enum([
+        'paragraph',
+        'heading-one',
+        'heading-two',
+        'heading-three',
+        'heading-four',
+        'heading-five',
+        'heading-six',
+        'ordered-list',
+        'unordered-list'
+    ])
+);
+const FormattingSchema = z.array(z.enum(['unstyled', 'bold', 'italic', 'code', 'link', 'subscript', 'superscript']));
+
+const getDefaultValueSchema = <T extends z.ZodTypeAny>(valueSchema: T) => z.object({ global: z.object({ value: valueSchema }) }).optional();
+
+const BaseElementSchema = z.object({
+    codename: z.string(),
+    content_group: ReferenceSchema.optional()
+});
+
+const ValueElementSchema = BaseElementSchema.extend({
+    name: z.string(),
+    guidelines: z.string().optional(),
+    is_required: z.boolean().optional(),
+    is_non_localizable: z.boolean().optional()
+});
+
+const TextElementSchema = ValueElementSchema.extend({
+    type: z.literal('text'),
+    maximum_text_length: TextLengthLimitSchema.optional(),
+    validation_regex: ValidationRegexSchema.optional(),
+    default: getDefaultValueSchema(z.string())
+});
+
+const RichTextElementSchema = ValueElementSchema.extend({
+    type: z.literal('rich_text'),
+    maximum_text_length: TextLengthLimitSchema.optional(),
+    maximum_image_size: z.number().optional(),
+    allowed_content_types: z.array(ReferenceSchema).optional(),
+    allowed_item_link_types: z.array(ReferenceSchema).optional(),
+    image_width_limit: CountLimitSchema.optional(),
+    image_height_limit: CountLimitSchema.optional(),
+    allowed_image_types: z.enum(['adjustable', 'any']).optional(),
+    allowed_blocks: z.array(z.enum(['images', 'text', 'tables', 'components-and-items'])).optional(),
+    allowed_text_blocks: TextBlocksSchema.optional(),
+    allowed_formatting: FormattingSchema.optional(),
+    allowed_table_blocks: z.array(z.enum(['images', 'text'])).optional(),
+    allowed_table_text_blocks: TextBlocksSchema.optional(),
+    allowed_table_formatting: FormattingSchema.optional()
+});
+
+const NumberElementSchema = ValueElementSchema.extend({
+    type: z.literal('number'),
+    default: getDefaultValueSchema(z.number())
+});
+
+const MultipleChoiceElementSchema = ValueElementSchema.extend({
+    type: z.literal('multiple_choice'),
+    mode: z.enum(['single', 'multiple']),
+    options: z.array(z.object({ name: z.string(), codename: z.string().optional() })),
+    default: getDefaultValueSchema(z.array(ReferenceSchema))
+});
+
+const DateTimeElementSchema = ValueElementSchema.extend({
+    type: z.literal('date_time'),
+    default: getDefaultValueSchema(z.string())
+});
+
+const AssetElementSchema = ValueElementSchema.extend({
+    type: z.literal('asset'),
+    asset_count_limit: CountLimitSchema.optional(),
+    maximum_file_size: z.number().optional(),
+    allowed_file_types: z.enum(['adjustable', 'any']).optional(),
+    image_width_limit: CountLimitSchema.optional(),
+    image_height_limit: CountLimitSchema.optional(),
+    default: getDefaultValueSchema(z.array(ReferenceSchema))
+});
+
+const LinkedItemsElementSchema = ValueElementSchema.extend({
+    type: z.literal('modular_content'),
+    item_count_limit: CountLimitSchema.optional(),
+    allowed_content_types: z.array(ReferenceSchema).optional(),
+    default: getDefaultValueSchema(z.array(ReferenceSchema))
+});
+
+const SubpagesElementSchema = ValueElementSchema.extend({
+    type: z.literal('subpages'),
+    item_count_limit: CountLimitSchema.optional(),
+    allowed_content_types: z.array(ReferenceSchema).optional()
+});
+
+const TaxonomyElementSchema = ValueElementSchema.extend({
+    type: z.literal('taxonomy'),
+    name: z.string().optional(),
+    taxonomy_group: ReferenceSchema,
+    term_count_limit: CountLimitSchema.optional(),
+    default: getDefaultValueSchema(z.array(ReferenceSchema))
+});
+
+const UrlSlugElementSchema = ValueElementSchema.extend({
+    type: z.literal('url_slug'),
+    depends_on: z.object({ element: ReferenceSchema, snippet: ReferenceSchema.optional() }),
+    validation_regex: ValidationRegexSchema.optional()
+});
+
+const CustomElementSchema = ValueElementSchema.extend({
+    type: z.literal('custom'),
+    source_url: z.string(),
+    json_parameters: z.string().optional(),
+    allowed_elements: z.array(ReferenceSchema).optional()
+});
+
+const GuidelinesElementSchema = BaseElementSchema.extend({
+    type: z.literal('guidelines'),
+    guidelines: z.string()
+});
+
+const SnippetElementSchema = BaseElementSchema.extend({
+    type: z.literal('snippet'),
+    snippet: ReferenceSchema
+});
+
+export function contentModelImporter(config: {
+    readonly logger: Logger;
+    readonly client: Readonly<ManagementClient>;
+    readonly changeLog?: ImportChangeLog;
+}) {
+    const getTargetContentModelAsync = async (): Promise<TargetContentModel> => {
+        const mapiUtils = managementClientUtils(config.client, config.logger);
+
+        return await config.logger.logWithSpinnerAsync(async (logSpinner) => {
+            logSpinner({ type: 'info', message: `Loading content model of target environment` });
+
+            return {
+                collectionCodenames: (await mapiUtils.getAllCollectionsAsync(logSpinner)).map((m) => m.codename),
+                assetFolders: await mapiUtils.getAllAssetFoldersAsync(logSpinner),
+                taxonomies: await mapiUtils.getAllTaxonomiesAsync(logSpinner),
+                contentTypeSnippets: await mapiUtils.getAllContentTypeSnippetsAsync(logSpinner),
+                contentTypes: await mapiUtils.getAllContentTypesAsync(logSpinner)
+            };
+        });
+    };
+
+    const toElementData = (element: MigrationContentTypeElement): ContentTypeElements.Element => {
+        // element definitions are stored in the shape of Management API contracts
+        const elementData = Object.fromEntries(Object.entries(element).filter(([key]) => !deferredReferenceProperties.includes(key)));
+
+        return match(element.type)
+            .returnType<ContentTypeElements.Element>()
+            .with('text', () => TextElementSchema.parse(elementData))
+            .with('rich_text', () => RichTextElementSchema.parse(elementData))
+            .with('number', () => NumberElementSchema.parse(elementData))
+            .with('multiple_choice', () => MultipleChoiceElementSchema.parse(elementData))
+            .with('date_time', () => DateTimeElementSchema.parse(elementData))
+            .with('asset', () => AssetElementSchema.parse(elementData))
+            .with('modular_content', () => LinkedItemsElementSchema.parse(elementData))
+            .with('subpages', () => SubpagesElementSchema.parse(elementData))
+            .with('taxonomy', () => TaxonomyElementSchema.parse(elementData))
+            .with('url_slug', () => UrlSlugElementSchema.parse(elementData))
+            .with('custom', () => CustomElementSchema.parse(elementData))
+            .with('guidelines', () => GuidelinesElementSchema.parse(elementData))
+            .with('snippet', () => SnippetElementSchema.parse(elementData))
+            .otherwise((type) => {
+                throw Error(`Element '${chalk.red(element.codename)}' is of unsupported type '${chalk.red(type)}'`);
+            });
+    };
+
+    const getDeferredReferences = (
+        type: DeferredReferences['type'],
+        codename: string,
+        elements: readonly MigrationContentTypeElement[]
+    ): DeferredReferences => {
+        return {
+            type: type,
+            codename: codename,
+            operations: elements.flatMap((element) =>
+                deferredReferenceProperties
+                    .filter((property) => Array.isArray(element[property]) && (element[property] as unknown[]).length)
+                    .map<ContentTypeModels.IModifyContentTypeData>((property) => {
+                        return {
+                            op: 'replace',
+                            path: `/elements/codename:${element.codename}/${property}`,
+                            value: element[property]
+                        };
+                    })
+            )
+        };
+    };
+
+    const importCollectionsAsync = async (contentModel: MigrationContentModel, target: TargetContentModel): Promise<void> => {
+        const collectionsToAdd = contentModel.collections.filter((m) => !target.collectionCodenames.includes(m.codename));
+
+        if (!collectionsToAdd.length) {
+            return;
+        }
+
+        await runMapiRequestAsync({
+            logger: config.logger,
+            func: async () =>
+                await config.client
+                    .setCollections()
+                    .withData(
+                        collectionsToAdd.map((collection) => {
+                            return {
+                                op: 'addInto',
+                                value: { name: collection.name, codename: collection.codename }
+                            };
+                        })
+                    )
+                    .toPromise(),
+            action: 'create',
+            type: 'collection',
+            itemName: collectionsToAdd.map((m) => m.codename).join(', ')
+        });
+    };
+
+    const importAssetFoldersAsync = async (contentModel: MigrationContentModel, target: TargetContentModel): Promise<void> => {
+        const flattenFolders = (folders: readonly Readonly<AssetFolderModels.AssetFolder>[]): readonly string[] =>
+            folders.flatMap((folder) => [folder.codename, ...flattenFolders(folder.folders)]);
+        const mapFolder = (folder: MigrationAssetFolder): AssetFolderModels.IAssetFolderValue => {
+            return { name: folder.name, codename: folder.codename, folders: folder.folders.map((m) => mapFolder(m)) };
+        };
+
+        const targetFolderCodenames = flattenFolders(target.assetFolders);
+
+        const getOperations = (
+            folders: readonly MigrationAssetFolder[],
+            parentCodename: string | undefined
+        ): readonly AssetFolderModels.AddIntoOperation[] => {
+            return folders.flatMap((folder) => {
+                if (targetFolderCodenames.includes(folder.codename)) {
+                    return getOperations(folder.folders, folder.codename);
+                }
+
+                // whole subtree is added at once
+                return [
+                    {
+                        op: 'addInto',
+                        reference: parentCodename ? { codename: parentCodename } : undefined,
+                        value: mapFolder(folder)
+                    }
+                ];
+            });
+        };
+
+        const operations = getOperations(contentModel.assetFolders, undefined);
+
+        if (!operations.length) {
+            return;
+        }
+
+        await runMapiRequestAsync({
+            logger: config.logger,
+            func: async () =>
+                await config.client
+                    .modifyAssetFolders()
+                    .withData([...operations])
+                    .toPromise(),
+            action: 'create',
+            type: 'assetFolder',
+            itemName: operations.map((m) => m.value.codename).join(', ')
+        });
+    };
+
+    const importTaxonomiesAsync = async (contentModel: MigrationContentModel, target: TargetContentModel): Promise<void> => {
+        const mapTerm = (term: MigrationTaxonomyTerm): TaxonomyModels.IAddTaxonomyRequestModel => {
+            return { name: term.name, codename: term.codename, terms: term.terms.map((m) => mapTerm(m)) };
+        };
+
+        for (const taxonomy of contentModel.taxonomies) {
+            const targetTaxonomy = target.taxonomies.find((m) => m.codename === taxonomy.codename);
+
+            if (!targetTaxonomy) {
+                await runMapiRequestAsync({
+                    logger: config.logger,
+                    func: async () => await config.client.addTaxonomy().withData(mapTerm(taxonomy)).toPromise(),
+                    action: 'create',
+                    type: 'taxonomy',
+                    itemName: taxonomy.codename
+                });
+                continue;
+            }
+
+            const flattenTerms = (terms: readonly Readonly<TaxonomyModels.Taxonomy>[]): readonly string[] =>
+                terms.flatMap((term) => [term.codename, ...flattenTerms(term.terms)]);
+            const targetTermCodenames = flattenTerms(targetTaxonomy.terms);
+
+            const getOperations = (
+                terms: readonly MigrationTaxonomyTerm[],
+                parentCodename: string | undefined
+            ): readonly TaxonomyModels.IModifyTaxonomyData[] => {
+                return terms.flatMap((term) => {
+                    if (targetTermCodenames.includes(term.codename)) {
+                        return getOperations(term.terms, term.codename);
+                    }
+
+                    return [
+                        {
+                            op: 'addInto',
+                            reference: parentCodename ? { codename: parentCodename } : undefined,
+                            property_name: 'terms',
+                            value: mapTerm(term)
+                        }
+                    ];
+                });
+            };
+
+            const operations = getOperations(taxonomy.terms, undefined);
+
+            if (!operations.length) {
+                continue;
+            }
+
+            await runMapiRequestAsync({
+                logger: config.logger,
+                func: async () =>
+                    await config.client
+                        .modifyTaxonomy()
+                        .byTaxonomyCodename(taxonomy.codename)
+                        .withData([...operations])
+                        .toPromise(),
+                action: 'modify',
+                type: 'taxonomy',
+                itemName: taxonomy.codename
+            });
+        }
+    };
+
+    const importContentTypeSnippetAsync = async (
+        snippet: MigrationContentTypeSnippet,
+        target: TargetContentModel
+    ): Promise<DeferredReferences> => {
+        const targetSnippet = target.contentTypeSnippets.find((m) => m.codename === snippet.codename);
+
+        if (!targetSnippet) {
+            await config.changeLog?.addEntryAsync({ type: 'contentTypeSnippet', codename: snippet.codename });
+
+            await runMapiRequestAsync({
+                logger: config.logger,
+                func: async () =>
+                    await config.client
+                        .addContentTypeSnippet()
+                        .withData(() => {
+                            return {
+                                name: snippet.name,
+                                codename: snippet.codename,
+                                elements: snippet.elements.map((m) => toElementData(m))
+                            };
+                        })
+                        .toPromise(),
+                action: 'create',
+                type: 'contentTypeSnippet',
+                itemName: snippet.codename
+            });
+
+            return getDeferredReferences('contentTypeSnippet', snippet.codename, snippet.elements);
+        }
+
+        const elementsToAdd = snippet.elements.filter((element) => !targetSnippet.elements.some((m) => m.codename === element.codename));
+
+        if (elementsToAdd.length) {
+            await runMapiRequestAsync({
+                logger: config.logger,
+                func: async () =>
+                    await config.client
+                        .modifyContentTypeSnippet()
+                        .byTypeCodename(snippet.codename)
+                        .withData(
+                            elementsToAdd.map((element) => {
+                                return { op: 'addInto', path: '/elements', value: toElementData(element) };
+                            })
+                        )
+                        .toPromise(),
+                action: 'modify',
+                type: 'contentTypeSnippet',
+                itemName: snippet.codename
+            });
+        }
+
+        return getDeferredReferences('contentTypeSnippet', snippet.codename, elementsToAdd);
+    };
+
+    const importContentTypeAsync = async (contentType: MigrationContentType, target: TargetContentModel): Promise<DeferredReferences> => {
+        const targetContentType = target.contentTypes.find((m) => m.codename === contentType.codename);
+
+        if (!targetContentType) {
+            await config.changeLog?.addEntryAsync({ type: 'contentType', codename: contentType.codename });
+
+            await runMapiRequestAsync({
+                logger: config.logger,
+                func: async () =>
+                    await config.client
+                        .addContentType()
+                        .withData(() => {
+                            return {
+                                name: contentType.name,
+                                codename: contentType.codename,
+                                content_groups: contentType.content_groups.map((m) => {
+                                    return { name: m.name, codename: m.codename };
+                                }),
+                                elements: contentType.elements.map((m) => toElementData(m))
+                            };
+                        })
+                        .toPromise(),
+                action: 'create',
+                type: 'contentType',
+                itemName: contentType.codename
+            });
+
+            return getDeferredReferences('contentType', contentType.codename, contentType.elements);
+        }
+
+        // content groups can only be added when target type already uses them, otherwise all existing elements would need to be assigned
+        const targetContentGroups = targetContentType.contentGroups ?? [];
+        const usesContentGroups = targetContentGroups.length > 0;
+        const contentGroupsToAdd = usesContentGroups
+            ? contentType.content_groups.filter((group) => !targetContentGroups.some((m) => m.codename === group.codename))
+            : [];
+        const elementsToAdd = contentType.elements
+            .filter((element) => !targetContentType.elements.some((m) => m.codename === element.codename))
+            .map((element) => (usesContentGroups ? element : { ...element, content_group: undefined }));
+
+        if (contentGroupsToAdd.length || elementsToAdd.length) {
+            await runMapiRequestAsync({
+                logger: config.logger,
+                func: async () =>
+                    await config.client
+                        .modifyContentType()
+                        .byTypeCodename(contentType.codename)
+                        .withData([
+                            ...contentGroupsToAdd.map<ContentTypeModels.IModifyContentTypeData>((group) => {
+                                return { op: 'addInto', path: '/content_groups', value: { name: group.name, codename: group.codename } };
+                            }),
+                            ...elementsToAdd.map<ContentTypeModels.IModifyContentTypeData>((element) => {
+                                return { op: 'addInto', path: '/elements', value: toElementData(element) };
+                            })
+                        ])
+                        .toPromise(),
+                action: 'modify',
+                type: 'contentType',
+                itemName: contentType.codename
+            });
+        }
+
+        return getDeferredReferences('contentType', contentType.codename, elementsToAdd);
+    };
+
+    const setDeferredReferencesAsync = async (deferredReferences: DeferredReferences): Promise<void> => {
+        if (!deferredReferences.operations.length) {
+            return;
+        }
+
+        await runMapiRequestAsync({
+            logger: config.logger,
+            func: async () => {
+                if (deferredReferences.type === 'contentTypeSnippet') {
+                    return await config.client
+                        .modifyContentTypeSnippet()
+                        .byTypeCodename(deferredReferences.codename)
+                        .withData([...deferredReferences.operations])
+                        .toPromise();
+                }
+
+                return await config.client
+                    .modifyContentType()
+                    .byTypeCodename(deferredReferences.codename)
+                    .withData([...deferredReferences.operations])
+                    .toPromise();
+            },
+            action: 'modify',
+            type: deferredReferences.type,
+            itemName: `${deferredReferences.codename} (allowed content types)`
+        });
+    };
+
+    const importAsync = async (contentModel: MigrationContentModel): Promise<void> => {
+        const target = await getTargetContentModelAsync();
+
+        config.logger.log({
+            type: 'info',
+            message: `Importing content model with '${chalk.yellow(
+                contentModel.contentTypes.length.toString()
+            )}' content types. Only missing objects & elements are added`
+        });
+
+        // order matters as objects reference each other
+        await importCollectionsAsync(contentModel, target);
+        await importAssetFoldersAsync(contentModel, target);
+        await importTaxonomiesAsync(contentModel, target);
+
+        const deferredReferences: DeferredReferences[] = [];
+
+        for (const snippet of contentModel.contentTypeSnippets) {
+            deferredReferences.push(await importContentTypeSnippetAsync(snippet, target));
+        }
+
+        for (const contentType of contentModel.contentTypes) {
+            deferredReferences.push(await importContentTypeAsync(contentType, target));
+        }
+
+        for (const references of deferredReferences) {
+            await setDeferredReferencesAsync(references);
+        }
+
+        config.logger.log({
+            type: 'info',
+            message: `Content model imported`
+        });
+    };
+
+    return {
+        importAsync
+    };
+}
@@ -1,10 +1,12 @@
 import { ElementContracts, LanguageVariantModels, ManagementClient, WorkflowModels } from '@kontent-ai/management-sdk';
 import chalk from 'chalk';
-import { match } from 'ts-pattern';
+import { match, P } from 'ts-pattern';
 import {
+    ConcurrencyConfig,
+    extractErrorData,
     findRequired,
-    isNotUndefined,
-    LanguageVariantSchedulesStateValues,
+    getConcurrency,
+    LanguageVariantStateData,
     LanguageVariantStateInTargetEnvironmentByCodename,
     Logger,
     LogSpinnerData,
@@ -16,7 +18,18 @@ import {
     workflowHelper
 } from '../../core/index.js';
 import { importTransforms } from '../../translation/index.js';
-import { ImportContext, ImportedItem, ImportedLanguageVariant } from '../import.models.js';
+import {
+    ImportChangeLog,
+    ImportChangeLogVariantVersion,
+    ImportContext,
+    ImportedItem,
+    ImportedLanguageVariant,
+    ImportJournal,
+    LanguageVariantAction,
+    PlannedLanguageVariant,
+    PlannedLanguageVariantAction
+} from '../import.models.js';
+import { isLanguageVariantUnchanged } from '../comparers/language-variant-comparer.js';
 import { throwErrorForMigrationItem } from '../utils/import.utils.js';
 import { workflowImporter as workflowImporterInit } from './workflow-importer.js';
 
@@ -25,6 +38,10 @@ export function languageVariantImporter(config: {
     readonly preparedContentItems: readonly ImportedItem[];
     readonly importContext: ImportContext;
     readonly client: Readonly<ManagementClient>;
+    readonly journal?: ImportJournal;
+    readonly changeLog?: ImportChangeLog;
+    readonly skipUnchangedVariants: boolean;
+    readonly concurrency?: ConcurrencyConfig;
 }) {
     const workflowImporter = workflowImporterInit({
         logger: config.logger,
@@ -68,7 +85,9 @@ export function languageVariantImporter(config: {
             action: 'upsert',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -106,174 +125,145 @@ export function languageVariantImporter(config: {
         };
     };
 
-    const importVersionAsync = async (data: {
-        readonly logSpinner: LogSpinnerData;
-        readonly migrationItem: MigrationItem;
-        readonly migrationItemVersion: MigrationItemVersion;
-        readonly preparedContentItem: ImportedItem;
-        readonly createNewVersion?: boolean;
-    }): Promise<Readonly<LanguageVariantModels.ContentItemLanguageVariant>> => {
-        // validate workflow
-        const { step, workflow } = workflowHelper(config.importContext.environmentData.workflows).getWorkflowAndStepByCodenames({
-            workflowCodename: data.migrationItem.system.workflow.codename,
-            stepCodename: data.migrationItemVersion.workflow_step.codename
-        });
-
-        // create new version if necessary. This is needed when both draft & published version are imported
-        if (data.createNewVersion) {
-            await workflowImporter.createNewVersionOfLanguageVariantAsync({
-                logSpinner: data.logSpinner,
-                migrationItem: data.migrationItem
-            });
-        }
-        // upsert language variant
-        const languageVariant = await upsertLanguageVariantAsync({
-            logSpinner: data.logSpinner,
-            migrationItem: data.migrationItem,
-            preparedContentItem: data.preparedContentItem,
-            migrationItemVersion: data.migrationItemVersion,
-            workflow
-        });
-
-        // set workflow accordingly (publish, move to workflow step, archive ...)
-        await workflowImporter.setWorkflowOfLanguageVariantAsync({
-            logSpinner: data.logSpinner,
-            migrationItem: data.migrationItem,
-            workflowCodename: workflow.codename,
-            stepCodename: step.codename,
-            migrationItemVersion: data.migrationItemVersion,
-            languageVariant: languageVariant
-        });
-
-        // set scheduling
-        await workflowImporter.setScheduledStateOfLanguageVariantAsync({
-            logSpinner: data.logSpinner,
-            migrationItem: data.migrationItem,
-            migrationItemVersion: data.migrationItemVersion
-        });
-
-        return languageVariant;
-    };
-
     const importLanguageVariantAsync = async (
         logSpinner: LogSpinnerData,
         migrationItem: MigrationItem,
         preparedContentItem: ImportedItem
-    ): Promise<readonly LanguageVariantModels.ContentItemLanguageVariant[]> => {
-        const { draftVersion, publishedVersion } = categorizeVersions(migrationItem);
-
+    ): Promise<readonly LanguageVariantModels.ContentItemLanguageVariant[] | 'skipped'> => {
         // get initial state of language variant from target env
         const targetVariantState = config.importContext.getLanguageVariantStateInTargetEnvironment(
             migrationItem.system.codename,
             migrationItem.system.language.codename
         );
 
-        // prepare language variant for import (unpublish, create new version, un-schedule ...)
-        await prepareTargetEnvironmentVariantForImportAsync({
-            logSpinner,
-            migrationItem,
-            targetVariantState
-        });
+        if (shouldSkipLanguageVariant(migrationItem, targetVariantState)) {
+            // identical language variant is left untouched to preserve version history of target environment
+            logSpinner({
+                type: 'skip',
+                message: `${migrationItem.system.codename} (${migrationItem.system.language.codename}) is unchanged`
+            });
 
-        // first import published version if it exists
-        const publishedLanguageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant> | undefined = publishedVersion
-            ? await importVersionAsync({
-                  logSpinner: logSpinner,
-                  migrationItem: migrationItem,
-                  preparedContentItem: preparedContentItem,
-                  migrationItemVersion: publishedVersion
-              })
-            : undefined;
-
-        // if target env contains published version & imported version not, unpublish it from the target env
-        if (targetVariantState.publishedLanguageVariant && !publishedVersion) {
-            await workflowImporter.unpublishLanguageVariantAsync({
-                logSpinner,
-                migrationItem
+            await config.journal?.addEntryAsync({
+                type: 'languageVariant',
+                codename: migrationItem.system.codename,
+                languageCodename: migrationItem.system.language.codename
             });
-            await workflowImporter.moveToDraftStepAsync({
-                logSpinner,
-                migrationItem
+
+            return 'skipped';
+        }
+
+        const languageVariantActions = getLanguageVariantActions(migrationItem, targetVariantState);
+
+        await config.changeLog?.addEntryAsync({
+            type: 'languageVariant',
+            codename: migrationItem.system.codename,
+            languageCodename: migrationItem.system.language.codename,
+            previousPublishedVersion: getChangeLogVariantVersion(targetVariantState.publishedLanguageVariant),
+            previousDraftVersion: getChangeLogVariantVersion(targetVariantState.draftLanguageVariant)
+        });
+
+        const upsertedLanguageVariants: Readonly<LanguageVariantModels.ContentItemLanguageVariant>[] = [];
+
+        for (const languageVariantAction of languageVariantActions) {
+            const upsertedLanguageVariant = await executeLanguageVariantActionAsync({
+                logSpinner: logSpinner,
+                migrationItem: migrationItem,
+                preparedContentItem: preparedContentItem,
+                languageVariantAction: languageVariantAction
             });
+
+            if (upsertedLanguageVariant) {
+                upsertedLanguageVariants.push(upsertedLanguageVariant);
+            }
         }
-        const draftLanguageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant> | undefined = draftVersion
-            ? await importVersionAsync({
-                  logSpinner: logSpinner,
-                  migrationItem: migrationItem,
-                  preparedContentItem: preparedContentItem,
-                  migrationItemVersion: draftVersion,
-                  createNewVersion: publishedLanguageVariant ? true : false
-              })
-            : undefined;
-
-        return [publishedLanguageVariant, draftLanguageVariant].filter(isNotUndefined);
+
+        await config.journal?.addEntryAsync({
+            type: 'languageVariant',
+            codename: migrationItem.system.codename,
+            languageCodename: migrationItem.system.language.codename
+        });
+
+        return upsertedLanguageVariants;
     };
 
-    const cancelScheduledStateAsync = async (data: {
+    const executeLanguageVariantActionAsync = async (data: {
         readonly logSpinner: LogSpinnerData;
         readonly migrationItem: MigrationItem;
-        readonly scheduledState: LanguageVariantSchedulesStateValues;
-    }): Promise<void> => {
+        readonly preparedContentItem: ImportedItem;
+        readonly languageVariantAction: LanguageVariantAction;
+    }): Promise<Readonly<LanguageVariantModels.ContentItemLanguageVariant> | undefined> => {
+        const workflow = workflowHelper(config.importContext.environmentData.workflows).getWorkflowByCodename(
+            data.migrationItem.system.workflow.codename
+        );
         const changeWorkflowData = {
             logSpinner: data.logSpinner,
-            migrationItem: data.migrationItem
+            migrationItem: data.migrationItem,
+            workflowCodename: workflow.codename
         };
 
-        await match(data.scheduledState)
-            .with('scheduledPublish', async () => {
-                // cancel scheduled publish if language variant is scheduled to be published
+        return await match(data.languageVariantAction)
+            .returnType<Promise<Readonly<LanguageVariantModels.ContentItemLanguageVariant> | undefined>>()
+            .with(
+                { action: 'upsert' },
+                async (m) =>
+                    await upsertLanguageVariantAsync({
+                        logSpinner: data.logSpinner,
+                        migrationItem: data.migrationItem,
+                        preparedContentItem: data.preparedContentItem,
+                        migrationItemVersion: m.migrationItemVersion,
+                        workflow: workflow
+                    })
+            )
+            .with({ action: 'createNewVersion' }, async () => {
+                await workflowImporter.createNewVersionOfLanguageVariantAsync(changeWorkflowData);
+                return undefined;
+            })
+            .with({ action: 'unpublish' }, async () => {
+                await workflowImporter.unpublishLanguageVariantAsync(changeWorkflowData);
+                return undefined;
+            })
+            .with({ action: 'cancelScheduledPublish' }, async () => {
                 await workflowImporter.cancelScheduledPublishAsync(changeWorkflowData);
+                return undefined;
             })
-            .with('scheduledUnpublish', async () => {
-                // cancel scheduled unpublish if language variant is scheduled to be unpublished
+            .with({ action: 'cancelScheduledUnpublish' }, async () => {
                 await workflowImporter.cancelScheduledUnpublishAsync(changeWorkflowData);
+                return undefined;
             })
-            .otherwise(() => {});
+            .with({ action: P.union('changeWorkflowStep', 'publish', 'archive', 'schedulePublish', 'scheduleUnpublish') }, async (m) => {
+                await workflowImporter.executeWorkflowActionAsync(changeWorkflowData, m);
+                return undefined;
+            })
+            .exhaustive();
     };
 
-    const prepareTargetEnvironmentVariantForImportAsync = async (data: {
-        readonly logSpinner: LogSpinnerData;
-        readonly migrationItem: MigrationItem;
-        readonly targetVariantState: LanguageVariantStateInTargetEnvironmentByCodename;
-    }): Promise<void> => {
-        if (!data.targetVariantState) {
-            // no need to prepare language variant as it doesn't exist in target environment
-            return;
-        }
-
-        // when language variant exists in target env, we need to prepare it for import by unscheduling, moving to draft etc...
-        // we use draft language variant if it exists, otherwise we use published language variant
-        const languageVariantToPrepare = data.targetVariantState.draftLanguageVariant ?? data.targetVariantState.publishedLanguageVariant;
-
-        if (!languageVariantToPrepare) {
-            return;
+    const getChangeLogVariantVersion = (variantState: LanguageVariantStateData | undefined): ImportChangeLogVariantVersion | undefined => {
+        if (!variantState?.languageVariant || !variantState.workflow) {
+            return undefined;
         }
 
-        // there is likely a bug which causes /published endpoint to return invalid scheduled state
-        // use conditions below to determine scheduled state to use - this will be fixed in future
-        if (languageVariantToPrepare.workflowState?.scheduledState) {
-            await cancelScheduledStateAsync({
-                logSpinner: data.logSpinner,
-                migrationItem: data.migrationItem,
-                scheduledState: languageVariantToPrepare.workflowState.scheduledState
-            });
-        }
-
-        const changeWorkflowData = {
-            logSpinner: data.logSpinner,
-            migrationItem: data.migrationItem
+        return {
+            workflowCodename: variantState.workflow.codename,
+            stepCodename: workflowHelper(config.importContext.environmentData.workflows).getWorkflowStepById(
+                variantState.workflow,
+                variantState.languageVariant.workflow.stepIdentifier.id ?? ''
+            ).codename,
+            elements: variantState.languageVariant._raw.elements
         };
+    };
 
-        await match(languageVariantToPrepare.workflowState?.workflowState)
-            .with('published', async () => {
-                // create new version if language variant is published
-                await workflowImporter.createNewVersionOfLanguageVariantAsync(changeWorkflowData);
-            })
-            .with('archived', async () => {
-                // move to draft step if language variant is archived
-                await workflowImporter.moveToDraftStepAsync(changeWorkflowData);
+    const shouldSkipLanguageVariant = (
+        migrationItem: MigrationItem,
+        targetVariantState: LanguageVariantStateInTargetEnvironmentByCodename
+    ): boolean => {
+        return (
+            config.skipUnchangedVariants &&
+            isLanguageVariantUnchanged({
+                migrationItem: migrationItem,
+                targetVariantState: targetVariantState,
+                importContext: config.importContext
             })
-            .otherwise(() => {});
+        );
     };
 
     const isPublishedWorkflowStep = (stepCodename: string, workflow: Readonly<WorkflowModels.Workflow>): boolean => {
@@ -308,7 +298,7 @@ export function languageVariantImporter(config: {
         return await processItemsAsync<MigrationItem, readonly Readonly<LanguageVariantModels.ContentItemLanguageVariant>[]>({
             action: 'Importing language variants',
             logger: config.logger,
-            parallelLimit: 1,
+            parallelLimit: getConcurrency(config.concurrency, 'languageVariants'),
             items: config.importContext.categorizedImportData.contentItems,
             itemInfo: (input) => {
                 return {
@@ -331,7 +321,125 @@ export function languageVariantImporter(config: {
         });
     };
 
+    const getPrepareTargetEnvironmentVariantActions = (
+        migrationItem: MigrationItem,
+        targetVariantState: LanguageVariantStateInTargetEnvironmentByCodename
+    ): readonly LanguageVariantAction[] => {
+        // language variant existing in target env is prepared for import by unscheduling, moving to draft etc...
+        // we use draft language variant if it exists, otherwise we use published language variant
+        const languageVariantToPrepare = targetVariantState.draftLanguageVariant ?? targetVariantState.publishedLanguageVariant;
+
+        if (!languageVariantToPrepare) {
+            return [];
+        }
+
+        const workflow = workflowHelper(config.importContext.environmentData.workflows).getWorkflowByCodename(
+            migrationItem.system.workflow.codename
+        );
+
+        return [
+            // there is likely a bug which causes /published endpoint to return invalid scheduled state
+            ...match(languageVariantToPrepare.workflowState?.scheduledState)
+                .returnType<readonly LanguageVariantAction[]>()
+                .with('scheduledPublish', () => [{ action: 'cancelScheduledPublish' }])
+                .with('scheduledUnpublish', () => [{ action: 'cancelScheduledUnpublish' }])
+                .otherwise(() => []),
+            ...match(languageVariantToPrepare.workflowState?.workflowState)
+                .returnType<readonly LanguageVariantAction[]>()
+                .with('published', () => [{ action: 'createNewVersion' }])
+                .with('archived', () => [{ action: 'changeWorkflowStep', stepCodename: workflow.steps[0].codename }])
+                .otherwise(() => [])
+        ];
+    };
+
+    const getVersionActions = (
+        migrationItem: MigrationItem,
+        migrationItemVersion: MigrationItemVersion,
+        createNewVersion: boolean
+    ): readonly LanguageVariantAction[] => {
+        // validate workflow
+        const { step, workflow } = workflowHelper(config.importContext.environmentData.workflows).getWorkflowAndStepByCodenames({
+            workflowCodename: migrationItem.system.workflow.codename,
+            stepCodename: migrationItemVersion.workflow_step.codename
+        });
+
+        return [
+            ...(createNewVersion ? [{ action: 'createNewVersion' } as const] : []),
+            // language variant is always upserted into the first step of the workflow
+            { action: 'upsert', stepCodename: workflow.steps[0].codename, migrationItemVersion: migrationItemVersion },
+            ...workflowImporter.getWorkflowActions({
+                workflowCodename: workflow.codename,
+                stepCodename: step.codename,
+                variantStepCodename: workflow.steps[0].codename
+            }),
+            ...workflowImporter.getScheduledStateActions(migrationItemVersion)
+        ];
+    };
+
+    /**
+     * Actions are executed in given order by import & reported as they are by dry run plan
+     */
+    const getLanguageVariantActions = (
+        migrationItem: MigrationItem,
+        targetVariantState: LanguageVariantStateInTargetEnvironmentByCodename
+    ): readonly LanguageVariantAction[] => {
+        const { draftVersion, publishedVersion } = categorizeVersions(migrationItem);
+        const workflow = workflowHelper(config.importContext.environmentData.workflows).getWorkflowByCodename(
+            migrationItem.system.workflow.codename
+        );
+
+        return [
+            ...getPrepareTargetEnvironmentVariantActions(migrationItem, targetVariantState),
+            // first import published version if it exists
+            ...(publishedVersion ? getVersionActions(migrationItem, publishedVersion, false) : []),
+            // if target env contains published version & imported version not, unpublish it from the target env
+            ...(targetVariantState.publishedLanguageVariant && !publishedVersion
+                ? [{ action: 'unpublish' } as const, { action: 'changeWorkflowStep', stepCodename: workflow.steps[0].codename } as const]
+                : []),
+            ...(draftVersion ? getVersionActions(migrationItem, draftVersion, publishedVersion ? true : false) : [])
+        ];
+    };
+
+    const getPlan = (): readonly PlannedLanguageVariant[] => {
+        return config.importContext.categorizedImportData.contentItems.map<PlannedLanguageVariant>((migrationItem) => {
+            const targetVariantState = config.importContext.getLanguageVariantStateInTargetEnvironment(
+                migrationItem.system.codename,
+                migrationItem.system.language.codename
+            );
+
+            const plannedVariant: Omit<PlannedLanguageVariant, 'actions'> = {
+                codename: migrationItem.system.codename,
+                language: migrationItem.system.language,
+                type: migrationItem.system.type,
+                state: targetVariantState.state
+            };
+
+            try {
+                return {
+                    ...plannedVariant,
+                    actions: shouldSkipLanguageVariant(migrationItem, targetVariantState)
+                        ? []
+                        : getLanguageVariantActions(migrationItem, targetVariantState).map(toPlannedAction)
+                };
+            } catch (error) {
+                return {
+                    ...plannedVariant,
+                    actions: [],
+                    error: extractErrorData(error).message
+                };
+            }
+        });
+    };
+
+    const toPlannedAction = (languageVariantAction: LanguageVariantAction): PlannedLanguageVariantAction => {
+        return {
+            action: languageVariantAction.action,
+            stepCodename: 'stepCodename' in languageVariantAction ? languageVariantAction.stepCodename : undefined
+        };
+    };
+
     return {
-        importAsync
+        importAsync,
+        getPlan
     };
 }
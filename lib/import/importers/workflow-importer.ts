@@ -10,6 +10,7 @@ import {
     workflowHelper as workflowHelperInit,
     WorkflowStep
 } from '../../core/index.js';
+import { WorkflowAction } from '../import.models.js';
 
 export function workflowImporter(config: {
     readonly logger: Logger;
@@ -21,9 +22,6 @@ export function workflowImporter(config: {
     const publishLanguageVariantAsync = async (data: {
         readonly logSpinner: LogSpinnerData;
         readonly migrationItem: MigrationItem;
-        readonly languageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>;
-        readonly workflowCodename: string;
-        readonly stepCodename: string;
     }): Promise<void> => {
         await runMapiRequestAsync({
             logger: config.logger,
@@ -39,7 +37,9 @@ export function workflowImporter(config: {
             action: 'publish',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -75,7 +75,9 @@ export function workflowImporter(config: {
                 action: 'unpublish',
                 type: 'languageVariant',
                 logSpinner: data.logSpinner,
-                itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`
+                itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`,
+                itemCodename: data.migrationItem.system.codename,
+                languageCodename: data.migrationItem.system.language.codename
             });
         } catch (error) {
             if (error instanceof SharedModels.ContentManagementBaseKontentError) {
@@ -114,7 +116,9 @@ export function workflowImporter(config: {
             action: 'schedulePublish',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -143,7 +147,9 @@ export function workflowImporter(config: {
             action: 'scheduleUnpublish',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -174,7 +180,9 @@ export function workflowImporter(config: {
             action: 'archive',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> ${workflow.archivedStep.codename}`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> ${workflow.archivedStep.codename}`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -210,7 +218,9 @@ export function workflowImporter(config: {
             action: 'changeWorkflowStep',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> ${step.codename}`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> ${step.codename}`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -230,7 +240,9 @@ export function workflowImporter(config: {
             action: 'createNewVersion',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename})`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -250,7 +262,9 @@ export function workflowImporter(config: {
             action: 'cancelScheduledPublish',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> Cancel scheduled publish`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> Cancel scheduled publish`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -270,7 +284,9 @@ export function workflowImporter(config: {
             action: 'cancelScheduledUnpublish',
             type: 'languageVariant',
             logSpinner: data.logSpinner,
-            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> Cancel scheduled unpublish`
+            itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> Cancel scheduled unpublish`,
+            itemCodename: data.migrationItem.system.codename,
+            languageCodename: data.migrationItem.system.language.codename
         });
     };
 
@@ -302,90 +318,127 @@ export function workflowImporter(config: {
                 action: 'changeWorkflowStep',
                 type: 'languageVariant',
                 logSpinner: data.logSpinner,
-                itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> ${firstWorkflowStep.codename}`
+                itemName: `${data.migrationItem.system.codename} (${data.migrationItem.system.language.codename}) -> ${firstWorkflowStep.codename}`,
+                itemCodename: data.migrationItem.system.codename,
+                languageCodename: data.migrationItem.system.language.codename
             });
         }
     };
 
-    const setScheduledStateOfLanguageVariantAsync = async (data: {
-        readonly logSpinner: LogSpinnerData;
-        readonly migrationItem: MigrationItem;
-        readonly migrationItemVersion: MigrationItemVersion;
-    }): Promise<void> => {
-        if (!data.migrationItemVersion.schedule) {
-            return;
-        }
+    const getScheduledStateActions = (migrationItemVersion: MigrationItemVersion): readonly WorkflowAction[] => {
+        const schedule = migrationItemVersion.schedule;
 
-        // set scheduling
-        if (data.migrationItemVersion.schedule.unpublish_time && data.migrationItemVersion.schedule.unpublish_display_timezone) {
-            await scheduleUnpublishLanguageVariantAsync({
-                logSpinner: data.logSpinner,
-                migrationItem: data.migrationItem,
-                schedule: {
-                    unpublish_time: data.migrationItemVersion.schedule.unpublish_time,
-                    unpublish_display_timezone: data.migrationItemVersion.schedule.unpublish_display_timezone
-                }
-            });
+        if (!schedule) {
+            return [];
         }
 
-        if (data.migrationItemVersion.schedule.publish_time && data.migrationItemVersion.schedule.publish_display_timezone) {
-            await schedulePublishLanguageVariantAsync({
-                logSpinner: data.logSpinner,
-                migrationItem: data.migrationItem,
-                schedule: {
-                    publish_time: data.migrationItemVersion.schedule.publish_time,
-                    publish_display_timezone: data.migrationItemVersion.schedule.publish_display_timezone
-                }
-            });
-        }
+        return [
+            ...(schedule.unpublish_time && schedule.unpublish_display_timezone
+                ? [
+                      {
+                          action: 'scheduleUnpublish',
+                          schedule: {
+                              unpublish_time: schedule.unpublish_time,
+                              unpublish_display_timezone: schedule.unpublish_display_timezone
+                          }
+                      } as const
+                  ]
+                : []),
+            ...(schedule.publish_time && schedule.publish_display_timezone
+                ? [
+                      {
+                          action: 'schedulePublish',
+                          schedule: { publish_time: schedule.publish_time, publish_display_timezone: schedule.publish_display_timezone }
+                      } as const
+                  ]
+                : [])
+        ];
     };
 
-    const setWorkflowOfLanguageVariantAsync = async (data: {
-        readonly logSpinner: LogSpinnerData;
+    const getWorkflowActions = (data: {
         readonly workflowCodename: string;
         readonly stepCodename: string;
-        readonly migrationItem: MigrationItem;
-        readonly migrationItemVersion: MigrationItemVersion;
-        readonly languageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>;
-    }): Promise<void> => {
-        return await match(data.stepCodename)
-            .returnType<Promise<void>>()
+        /**
+         * Step of the language variant before its workflow is set. Upserted language variant is always in the first step
+         */
+        readonly variantStepCodename: string;
+    }): readonly WorkflowAction[] => {
+        return match(data.stepCodename)
+            .returnType<readonly WorkflowAction[]>()
             .when(
                 (stepCodename) => workflowHelper.isPublishedStepByCodename(stepCodename),
-                async () => {
-                    const { workflow, step: publishStep } = workflowHelper.getWorkflowAndStepByCodenames({
-                        workflowCodename: data.workflowCodename,
-                        stepCodename: data.stepCodename
-                    });
-                    const variantStep = workflowHelper.getWorkflowStepById(
+                () => {
+                    const { workflow, step: publishStep } = workflowHelper.getWorkflowAndStepByCodenames(data);
+                    const previousToPublishStep = getPreviousToPublishStep(
                         workflow,
-                        data.languageVariant.workflow.stepIdentifier.id as string
+                        workflowHelper.getWorkflowStepByCodename(workflow, data.variantStepCodename),
+                        publishStep
                     );
-                    const previousToPublishStep = getPreviousToPublishStep(workflow, variantStep, publishStep);
 
-                    if (previousToPublishStep) {
-                        await changeWorkflowOfLanguageVariantAsync({ ...data, stepCodename: previousToPublishStep.stepCodename });
-                    }
-
-                    await publishLanguageVariantAsync(data);
+                    return [
+                        ...(previousToPublishStep
+                            ? [{ action: 'changeWorkflowStep', stepCodename: previousToPublishStep.stepCodename } as const]
+                            : []),
+                        { action: 'publish', stepCodename: publishStep.codename }
+                    ];
                 }
             )
             .when(
                 (stepCodename) => workflowHelper.isArchivedStepByCodename(stepCodename),
-                async () => await archiveLanguageVariantAsync(data)
+                () => [
+                    { action: 'archive', stepCodename: workflowHelper.getWorkflowByCodename(data.workflowCodename).archivedStep.codename }
+                ]
             )
             .when(
                 (stepCodename) => workflowHelper.isScheduledStepByCodename(stepCodename),
-                async () => {
-                    // do nothing for scheduled step
-                    return await Promise.resolve();
-                }
+                // do nothing for scheduled step
+                () => []
+            )
+            .otherwise(() => [{ action: 'changeWorkflowStep', stepCodename: data.stepCodename }]);
+    };
+
+    const executeWorkflowActionAsync = async (
+        data: {
+            readonly logSpinner: LogSpinnerData;
+            readonly workflowCodename: string;
+            readonly migrationItem: MigrationItem;
+        },
+        workflowAction: WorkflowAction
+    ): Promise<void> => {
+        await match(workflowAction)
+            .with(
+                { action: 'changeWorkflowStep' },
+                async (m) => await changeWorkflowOfLanguageVariantAsync({ ...data, stepCodename: m.stepCodename })
             )
-            .otherwise(async () => await changeWorkflowOfLanguageVariantAsync(data));
+            .with({ action: 'publish' }, async () => await publishLanguageVariantAsync(data))
+            .with({ action: 'archive' }, async () => await archiveLanguageVariantAsync(data))
+            .with({ action: 'schedulePublish' }, async (m) => await schedulePublishLanguageVariantAsync({ ...data, schedule: m.schedule }))
+            .with(
+                { action: 'scheduleUnpublish' },
+                async (m) => await scheduleUnpublishLanguageVariantAsync({ ...data, schedule: m.schedule })
+            )
+            .exhaustive();
+    };
+
+    const setWorkflowOfLanguageVariantAsync = async (data: {
+        readonly logSpinner: LogSpinnerData;
+        readonly workflowCodename: string;
+        readonly stepCodename: string;
+        readonly migrationItem: MigrationItem;
+        readonly languageVariant: Readonly<LanguageVariantModels.ContentItemLanguageVariant>;
+    }): Promise<void> => {
+        const workflow = workflowHelper.getWorkflowByCodename(data.workflowCodename);
+        const variantStep = workflowHelper.getWorkflowStepById(workflow, data.languageVariant.workflow.stepIdentifier.id as string);
+
+        for (const workflowAction of getWorkflowActions({ ...data, variantStepCodename: variantStep.codename })) {
+            await executeWorkflowActionAsync(data, workflowAction);
+        }
     };
 
     return {
-        setScheduledStateOfLanguageVariantAsync,
+        getScheduledStateActions,
+        getWorkflowActions,
+        executeWorkflowActionAsync,
         setWorkflowOfLanguageVariantAsync,
         publishLanguageVariantAsync,
         unpublishLanguageVariantAsync,
@@ -1,2 +1,6 @@
 export * from './import.models.js';
 export * from './import-manager.js';
+export * from './mapping/import-mapper.js';
+export * from './change-log/import-change-log.js';
+export * from './rollback/rollback-manager.js';
+export * from './report/import-html-report.js';
@@ -0,0 +1,80 @@
+import chalk from 'chalk';
+import { z } from 'zod';
+import { Logger } from '../../core/index.js';
+import { fileManager as fileManagerInit } from '../../file/index.js';
+import { ImportJournal, ImportJournalEntry } from '../import.models.js';
+
+const ImportJournalEntrySchema = z
+    .strictObject({
+        type: z.enum(['asset', 'contentItem', 'languageVariant']),
+        codename: z.string(),
+        languageCodename: z.string().optional()
+    })
+    .readonly();
+
+export async function importJournalAsync(config: {
+    readonly logger: Logger;
+    readonly journalFilename: string;
+    readonly resumeFrom: string | undefined;
+}): Promise<ImportJournal> {
+    const fileManager = fileManagerInit(config.logger);
+
+    const getEntryKey = (entry: ImportJournalEntry): string => {
+        return `${entry.type}:${entry.codename}:${entry.languageCodename ?? ''}`;
+    };
+
+    const serializeEntries = (entries: readonly ImportJournalEntry[]): string => {
+        return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    };
+
+    const loadEntriesAsync = async (filename: string): Promise<readonly ImportJournalEntry[]> => {
+        if (!(await fileManager.fileExistsAsync(filename))) {
+            throw Error(`Could not resume import because journal '${chalk.red(filename)}' does not exist`);
+        }
+
+        return (await fileManager.loadFileAsync(filename))
+            .toString()
+            .split('\n')
+            .filter((line) => line.trim().length)
+            .map((line) => ImportJournalEntrySchema.parse(JSON.parse(line)));
+    };
+
+    const initJournalFileAsync = async (previousEntries: readonly ImportJournalEntry[]): Promise<void> => {
+        if (config.resumeFrom === config.journalFilename) {
+            // keep appending to the journal we resume from
+            return;
+        }
+
+        // start a new journal, but preserve entries of the previous run so that the new journal can be resumed from as well
+        await fileManager.writeFileAsync(config.journalFilename, serializeEntries(previousEntries));
+    };
+
+    const previousEntries: readonly ImportJournalEntry[] = config.resumeFrom ? await loadEntriesAsync(config.resumeFrom) : [];
+    const completedEntries: ImportJournalEntry[] = [...previousEntries];
+    const completedKeys = new Set<string>(previousEntries.map(getEntryKey));
+
+    await initJournalFileAsync(previousEntries);
+
+    if (config.resumeFrom) {
+        config.logger.log({
+            type: 'info',
+            message: `Resuming import from journal '${chalk.yellow(config.resumeFrom)}' with '${chalk.yellow(
+                previousEntries.length
+            )}' completed entries`
+        });
+    }
+
+    return {
+        filename: config.journalFilename,
+        completedEntries: completedEntries,
+        isCompleted(entry: ImportJournalEntry): boolean {
+            return completedKeys.has(getEntryKey(entry));
+        },
+        async addEntryAsync(entry: ImportJournalEntry): Promise<void> {
+            completedKeys.add(getEntryKey(entry));
+            completedEntries.push(entry);
+
+            await fileManager.appendFileAsync(config.journalFilename, serializeEntries([entry]));
+        }
+    };
+}
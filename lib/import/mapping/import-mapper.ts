@@ -0,0 +1,271 @@
+import { match } from 'ts-pattern';
+import { z } from 'zod';
+import {
+    MigrationAsset,
+    MigrationComponent,
+    MigrationContentModel,
+    MigrationContentType,
+    MigrationContentTypeElement,
+    MigrationData,
+    MigrationElement,
+    MigrationElements,
+    MigrationItem,
+    MigrationReference,
+    MigrationTaxonomyTerm,
+    parseAsMigrationReferencesArray
+} from '../../core/index.js';
+import { AppliedImportMapping, ImportMapping, ImportMappingObjectType, ImportMappingRules } from '../import.models.js';
+
+const ImportMappingRulesSchema = z.record(z.string(), z.string()).optional();
+
+// references in element definitions may contain other properties (e.g. name of multiple choice option)
+const ElementDefinitionReferencesSchema = z.array(z.object({ codename: z.string() }).passthrough());
+const UrlSlugDependsOnSchema = z.object({ element: z.object({ codename: z.string() }), snippet: z.unknown().optional() });
+
+export const ImportMappingSchema: z.ZodType<ImportMapping> = z.strictObject({
+    contentTypes: ImportMappingRulesSchema,
+    elements: z.record(z.string(), z.record(z.string(), z.string())).optional(),
+    collections: ImportMappingRulesSchema,
+    languages: ImportMappingRulesSchema,
+    workflows: ImportMappingRulesSchema,
+    workflowSteps: ImportMappingRulesSchema,
+    taxonomyTerms: ImportMappingRulesSchema,
+    multipleChoiceOptions: ImportMappingRulesSchema
+});
+
+export function importMapper(mapping: ImportMapping) {
+    const appliedMappings = new Map<string, AppliedImportMapping>();
+
+    const mapCodename = (data: {
+        readonly objectType: ImportMappingObjectType;
+        readonly codename: string;
+        readonly rules: ImportMappingRules | undefined;
+        readonly contentTypeCodename?: string;
+    }): string => {
+        const mappedCodename = data.rules?.[data.codename];
+
+        if (!mappedCodename || mappedCodename === data.codename) {
+            return data.codename;
+        }
+
+        const key = `${data.objectType}:${data.contentTypeCodename ?? ''}:${data.codename}`;
+        const appliedMapping = appliedMappings.get(key);
+
+        appliedMappings.set(key, {
+            objectType: data.objectType,
+            from: data.codename,
+            to: mappedCodename,
+            contentTypeCodename: data.contentTypeCodename,
+            count: (appliedMapping?.count ?? 0) + 1
+        });
+
+        return mappedCodename;
+    };
+
+    const mapReference = (
+        reference: MigrationReference,
+        objectType: ImportMappingObjectType,
+        rules: ImportMappingRules | undefined
+    ): MigrationReference => {
+        return { codename: mapCodename({ objectType: objectType, codename: reference.codename, rules: rules }) };
+    };
+
+    const mapElementValue = (element: MigrationElement): MigrationElement['value'] => {
+        return match(element.type)
+            .returnType<MigrationElement['value']>()
+            .with('taxonomy', () =>
+                parseAsMigrationReferencesArray(element.value).map((m) => mapReference(m, 'taxonomyTerm', mapping.taxonomyTerms))
+            )
+            .with('multiple_choice', () =>
+                parseAsMigrationReferencesArray(element.value).map((m) =>
+                    mapReference(m, 'multipleChoiceOption', mapping.multipleChoiceOptions)
+                )
+            )
+            .otherwise(() => element.value);
+    };
+
+    const mapElements = (contentTypeCodename: string, elements: MigrationElements): MigrationElements => {
+        return Object.fromEntries(
+            Object.entries(elements).map(([elementCodename, element]) => {
+                const mappedElement: MigrationElement = {
+                    ...element,
+                    value: mapElementValue(element),
+                    components: element.components?.map((component) => mapComponent(component))
+                };
+
+                return [
+                    mapCodename({
+                        objectType: 'element',
+                        codename: elementCodename,
+                        rules: mapping.elements?.[contentTypeCodename],
+                        contentTypeCodename: contentTypeCodename
+                    }),
+                    mappedElement
+                ];
+            })
+        );
+    };
+
+    const mapComponent = (component: MigrationComponent): MigrationComponent => {
+        return {
+            system: {
+                id: component.system.id,
+                type: mapReference(component.system.type, 'contentType', mapping.contentTypes)
+            },
+            elements: mapElements(component.system.type.codename, component.elements)
+        };
+    };
+
+    const mapItem = (item: MigrationItem): MigrationItem => {
+        return {
+            system: {
+                ...item.system,
+                type: mapReference(item.system.type, 'contentType', mapping.contentTypes),
+                language: mapReference(item.system.language, 'language', mapping.languages),
+                collection: mapReference(item.system.collection, 'collection', mapping.collections),
+                workflow: mapReference(item.system.workflow, 'workflow', mapping.workflows)
+            },
+            versions: item.versions.map((version) => {
+                return {
+                    ...version,
+                    workflow_step: mapReference(version.workflow_step, 'workflowStep', mapping.workflowSteps),
+                    elements: mapElements(item.system.type.codename, version.elements)
+                };
+            })
+        };
+    };
+
+    const mapElementDefinitionReferences = (
+        references: unknown,
+        objectType: ImportMappingObjectType,
+        rules: ImportMappingRules | undefined
+    ): readonly MigrationReference[] | undefined => {
+        if (references === undefined) {
+            return undefined;
+        }
+
+        return ElementDefinitionReferencesSchema.parse(references).map((reference) => {
+            return { ...reference, codename: mapCodename({ objectType: objectType, codename: reference.codename, rules: rules }) };
+        });
+    };
+
+    const mapContentTypeElement = (
+        element: MigrationContentTypeElement,
+        contentTypeCodename: string | undefined
+    ): MigrationContentTypeElement => {
+        // element rules are defined per content type, elements of snippets are therefore not renamed
+        const elementRules = contentTypeCodename ? mapping.elements?.[contentTypeCodename] : undefined;
+        const mapElementCodename = (codename: string): string =>
+            mapCodename({ objectType: 'element', codename: codename, rules: elementRules, contentTypeCodename: contentTypeCodename });
+
+        const mappedElement: MigrationContentTypeElement = { ...element, codename: mapElementCodename(element.codename) };
+
+        return match(element.type)
+            .returnType<MigrationContentTypeElement>()
+            .with('modular_content', 'subpages', 'rich_text', () => {
+                return {
+                    ...mappedElement,
+                    allowed_content_types: mapElementDefinitionReferences(
+                        element['allowed_content_types'],
+                        'contentType',
+                        mapping.contentTypes
+                    ),
+                    allowed_item_link_types: mapElementDefinitionReferences(
+                        element['allowed_item_link_types'],
+                        'contentType',
+                        mapping.contentTypes
+                    )
+                };
+            })
+            .with('multiple_choice', () => {
+                return {
+                    ...mappedElement,
+                    options: mapElementDefinitionReferences(element['options'], 'multipleChoiceOption', mapping.multipleChoiceOptions)
+                };
+            })
+            .with('url_slug', () => {
+                const dependsOn = UrlSlugDependsOnSchema.parse(element['depends_on']);
+
+                if (dependsOn.snippet) {
+                    return mappedElement;
+                }
+
+                return {
+                    ...mappedElement,
+                    depends_on: { ...dependsOn, element: { codename: mapElementCodename(dependsOn.element.codename) } }
+                };
+            })
+            .otherwise(() => mappedElement);
+    };
+
+    const mapContentType = (contentType: MigrationContentType): MigrationContentType => {
+        return {
+            ...contentType,
+            codename: mapCodename({ objectType: 'contentType', codename: contentType.codename, rules: mapping.contentTypes }),
+            elements: contentType.elements.map((element) => mapContentTypeElement(element, contentType.codename))
+        };
+    };
+
+    const mapTaxonomyTerm = (term: MigrationTaxonomyTerm): MigrationTaxonomyTerm => {
+        return {
+            ...term,
+            codename: mapCodename({ objectType: 'taxonomyTerm', codename: term.codename, rules: mapping.taxonomyTerms }),
+            terms: term.terms.map((m) => mapTaxonomyTerm(m))
+        };
+    };
+
+    const mapContentModel = (contentModel: MigrationContentModel): MigrationContentModel => {
+        return {
+            ...contentModel,
+            collections: contentModel.collections.map((collection) => {
+                return {
+                    ...collection,
+                    codename: mapCodename({ objectType: 'collection', codename: collection.codename, rules: mapping.collections })
+                };
+            }),
+            // root of taxonomy tree is the taxonomy group which is not mapped
+            taxonomies: contentModel.taxonomies.map((taxonomy) => {
+                return { ...taxonomy, terms: taxonomy.terms.map((m) => mapTaxonomyTerm(m)) };
+            }),
+            contentTypeSnippets: contentModel.contentTypeSnippets.map((snippet) => {
+                return { ...snippet, elements: snippet.elements.map((element) => mapContentTypeElement(element, undefined)) };
+            }),
+            contentTypes: contentModel.contentTypes.map((contentType) => mapContentType(contentType))
+        };
+    };
+
+    const mapAsset = (asset: MigrationAsset): MigrationAsset => {
+        return {
+            ...asset,
+            collection: asset.collection ? mapReference(asset.collection, 'collection', mapping.collections) : undefined,
+            descriptions: asset.descriptions?.map((description) => {
+                return {
+                    ...description,
+                    language: mapReference(description.language, 'language', mapping.languages)
+                };
+            })
+        };
+    };
+
+    return {
+        mapItem,
+        mapMigrationData(data: MigrationData): {
+            readonly data: MigrationData;
+            readonly appliedMappings: readonly AppliedImportMapping[];
+        } {
+            appliedMappings.clear();
+
+            const mappedData: MigrationData = {
+                ...data,
+                contentModel: data.contentModel ? mapContentModel(data.contentModel) : undefined,
+                items: data.items.map((item) => mapItem(item)),
+                assets: data.assets.map((asset) => mapAsset(asset))
+            };
+
+            return {
+                data: mappedData,
+                appliedMappings: Array.from(appliedMappings.values())
+            };
+        }
+    };
+}
@@ -0,0 +1,254 @@
+import { ImportReport, ImportReportError, ImportReportItem } from '../import.models.js';
+
+type FailedObjectType = 'asset' | 'contentItem' | 'languageVariant';
+
+interface FailedObject extends ImportReportError {
+    readonly objectType: FailedObjectType;
+    readonly codename: string;
+    readonly item: ImportReportItem | undefined;
+}
+
+interface BreakdownRow {
+    readonly key: string;
+    readonly successful: number;
+    readonly skipped: number;
+    readonly failed: number;
+}
+
+const objectTypeTitles: Readonly<Record<FailedObjectType, string>> = {
+    asset: 'Asset',
+    contentItem: 'Content item',
+    languageVariant: 'Language variant'
+};
+
+/**
+ * Link to content item editor in Kontent.ai app
+ */
+export function getKontentAppItemUrl(data: {
+    readonly environmentId: string;
+    readonly itemId: string;
+    readonly languageCodename: string;
+}): string {
+    return `https://app.kontent.ai/goto/edit-item/project/${data.environmentId}/variant-codename/${data.languageCodename}/item/${data.itemId}`;
+}
+
+/**
+ * Human readable report with summary, per content type & per language breakdowns and filterable table of failed objects
+ */
+export function getImportHtmlReport(report: ImportReport): string {
+    const failedObjects: readonly FailedObject[] = [
+        ...report.assets.failed.map<FailedObject>((m) => ({ ...m, objectType: 'asset', item: undefined })),
+        ...report.contentItems.failed.map<FailedObject>((m) => ({ ...m, objectType: 'contentItem', item: m })),
+        ...report.languageVariants.failed.map<FailedObject>((m) => ({ ...m, objectType: 'languageVariant', item: m }))
+    ];
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Import report</title>
+<style>${styles}</style>
+</head>
+<body>
+<h1>Import report</h1>
+<p class="muted">Environment <code>${escapeHtml(report.environmentId)}</code> &middot; Created ${escapeHtml(new Date().toISOString())}</p>
+<section class="cards">
+${getCardHtml('Assets', [
+    ['Imported', report.assets.successful.length],
+    ['Failed', report.assets.failed.length]
+])}
+${getCardHtml('Content items', [
+    ['Imported', report.contentItems.successful.length],
+    ['Failed', report.contentItems.failed.length]
+])}
+${getCardHtml('Language variants', [
+    ['Imported', report.languageVariants.successful.length],
+    ['Skipped', report.languageVariants.skipped.length],
+    ['Failed', report.languageVariants.failed.length]
+])}
+${getCardHtml('Errors', [['Total', report.errorsCount]])}
+</section>
+<h2>Language variants by content type</h2>
+${getBreakdownTableHtml(
+    'Content type',
+    getBreakdown(report, (item) => item.type.codename)
+)}
+<h2>Language variants by language</h2>
+${getBreakdownTableHtml(
+    'Language',
+    getBreakdown(report, (item) => item.language.codename)
+)}
+<h2>Failed objects (${failedObjects.length})</h2>
+<div class="filters">
+<input id="filter" type="search" placeholder="Filter by codename, language, content type or error">
+<select id="objectType">
+<option value="">All object types</option>
+${Object.entries(objectTypeTitles)
+    .map(([objectType, title]) => `<option value="${objectType}">${title}</option>`)
+    .join('\n')}
+</select>
+</div>
+${getFailedObjectsTableHtml(report.environmentId, failedObjects)}
+<h2>Imported language variants (${report.languageVariants.successful.length})</h2>
+${getItemsTableHtml(report.environmentId, report.languageVariants.successful)}
+<script>${script}</script>
+</body>
+</html>
+`;
+}
+
+function getBreakdown(report: ImportReport, getKey: (item: ImportReportItem) => string): readonly BreakdownRow[] {
+    const keys = [
+        ...new Set(
+            [...report.languageVariants.successful, ...report.languageVariants.skipped, ...report.languageVariants.failed].map(getKey)
+        )
+    ].sort();
+
+    return keys.map<BreakdownRow>((key) => {
+        return {
+            key: key,
+            successful: report.languageVariants.successful.filter((m) => getKey(m) === key).length,
+            skipped: report.languageVariants.skipped.filter((m) => getKey(m) === key).length,
+            failed: report.languageVariants.failed.filter((m) => getKey(m) === key).length
+        };
+    });
+}
+
+function getCardHtml(title: string, values: readonly [string, number][]): string {
+    return `<div class="card"><h3>${title}</h3>${values
+        .map(([label, value]) => `<div class="value"><span>${label}</span><strong>${value}</strong></div>`)
+        .join('')}</div>`;
+}
+
+function getBreakdownTableHtml(keyTitle: string, rows: readonly BreakdownRow[]): string {
+    if (!rows.length) {
+        return `<p class="muted">No language variants were imported</p>`;
+    }
+
+    return `<table>
+<thead><tr><th>${keyTitle}</th><th>Imported</th><th>Skipped</th><th>Failed</th></tr></thead>
+<tbody>
+${rows
+    .map(
+        (row) =>
+            `<tr><td><code>${escapeHtml(row.key)}</code></td><td>${row.successful}</td><td>${row.skipped}</td><td class="${
+                row.failed ? 'failed' : ''
+            }">${row.failed}</td></tr>`
+    )
+    .join('\n')}
+</tbody>
+</table>`;
+}
+
+function getFailedObjectsTableHtml(environmentId: string, failedObjects: readonly FailedObject[]): string {
+    if (!failedObjects.length) {
+        return `<p class="muted">All objects were imported successfully</p>`;
+    }
+
+    return `<table>
+<thead><tr><th>Object type</th><th>Codename</th><th>Language</th><th>Content type</th><th>Error</th><th>Request</th><th></th></tr></thead>
+<tbody>
+${failedObjects
+    .map((failedObject) => {
+        const searchText = [
+            failedObject.codename,
+            failedObject.item?.language.codename,
+            failedObject.item?.type.codename,
+            failedObject.error
+        ]
+            .join(' ')
+            .toLowerCase();
+
+        return `<tr data-object-type="${failedObject.objectType}" data-search="${escapeHtml(searchText)}">
+<td>${objectTypeTitles[failedObject.objectType]}</td>
+<td><code>${escapeHtml(failedObject.codename)}</code></td>
+<td>${escapeHtml(failedObject.item?.language.codename ?? '')}</td>
+<td>${escapeHtml(failedObject.item?.type.codename ?? '')}</td>
+<td class="failed">${escapeHtml(failedObject.error)}</td>
+<td>${getRequestHtml(failedObject)}</td>
+<td>${failedObject.item ? getItemLinkHtml(environmentId, failedObject.item) : ''}</td>
+</tr>`;
+    })
+    .join('\n')}
+</tbody>
+</table>`;
+}
+
+function getItemsTableHtml(environmentId: string, items: readonly ImportReportItem[]): string {
+    if (!items.length) {
+        return `<p class="muted">No language variants were imported</p>`;
+    }
+
+    return `<table>
+<thead><tr><th>Codename</th><th>Language</th><th>Content type</th><th></th></tr></thead>
+<tbody>
+${items
+    .map(
+        (item) => `<tr data-object-type="languageVariant" data-search="${escapeHtml(
+            [item.codename, item.language.codename, item.type.codename].join(' ').toLowerCase()
+        )}">
+<td><code>${escapeHtml(item.codename)}</code></td>
+<td>${escapeHtml(item.language.codename)}</td>
+<td>${escapeHtml(item.type.codename)}</td>
+<td>${getItemLinkHtml(environmentId, item)}</td>
+</tr>`
+    )
+    .join('\n')}
+</tbody>
+</table>`;
+}
+
+function getRequestHtml(error: ImportReportError): string {
+    if (!error.requestUrl) {
+        return '';
+    }
+
+    return `<details><summary>${escapeHtml(error.requestUrl)}</summary>${
+        error.requestData ? `<pre>${escapeHtml(error.requestData)}</pre>` : ''
+    }</details>`;
+}
+
+function getItemLinkHtml(environmentId: string, item: ImportReportItem): string {
+    if (!item.itemId) {
+        return '';
+    }
+
+    const url = getKontentAppItemUrl({ environmentId: environmentId, itemId: item.itemId, languageCodename: item.language.codename });
+
+    return `<a href="${escapeHtml(url)}" target="_blank" rel="noopener">Open in Kontent.ai</a>`;
+}
+
+function escapeHtml(text: string): string {
+    return text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('"', '&quot;').replaceAll(`'`, '&#39;');
+}
+
+const styles: string = `
+body { font-family: -apple-system, 'Segoe UI', Roboto, sans-serif; margin: 2rem; color: #151515; }
+h1, h2 { font-weight: 600; }
+code { font-size: 0.9em; }
+.muted { color: #6f6f6f; }
+.cards { display: flex; flex-wrap: wrap; gap: 1rem; }
+.card { border: 1px solid #dfdfdf; border-radius: 8px; padding: 1rem 1.5rem; min-width: 12rem; }
+.card h3 { margin: 0 0 0.5rem; font-size: 1rem; color: #6f6f6f; }
+.card .value { display: flex; justify-content: space-between; gap: 2rem; }
+.failed { color: #db0000; }
+.filters { display: flex; gap: 0.5rem; margin-bottom: 1rem; }
+.filters input { flex: 1; max-width: 30rem; padding: 0.4rem; }
+table { border-collapse: collapse; width: 100%; margin-bottom: 1rem; }
+th, td { border-bottom: 1px solid #dfdfdf; padding: 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f3f3f3; }
+pre { white-space: pre-wrap; word-break: break-all; max-width: 40rem; }
+`;
+
+const script: string = `
+const filterInput = document.getElementById('filter');
+const objectTypeSelect = document.getElementById('objectType');
+const applyFilter = () => {
+    const text = filterInput.value.toLowerCase();
+    document.querySelectorAll('tr[data-search]').forEach((row) => {
+        row.hidden = !row.dataset.search.includes(text) || (objectTypeSelect.value !== '' && row.dataset.objectType !== objectTypeSelect.value);
+    });
+};
+filterInput.addEventListener('input', applyFilter);
+objectTypeSelect.addEventListener('change', applyFilter);
+`;
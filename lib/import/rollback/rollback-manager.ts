@@ -0,0 +1,513 @@
+import { ManagementClient } from '@kontent-ai/management-sdk';
+import chalk from 'chalk';
+import { match } from 'ts-pattern';
+import {
+    defaultExternalIdGenerator,
+    extractErrorData,
+    getConcurrency,
+    getDefaultLogger,
+    getMapiRequestsStatsMessage,
+    getMigrationManagementClient,
+    is404Error,
+    LanguageVariantStateInTargetEnvironmentByCodename,
+    Logger,
+    LogSpinnerData,
+    mapiRequestsTracker,
+    MigrationItem,
+    processItemsAsync,
+    runMapiRequestAsync
+} from '../../core/index.js';
+import { archiveImportChangeLogAsync, getImportChangeLogEntryKey, loadImportChangeLogAsync } from '../change-log/import-change-log.js';
+import { importContextFetcherAsync } from '../context/import-context-fetcher.js';
+import {
+    ImportChangeLogAssetEntry,
+    ImportChangeLogContentItemEntry,
+    ImportChangeLogContentModelEntry,
+    ImportChangeLogEntry,
+    ImportChangeLogLanguageVariantEntry,
+    ImportChangeLogVariantVersion,
+    ImportContext,
+    RollbackAction,
+    RollbackConfig,
+    RollbackResult,
+    RolledBackAsset,
+    RolledBackContentModelObject,
+    RolledBackItem,
+    RolledBackLanguageVariant
+} from '../import.models.js';
+import { workflowImporter as workflowImporterInit } from '../importers/workflow-importer.js';
+
+export function rollbackManager(config: RollbackConfig) {
+    const logger: Logger = config.logger ?? getDefaultLogger();
+    const targetEnvironmentClient: Readonly<ManagementClient> = getMigrationManagementClient(config);
+
+    const getRollbackMigrationItem = (entry: ImportChangeLogLanguageVariantEntry, workflowCodename: string): MigrationItem => {
+        // workflow importer only uses codenames of the item, its language & workflow
+        return {
+            system: {
+                codename: entry.codename,
+                name: entry.codename,
+                language: { codename: entry.languageCodename },
+                type: { codename: '' },
+                collection: { codename: '' },
+                workflow: { codename: workflowCodename }
+            },
+            versions: []
+        };
+    };
+
+    const deleteLanguageVariantAsync = async (entry: ImportChangeLogLanguageVariantEntry, logSpinner: LogSpinnerData): Promise<void> => {
+        await runMapiRequestAsync({
+            logger: logger,
+            func: async () => {
+                await targetEnvironmentClient
+                    .deleteLanguageVariant()
+                    .byItemCodename(entry.codename)
+                    .byLanguageCodename(entry.languageCodename)
+                    .toPromise();
+            },
+            action: 'delete',
+            type: 'languageVariant',
+            logSpinner: logSpinner,
+            itemName: `${entry.codename} (${entry.languageCodename})`,
+            itemCodename: entry.codename,
+            languageCodename: entry.languageCodename
+        });
+    };
+
+    const restoreVersionAsync = async (data: {
+        readonly importContext: ImportContext;
+        readonly entry: ImportChangeLogLanguageVariantEntry;
+        readonly version: ImportChangeLogVariantVersion;
+        readonly createNewVersion: boolean;
+        readonly logSpinner: LogSpinnerData;
+    }): Promise<void> => {
+        const workflowImporter = workflowImporterInit({
+            logger: logger,
+            managementClient: targetEnvironmentClient,
+            workflows: data.importContext.environmentData.workflows
+        });
+        const migrationItem = getRollbackMigrationItem(data.entry, data.version.workflowCodename);
+        const workflow = data.importContext.environmentData.workflows.find((m) => m.codename === data.version.workflowCodename);
+
+        if (!workflow) {
+            throw Error(`Workflow '${chalk.red(data.version.workflowCodename)}' does not exist in target environment`);
+        }
+
+        if (data.createNewVersion) {
+            await workflowImporter.createNewVersionOfLanguageVariantAsync({ logSpinner: data.logSpinner, migrationItem: migrationItem });
+        }
+
+        const languageVariant = await runMapiRequestAsync({
+            logger: logger,
+            func: async () => {
+                return (
+                    await targetEnvironmentClient
+                        .upsertLanguageVariant()
+                        .byItemCodename(data.entry.codename)
+                        .byLanguageCodename(data.entry.languageCodename)
+                        .withData(() => {
+                            return {
+                                elements: [...data.version.elements],
+                                workflow: {
+                                    workflow_identifier: {
+                                        codename: workflow.codename
+                                    },
+                                    step_identifier: {
+                                        codename: workflow.steps[0].codename
+                                    }
+                                }
+                            };
+                        })
+                        .toPromise()
+                ).data;
+            },
+            action: 'upsert',
+            type: 'languageVariant',
+            logSpinner: data.logSpinner,
+            itemName: `${data.entry.codename} (${data.entry.languageCodename})`,
+            itemCodename: data.entry.codename,
+            languageCodename: data.entry.languageCodename
+        });
+
+        await workflowImporter.setWorkflowOfLanguageVariantAsync({
+            logSpinner: data.logSpinner,
+            migrationItem: migrationItem,
+            workflowCodename: data.version.workflowCodename,
+            stepCodename: data.version.stepCodename,
+            languageVariant: languageVariant
+        });
+    };
+
+    const rollbackLanguageVariantAsync = async (
+        importContext: ImportContext,
+        entry: ImportChangeLogLanguageVariantEntry,
+        logSpinner: LogSpinnerData
+    ): Promise<RollbackAction | '404'> => {
+        const variantState: LanguageVariantStateInTargetEnvironmentByCodename = importContext.getLanguageVariantStateInTargetEnvironment(
+            entry.codename,
+            entry.languageCodename
+        );
+        const latestVariant = variantState.draftLanguageVariant ?? variantState.publishedLanguageVariant;
+
+        if (!latestVariant?.workflow) {
+            return '404';
+        }
+
+        const workflowImporter = workflowImporterInit({
+            logger: logger,
+            managementClient: targetEnvironmentClient,
+            workflows: importContext.environmentData.workflows
+        });
+        const changeWorkflowData = {
+            logSpinner: logSpinner,
+            migrationItem: getRollbackMigrationItem(entry, latestVariant.workflow.codename)
+        };
+
+        await match(latestVariant.workflowState?.scheduledState)
+            .with('scheduledPublish', async () => await workflowImporter.cancelScheduledPublishAsync(changeWorkflowData))
+            .with('scheduledUnpublish', async () => await workflowImporter.cancelScheduledUnpublishAsync(changeWorkflowData))
+            .otherwise(async () => await Promise.resolve());
+
+        // published version did not exist before the import
+        const unpublish = variantState.publishedLanguageVariant !== undefined && !entry.previousPublishedVersion;
+
+        if (unpublish) {
+            await workflowImporter.unpublishLanguageVariantAsync(changeWorkflowData);
+        }
+
+        if (!entry.previousPublishedVersion && !entry.previousDraftVersion) {
+            await deleteLanguageVariantAsync(entry, logSpinner);
+            return 'deleted';
+        }
+
+        // unpublished language variant is archived
+        await match(unpublish && !variantState.draftLanguageVariant ? 'archived' : latestVariant.workflowState?.workflowState)
+            .with('published', async () => await workflowImporter.createNewVersionOfLanguageVariantAsync(changeWorkflowData))
+            .with('archived', async () => await workflowImporter.moveToDraftStepAsync(changeWorkflowData))
+            .otherwise(async () => await Promise.resolve());
+
+        if (entry.previousPublishedVersion) {
+            await restoreVersionAsync({
+                importContext,
+                entry,
+                version: entry.previousPublishedVersion,
+                createNewVersion: false,
+                logSpinner
+            });
+        }
+
+        if (entry.previousDraftVersion) {
+            await restoreVersionAsync({
+                importContext,
+                entry,
+                version: entry.previousDraftVersion,
+                createNewVersion: entry.previousPublishedVersion !== undefined,
+                logSpinner
+            });
+        }
+
+        return 'restored';
+    };
+
+    const rollbackContentItemAsync = async (
+        entry: ImportChangeLogContentItemEntry,
+        logSpinner: LogSpinnerData
+    ): Promise<RollbackAction | '404'> => {
+        try {
+            if (!entry.previousItem) {
+                await runMapiRequestAsync({
+                    logger: logger,
+                    func: async () => {
+                        await targetEnvironmentClient.deleteContentItem().byItemCodename(entry.codename).toPromise();
+                    },
+                    action: 'delete',
+                    type: 'contentItem',
+                    logSpinner: logSpinner,
+                    itemName: entry.codename,
+                    itemCodename: entry.codename
+                });
+
+                return 'deleted';
+            }
+
+            const previousItem = entry.previousItem;
+
+            await runMapiRequestAsync({
+                logger: logger,
+                func: async () => {
+                    await targetEnvironmentClient
+                        .upsertContentItem()
+                        .byItemCodename(entry.codename)
+                        .withData({
+                            name: previousItem.name,
+                            collection: previousItem.collection
+                        })
+                        .toPromise();
+                },
+                action: 'upsert',
+                type: 'contentItem',
+                logSpinner: logSpinner,
+                itemName: entry.codename,
+                itemCodename: entry.codename
+            });
+
+            return 'restored';
+        } catch (error) {
+            if (!is404Error(error)) {
+                throw error;
+            }
+
+            return '404';
+        }
+    };
+
+    const rollbackAssetAsync = async (entry: ImportChangeLogAssetEntry, logSpinner: LogSpinnerData): Promise<RollbackAction | '404'> => {
+        try {
+            if (!entry.previousAsset) {
+                await runMapiRequestAsync({
+                    logger: logger,
+                    func: async () => {
+                        await targetEnvironmentClient.deleteAsset().byAssetCodename(entry.codename).toPromise();
+                    },
+                    action: 'delete',
+                    type: 'asset',
+                    logSpinner: logSpinner,
+                    itemName: entry.codename
+                });
+
+                return 'deleted';
+            }
+
+            const previousAsset = entry.previousAsset;
+
+            await runMapiRequestAsync({
+                logger: logger,
+                func: async () => {
+                    await targetEnvironmentClient
+                        .upsertAsset()
+                        .byAssetCodename(entry.codename)
+                        .withData(() => previousAsset)
+                        .toPromise();
+                },
+                action: 'upsert',
+                type: 'asset',
+                logSpinner: logSpinner,
+                itemName: entry.codename
+            });
+
+            return 'restored';
+        } catch (error) {
+            if (!is404Error(error)) {
+                throw error;
+            }
+
+            return '404';
+        }
+    };
+
+    const rollbackContentModelObjectAsync = async (
+        entry: ImportChangeLogContentModelEntry,
+        logSpinner: LogSpinnerData
+    ): Promise<RollbackAction | '404'> => {
+        try {
+            await runMapiRequestAsync({
+                logger: logger,
+                func: async () => {
+                    await match(entry.type)
+                        .with('contentType', async () => {
+                            await targetEnvironmentClient.deleteContentType().byTypeCodename(entry.codename).toPromise();
+                        })
+                        .with('contentTypeSnippet', async () => {
+                            await targetEnvironmentClient.deleteContentTypeSnippet().byTypeCodename(entry.codename).toPromise();
+                        })
+                        .exhaustive();
+                },
+                action: 'delete',
+                type: entry.type,
+                logSpinner: logSpinner,
+                itemName: entry.codename
+            });
+
+            return 'deleted';
+        } catch (error) {
+            if (!is404Error(error)) {
+                throw error;
+            }
+
+            return '404';
+        }
+    };
+
+    const getImportContextAsync = async (entries: readonly ImportChangeLogLanguageVariantEntry[]): Promise<ImportContext> => {
+        // current state of language variants is needed to determine how to make them editable
+        return await (
+            await importContextFetcherAsync({
+                migrationData: {
+                    items: entries.map((entry) => getRollbackMigrationItem(entry, '')),
+                    assets: []
+                },
+                externalIdGenerator: defaultExternalIdGenerator,
+                logger: logger,
+                managementClient: targetEnvironmentClient,
+                concurrency: config.concurrency
+            })
+        ).getImportContextAsync();
+    };
+
+    const getRollbackEntries = (
+        changeLog: readonly ImportChangeLogEntry[]
+    ): {
+        readonly languageVariants: readonly ImportChangeLogLanguageVariantEntry[];
+        readonly contentItems: readonly ImportChangeLogContentItemEntry[];
+        readonly assets: readonly ImportChangeLogAssetEntry[];
+        readonly contentTypes: readonly ImportChangeLogContentModelEntry[];
+        readonly contentTypeSnippets: readonly ImportChangeLogContentModelEntry[];
+    } => {
+        // resumed import may record the same object again, only state before the first modification is restored
+        const entries = changeLog.filter(
+            (entry, index) => changeLog.findIndex((m) => getImportChangeLogEntryKey(m) === getImportChangeLogEntryKey(entry)) === index
+        );
+
+        return {
+            languageVariants: entries.filter((m) => m.type === 'languageVariant'),
+            contentItems: entries.filter((m) => m.type === 'contentItem'),
+            assets: entries.filter((m) => m.type === 'asset'),
+            contentTypes: entries.filter((m): m is ImportChangeLogContentModelEntry => m.type === 'contentType'),
+            contentTypeSnippets: entries.filter((m): m is ImportChangeLogContentModelEntry => m.type === 'contentTypeSnippet')
+        };
+    };
+
+    const getErrorsCount = (rollbackResult: RollbackResult): number => {
+        return [
+            ...rollbackResult.languageVariants,
+            ...rollbackResult.contentItems,
+            ...rollbackResult.assets,
+            ...rollbackResult.contentTypes,
+            ...rollbackResult.contentTypeSnippets
+        ].filter((m) => m.state === 'error').length;
+    };
+
+    const printErrorsToConsole = (rollbackResult: RollbackResult): void => {
+        [
+            ...rollbackResult.languageVariants,
+            ...rollbackResult.contentItems,
+            ...rollbackResult.assets,
+            ...rollbackResult.contentTypes,
+            ...rollbackResult.contentTypeSnippets
+        ].forEach((result) => {
+            if (result.state !== 'error') {
+                return;
+            }
+
+            logger.log({
+                type: 'error',
+                message: `${chalk.yellow(result.inputItem.type)} '${chalk.cyan(result.inputItem.codename)}'${
+                    result.inputItem.type === 'languageVariant' ? ` (${chalk.cyan(result.inputItem.languageCodename)})` : ''
+                }: ${extractErrorData(result.error).message}`
+            });
+        });
+    };
+
+    return {
+        async rollbackAsync(): Promise<RollbackResult> {
+            const requestsStats = mapiRequestsTracker.getStats();
+            const changeLogFilename = config.changeLogFilename;
+            const entries = getRollbackEntries(await loadImportChangeLogAsync({ logger: logger, changeLogFilename: changeLogFilename }));
+
+            logger.log({
+                type: 'info',
+                message: `Rolling back '${chalk.yellow(entries.languageVariants.length)}' language variants, '${chalk.yellow(
+                    entries.contentItems.length
+                )}' content items, '${chalk.yellow(entries.assets.length)}' assets, '${chalk.yellow(
+                    entries.contentTypes.length
+                )}' content types & '${chalk.yellow(entries.contentTypeSnippets.length)}' content type snippets recorded in '${chalk.yellow(
+                    changeLogFilename
+                )}'`
+            });
+
+            const importContext = await getImportContextAsync(entries.languageVariants);
+
+            // language variants are restored first as they may reference created content items & assets
+            const languageVariants: readonly RolledBackLanguageVariant[] = await processItemsAsync<
+                ImportChangeLogLanguageVariantEntry,
+                RollbackAction
+            >({
+                action: 'Rolling back language variants',
+                logger: logger,
+                parallelLimit: getConcurrency(config.concurrency, 'languageVariants'),
+                items: entries.languageVariants,
+                itemInfo: (entry) => ({ itemType: 'languageVariant', title: `${entry.codename} (${entry.languageCodename})` }),
+                processAsync: async (entry, logSpinner) => await rollbackLanguageVariantAsync(importContext, entry, logSpinner)
+            });
+
+            const contentItems: readonly RolledBackItem[] = await processItemsAsync<ImportChangeLogContentItemEntry, RollbackAction>({
+                action: 'Rolling back content items',
+                logger: logger,
+                parallelLimit: getConcurrency(config.concurrency, 'contentItems'),
+                items: entries.contentItems,
+                itemInfo: (entry) => ({ itemType: 'contentItem', title: entry.codename }),
+                processAsync: async (entry, logSpinner) => await rollbackContentItemAsync(entry, logSpinner)
+            });
+
+            const assets: readonly RolledBackAsset[] = await processItemsAsync<ImportChangeLogAssetEntry, RollbackAction>({
+                action: 'Rolling back assets',
+                logger: logger,
+                parallelLimit: getConcurrency(config.concurrency, 'assets'),
+                items: entries.assets,
+                itemInfo: (entry) => ({ itemType: 'asset', title: entry.codename }),
+                processAsync: async (entry, logSpinner) => await rollbackAssetAsync(entry, logSpinner)
+            });
+
+            // content types can only be deleted once no content items use them & snippets once no content types use them
+            const contentTypes: readonly RolledBackContentModelObject[] = await processItemsAsync<
+                ImportChangeLogContentModelEntry,
+                RollbackAction
+            >({
+                action: 'Rolling back content types',
+                logger: logger,
+                parallelLimit: 1,
+                items: entries.contentTypes,
+                itemInfo: (entry) => ({ itemType: 'contentType', title: entry.codename }),
+                processAsync: async (entry, logSpinner) => await rollbackContentModelObjectAsync(entry, logSpinner)
+            });
+
+            const contentTypeSnippets: readonly RolledBackContentModelObject[] = await processItemsAsync<
+                ImportChangeLogContentModelEntry,
+                RollbackAction
+            >({
+                action: 'Rolling back content type snippets',
+                logger: logger,
+                parallelLimit: 1,
+                items: entries.contentTypeSnippets,
+                itemInfo: (entry) => ({ itemType: 'contentTypeSnippet', title: entry.codename }),
+                processAsync: async (entry, logSpinner) => await rollbackContentModelObjectAsync(entry, logSpinner)
+            });
+
+            const rollbackResult: RollbackResult = { languageVariants, contentItems, assets, contentTypes, contentTypeSnippets };
+            const errorsCount = getErrorsCount(rollbackResult);
+
+            logger.log({
+                type: 'info',
+                message: getMapiRequestsStatsMessage(requestsStats)
+            });
+
+            if (errorsCount) {
+                printErrorsToConsole(rollbackResult);
+                logger.log({
+                    type: 'completed',
+                    message: `Finished rollback with '${chalk.red(errorsCount)}' ${errorsCount === 1 ? 'error' : 'errors'}`
+                });
+            } else {
+                const archivedFilename = await archiveImportChangeLogAsync({ logger: logger, changeLogFilename: changeLogFilename });
+
+                logger.log({
+                    type: 'completed',
+                    message: `Finished rollback. Change log was archived as '${chalk.yellow(archivedFilename)}'`
+                });
+            }
+
+            return rollbackResult;
+        }
+    };
+}
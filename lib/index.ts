@@ -4,6 +4,10 @@ export * from './export/index.js';
 export * from './import/index.js';
 export * from './file/index.js';
 export * from './zip/index.js';
+export * from './csv/index.js';
+export * from './xliff/index.js';
+export * from './mock-api/index.js';
 export * from './toolkit/index.js';
+export * from './validation/index.js';
 export * from './file/index.js';
 export * from './translation/index.js';
@@ -0,0 +1,2 @@
+export * from './mock-api.models.js';
+export * from './mock-api-server.js';
@@ -0,0 +1,435 @@
+import { randomUUID } from 'crypto';
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { extractErrorData } from '../core/index.js';
+import { createMockApiState, mockApiStore } from './mock-api-store.js';
+import { MockApiMethod, MockApiRequest, MockManagementApi, MockManagementApiData, MockManagementApiState } from './mock-api.models.js';
+import {
+    MockAssetDataSchema,
+    MockContentItemDataSchema,
+    MockContentModelOperationsSchema,
+    MockContentTypeDataSchema,
+    MockLanguageVariantDataSchema,
+    MockScheduleDataSchema,
+    MockTaxonomyDataSchema,
+    MockWorkflowDataSchema,
+    parseMockApiBody
+} from './mock-api.schema.js';
+import { isMockApiError, mockApiError, MockApiIdentifier, parseIdentifier } from './mock-api.utils.js';
+
+interface MockApiRouteRequest {
+    readonly identifiers: Readonly<Record<string, MockApiIdentifier>>;
+    readonly segments: Readonly<Record<string, string>>;
+    readonly body: unknown;
+    readonly contentType: string;
+}
+
+interface MockApiResponse {
+    readonly status: number;
+    readonly body?: unknown;
+}
+
+interface MockApiRoute {
+    readonly method: MockApiMethod;
+    /**
+     * ':param' matches identifier (i.e. 'codename/x', 'external-id/x' or id) & '*param' matches single url segment
+     */
+    readonly path: string;
+    readonly handle: (request: MockApiRouteRequest) => MockApiResponse;
+}
+
+const pagination = { continuation_token: null, next_page: null };
+
+/**
+ * Starts in-process fake of Management API endpoints used by the toolkit. Use 'clientConfig' of the returned
+ * object to target it with export, import or migration.
+ */
+export async function mockManagementApiAsync(data?: MockManagementApiData): Promise<MockManagementApi> {
+    const state = createMockApiState(data);
+    const requests: MockApiRequest[] = [];
+    const server = createServer((request, response) => {
+        void handleRequestAsync(request, response);
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const baseUrl = `${origin}/v2`;
+    const routes = getRoutes(
+        state,
+        mockApiStore(state, (file) => `${origin}/files/${file.id}/${encodeURIComponent(file.filename)}`)
+    );
+
+    const handleRequestAsync = async (request: IncomingMessage, response: ServerResponse): Promise<void> => {
+        const method = (request.method ?? 'GET') as MockApiMethod;
+        const path = new URL(request.url ?? '', origin).pathname;
+
+        requests.push({ method, path });
+
+        try {
+            const body = await readBodyAsync(request);
+            const segments = path
+                .split('/')
+                .filter((m) => m.length)
+                .map((m) => decodeURIComponent(m));
+
+            if (method === 'GET' && segments[0] === 'files') {
+                const file = state.files.find((m) => m.id === segments[1]);
+
+                if (!file) {
+                    throw mockApiError(404, `File '${segments[1]}' was not found`);
+                }
+
+                response.writeHead(200, { 'Content-Type': file.contentType, 'Content-Length': file.data.length });
+                response.end(file.data);
+                return;
+            }
+
+            if (segments[0] !== 'v2' || segments[1] !== 'projects' || segments[2] !== state.environmentId) {
+                throw mockApiError(404, `Environment '${segments[2]}' was not found`);
+            }
+
+            if (request.headers.authorization !== `bearer ${state.apiKey}`) {
+                throw mockApiError(401, `Invalid API key`);
+            }
+
+            const result = handleRoute(routes, method, segments.slice(3), body, request.headers['content-type'] ?? '');
+
+            response.writeHead(result.status, { 'Content-Type': 'application/json' });
+            response.end(result.body === undefined ? undefined : JSON.stringify(result.body));
+        } catch (error) {
+            const status = isMockApiError(error) ? error.status : 500;
+
+            response.writeHead(status, { 'Content-Type': 'application/json' });
+            response.end(
+                JSON.stringify({
+                    request_id: randomUUID(),
+                    // error code is set so that failed requests are not retried
+                    error_code: 0,
+                    message: extractErrorData(error).message,
+                    validation_errors: []
+                })
+            );
+        }
+    };
+
+    return {
+        baseUrl: baseUrl,
+        state: state,
+        requests: requests,
+        clientConfig: {
+            environmentId: state.environmentId,
+            apiKey: state.apiKey,
+            baseUrl: baseUrl
+        },
+        async closeAsync(): Promise<void> {
+            server.closeAllConnections();
+            await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+        }
+    };
+}
+
+async function readBodyAsync(request: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of request) {
+        chunks.push(chunk as Buffer);
+    }
+
+    return Buffer.concat(chunks);
+}
+
+function matchRoute(route: MockApiRoute, segments: readonly string[]): Omit<MockApiRouteRequest, 'body' | 'contentType'> | undefined {
+    const routeSegments = route.path.split('/').filter((m) => m.length);
+    const identifiers: Record<string, MockApiIdentifier> = {};
+    const rawSegments: Record<string, string> = {};
+    let index = 0;
+
+    for (const routeSegment of routeSegments) {
+        const segment = segments[index];
+
+        if (routeSegment.startsWith(':')) {
+            const parsedIdentifier = parseIdentifier(segments.slice(index));
+
+            if (!parsedIdentifier) {
+                return undefined;
+            }
+
+            identifiers[routeSegment.substring(1)] = parsedIdentifier.identifier;
+            index += parsedIdentifier.length;
+        } else if (routeSegment.startsWith('*') && segment) {
+            rawSegments[routeSegment.substring(1)] = segment;
+            index++;
+        } else if (routeSegment === segment) {
+            index++;
+        } else {
+            return undefined;
+        }
+    }
+
+    return index === segments.length ? { identifiers, segments: rawSegments } : undefined;
+}
+
+function handleRoute(
+    routes: readonly MockApiRoute[],
+    method: MockApiMethod,
+    segments: readonly string[],
+    body: Buffer,
+    contentType: string
+): MockApiResponse {
+    for (const route of routes.filter((m) => m.method === method)) {
+        const matchedRoute = matchRoute(route, segments);
+
+        if (matchedRoute) {
+            return route.handle({
+                ...matchedRoute,
+                contentType: contentType,
+                // binary files are the only non-json payloads
+                body: route.path.startsWith('files') ? body : body.length ? (JSON.parse(body.toString()) as unknown) : {}
+            });
+        }
+    }
+
+    throw mockApiError(404, `Endpoint '${method} ${segments.join('/')}' is not supported by mocked Management API`);
+}
+
+function getRoutes(state: MockManagementApiState, store: ReturnType<typeof mockApiStore>): readonly MockApiRoute[] {
+    const ok = (body: unknown): MockApiResponse => ({ status: 200, body });
+    const created = (body: unknown): MockApiResponse => ({ status: 201, body });
+    const noContent = (): MockApiResponse => ({ status: 204 });
+
+    const variantRoute = (
+        method: MockApiMethod,
+        action: string,
+        handle: (item: MockApiIdentifier, language: MockApiIdentifier, body: unknown) => void
+    ) => {
+        return {
+            method,
+            path: `items/:item/variants/:language/${action}`,
+            handle: (request: MockApiRouteRequest) => {
+                handle(request.identifiers['item'], request.identifiers['language'], request.body);
+                return noContent();
+            }
+        } satisfies MockApiRoute;
+    };
+
+    return [
+        { method: 'GET', path: '', handle: () => ok({ id: state.environmentId, name: state.environmentName, environment: 'Production' }) },
+        { method: 'GET', path: 'languages', handle: () => ok({ languages: state.languages, pagination }) },
+        {
+            method: 'GET',
+            path: 'collections',
+            handle: () => ok({ collections: state.collections, last_modified: new Date().toISOString() })
+        },
+        {
+            method: 'PATCH',
+            path: 'collections',
+            handle: (request) =>
+                ok({
+                    collections: store.setCollections(parseMockApiBody(request.body, MockContentModelOperationsSchema)),
+                    last_modified: new Date().toISOString()
+                })
+        },
+        { method: 'GET', path: 'workflows', handle: () => ok(state.workflows) },
+        { method: 'GET', path: 'types', handle: () => ok({ types: state.types, pagination }) },
+        {
+            method: 'POST',
+            path: 'types',
+            handle: (request) => created(store.addContentType(parseMockApiBody(request.body, MockContentTypeDataSchema)))
+        },
+        {
+            method: 'GET',
+            path: 'types/:type',
+            handle: (request) => ok(store.getObject(state.types, request.identifiers['type'], 'content type'))
+        },
+        {
+            method: 'PATCH',
+            path: 'types/:type',
+            handle: (request) =>
+                ok(store.modifyContentType(request.identifiers['type'], parseMockApiBody(request.body, MockContentModelOperationsSchema)))
+        },
+        {
+            method: 'DELETE',
+            path: 'types/:type',
+            handle: (request) => {
+                store.deleteContentType(request.identifiers['type']);
+                return noContent();
+            }
+        },
+        {
+            method: 'GET',
+            path: 'types/:type/variants',
+            handle: (request) => {
+                const type = store.getObject(state.types, request.identifiers['type'], 'content type');
+                const itemIds = state.items.filter((m) => m.type.id === type.id).map((m) => m.id);
+
+                return ok({ variants: state.variants.map((m) => m.latest).filter((m) => itemIds.includes(m.item.id ?? '')), pagination });
+            }
+        },
+        { method: 'GET', path: 'snippets', handle: () => ok({ snippets: state.snippets, pagination }) },
+        {
+            method: 'POST',
+            path: 'snippets',
+            handle: (request) => created(store.addContentTypeSnippet(parseMockApiBody(request.body, MockContentTypeDataSchema)))
+        },
+        {
+            method: 'GET',
+            path: 'snippets/:snippet',
+            handle: (request) => ok(store.getObject(state.snippets, request.identifiers['snippet'], 'content type snippet'))
+        },
+        {
+            method: 'PATCH',
+            path: 'snippets/:snippet',
+            handle: (request) =>
+                ok(
+                    store.modifyContentTypeSnippet(
+                        request.identifiers['snippet'],
+                        parseMockApiBody(request.body, MockContentModelOperationsSchema)
+                    )
+                )
+        },
+        {
+            method: 'DELETE',
+            path: 'snippets/:snippet',
+            handle: (request) => {
+                store.deleteContentTypeSnippet(request.identifiers['snippet']);
+                return noContent();
+            }
+        },
+        { method: 'GET', path: 'taxonomies', handle: () => ok({ taxonomies: state.taxonomies, pagination }) },
+        {
+            method: 'POST',
+            path: 'taxonomies',
+            handle: (request) => created(store.addTaxonomy(parseMockApiBody(request.body, MockTaxonomyDataSchema)))
+        },
+        {
+            method: 'GET',
+            path: 'taxonomies/:taxonomy',
+            handle: (request) => ok(store.getObject(state.taxonomies, request.identifiers['taxonomy'], 'taxonomy'))
+        },
+        {
+            method: 'PATCH',
+            path: 'taxonomies/:taxonomy',
+            handle: (request) =>
+                ok(store.modifyTaxonomy(request.identifiers['taxonomy'], parseMockApiBody(request.body, MockContentModelOperationsSchema)))
+        },
+        { method: 'GET', path: 'folders', handle: () => ok({ folders: state.assetFolders, last_modified: new Date().toISOString() }) },
+        {
+            method: 'PATCH',
+            path: 'folders',
+            handle: (request) =>
+                ok({
+                    folders: store.modifyAssetFolders(parseMockApiBody(request.body, MockContentModelOperationsSchema)),
+                    last_modified: new Date().toISOString()
+                })
+        },
+        { method: 'GET', path: 'items', handle: () => ok({ items: state.items, pagination }) },
+        {
+            method: 'POST',
+            path: 'items',
+            handle: (request) => created(store.addContentItem(parseMockApiBody(request.body, MockContentItemDataSchema)))
+        },
+        {
+            method: 'GET',
+            path: 'items/:item',
+            handle: (request) => ok(store.getObject(state.items, request.identifiers['item'], 'content item'))
+        },
+        {
+            method: 'PUT',
+            path: 'items/:item',
+            handle: (request) =>
+                ok(store.upsertContentItem(request.identifiers['item'], parseMockApiBody(request.body, MockContentItemDataSchema)))
+        },
+        {
+            method: 'DELETE',
+            path: 'items/:item',
+            handle: (request) => {
+                store.deleteContentItem(request.identifiers['item']);
+                return noContent();
+            }
+        },
+        {
+            method: 'GET',
+            path: 'items/:item/variants/:language',
+            handle: (request) => ok(store.getRequiredLanguageVariant(request.identifiers['item'], request.identifiers['language']).latest)
+        },
+        {
+            method: 'GET',
+            path: 'items/:item/variants/:language/published',
+            handle: (request) => {
+                const variant = store.getRequiredLanguageVariant(request.identifiers['item'], request.identifiers['language']);
+
+                if (!variant.published) {
+                    throw mockApiError(404, `Language variant of content item '${request.identifiers['item'].value}' is not published`);
+                }
+
+                return ok(variant.published);
+            }
+        },
+        {
+            method: 'PUT',
+            path: 'items/:item/variants/:language',
+            handle: (request) =>
+                ok(
+                    store.upsertLanguageVariant(
+                        request.identifiers['item'],
+                        request.identifiers['language'],
+                        parseMockApiBody(request.body, MockLanguageVariantDataSchema)
+                    )
+                )
+        },
+        {
+            method: 'DELETE',
+            path: 'items/:item/variants/:language',
+            handle: (request) => {
+                store.deleteLanguageVariant(request.identifiers['item'], request.identifiers['language']);
+                return noContent();
+            }
+        },
+        variantRoute('PUT', 'change-workflow', (item, language, body) =>
+            store.changeWorkflowOfLanguageVariant(item, language, parseMockApiBody(body, MockWorkflowDataSchema))
+        ),
+        variantRoute('PUT', 'publish', (item, language, body) =>
+            store.publishLanguageVariant(item, language, parseMockApiBody(body, MockScheduleDataSchema))
+        ),
+        variantRoute('PUT', 'unpublish-and-archive', (item, language, body) =>
+            store.unpublishLanguageVariant(item, language, parseMockApiBody(body, MockScheduleDataSchema))
+        ),
+        variantRoute('PUT', 'new-version', (item, language) => store.createNewVersionOfLanguageVariant(item, language)),
+        variantRoute('PUT', 'cancel-scheduled-publish', (item, language) =>
+            store.cancelScheduledPublishingOfLanguageVariant(item, language)
+        ),
+        variantRoute('PUT', 'cancel-scheduled-unpublish', (item, language) =>
+            store.cancelScheduledUnpublishingOfLanguageVariant(item, language)
+        ),
+        { method: 'GET', path: 'assets', handle: () => ok({ assets: state.assets, pagination }) },
+        {
+            method: 'POST',
+            path: 'assets',
+            handle: (request) => created(store.addAsset(parseMockApiBody(request.body, MockAssetDataSchema)))
+        },
+        {
+            method: 'GET',
+            path: 'assets/:asset',
+            handle: (request) => ok(store.getObject(state.assets, request.identifiers['asset'], 'asset'))
+        },
+        {
+            method: 'PUT',
+            path: 'assets/:asset',
+            handle: (request) => ok(store.upsertAsset(request.identifiers['asset'], parseMockApiBody(request.body, MockAssetDataSchema)))
+        },
+        {
+            method: 'DELETE',
+            path: 'assets/:asset',
+            handle: (request) => {
+                store.deleteAsset(request.identifiers['asset']);
+                return noContent();
+            }
+        },
+        {
+            method: 'POST',
+            path: 'files/*filename',
+            handle: (request) => ok(store.uploadBinaryFile(request.segments['filename'], request.contentType, request.body as Buffer))
+        }
+    ];
+}
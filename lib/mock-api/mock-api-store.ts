@@ -0,0 +1,1067 @@
+import {
+    AssetContracts,
+    AssetFolderContracts,
+    CollectionContracts,
+    ContentItemContracts,
+    ContentTypeContracts,
+    ContentTypeSnippetContracts,
+    ElementContracts,
+    LanguageVariantContracts,
+    SharedContracts,
+    TaxonomyContracts,
+    WorkflowContracts
+} from '@kontent-ai/management-sdk';
+import { randomUUID } from 'crypto';
+import { match } from 'ts-pattern';
+import { findRequired } from '../core/index.js';
+import { MockBinaryFile, MockLanguageVariant, MockManagementApiData, MockManagementApiState } from './mock-api.models.js';
+import {
+    assignIds,
+    flattenTree,
+    getCodenameFromName,
+    getIdsByCodename,
+    isMatchingObject,
+    isMockApiValue,
+    mockApiError,
+    MockApiIdentifier,
+    MockApiObject,
+    resolveCodenameReferences,
+    toIdentifier
+} from './mock-api.utils.js';
+
+type Reference = SharedContracts.IReferenceObjectContract;
+type TypeElement = ElementContracts.IContentTypeElementContract & {
+    readonly snippet?: Reference;
+    readonly taxonomy_group?: Reference;
+    readonly options?: readonly MockApiObject[];
+};
+
+export interface MockVariantElement {
+    readonly element: Reference;
+    readonly value?: unknown;
+    readonly components?: readonly MockVariantComponent[];
+    readonly mode?: string;
+    readonly display_timezone?: string | null;
+}
+
+export interface MockVariantComponent {
+    readonly id: string;
+    readonly type: Reference;
+    readonly elements: readonly MockVariantElement[];
+}
+
+export interface MockContentModelOperation {
+    readonly op: 'addInto' | 'replace' | 'remove' | 'rename';
+    readonly path?: string;
+    readonly reference?: Reference;
+    readonly property_name?: string;
+    readonly value?: unknown;
+}
+
+export interface MockContentTypeData {
+    readonly name: string;
+    readonly codename?: string;
+    readonly external_id?: string;
+    readonly elements: readonly MockTypeElementData[];
+    readonly [key: string]: unknown;
+}
+
+export interface MockTypeElementData {
+    readonly type: string;
+    readonly name?: string;
+    readonly codename?: string;
+    readonly [key: string]: unknown;
+}
+
+export interface MockTaxonomyData {
+    readonly name: string;
+    readonly codename?: string;
+    readonly external_id?: string;
+    readonly terms: readonly MockTaxonomyData[];
+}
+
+export interface MockContentItemData {
+    readonly name: string;
+    readonly codename?: string;
+    readonly external_id?: string;
+    readonly type?: Reference;
+    readonly collection?: Reference;
+}
+
+export interface MockLanguageVariantData {
+    readonly elements: readonly MockVariantElement[];
+    readonly workflow?: {
+        readonly workflow_identifier: Reference;
+        readonly step_identifier: Reference;
+    };
+}
+
+export interface MockScheduleData {
+    readonly scheduled_to?: string;
+    readonly display_timezone?: string;
+}
+
+export interface MockAssetData {
+    readonly file_reference?: { readonly id: string };
+    readonly title?: string;
+    readonly codename?: string;
+    readonly external_id?: string;
+    readonly descriptions?: readonly { readonly language: Reference; readonly description: string | null }[];
+    readonly collection?: { readonly reference: Reference | null };
+    readonly folder?: Reference;
+}
+
+const defaultId: string = '00000000-0000-0000-0000-000000000000';
+
+export function createMockApiState(data: MockManagementApiData | undefined): MockManagementApiState {
+    return {
+        environmentId: data?.environmentId ?? randomUUID(),
+        environmentName: data?.environmentName ?? 'Mock environment',
+        apiKey: data?.apiKey ?? 'mock-api-key',
+        languages: data?.languages ?? [
+            { id: defaultId, name: 'Default project language', codename: 'default', is_active: true, is_default: true }
+        ],
+        collections: data?.collections ?? [{ id: defaultId, name: 'Default', codename: 'default' }],
+        workflows: data?.workflows ?? [getDefaultWorkflow()],
+        types: data?.types ?? [],
+        snippets: data?.snippets ?? [],
+        taxonomies: data?.taxonomies ?? [],
+        assetFolders: data?.assetFolders ?? [],
+        items: data?.items ?? [],
+        variants: data?.variants ?? [],
+        assets: data?.assets ?? [],
+        files: data?.files ?? []
+    };
+}
+
+function getDefaultWorkflow(): WorkflowContracts.IWorkflowContract {
+    const stepIds = { draft: randomUUID(), review: randomUUID(), published: randomUUID(), scheduled: randomUUID(), archived: randomUUID() };
+
+    return {
+        id: defaultId,
+        name: 'Default',
+        codename: 'default',
+        scopes: [],
+        steps: [
+            {
+                id: stepIds.draft,
+                name: 'Draft',
+                codename: 'draft',
+                color: 'red',
+                transitions_to: [{ step: { id: stepIds.review } }],
+                role_ids: []
+            },
+            {
+                id: stepIds.review,
+                name: 'Review',
+                codename: 'review',
+                color: 'yellow',
+                transitions_to: [{ step: { id: stepIds.draft } }, { step: { id: stepIds.published } }],
+                role_ids: []
+            }
+        ],
+        published_step: {
+            id: stepIds.published,
+            name: 'Published',
+            codename: 'published',
+            create_new_version_role_ids: [],
+            unpublish_role_ids: []
+        },
+        scheduled_step: {
+            id: stepIds.scheduled,
+            name: 'Scheduled',
+            codename: 'scheduled',
+            create_new_version_role_ids: [],
+            unpublish_role_ids: []
+        },
+        archived_step: { id: stepIds.archived, name: 'Archived', codename: 'archived', role_ids: [] }
+    };
+}
+
+/**
+ * Operations of mocked Management API over in-memory state. References are stored as ids in the same way as
+ * Management API stores them.
+ */
+export function mockApiStore(state: MockManagementApiState, getFileUrl: (file: MockBinaryFile) => string) {
+    // ids of objects that are referenced by external id before they are created
+    const reservedIds = new Map<string, string>();
+
+    const getId = (objectType: 'item' | 'asset', externalId: string | undefined): string => {
+        if (!externalId) {
+            return randomUUID();
+        }
+
+        const key = `${objectType}:${externalId}`;
+        const id = reservedIds.get(key) ?? randomUUID();
+        reservedIds.set(key, id);
+
+        return id;
+    };
+
+    const getObject = <T extends MockApiObject>(objects: readonly T[], identifier: MockApiIdentifier, objectType: string): T => {
+        return findRequired(
+            objects,
+            (object) => isMatchingObject(object, identifier),
+            () => {
+                throw mockApiError(404, `The requested ${objectType} '${identifier.value}' was not found`);
+            }
+        );
+    };
+
+    const getReferencedObject = <T extends MockApiObject>(
+        objects: readonly T[],
+        reference: Reference | undefined,
+        objectType: string
+    ): T => {
+        const identifier = toIdentifier(reference);
+
+        return findRequired(
+            objects,
+            (object) => isMatchingObject(object, identifier),
+            () => {
+                throw mockApiError(400, `Referenced ${objectType} '${identifier.value}' does not exist`);
+            }
+        );
+    };
+
+    const replaceObject = <T>(objects: T[], object: T, newObject: T): T => {
+        objects.splice(objects.indexOf(object), 1, newObject);
+        return newObject;
+    };
+
+    const getUniqueCodename = (objects: readonly MockApiObject[], codename: string | undefined, name: string): string => {
+        if (codename) {
+            if (objects.some((m) => m.codename === codename)) {
+                throw mockApiError(400, `Codename '${codename}' is already in use`);
+            }
+            return codename;
+        }
+
+        const baseCodename = getCodenameFromName(name);
+        let uniqueCodename = baseCodename;
+
+        for (let index = 2; objects.some((m) => m.codename === uniqueCodename); index++) {
+            uniqueCodename = `${baseCodename}_${index}`;
+        }
+
+        return uniqueCodename;
+    };
+
+    const validateExternalId = (objects: readonly MockApiObject[], externalId: string | undefined): void => {
+        if (externalId && objects.some((m) => m.external_id === externalId)) {
+            throw mockApiError(400, `External id '${externalId}' is already in use`);
+        }
+    };
+
+    /*
+     * Content model
+     */
+
+    const normalizeContentModelValue = <T>(value: T, contextObject?: unknown): T => {
+        const valueWithIds = assignIds(value);
+
+        const contextIds = getIdsByCodename([contextObject, valueWithIds]);
+        const getIds = (objects: readonly MockApiObject[]) => new Map(objects.map((m) => [m.codename ?? '', m.id ?? '']));
+
+        return resolveCodenameReferences(valueWithIds, (property) =>
+            match(property)
+                .with('taxonomy_group', () => getIds(state.taxonomies))
+                .with('snippet', () => getIds(state.snippets))
+                .with('allowed_content_types', 'allowed_item_link_types', () => getIds(state.types))
+                .otherwise(() => contextIds)
+        );
+    };
+
+    const getContentModelObjectAtPath = (object: unknown, segments: readonly string[]): unknown => {
+        return segments.reduce<unknown>((current, segment) => {
+            const [key, ...valueParts] = segment.split(':');
+            const value = valueParts.join(':');
+
+            if (Array.isArray(current) && value) {
+                return (current as MockApiObject[]).find((m) =>
+                    isMatchingObject(m, {
+                        type: key === 'external_id' ? 'externalId' : key === 'codename' ? 'codename' : 'id',
+                        value: value
+                    })
+                );
+            }
+
+            return isMockApiValue(current) ? current[segment] : undefined;
+        }, object);
+    };
+
+    /**
+     * Applies JSON Patch like operations (i.e. '/elements/codename:x/allowed_content_types') used by types & snippets
+     */
+    const patchContentModelObject = <T extends { readonly last_modified: string }>(
+        object: T,
+        operations: readonly MockContentModelOperation[]
+    ): T => {
+        const patchedObject = structuredClone(object);
+
+        for (const operation of operations) {
+            const segments = (operation.path ?? '').split('/').filter((m) => m.length);
+            const parent = getContentModelObjectAtPath(patchedObject, segments.slice(0, -1));
+            const property = segments.at(-1) ?? '';
+            const target = getContentModelObjectAtPath(patchedObject, segments);
+
+            if (target === undefined && operation.op !== 'replace') {
+                throw mockApiError(400, `Path '${operation.path}' does not exist`);
+            }
+
+            match(operation.op)
+                .with('addInto', () => {
+                    if (!Array.isArray(target)) {
+                        throw mockApiError(400, `Cannot add into '${operation.path}'`);
+                    }
+                    target.push(normalizeContentModelValue(operation.value, patchedObject));
+                })
+                .with('replace', () => {
+                    if (!isMockApiValue(parent)) {
+                        throw mockApiError(400, `Path '${operation.path}' does not exist`);
+                    }
+                    parent[property] = normalizeContentModelValue(operation.value, patchedObject);
+                })
+                .with('remove', () => {
+                    if (Array.isArray(parent)) {
+                        parent.splice(parent.indexOf(target), 1);
+                    } else if (isMockApiValue(parent)) {
+                        delete parent[property];
+                    }
+                })
+                .otherwise(() => {
+                    throw mockApiError(400, `Operation '${operation.op}' is not supported`);
+                });
+        }
+
+        return { ...patchedObject, last_modified: new Date().toISOString() };
+    };
+
+    const addContentTypeOrSnippet = <
+        T extends ContentTypeContracts.IContentTypeContract | ContentTypeSnippetContracts.IContentTypeSnippetContract
+    >(
+        objects: T[],
+        data: MockContentTypeData
+    ): T => {
+        validateExternalId(objects, data.external_id);
+
+        const normalizedData = normalizeContentModelValue(data);
+        const object = {
+            ...normalizedData,
+            // snippet & guidelines elements have no name
+            elements: [...normalizedData.elements] as ElementContracts.IContentTypeElementContract[],
+            id: randomUUID(),
+            codename: getUniqueCodename(objects, data.codename, data.name),
+            last_modified: new Date().toISOString()
+        } as T;
+
+        objects.push(object);
+
+        return object;
+    };
+
+    const deleteContentType = (identifier: MockApiIdentifier): void => {
+        const type = getObject(state.types, identifier, 'content type');
+
+        if (state.items.some((m) => m.type.id === type.id)) {
+            throw mockApiError(400, `Content type '${type.codename}' is used by content items`);
+        }
+
+        state.types.splice(state.types.indexOf(type), 1);
+    };
+
+    const deleteContentTypeSnippet = (identifier: MockApiIdentifier): void => {
+        const snippet = getObject(state.snippets, identifier, 'content type snippet');
+
+        if (state.types.some((type) => (type.elements as TypeElement[]).some((m) => m.snippet?.id === snippet.id))) {
+            throw mockApiError(400, `Content type snippet '${snippet.codename}' is used by content types`);
+        }
+
+        state.snippets.splice(state.snippets.indexOf(snippet), 1);
+    };
+
+    const findTreeObject = <T extends MockApiObject>(
+        objects: readonly T[],
+        getChildren: (object: T) => T[],
+        reference: Reference | undefined,
+        objectType: string
+    ): { readonly object: T | undefined; readonly children: T[] } => {
+        if (!reference) {
+            return { object: undefined, children: objects as T[] };
+        }
+
+        const object = getReferencedObject(flattenTree(objects, getChildren), reference, objectType);
+
+        return { object: object, children: getChildren(object) };
+    };
+
+    const removeTreeObject = <T extends MockApiObject>(objects: T[], getChildren: (object: T) => T[], object: T): void => {
+        const siblings = [objects, ...flattenTree(objects, getChildren).map((m) => getChildren(m))].find((m) => m.includes(object));
+        siblings?.splice(siblings.indexOf(object), 1);
+    };
+
+    const addTaxonomy = (data: MockTaxonomyData): TaxonomyContracts.ITaxonomyContract => {
+        validateExternalId(state.taxonomies, data.external_id);
+
+        const taxonomy = {
+            ...assignIds(data),
+            id: randomUUID(),
+            codename: getUniqueCodename(state.taxonomies, data.codename, data.name),
+            last_modified: new Date().toISOString()
+        } as TaxonomyContracts.ITaxonomyContract;
+
+        state.taxonomies.push(taxonomy);
+
+        return taxonomy;
+    };
+
+    const modifyTaxonomy = (
+        identifier: MockApiIdentifier,
+        operations: readonly MockContentModelOperation[]
+    ): TaxonomyContracts.ITaxonomyContract => {
+        const taxonomy = structuredClone(getObject(state.taxonomies, identifier, 'taxonomy'));
+        const getTerms = (term: TaxonomyContracts.ITaxonomyContract): TaxonomyContracts.ITaxonomyContract[] => term.terms;
+
+        for (const operation of operations) {
+            const { object, children } = findTreeObject(taxonomy.terms, getTerms, operation.reference, 'taxonomy term');
+
+            match(operation.op)
+                .with('addInto', () => children.push(assignIds(operation.value as TaxonomyContracts.ITaxonomyContract)))
+                .with('replace', () => Object.assign(object ?? taxonomy, { [operation.property_name ?? '']: operation.value }))
+                .with('remove', () => (object ? removeTreeObject(taxonomy.terms, getTerms, object) : undefined))
+                .otherwise(() => {
+                    throw mockApiError(400, `Operation '${operation.op}' is not supported`);
+                });
+        }
+
+        return replaceObject(state.taxonomies, getObject(state.taxonomies, identifier, 'taxonomy'), {
+            ...taxonomy,
+            last_modified: new Date().toISOString()
+        });
+    };
+
+    const modifyAssetFolders = (operations: readonly MockContentModelOperation[]): readonly AssetFolderContracts.IAssetFolderContract[] => {
+        const getFolders = (folder: AssetFolderContracts.IAssetFolderContract): AssetFolderContracts.IAssetFolderContract[] =>
+            folder.folders;
+
+        for (const operation of operations) {
+            const { object, children } = findTreeObject(state.assetFolders, getFolders, operation.reference, 'asset folder');
+
+            match(operation.op)
+                .with('addInto', () => children.push(assignIds(operation.value as AssetFolderContracts.IAssetFolderContract)))
+                .with('rename', () => Object.assign(object ?? {}, { name: operation.value }))
+                .with('remove', () => (object ? removeTreeObject(state.assetFolders, getFolders, object) : undefined))
+                .otherwise(() => {
+                    throw mockApiError(400, `Operation '${operation.op}' is not supported`);
+                });
+        }
+
+        return state.assetFolders;
+    };
+
+    const setCollections = (operations: readonly MockContentModelOperation[]): readonly CollectionContracts.ICollectionContract[] => {
+        for (const operation of operations) {
+            match(operation.op)
+                .with('addInto', () => {
+                    const value = operation.value as { readonly name: string; readonly codename?: string };
+                    state.collections.push({
+                        id: randomUUID(),
+                        name: value.name,
+                        codename: getUniqueCodename(state.collections, value.codename, value.name)
+                    });
+                })
+                .with('replace', () =>
+                    Object.assign(getReferencedObject(state.collections, operation.reference, 'collection'), {
+                        [operation.property_name ?? '']: operation.value
+                    })
+                )
+                .with('remove', () => {
+                    const collection = getReferencedObject(state.collections, operation.reference, 'collection');
+                    state.collections.splice(state.collections.indexOf(collection), 1);
+                })
+                .otherwise(() => {
+                    throw mockApiError(400, `Operation '${operation.op}' is not supported`);
+                });
+        }
+
+        return state.collections;
+    };
+
+    /*
+     * Content items
+     */
+
+    const addContentItem = (data: MockContentItemData): ContentItemContracts.IContentItemModelContract => {
+        validateExternalId(state.items, data.external_id);
+
+        const item: ContentItemContracts.IContentItemModelContract = {
+            id: getId('item', data.external_id),
+            name: data.name,
+            codename: getUniqueCodename(state.items, data.codename, data.name),
+            external_id: data.external_id,
+            type: { id: getReferencedObject(state.types, data.type, 'content type').id },
+            collection: {
+                id: (data.collection ? getReferencedObject(state.collections, data.collection, 'collection') : state.collections[0]).id
+            },
+            spaces: [],
+            last_modified: new Date()
+        };
+
+        state.items.push(item);
+
+        return item;
+    };
+
+    const upsertContentItem = (
+        identifier: MockApiIdentifier,
+        data: MockContentItemData
+    ): ContentItemContracts.IContentItemModelContract => {
+        const item = state.items.find((m) => isMatchingObject(m, identifier));
+
+        if (!item) {
+            if (identifier.type !== 'externalId') {
+                throw mockApiError(404, `The requested content item '${identifier.value}' was not found`);
+            }
+            return addContentItem({ ...data, external_id: identifier.value });
+        }
+
+        return replaceObject(state.items, item, {
+            ...item,
+            name: data.name,
+            codename: data.codename ?? item.codename,
+            collection: data.collection
+                ? { id: getReferencedObject(state.collections, data.collection, 'collection').id }
+                : item.collection,
+            last_modified: new Date()
+        });
+    };
+
+    const deleteContentItem = (identifier: MockApiIdentifier): void => {
+        const item = getObject(state.items, identifier, 'content item');
+
+        state.items.splice(state.items.indexOf(item), 1);
+        state.variants.splice(0, state.variants.length, ...state.variants.filter((m) => m.latest.item.id !== item.id));
+    };
+
+    /*
+     * Language variants
+     */
+
+    const getTypeElements = (typeReference: Reference): readonly TypeElement[] => {
+        const type = getReferencedObject(state.types, typeReference, 'content type');
+
+        return (type.elements as TypeElement[]).flatMap<TypeElement>((element) =>
+            match(element.type)
+                .with('guidelines', () => [])
+                .with(
+                    'snippet',
+                    () => getReferencedObject(state.snippets, element.snippet, 'content type snippet').elements as TypeElement[]
+                )
+                .otherwise(() => [element])
+        );
+    };
+
+    const getDefaultElement = (typeElement: TypeElement): MockVariantElement => {
+        const element = { id: typeElement.id };
+
+        return match(typeElement.type)
+            .returnType<MockVariantElement>()
+            .with('modular_content', 'subpages', 'asset', 'taxonomy', 'multiple_choice', () => ({ element, value: [] }))
+            .with('rich_text', () => ({ element, value: '<p><br></p>', components: [] }))
+            .with('url_slug', () => ({ element, value: '', mode: 'autogenerated' }))
+            .with('date_time', () => ({ element, value: null, display_timezone: null }))
+            .otherwise(() => ({ element, value: null }));
+    };
+
+    const getReferencedId = (objectType: 'item' | 'asset', reference: Reference): string => {
+        if (reference.id) {
+            return reference.id;
+        }
+
+        const objects: readonly MockApiObject[] = objectType === 'item' ? state.items : state.assets;
+
+        if (reference.codename) {
+            return getReferencedObject(objects, reference, objectType).id ?? '';
+        }
+
+        return objects.find((m) => m.external_id === reference.external_id)?.id ?? getId(objectType, reference.external_id);
+    };
+
+    const getRichTextHtml = (html: string): string => {
+        const replaceAttribute = (value: string, attribute: string, newAttribute: string, getNewValue: (value: string) => string): string =>
+            value.replaceAll(
+                new RegExp(`${attribute}="(.+?)"`, 'g'),
+                (_, attributeValue: string) => `${newAttribute}="${getNewValue(attributeValue)}"`
+            );
+
+        return [
+            { attribute: 'data-codename', newAttribute: 'data-id', getId: (value: string) => getReferencedId('item', { codename: value }) },
+            {
+                attribute: 'data-external-id',
+                newAttribute: 'data-id',
+                getId: (value: string) => getReferencedId('item', { external_id: value })
+            },
+            {
+                attribute: 'data-item-codename',
+                newAttribute: 'data-item-id',
+                getId: (value: string) => getReferencedId('item', { codename: value })
+            },
+            {
+                attribute: 'data-item-external-id',
+                newAttribute: 'data-item-id',
+                getId: (value: string) => getReferencedId('item', { external_id: value })
+            },
+            {
+                attribute: 'data-asset-codename',
+                newAttribute: 'data-asset-id',
+                getId: (value: string) => getReferencedId('asset', { codename: value })
+            },
+            {
+                attribute: 'data-asset-external-id',
+                newAttribute: 'data-asset-id',
+                getId: (value: string) => getReferencedId('asset', { external_id: value })
+            }
+        ].reduce((value, replacement) => replaceAttribute(value, replacement.attribute, replacement.newAttribute, replacement.getId), html);
+    };
+
+    const getElementValue = (typeElement: TypeElement, data: MockVariantElement): MockVariantElement => {
+        const element = { id: typeElement.id };
+        const references = (Array.isArray(data.value) ? data.value : []) as readonly Reference[];
+
+        return match(typeElement.type)
+            .returnType<MockVariantElement>()
+            .with('modular_content', 'subpages', () => ({ element, value: references.map((m) => ({ id: getReferencedId('item', m) })) }))
+            .with('asset', () => ({ element, value: references.map((m) => ({ id: getReferencedId('asset', m) })) }))
+            .with('taxonomy', () => {
+                const taxonomy = getReferencedObject(state.taxonomies, typeElement.taxonomy_group, 'taxonomy');
+                const terms = flattenTree(taxonomy.terms, (term) => term.terms);
+
+                return { element, value: references.map((m) => ({ id: getReferencedObject(terms, m, 'taxonomy term').id })) };
+            })
+            .with('multiple_choice', () => ({
+                element,
+                value: references.map((m) => ({ id: getReferencedObject(typeElement.options ?? [], m, 'multiple choice option').id }))
+            }))
+            .with('rich_text', () => ({
+                element,
+                value: getRichTextHtml(typeof data.value === 'string' ? data.value : ''),
+                components: (data.components ?? []).map<MockVariantComponent>((component) => {
+                    const type = getReferencedObject(state.types, component.type, 'content type');
+
+                    return {
+                        id: component.id,
+                        type: { id: type.id },
+                        elements: getVariantElements({ id: type.id }, [], component.elements)
+                    };
+                })
+            }))
+            .with('url_slug', () => ({ element, value: data.value ?? '', mode: data.mode ?? 'autogenerated' }))
+            .with('date_time', () => ({ element, value: data.value ?? null, display_timezone: data.display_timezone ?? null }))
+            .otherwise(() => ({ element, value: data.value ?? null }));
+    };
+
+    const getVariantElements = (
+        typeReference: Reference,
+        currentElements: readonly MockVariantElement[],
+        elements: readonly MockVariantElement[]
+    ): readonly MockVariantElement[] => {
+        const typeElements = getTypeElements(typeReference);
+
+        return elements.reduce<readonly MockVariantElement[]>(
+            (variantElements, element) => {
+                const typeElement = getReferencedObject(typeElements, element.element, 'element');
+                return variantElements.map((m) => (m.element.id === typeElement.id ? getElementValue(typeElement, element) : m));
+            },
+            typeElements.map(
+                (typeElement) => currentElements.find((m) => m.element.id === typeElement.id) ?? getDefaultElement(typeElement)
+            )
+        );
+    };
+
+    const getAllWorkflowSteps = (workflow: WorkflowContracts.IWorkflowContract): readonly MockApiObject[] => {
+        return [...workflow.steps, workflow.published_step, workflow.scheduled_step, workflow.archived_step];
+    };
+
+    const getVariantWorkflow = (variant: LanguageVariantContracts.ILanguageVariantModelContract): WorkflowContracts.IWorkflowContract => {
+        return getReferencedObject(state.workflows, variant.workflow.workflow_identifier, 'workflow');
+    };
+
+    const isInStep = (
+        variant: LanguageVariantContracts.ILanguageVariantModelContract,
+        step: 'published_step' | 'scheduled_step'
+    ): boolean => {
+        return getVariantWorkflow(variant)[step].id === variant.workflow.step_identifier.id;
+    };
+
+    const getItemWorkflow = (item: ContentItemContracts.IContentItemModelContract): WorkflowContracts.IWorkflowContract => {
+        return (
+            state.workflows.find((workflow) =>
+                workflow.scopes.some(
+                    (scope) =>
+                        scope.content_types.some((m) => m.id === item.type.id) || scope.collections.some((m) => m.id === item.collection.id)
+                )
+            ) ?? findRequired(state.workflows, () => true, 'Mocked environment does not contain any workflow')
+        );
+    };
+
+    const getLanguageVariant = (
+        itemIdentifier: MockApiIdentifier,
+        languageIdentifier: MockApiIdentifier
+    ): {
+        readonly item: ContentItemContracts.IContentItemModelContract;
+        readonly languageId: string;
+        readonly variant: MockLanguageVariant | undefined;
+    } => {
+        const item = getObject(state.items, itemIdentifier, 'content item');
+        const languageId = getObject(state.languages, languageIdentifier, 'language').id;
+
+        return {
+            item,
+            languageId,
+            variant: state.variants.find((m) => m.latest.item.id === item.id && m.latest.language.id === languageId)
+        };
+    };
+
+    const getRequiredLanguageVariant = (itemIdentifier: MockApiIdentifier, languageIdentifier: MockApiIdentifier): MockLanguageVariant => {
+        const { variant } = getLanguageVariant(itemIdentifier, languageIdentifier);
+
+        if (!variant) {
+            throw mockApiError(404, `The requested language variant of content item '${itemIdentifier.value}' was not found`);
+        }
+
+        return variant;
+    };
+
+    const setLanguageVariant = (variant: MockLanguageVariant, newVariant: MockLanguageVariant): MockLanguageVariant => {
+        return replaceObject(state.variants, variant, newVariant);
+    };
+
+    const withWorkflowStep = (
+        variant: LanguageVariantContracts.ILanguageVariantModelContract,
+        workflow: WorkflowContracts.IWorkflowContract,
+        step: MockApiObject,
+        schedule?: Partial<LanguageVariantContracts.ILanguageVariantSchedule>
+    ): LanguageVariantContracts.ILanguageVariantModelContract => {
+        return {
+            ...variant,
+            workflow: { workflow_identifier: { id: workflow.id }, step_identifier: { id: step.id } },
+            schedule: { ...variant.schedule, ...schedule },
+            last_modified: new Date().toISOString()
+        };
+    };
+
+    const upsertLanguageVariant = (
+        itemIdentifier: MockApiIdentifier,
+        languageIdentifier: MockApiIdentifier,
+        data: MockLanguageVariantData
+    ): LanguageVariantContracts.ILanguageVariantModelContract => {
+        const { item, languageId, variant } = getLanguageVariant(itemIdentifier, languageIdentifier);
+
+        if (variant && (isInStep(variant.latest, 'published_step') || isInStep(variant.latest, 'scheduled_step'))) {
+            throw mockApiError(400, `Published or scheduled language variant cannot be modified. Create a new version first`);
+        }
+
+        const workflow = data.workflow
+            ? getReferencedObject(state.workflows, data.workflow.workflow_identifier, 'workflow')
+            : variant
+              ? getVariantWorkflow(variant.latest)
+              : getItemWorkflow(item);
+        const step = data.workflow
+            ? getReferencedObject(getAllWorkflowSteps(workflow), data.workflow.step_identifier, 'workflow step')
+            : variant
+              ? { id: variant.latest.workflow.step_identifier.id }
+              : workflow.steps[0];
+
+        const latest = withWorkflowStep(
+            {
+                item: { id: item.id },
+                language: { id: languageId },
+                elements: getVariantElements(
+                    item.type,
+                    variant?.latest.elements ?? [],
+                    data.elements
+                ) as ElementContracts.IContentItemElementContract[],
+                workflow: { workflow_identifier: {}, step_identifier: {} },
+                schedule: variant?.latest.schedule ?? {
+                    publish_time: null,
+                    publish_display_timezone: null,
+                    unpublish_time: null,
+                    unpublish_display_timezone: null
+                },
+                due_date: variant?.latest.due_date ?? { value: null },
+                last_modified: ''
+            },
+            workflow,
+            step
+        );
+
+        if (variant) {
+            setLanguageVariant(variant, { ...variant, latest });
+        } else {
+            state.variants.push({ latest, published: undefined });
+        }
+
+        return latest;
+    };
+
+    const changeWorkflowOfLanguageVariant = (
+        itemIdentifier: MockApiIdentifier,
+        languageIdentifier: MockApiIdentifier,
+        data: Required<MockLanguageVariantData>['workflow']
+    ): void => {
+        const variant = getRequiredLanguageVariant(itemIdentifier, languageIdentifier);
+
+        if (isInStep(variant.latest, 'published_step') || isInStep(variant.latest, 'scheduled_step')) {
+            throw mockApiError(400, `Workflow of published or scheduled language variant cannot be changed`);
+        }
+
+        const workflow = getReferencedObject(state.workflows, data.workflow_identifier, 'workflow');
+        const step = getReferencedObject([...workflow.steps, workflow.archived_step], data.step_identifier, 'workflow step');
+
+        setLanguageVariant(variant, { ...variant, latest: withWorkflowStep(variant.latest, workflow, step) });
+    };
+
+    const publishLanguageVariant = (
+        itemIdentifier: MockApiIdentifier,
+        languageIdentifier: MockApiIdentifier,
+        data: MockScheduleData
+    ): void => {
+        const variant = getRequiredLanguageVariant(itemIdentifier, languageIdentifier);
+        const workflow = getVariantWorkflow(variant.latest);
+
+        if (isInStep(variant.latest, 'published_step') || isInStep(variant.latest, 'scheduled_step')) {
+            throw mockApiError(400, `Language variant is already published or scheduled`);
+        }
+
+        if (data.scheduled_to) {
+            setLanguageVariant(variant, {
+                ...variant,
+                latest: withWorkflowStep(variant.latest, workflow, workflow.scheduled_step, {
+                    publish_time: data.scheduled_to,
+                    publish_display_timezone: data.display_timezone ?? null
+                })
+            });
+            return;
+        }
+
+        const latest = withWorkflowStep(variant.latest, workflow, workflow.published_step, {
+            publish_time: null,
+            publish_display_timezone: null
+        });
+
+        setLanguageVariant(variant, { latest, published: latest });
+    };
+
+    const unpublishLanguageVariant = (
+        itemIdentifier: MockApiIdentifier,
+        languageIdentifier: MockApiIdentifier,
+        data: MockScheduleData
+    ): void => {
+        const variant = getRequiredLanguageVariant(itemIdentifier, languageIdentifier);
+        const workflow = getVariantWorkflow(variant.latest);
+
+        if (!variant.published || !isInStep(variant.latest, 'published_step')) {
+            throw mockApiError(400, `Only published language variant can be unpublished`);
+        }
+
+        if (data.scheduled_to) {
+            const schedule = { unpublish_time: data.scheduled_to, unpublish_display_timezone: data.display_timezone ?? null };
+
+            setLanguageVariant(variant, {
+                latest: withWorkflowStep(variant.latest, workflow, workflow.published_step, schedule),
+                published: withWorkflowStep(variant.published, workflow, workflow.published_step, schedule)
+            });
+            return;
+        }
+
+        setLanguageVariant(variant, { latest: withWorkflowStep(variant.latest, workflow, workflow.archived_step), published: undefined });
+    };
+
+    const createNewVersionOfLanguageVariant = (itemIdentifier: MockApiIdentifier, languageIdentifier: MockApiIdentifier): void => {
+        const variant = getRequiredLanguageVariant(itemIdentifier, languageIdentifier);
+        const workflow = getVariantWorkflow(variant.latest);
+
+        if (!isInStep(variant.latest, 'published_step')) {
+            throw mockApiError(400, `New version can only be created from published language variant`);
+        }
+
+        setLanguageVariant(variant, { ...variant, latest: withWorkflowStep(variant.latest, workflow, workflow.steps[0]) });
+    };
+
+    const deleteLanguageVariant = (itemIdentifier: MockApiIdentifier, languageIdentifier: MockApiIdentifier): void => {
+        const variant = getRequiredLanguageVariant(itemIdentifier, languageIdentifier);
+
+        if (variant.published || isInStep(variant.latest, 'scheduled_step')) {
+            throw mockApiError(400, `Published or scheduled language variant cannot be deleted. Unpublish it first`);
+        }
+
+        state.variants.splice(state.variants.indexOf(variant), 1);
+    };
+
+    const cancelScheduledPublishingOfLanguageVariant = (itemIdentifier: MockApiIdentifier, languageIdentifier: MockApiIdentifier): void => {
+        const variant = getRequiredLanguageVariant(itemIdentifier, languageIdentifier);
+        const workflow = getVariantWorkflow(variant.latest);
+
+        if (!isInStep(variant.latest, 'scheduled_step')) {
+            throw mockApiError(400, `Language variant is not scheduled to be published`);
+        }
+
+        setLanguageVariant(variant, {
+            ...variant,
+            latest: withWorkflowStep(variant.latest, workflow, workflow.steps[0], { publish_time: null, publish_display_timezone: null })
+        });
+    };
+
+    const cancelScheduledUnpublishingOfLanguageVariant = (
+        itemIdentifier: MockApiIdentifier,
+        languageIdentifier: MockApiIdentifier
+    ): void => {
+        const variant = getRequiredLanguageVariant(itemIdentifier, languageIdentifier);
+        const workflow = getVariantWorkflow(variant.latest);
+        const step = { id: variant.latest.workflow.step_identifier.id };
+        const schedule = { unpublish_time: null, unpublish_display_timezone: null };
+
+        if (!variant.latest.schedule.unpublish_time) {
+            throw mockApiError(400, `Language variant is not scheduled to be unpublished`);
+        }
+
+        setLanguageVariant(variant, {
+            latest: withWorkflowStep(variant.latest, workflow, step, schedule),
+            published: variant.published ? withWorkflowStep(variant.published, workflow, workflow.published_step, schedule) : undefined
+        });
+    };
+
+    /*
+     * Assets
+     */
+
+    const uploadBinaryFile = (filename: string, contentType: string, data: Buffer): AssetContracts.IAssetFileReferenceContract => {
+        const file: MockBinaryFile = { id: randomUUID(), filename, contentType, data };
+        state.files.push(file);
+
+        return { id: file.id, type: 'internal' };
+    };
+
+    const getAssetProperties = (
+        data: MockAssetData
+    ): Pick<AssetContracts.IAssetModelContract, 'descriptions' | 'collection' | 'folder' | 'last_modified'> => {
+        return {
+            descriptions: (data.descriptions ?? []).map((description) => ({
+                language: { id: getReferencedObject(state.languages, description.language, 'language').id },
+                description: description.description ?? ''
+            })),
+            collection: {
+                reference: data.collection?.reference
+                    ? { id: getReferencedObject(state.collections, data.collection.reference, 'collection').id }
+                    : null
+            },
+            folder: data.folder
+                ? {
+                      id: getReferencedObject(
+                          flattenTree(state.assetFolders, (folder) => folder.folders),
+                          data.folder,
+                          'asset folder'
+                      ).id
+                  }
+                : undefined,
+            last_modified: new Date().toISOString()
+        };
+    };
+
+    const getFileProperties = (
+        data: MockAssetData
+    ): Pick<
+        AssetContracts.IAssetModelContract,
+        'file_reference' | 'file_name' | 'size' | 'type' | 'url' | 'image_width' | 'image_height'
+    > => {
+        const file = getReferencedObject(state.files, data.file_reference, 'binary file');
+
+        return {
+            file_reference: { id: file.id, type: 'internal' },
+            file_name: file.filename,
+            size: file.data.length,
+            type: file.contentType,
+            url: getFileUrl(file),
+            image_width: null,
+            image_height: null
+        };
+    };
+
+    const addAsset = (data: MockAssetData): AssetContracts.IAssetModelContract => {
+        validateExternalId(state.assets, data.external_id);
+
+        const fileProperties = getFileProperties(data);
+        const asset: AssetContracts.IAssetModelContract = {
+            ...fileProperties,
+            ...getAssetProperties(data),
+            id: getId('asset', data.external_id),
+            codename: getUniqueCodename(state.assets, data.codename, fileProperties.file_name),
+            external_id: data.external_id ?? '',
+            title: data.title ?? ''
+        };
+
+        state.assets.push(asset);
+
+        return asset;
+    };
+
+    const upsertAsset = (identifier: MockApiIdentifier, data: MockAssetData): AssetContracts.IAssetModelContract => {
+        const asset = state.assets.find((m) => isMatchingObject(m, identifier));
+
+        if (!asset) {
+            if (identifier.type === 'id') {
+                throw mockApiError(404, `The requested asset '${identifier.value}' was not found`);
+            }
+            return addAsset({ ...data, [identifier.type === 'codename' ? 'codename' : 'external_id']: identifier.value });
+        }
+
+        return replaceObject<AssetContracts.IAssetModelContract>(state.assets, asset, {
+            ...asset,
+            ...(data.file_reference ? getFileProperties(data) : {}),
+            ...getAssetProperties(data),
+            title: data.title ?? asset.title
+        });
+    };
+
+    const deleteAsset = (identifier: MockApiIdentifier): void => {
+        const asset = getObject(state.assets, identifier, 'asset');
+
+        state.assets.splice(state.assets.indexOf(asset), 1);
+    };
+
+    return {
+        getObject,
+        getRequiredLanguageVariant,
+        addContentType: (data: MockContentTypeData) => addContentTypeOrSnippet(state.types, data),
+        modifyContentType: (identifier: MockApiIdentifier, operations: readonly MockContentModelOperation[]) => {
+            const type = getObject(state.types, identifier, 'content type');
+            return replaceObject(state.types, type, patchContentModelObject(type, operations));
+        },
+        deleteContentType,
+        addContentTypeSnippet: (data: MockContentTypeData) => addContentTypeOrSnippet(state.snippets, data),
+        modifyContentTypeSnippet: (identifier: MockApiIdentifier, operations: readonly MockContentModelOperation[]) => {
+            const snippet = getObject(state.snippets, identifier, 'content type snippet');
+            return replaceObject(state.snippets, snippet, patchContentModelObject(snippet, operations));
+        },
+        deleteContentTypeSnippet,
+        addTaxonomy,
+        modifyTaxonomy,
+        modifyAssetFolders,
+        setCollections,
+        addContentItem,
+        upsertContentItem,
+        deleteContentItem,
+        upsertLanguageVariant,
+        deleteLanguageVariant,
+        changeWorkflowOfLanguageVariant,
+        publishLanguageVariant,
+        unpublishLanguageVariant,
+        createNewVersionOfLanguageVariant,
+        cancelScheduledPublishingOfLanguageVariant,
+        cancelScheduledUnpublishingOfLanguageVariant,
+        uploadBinaryFile,
+        addAsset,
+        upsertAsset,
+        deleteAsset
+    };
+}
@@ -0,0 +1,70 @@
+import {
+    AssetContracts,
+    AssetFolderContracts,
+    CollectionContracts,
+    ContentItemContracts,
+    ContentTypeContracts,
+    ContentTypeSnippetContracts,
+    LanguageContracts,
+    LanguageVariantContracts,
+    TaxonomyContracts,
+    WorkflowContracts
+} from '@kontent-ai/management-sdk';
+import { ManagementClientConfig } from '../core/index.js';
+
+export type MockApiMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface MockLanguageVariant {
+    readonly latest: LanguageVariantContracts.ILanguageVariantModelContract;
+    readonly published: LanguageVariantContracts.ILanguageVariantModelContract | undefined;
+}
+
+export interface MockBinaryFile {
+    readonly id: string;
+    readonly filename: string;
+    readonly contentType: string;
+    readonly data: Buffer;
+}
+
+export interface MockApiRequest {
+    readonly method: MockApiMethod;
+    readonly path: string;
+}
+
+/**
+ * In-memory data of mocked environment stored in the shape of Management API contracts. Objects can be inspected
+ * or modified directly by tests.
+ */
+export interface MockManagementApiState {
+    readonly environmentId: string;
+    readonly environmentName: string;
+    readonly apiKey: string;
+    readonly languages: LanguageContracts.ILanguageModelContract[];
+    readonly collections: CollectionContracts.ICollectionContract[];
+    readonly workflows: WorkflowContracts.IWorkflowContract[];
+    readonly types: ContentTypeContracts.IContentTypeContract[];
+    readonly snippets: ContentTypeSnippetContracts.IContentTypeSnippetContract[];
+    readonly taxonomies: TaxonomyContracts.ITaxonomyContract[];
+    readonly assetFolders: AssetFolderContracts.IAssetFolderContract[];
+    readonly items: ContentItemContracts.IContentItemModelContract[];
+    readonly variants: MockLanguageVariant[];
+    readonly assets: AssetContracts.IAssetModelContract[];
+    readonly files: MockBinaryFile[];
+}
+
+/**
+ * Initial data of mocked environment. When languages, collections or workflows are not set, environment contains
+ * 'default' language, 'default' collection & 'default' workflow with 'draft' & 'review' steps.
+ */
+export type MockManagementApiData = Partial<MockManagementApiState>;
+
+export interface MockManagementApi {
+    readonly baseUrl: string;
+    readonly state: MockManagementApiState;
+    /**
+     * Config that targets the mocked environment. Can be passed to export, import or migration.
+     */
+    readonly clientConfig: ManagementClientConfig;
+    readonly requests: readonly MockApiRequest[];
+    closeAsync(): Promise<void>;
+}
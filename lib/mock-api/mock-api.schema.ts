@@ -0,0 +1,120 @@
+import { SharedContracts } from '@kontent-ai/management-sdk';
+import { z } from 'zod';
+import {
+    MockAssetData,
+    MockContentItemData,
+    MockContentModelOperation,
+    MockContentTypeData,
+    MockLanguageVariantData,
+    MockScheduleData,
+    MockTaxonomyData,
+    MockVariantComponent,
+    MockVariantElement
+} from './mock-api-store.js';
+import { mockApiError } from './mock-api.utils.js';
+
+const MockReferenceSchema: z.ZodType<SharedContracts.IReferenceObjectContract> = z.object({
+    id: z.string().optional(),
+    codename: z.string().optional(),
+    external_id: z.string().optional()
+});
+
+export const MockContentModelOperationsSchema: z.ZodType<readonly MockContentModelOperation[]> = z.array(
+    z.object({
+        op: z.enum(['addInto', 'replace', 'remove', 'rename']),
+        path: z.string().optional(),
+        reference: MockReferenceSchema.optional(),
+        property_name: z.string().optional(),
+        value: z.unknown()
+    })
+);
+
+export const MockContentTypeDataSchema: z.ZodType<MockContentTypeData> = z
+    .object({
+        name: z.string(),
+        codename: z.string().optional(),
+        external_id: z.string().optional(),
+        elements: z.array(
+            z
+                .object({
+                    type: z.string(),
+                    name: z.string().optional(),
+                    codename: z.string().optional()
+                })
+                .passthrough()
+        )
+    })
+    .passthrough();
+
+/**
+ * ZodType is needed to be specified here due to the use of 'lazy' & circular dependency between types
+ */
+export const MockTaxonomyDataSchema: z.ZodType<MockTaxonomyData> = z.object({
+    name: z.string(),
+    codename: z.string().optional(),
+    external_id: z.string().optional(),
+    terms: z.array(z.lazy(() => MockTaxonomyDataSchema))
+});
+
+export const MockContentItemDataSchema: z.ZodType<MockContentItemData> = z.object({
+    name: z.string(),
+    codename: z.string().optional(),
+    external_id: z.string().optional(),
+    type: MockReferenceSchema.optional(),
+    collection: MockReferenceSchema.optional()
+});
+
+const MockVariantElementSchema: z.ZodType<MockVariantElement> = z.object({
+    element: MockReferenceSchema,
+    value: z.unknown(),
+    components: z.array(z.lazy(() => MockVariantComponentSchema)).optional(),
+    mode: z.string().optional(),
+    display_timezone: z.string().nullable().optional()
+});
+
+const MockVariantComponentSchema: z.ZodType<MockVariantComponent> = z.object({
+    id: z.string(),
+    type: MockReferenceSchema,
+    elements: z.array(MockVariantElementSchema)
+});
+
+export const MockWorkflowDataSchema: z.ZodType<Required<MockLanguageVariantData>['workflow']> = z.object({
+    workflow_identifier: MockReferenceSchema,
+    step_identifier: MockReferenceSchema
+});
+
+export const MockLanguageVariantDataSchema: z.ZodType<MockLanguageVariantData> = z.object({
+    elements: z.array(MockVariantElementSchema),
+    workflow: MockWorkflowDataSchema.optional()
+});
+
+export const MockScheduleDataSchema: z.ZodType<MockScheduleData> = z.object({
+    scheduled_to: z.string().optional(),
+    display_timezone: z.string().optional()
+});
+
+export const MockAssetDataSchema: z.ZodType<MockAssetData> = z.object({
+    file_reference: z.object({ id: z.string() }).optional(),
+    title: z.string().optional(),
+    codename: z.string().optional(),
+    external_id: z.string().optional(),
+    descriptions: z.array(z.object({ language: MockReferenceSchema, description: z.string().nullable() })).optional(),
+    collection: z.object({ reference: MockReferenceSchema.nullable() }).optional(),
+    folder: MockReferenceSchema.optional()
+});
+
+/**
+ * Invalid request body is refused the same way as by Management API
+ */
+export function parseMockApiBody<T>(body: unknown, schema: z.ZodType<T>): T {
+    const result = schema.safeParse(body);
+
+    if (!result.success) {
+        throw mockApiError(
+            400,
+            `Invalid request body: ${result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`
+        );
+    }
+
+    return result.data;
+}
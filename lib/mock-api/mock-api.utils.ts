@@ -0,0 +1,160 @@
+import { SharedContracts } from '@kontent-ai/management-sdk';
+import { randomUUID } from 'crypto';
+import { match } from 'ts-pattern';
+
+export interface MockApiIdentifier {
+    readonly type: 'id' | 'codename' | 'externalId';
+    readonly value: string;
+}
+
+export interface MockApiObject {
+    readonly id?: string;
+    readonly codename?: string;
+    readonly external_id?: string;
+}
+
+export type MockApiError = Error & { readonly status: number };
+
+export type MockApiValue = Record<string, unknown>;
+
+export function mockApiError(status: number, message: string): MockApiError {
+    return Object.assign(Error(message), { status: status });
+}
+
+export function isMockApiError(error: unknown): error is MockApiError {
+    return error instanceof Error && 'status' in error && typeof error.status === 'number';
+}
+
+export function isMockApiValue(value: unknown): value is MockApiValue {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+export function toIdentifier(reference: Readonly<SharedContracts.IReferenceObjectContract> | undefined): MockApiIdentifier {
+    if (reference?.id) {
+        return { type: 'id', value: reference.id };
+    }
+    if (reference?.codename) {
+        return { type: 'codename', value: reference.codename };
+    }
+    if (reference?.external_id) {
+        return { type: 'externalId', value: reference.external_id };
+    }
+
+    throw mockApiError(400, `Reference '${JSON.stringify(reference)}' must contain 'id', 'codename' or 'external_id'`);
+}
+
+/**
+ * Parses identifier from url segments, i.e. 'codename/x', 'external-id/x' or id
+ */
+export function parseIdentifier(
+    segments: readonly string[]
+): { readonly identifier: MockApiIdentifier; readonly length: number } | undefined {
+    const [first, second] = segments;
+
+    if (!first) {
+        return undefined;
+    }
+
+    if ((first === 'codename' || first === 'external-id') && second) {
+        return { identifier: { type: first === 'codename' ? 'codename' : 'externalId', value: second }, length: 2 };
+    }
+
+    return { identifier: { type: 'id', value: first }, length: 1 };
+}
+
+export function isMatchingObject(object: MockApiObject, identifier: MockApiIdentifier): boolean {
+    return match(identifier.type)
+        .with('id', () => object.id === identifier.value)
+        .with('codename', () => object.codename === identifier.value)
+        .with('externalId', () => object.external_id === identifier.value)
+        .exhaustive();
+}
+
+export function flattenTree<T>(objects: readonly T[], getChildren: (object: T) => readonly T[]): readonly T[] {
+    return objects.flatMap((object) => [object, ...flattenTree(getChildren(object), getChildren)]);
+}
+
+export function getCodenameFromName(name: string): string {
+    return (
+        name
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '_')
+            .replace(/^_+|_+$/g, '') || 'n_a'
+    );
+}
+
+/**
+ * Objects with codename or name & other properties (elements, options, content groups, terms...) get an id. Objects
+ * with just a codename are references & are left untouched.
+ */
+export function assignIds<T>(value: T): T {
+    if (Array.isArray(value)) {
+        return value.map((m) => assignIds(m as unknown)) as T;
+    }
+
+    if (isMockApiValue(value)) {
+        const object = Object.fromEntries(Object.entries(value).map(([key, propertyValue]) => [key, assignIds(propertyValue)]));
+        const isContentModelObject = ('codename' in object || 'name' in object) && Object.keys(object).length > 1 && !object['id'];
+
+        return (isContentModelObject ? { id: randomUUID(), ...object } : object) as T;
+    }
+
+    return value;
+}
+
+export function getIdsByCodename(values: readonly unknown[]): ReadonlyMap<string, string> {
+    const idsByCodename = new Map<string, string>();
+
+    const addObject = (value: unknown): void => {
+        if (Array.isArray(value)) {
+            value.forEach((m) => addObject(m));
+            return;
+        }
+
+        if (isMockApiValue(value)) {
+            if (typeof value['id'] === 'string' && typeof value['codename'] === 'string') {
+                idsByCodename.set(value['codename'], value['id']);
+            }
+            Object.values(value).forEach((m) => addObject(m));
+        }
+    };
+
+    values.forEach((value) => addObject(value));
+
+    return idsByCodename;
+}
+
+/**
+ * Replaces codename references (i.e. '{ codename: 'x' }') with id references as Management API does. Ids are looked up
+ * by the property holding the reference as codenames are only unique within the same kind of objects.
+ */
+export function resolveCodenameReferences<T>(
+    value: T,
+    getIdsByProperty: (property: string | undefined) => ReadonlyMap<string, string>,
+    property?: string
+): T {
+    if (Array.isArray(value)) {
+        return value.map((m) => resolveCodenameReferences(m as unknown, getIdsByProperty, property)) as T;
+    }
+
+    if (isMockApiValue(value)) {
+        const entries = Object.entries(value);
+        const [firstEntry] = entries;
+
+        if (entries.length === 1 && firstEntry?.[0] === 'codename' && typeof firstEntry[1] === 'string') {
+            const id = getIdsByProperty(property).get(firstEntry[1]);
+
+            if (!id) {
+                throw mockApiError(400, `Referenced object with codename '${firstEntry[1]}' does not exist`);
+            }
+
+            return { id: id } as T;
+        }
+
+        return Object.fromEntries(
+            entries.map(([key, propertyValue]) => [key, resolveCodenameReferences(propertyValue, getIdsByProperty, key)])
+        ) as T;
+    }
+
+    return value;
+}
@@ -0,0 +1,32 @@
+import { extractCsvAsync, storeAsync } from '../../../toolkit/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getEncryptionKeyAsync, getPackageFormat } from '../utils/cli.utils.js';
+
+export async function csvToPackageActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
+    const log = getCliLogger(argsFetcher);
+    const environmentId = argsFetcher.getRequiredArgumentValue('targetEnvironmentId');
+    const apiKey = argsFetcher.getRequiredArgumentValue('targetApiKey');
+    const baseUrl = argsFetcher.getOptionalArgumentValue('baseUrl');
+    const filename = argsFetcher.getOptionalArgumentValue('filename');
+    const folder = argsFetcher.getOptionalArgumentValue('folder');
+    const format = getPackageFormat(argsFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(argsFetcher, log);
+
+    const data = await extractCsvAsync({
+        logger: log,
+        environmentId: environmentId,
+        apiKey: apiKey,
+        baseUrl: baseUrl,
+        folder: folder
+    });
+
+    await storeAsync({
+        logger: log,
+        data: data,
+        filename: filename,
+        format: format,
+        encryptionKey: encryptionKey
+    });
+
+    log.log({ type: 'completed', message: `Package has been created from csv files` });
+}
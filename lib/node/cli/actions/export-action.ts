@@ -1,16 +1,94 @@
-import { confirmExportAsync, defaultZipFilename, getDefaultLogger } from '../../../core/index.js';
+import chalk from 'chalk';
+import { confirmExportAsync, Logger } from '../../../core/index.js';
+import { ExportQuery, SourceExportItem } from '../../../export/index.js';
 import { exportAsync, storeAsync } from '../../../toolkit/index.js';
 import { CliArgumentsFetcher } from '../cli.models.js';
+import {
+    getCliLogger,
+    getConcurrencyConfig,
+    getEncryptionKeyAsync,
+    getItemsFormat,
+    getPackageFormat,
+    getSourceExportItemsAsync,
+    getSplitSize
+} from '../utils/cli.utils.js';
+
+async function getExportItemsAsync(data: {
+    readonly cliFetcher: CliArgumentsFetcher;
+    readonly environmentId: string;
+    readonly apiKey: string;
+    readonly baseUrl: string | undefined;
+    readonly logger: Logger;
+}): Promise<readonly SourceExportItem[]> {
+    const items = data.cliFetcher.getOptionalArgumentValue('items')?.split(',');
+
+    if (!items) {
+        return [];
+    }
+
+    return await getSourceExportItemsAsync({
+        items: items,
+        language: data.cliFetcher.getRequiredArgumentValue('language'),
+        environmentId: data.environmentId,
+        apiKey: data.apiKey,
+        baseUrl: data.baseUrl,
+        logger: data.logger
+    });
+}
+
+function getExportQuery(cliFetcher: CliArgumentsFetcher): ExportQuery | undefined {
+    const contentTypes = cliFetcher.getOptionalArgumentValue('types')?.split(',');
+    const collections = cliFetcher.getOptionalArgumentValue('collections')?.split(',');
+    const languages = cliFetcher.getOptionalArgumentValue('languages')?.split(',');
+    const modifiedSince = cliFetcher.getOptionalArgumentValue('modifiedSince');
+
+    if (!contentTypes && !collections && !languages && !modifiedSince) {
+        return undefined;
+    }
+
+    const modifiedSinceDate = modifiedSince ? new Date(modifiedSince) : undefined;
+
+    if (modifiedSinceDate && isNaN(modifiedSinceDate.getTime())) {
+        throw Error(`Invalid date '${chalk.red(modifiedSince)}' provided for 'modifiedSince' option`);
+    }
+
+    return {
+        contentTypes,
+        collections,
+        languages,
+        modifiedSince: modifiedSinceDate
+    };
+}
 
 export async function exportActionAsync(cliFetcher: CliArgumentsFetcher): Promise<void> {
-    const logger = getDefaultLogger();
-    const language = cliFetcher.getRequiredArgumentValue('language');
+    const logger = getCliLogger(cliFetcher);
     const environmentId = cliFetcher.getRequiredArgumentValue('sourceEnvironmentId');
     const apiKey = cliFetcher.getRequiredArgumentValue('sourceApiKey');
-    const items = cliFetcher.getRequiredArgumentValue('items').split(',');
     const baseUrl = cliFetcher.getOptionalArgumentValue('baseUrl');
+    const exportItems = await getExportItemsAsync({
+        cliFetcher: cliFetcher,
+        environmentId: environmentId,
+        apiKey: apiKey,
+        baseUrl: baseUrl,
+        logger: logger
+    });
+    const query = getExportQuery(cliFetcher);
     const force = cliFetcher.getBooleanArgumentValue('force', false);
-    const filename = cliFetcher.getOptionalArgumentValue('filename') ?? defaultZipFilename;
+    const includeDependencies = cliFetcher.getBooleanArgumentValue('includeDependencies', false);
+    const dependenciesDepth = cliFetcher.getOptionalNumberArgumentValue('dependenciesDepth');
+    const includeContentModel = cliFetcher.getBooleanArgumentValue('includeContentModel', false);
+    const filename = cliFetcher.getOptionalArgumentValue('filename');
+    const format = getPackageFormat(cliFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(cliFetcher, logger);
+    const splitSize = getSplitSize(cliFetcher);
+    const itemsFormat = getItemsFormat(cliFetcher);
+    const concurrency = getConcurrencyConfig(cliFetcher, ['fetch', 'downloads']);
+
+    if (!exportItems.length && !query) {
+        throw Error(
+            `Select content to export using the 'items' option or at least one of 'types', 'collections', 'languages' or 'modifiedSince' options`
+        );
+    }
 
     await confirmExportAsync({
         force: force,
@@ -18,7 +96,7 @@ export async function exportActionAsync(cliFetcher: CliArgumentsFetcher): Promis
         environmentId: environmentId,
         logger: logger,
         dataToExport: {
-            itemsCount: items.length
+            itemsCount: query ? undefined : exportItems.length
         }
     });
 
@@ -27,17 +105,21 @@ export async function exportActionAsync(cliFetcher: CliArgumentsFetcher): Promis
         environmentId: environmentId,
         apiKey: apiKey,
         baseUrl: baseUrl,
-        exportItems: items.map((m) => {
-            return {
-                itemCodename: m,
-                languageCodename: language
-            };
-        })
+        exportItems: exportItems,
+        query: query,
+        includeDependencies: includeDependencies,
+        dependenciesDepth: dependenciesDepth,
+        includeContentModel: includeContentModel,
+        concurrency: concurrency
     });
 
     await storeAsync({
         data: exportedData,
         filename: filename,
+        format: format,
+        encryptionKey: encryptionKey,
+        maxPackageSize: splitSize,
+        itemsFormat: itemsFormat,
         logger: logger
     });
 
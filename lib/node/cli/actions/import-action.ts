@@ -1,15 +1,28 @@
-import { confirmImportAsync, defaultZipFilename, getDefaultLogger } from '../../../core/index.js';
+import { confirmImportAsync, defaultImportJournalFilename } from '../../../core/index.js';
 import { extractAsync, importAsync } from '../../../toolkit/index.js';
 import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getConcurrencyConfig, getEncryptionKeyAsync, getPackageFormat, loadImportMappingAsync } from '../utils/cli.utils.js';
 
 export async function importActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
-    const log = getDefaultLogger();
+    const log = getCliLogger(argsFetcher);
     const environmentId = argsFetcher.getRequiredArgumentValue('targetEnvironmentId');
     const apiKey = argsFetcher.getRequiredArgumentValue('targetApiKey');
     const baseUrl = argsFetcher.getOptionalArgumentValue('baseUrl');
     const createReportFile = argsFetcher.getBooleanArgumentValue('createReportFile', false);
+    const createHtmlReportFile = argsFetcher.getBooleanArgumentValue('createHtmlReportFile', false);
     const force = argsFetcher.getBooleanArgumentValue('force', false);
-    const filename = argsFetcher.getOptionalArgumentValue('filename') ?? defaultZipFilename;
+    const dryRun = argsFetcher.getBooleanArgumentValue('dryRun', false);
+    const createPlanFile = argsFetcher.getBooleanArgumentValue('createPlanFile', false);
+    const filename = argsFetcher.getOptionalArgumentValue('filename');
+    const format = getPackageFormat(argsFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(argsFetcher, log);
+    const journalFilename = argsFetcher.getOptionalArgumentValue('journalFilename') ?? defaultImportJournalFilename;
+    const resume = argsFetcher.getBooleanArgumentValue('resume', false);
+    const changeLogFilename = argsFetcher.getOptionalArgumentValue('changeLogFilename');
+    const importContentModel = argsFetcher.getBooleanArgumentValue('importContentModel', false);
+    const skipUnchangedVariants = argsFetcher.getBooleanArgumentValue('skipUnchangedVariants', true);
+    const mappingFilename = argsFetcher.getOptionalArgumentValue('mapping');
+    const concurrency = getConcurrencyConfig(argsFetcher, ['fetch', 'contentItems', 'languageVariants', 'assets', 'assetEdits']);
 
     await confirmImportAsync({
         force: force,
@@ -20,7 +33,9 @@ export async function importActionAsync(argsFetcher: CliArgumentsFetcher): Promi
 
     const importData = await extractAsync({
         logger: log,
-        filename: filename
+        filename: filename,
+        format: format,
+        encryptionKey: encryptionKey
     });
 
     await importAsync({
@@ -29,8 +44,23 @@ export async function importActionAsync(argsFetcher: CliArgumentsFetcher): Promi
         baseUrl: baseUrl,
         environmentId: environmentId,
         apiKey: apiKey,
-        createReportFile: createReportFile
+        createReportFile: createReportFile,
+        createHtmlReportFile: createHtmlReportFile,
+        dryRun: dryRun,
+        createPlanFile: createPlanFile,
+        journalFilename: journalFilename,
+        resumeFrom: resume ? journalFilename : undefined,
+        changeLogFilename: changeLogFilename,
+        importContentModel: importContentModel,
+        skipUnchangedVariants: skipUnchangedVariants,
+        mapping: mappingFilename ? await loadImportMappingAsync(mappingFilename, log) : undefined,
+        concurrency: concurrency
     });
 
+    if (dryRun) {
+        log.log({ type: 'completed', message: `Dry run has been successful` });
+        return;
+    }
+
     log.log({ type: 'completed', message: `Import has been successful` });
 }
@@ -1,22 +1,40 @@
 import { migrateAsync } from '../../../toolkit/index.js';
-import { confirmMigrateAsync, getDefaultLogger } from '../../../core/index.js';
+import { confirmMigrateAsync } from '../../../core/index.js';
 import { SourceExportItem } from '../../../export/index.js';
 import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getConcurrencyConfig, getSourceExportItemsAsync } from '../utils/cli.utils.js';
 
 export async function migrateActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
-    const log = getDefaultLogger();
+    const log = getCliLogger(argsFetcher);
     const sourceEnvironmentId = argsFetcher.getRequiredArgumentValue('sourceEnvironmentId');
     const sourceApiKey = argsFetcher.getRequiredArgumentValue('sourceApiKey');
     const targetEnvironmentId = argsFetcher.getRequiredArgumentValue('targetEnvironmentId');
     const targetApiKey = argsFetcher.getRequiredArgumentValue('targetApiKey');
     const force = argsFetcher.getBooleanArgumentValue('force', false);
-    const items = argsFetcher.getRequiredArgumentValue('items')?.split(',');
-    const language = argsFetcher.getRequiredArgumentValue('language');
-    const migrateItems: readonly SourceExportItem[] = items.map((m) => {
-        return {
-            itemCodename: m,
-            languageCodename: language
-        };
+    const includeDependencies = argsFetcher.getBooleanArgumentValue('includeDependencies', false);
+    const dependenciesDepth = argsFetcher.getOptionalNumberArgumentValue('dependenciesDepth');
+    const includeContentModel = argsFetcher.getBooleanArgumentValue('includeContentModel', false);
+    const incremental = argsFetcher.getBooleanArgumentValue('incremental', false);
+    const syncStateFilename = argsFetcher.getOptionalArgumentValue('syncStateFilename');
+    const changeLogFilename = argsFetcher.getOptionalArgumentValue('changeLogFilename');
+    const skipUnchangedVariants = argsFetcher.getBooleanArgumentValue('skipUnchangedVariants', true);
+    const dryRun = argsFetcher.getBooleanArgumentValue('dryRun', false);
+    const createPlanFile = argsFetcher.getBooleanArgumentValue('createPlanFile', false);
+    const concurrency = getConcurrencyConfig(argsFetcher, [
+        'fetch',
+        'downloads',
+        'contentItems',
+        'languageVariants',
+        'assets',
+        'assetEdits'
+    ]);
+    const migrateItems: readonly SourceExportItem[] = await getSourceExportItemsAsync({
+        items: argsFetcher.getRequiredArgumentValue('items').split(','),
+        language: argsFetcher.getRequiredArgumentValue('language'),
+        environmentId: sourceEnvironmentId,
+        apiKey: sourceApiKey,
+        baseUrl: undefined,
+        logger: log
     });
 
     await confirmMigrateAsync({
@@ -37,10 +55,20 @@ export async function migrateActionAsync(argsFetcher: CliArgumentsFetcher): Prom
 
     await migrateAsync({
         logger: log,
+        dryRun: dryRun,
+        createPlanFile: createPlanFile,
+        includeContentModel: includeContentModel,
+        incremental: incremental,
+        syncStateFilename: syncStateFilename,
+        changeLogFilename: changeLogFilename,
+        skipUnchangedVariants: skipUnchangedVariants,
+        concurrency: concurrency,
         sourceEnvironment: {
             environmentId: sourceEnvironmentId,
             apiKey: sourceApiKey,
-            items: migrateItems
+            items: migrateItems,
+            includeDependencies: includeDependencies,
+            dependenciesDepth: dependenciesDepth
         },
         targetEnvironment: {
             environmentId: targetEnvironmentId,
@@ -48,5 +76,10 @@ export async function migrateActionAsync(argsFetcher: CliArgumentsFetcher): Prom
         }
     });
 
+    if (dryRun) {
+        log.log({ type: 'completed', message: `Dry run has been successful` });
+        return;
+    }
+
     log.log({ type: 'completed', message: `Migration has been successful` });
 }
@@ -0,0 +1,26 @@
+import { extractAsync, storeCsvAsync } from '../../../toolkit/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getEncryptionKeyAsync, getPackageFormat } from '../utils/cli.utils.js';
+
+export async function packageToCsvActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
+    const log = getCliLogger(argsFetcher);
+    const filename = argsFetcher.getOptionalArgumentValue('filename');
+    const folder = argsFetcher.getOptionalArgumentValue('folder');
+    const format = getPackageFormat(argsFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(argsFetcher, log);
+
+    const data = await extractAsync({
+        logger: log,
+        filename: filename,
+        format: format,
+        encryptionKey: encryptionKey
+    });
+
+    await storeCsvAsync({
+        logger: log,
+        data: data,
+        folder: folder
+    });
+
+    log.log({ type: 'completed', message: `Csv files have been created` });
+}
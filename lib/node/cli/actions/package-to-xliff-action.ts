@@ -0,0 +1,32 @@
+import { extractAsync, storeXliffAsync } from '../../../toolkit/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getEncryptionKeyAsync, getPackageFormat, getXliffVersion } from '../utils/cli.utils.js';
+
+export async function packageToXliffActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
+    const log = getCliLogger(argsFetcher);
+    const sourceLanguage = argsFetcher.getRequiredArgumentValue('sourceLanguage');
+    const targetLanguage = argsFetcher.getRequiredArgumentValue('targetLanguage');
+    const filename = argsFetcher.getOptionalArgumentValue('filename');
+    const xliffFilename = argsFetcher.getOptionalArgumentValue('xliffFilename');
+    const xliffVersion = getXliffVersion(argsFetcher);
+    const format = getPackageFormat(argsFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(argsFetcher, log);
+
+    const data = await extractAsync({
+        logger: log,
+        filename: filename,
+        format: format,
+        encryptionKey: encryptionKey
+    });
+
+    await storeXliffAsync({
+        logger: log,
+        data: data,
+        sourceLanguageCodename: sourceLanguage,
+        targetLanguageCodename: targetLanguage,
+        filename: xliffFilename,
+        version: xliffVersion
+    });
+
+    log.log({ type: 'completed', message: `Xliff file has been created` });
+}
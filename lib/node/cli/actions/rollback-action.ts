@@ -0,0 +1,46 @@
+import { confirmRollbackAsync } from '../../../core/index.js';
+import { rollbackAsync } from '../../../toolkit/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getConcurrencyConfig } from '../utils/cli.utils.js';
+
+export async function rollbackActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
+    const log = getCliLogger(argsFetcher);
+    const environmentId = argsFetcher.getRequiredArgumentValue('targetEnvironmentId');
+    const apiKey = argsFetcher.getRequiredArgumentValue('targetApiKey');
+    const baseUrl = argsFetcher.getOptionalArgumentValue('baseUrl');
+    const force = argsFetcher.getBooleanArgumentValue('force', false);
+    const changeLogFilename = argsFetcher.getRequiredArgumentValue('changeLogFilename');
+    const concurrency = getConcurrencyConfig(argsFetcher, ['fetch', 'contentItems', 'languageVariants', 'assets']);
+
+    await confirmRollbackAsync({
+        force: force,
+        apiKey: apiKey,
+        environmentId: environmentId,
+        logger: log,
+        changeLogFilename: changeLogFilename
+    });
+
+    const rollbackResult = await rollbackAsync({
+        logger: log,
+        baseUrl: baseUrl,
+        environmentId: environmentId,
+        apiKey: apiKey,
+        changeLogFilename: changeLogFilename,
+        concurrency: concurrency
+    });
+
+    if (
+        [
+            ...rollbackResult.languageVariants,
+            ...rollbackResult.contentItems,
+            ...rollbackResult.assets,
+            ...rollbackResult.contentTypes,
+            ...rollbackResult.contentTypeSnippets
+        ].some((m) => m.state === 'error')
+    ) {
+        process.exitCode = 1;
+        return;
+    }
+
+    log.log({ type: 'completed', message: `Rollback has been successful` });
+}
@@ -0,0 +1,19 @@
+import { upgradePackageAsync } from '../../../toolkit/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getEncryptionKeyAsync, getPackageFormat } from '../utils/cli.utils.js';
+
+export async function upgradePackageActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
+    const log = getCliLogger(argsFetcher);
+    const filename = argsFetcher.getOptionalArgumentValue('filename');
+    const format = getPackageFormat(argsFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(argsFetcher, log);
+
+    await upgradePackageAsync({
+        logger: log,
+        filename: filename,
+        format: format,
+        encryptionKey: encryptionKey
+    });
+
+    log.log({ type: 'completed', message: `Package has been upgraded` });
+}
@@ -0,0 +1,42 @@
+import chalk from 'chalk';
+import { extractAsync, validateAsync } from '../../../toolkit/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getConcurrencyConfig, getEncryptionKeyAsync, getPackageFormat } from '../utils/cli.utils.js';
+
+export async function validateActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
+    const log = getCliLogger(argsFetcher);
+    const environmentId = argsFetcher.getRequiredArgumentValue('targetEnvironmentId');
+    const apiKey = argsFetcher.getRequiredArgumentValue('targetApiKey');
+    const baseUrl = argsFetcher.getOptionalArgumentValue('baseUrl');
+    const filename = argsFetcher.getOptionalArgumentValue('filename');
+    const format = getPackageFormat(argsFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(argsFetcher, log);
+    const concurrency = getConcurrencyConfig(argsFetcher, ['fetch']);
+
+    const data = await extractAsync({
+        logger: log,
+        filename: filename,
+        format: format,
+        encryptionKey: encryptionKey
+    });
+
+    const validationResult = await validateAsync({
+        logger: log,
+        data: data,
+        baseUrl: baseUrl,
+        environmentId: environmentId,
+        apiKey: apiKey,
+        concurrency: concurrency
+    });
+
+    if (!validationResult.isValid) {
+        log.log({
+            type: 'error',
+            message: `Validation found '${chalk.red(validationResult.issues.length.toString())}' issues`
+        });
+        process.exitCode = 1;
+        return;
+    }
+
+    log.log({ type: 'completed', message: `Package is valid` });
+}
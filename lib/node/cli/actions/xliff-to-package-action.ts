@@ -0,0 +1,35 @@
+import { extractAsync, extractXliffAsync, storeAsync } from '../../../toolkit/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { getCliLogger, getEncryptionKeyAsync, getPackageFormat } from '../utils/cli.utils.js';
+
+export async function xliffToPackageActionAsync(argsFetcher: CliArgumentsFetcher): Promise<void> {
+    const log = getCliLogger(argsFetcher);
+    const filename = argsFetcher.getOptionalArgumentValue('filename');
+    const xliffFilename = argsFetcher.getRequiredArgumentValue('xliffFilename');
+    const outputFilename = argsFetcher.getRequiredArgumentValue('outputFilename');
+    const format = getPackageFormat(argsFetcher);
+    const encryptionKey = await getEncryptionKeyAsync(argsFetcher, log);
+
+    const data = await extractAsync({
+        logger: log,
+        filename: filename,
+        format: format,
+        encryptionKey: encryptionKey
+    });
+
+    const translatedData = await extractXliffAsync({
+        logger: log,
+        data: data,
+        filename: xliffFilename
+    });
+
+    await storeAsync({
+        logger: log,
+        data: translatedData,
+        filename: outputFilename,
+        format: format,
+        encryptionKey: encryptionKey
+    });
+
+    log.log({ type: 'completed', message: `Package with translated items has been created` });
+}
@@ -2,9 +2,16 @@
 import chalk from 'chalk';
 
 import { handleError, exitProgram } from '../../core/index.js';
+import { csvToPackageActionAsync } from './actions/csv-to-package-action.js';
 import { exportActionAsync } from './actions/export-action.js';
 import { importActionAsync } from './actions/import-action.js';
 import { migrateActionAsync } from './actions/migrate-action.js';
+import { packageToCsvActionAsync } from './actions/package-to-csv-action.js';
+import { packageToXliffActionAsync } from './actions/package-to-xliff-action.js';
+import { rollbackActionAsync } from './actions/rollback-action.js';
+import { upgradePackageActionAsync } from './actions/upgrade-package-action.js';
+import { validateActionAsync } from './actions/validate-action.js';
+import { xliffToPackageActionAsync } from './actions/xliff-to-package-action.js';
 import { argumentsFetcherAsync } from './args/args-fetcher.js';
 import { cliArgs } from './commands.js';
 import { match } from 'ts-pattern';
@@ -16,10 +23,19 @@ const run = async () => {
     const argsFetcher = await argumentsFetcherAsync();
     const action = argsFetcher.getCliAction();
 
+    cliArgs.validateArguments(argsFetcher);
+
     return await match(action)
         .with('export', async () => await exportActionAsync(argsFetcher))
         .with('import', async () => await importActionAsync(argsFetcher))
         .with('migrate', async () => await migrateActionAsync(argsFetcher))
+        .with('validate', async () => await validateActionAsync(argsFetcher))
+        .with('rollback', async () => await rollbackActionAsync(argsFetcher))
+        .with('upgrade-package', async () => await upgradePackageActionAsync(argsFetcher))
+        .with('package-to-csv', async () => await packageToCsvActionAsync(argsFetcher))
+        .with('csv-to-package', async () => await csvToPackageActionAsync(argsFetcher))
+        .with('package-to-xliff', async () => await packageToXliffActionAsync(argsFetcher))
+        .with('xliff-to-package', async () => await xliffToPackageActionAsync(argsFetcher))
         .otherwise(() =>
             exitProgram({
                 message: `Invalid action '${chalk.red(action)}'`
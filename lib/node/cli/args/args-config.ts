@@ -0,0 +1,82 @@
+import chalk from 'chalk';
+import { existsSync } from 'fs';
+import { z } from 'zod';
+import { CliArgumentSource, CliConfig } from '../cli.models.js';
+import { loadJsonOrModuleAsync } from '../utils/module.utils.js';
+
+const envVariablePrefix: string = 'KONTENT_';
+const defaultConfigFilenames: readonly string[] = [
+    'kontent-migration.config.json',
+    'kontent-migration.config.ts',
+    'kontent-migration.config.js'
+];
+
+const CliConfigValuesSchema = z.record(z.string(), z.union([z.string(), z.number(), z.boolean()]));
+
+const CliConfigSchema = z
+    .object({
+        profiles: z.optional(z.record(z.string(), CliConfigValuesSchema))
+    })
+    .catchall(z.union([z.string(), z.number(), z.boolean()]));
+
+/**
+ * i.e. 'sourceApiKey' is read from 'KONTENT_SOURCE_API_KEY'
+ */
+export function getEnvVariableName(argName: string): string {
+    return `${envVariablePrefix}${argName.replace(/([a-z\d])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+export function getArgumentSourceDescription(source: CliArgumentSource): string {
+    if (source.type === 'cli') {
+        return 'command line';
+    }
+
+    if (source.type === 'env') {
+        return `env variable '${chalk.yellow(source.variable)}'`;
+    }
+
+    return `config '${chalk.yellow(source.filename)}'${source.profile ? ` (profile '${chalk.yellow(source.profile)}')` : ''}`;
+}
+
+/**
+ * Loads values from config file. When filename is not set, default config file in current directory is used (if it exists).
+ * Values of the selected profile override values at the root of the config.
+ */
+export async function loadCliConfigAsync(data: {
+    readonly filename: string | undefined;
+    readonly profile: string | undefined;
+}): Promise<CliConfig | undefined> {
+    const filename = data.filename ?? defaultConfigFilenames.find((filename) => existsSync(filename));
+
+    if (!filename) {
+        if (data.profile) {
+            throw Error(`Profile '${chalk.red(data.profile)}' cannot be used without a config file`);
+        }
+
+        return undefined;
+    }
+
+    if (!existsSync(filename)) {
+        throw Error(`Config '${chalk.red(filename)}' does not exist`);
+    }
+
+    const { profiles, ...values } = CliConfigSchema.parse(await loadJsonOrModuleAsync(filename));
+
+    if (!data.profile) {
+        return { filename, profile: undefined, values };
+    }
+
+    const profileValues = profiles?.[data.profile];
+
+    if (!profileValues) {
+        throw Error(
+            `Profile '${chalk.red(data.profile)}' does not exist in config '${chalk.red(filename)}'. Available profiles: ${
+                Object.keys(profiles ?? {})
+                    .map((profile) => `'${chalk.yellow(profile)}'`)
+                    .join(', ') || 'none'
+            }`
+        );
+    }
+
+    return { filename, profile: data.profile, values: { ...values, ...profileValues } };
+}
@@ -2,8 +2,9 @@ import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import chalk from 'chalk';
 import { CliAction, exitProgram, LiteralUnion } from '../../../core/index.js';
-import { CliArgumentsFetcher } from '../cli.models.js';
+import { CliArgumentsFetcher, CliArgumentSource } from '../cli.models.js';
 import { match } from 'ts-pattern';
+import { getArgumentSourceDescription, getEnvVariableName, loadCliConfigAsync } from './args-config.js';
 
 type ArgvResult = {
     [x: string]: unknown;
@@ -11,12 +12,52 @@ type ArgvResult = {
     $0: string;
 };
 
-export async function argumentsFetcherAsync(): Promise<CliArgumentsFetcher> {
-    const argv = yargs(hideBin(process.argv));
+type ResolvedArgument = {
+    readonly value: string;
+    readonly source: CliArgumentSource;
+};
+
+/**
+ * Argument values are resolved from command line, then from config file & then from env variables
+ */
+export async function argumentsFetcherAsync(data?: {
+    readonly argv?: readonly string[];
+    readonly env?: Readonly<Record<string, string | undefined>>;
+}): Promise<CliArgumentsFetcher> {
+    const argv = yargs(data?.argv ? [...data.argv] : hideBin(process.argv));
     const resolvedArgv: ArgvResult = await argv.argv;
+    const env = data?.env ?? process.env;
+
+    const config = await loadCliConfigAsync({
+        filename: resolvedArgv['config']?.toString() ?? env[getEnvVariableName('config')],
+        profile: resolvedArgv['profile']?.toString() ?? env[getEnvVariableName('profile')]
+    });
+
+    const resolveArgument = (argName: string): ResolvedArgument | undefined => {
+        const argValue = resolvedArgv[argName]?.toString();
+
+        if (argValue !== undefined) {
+            return { value: argValue, source: { type: 'cli' } };
+        }
+
+        const configValue = config?.values[argName]?.toString();
+
+        if (config && configValue !== undefined) {
+            return { value: configValue, source: { type: 'config', filename: config.filename, profile: config.profile } };
+        }
+
+        const envVariable = getEnvVariableName(argName);
+        const envValue = env[envVariable];
+
+        if (envValue !== undefined) {
+            return { value: envValue, source: { type: 'env', variable: envVariable } };
+        }
+
+        return undefined;
+    };
 
     const getOptionalArgumentValue = (argName: string) => {
-        return resolvedArgv[argName]?.toString();
+        return resolveArgument(argName)?.value;
     };
 
     return {
@@ -28,19 +69,31 @@ export async function argumentsFetcherAsync(): Promise<CliArgumentsFetcher> {
                 .with('export', () => 'export')
                 .with('import', () => 'import')
                 .with('migrate', () => 'migrate')
+                .with('validate', () => 'validate')
+                .with('rollback', () => 'rollback')
+                .with('upgrade-package', () => 'upgrade-package')
+                .with('package-to-csv', () => 'package-to-csv')
+                .with('csv-to-package', () => 'csv-to-package')
+                .with('package-to-xliff', () => 'package-to-xliff')
+                .with('xliff-to-package', () => 'xliff-to-package')
                 .otherwise(() => {
                     throw Error(`Unsupported command '${chalk.yellow(command)}'`);
                 });
         },
         getOptionalArgumentValue(argName: string): string | undefined {
-            return resolvedArgv[argName]?.toString();
+            return getOptionalArgumentValue(argName);
+        },
+        getArgumentSource(argName: string): CliArgumentSource | undefined {
+            return resolveArgument(argName)?.source;
         },
         getRequiredArgumentValue(argName: string): string {
             const value = getOptionalArgumentValue(argName);
 
             if (!value) {
                 exitProgram({
-                    message: `Missing '${chalk.yellow(argName)}' argument value`
+                    message: `Missing '${chalk.yellow(argName)}' argument value. Use '--${argName}', config file or '${chalk.yellow(
+                        getEnvVariableName(argName)
+                    )}' env variable`
                 });
             }
 
@@ -54,6 +107,25 @@ export async function argumentsFetcherAsync(): Promise<CliArgumentsFetcher> {
             }
 
             return value.toLowerCase() === 'true'.toLowerCase();
+        },
+        getOptionalNumberArgumentValue(argName: string): number | undefined {
+            const argument = resolveArgument(argName);
+
+            if (!argument?.value) {
+                return undefined;
+            }
+
+            const numberValue = Number(argument.value);
+
+            if (isNaN(numberValue)) {
+                exitProgram({
+                    message: `Invalid '${chalk.yellow(argName)}' argument value '${chalk.red(
+                        argument.value
+                    )}' from ${getArgumentSourceDescription(argument.source)}. Expected a number`
+                });
+            }
+
+            return numberValue;
         }
     };
 }
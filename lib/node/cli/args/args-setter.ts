@@ -1,20 +1,53 @@
+import chalk from 'chalk';
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { CliArgumentsSetter, Command, CommandOption } from '../cli.models.js';
+import { exitProgram } from '../../../core/index.js';
+import { CliArgumentsFetcher, CliArgumentsSetter, Command, CommandOption } from '../cli.models.js';
+import { getArgumentSourceDescription, getEnvVariableName } from './args-config.js';
 
 export function argumentsSetter(): CliArgumentsSetter {
     const argv = yargs(hideBin(process.argv));
+    const commands: Command[] = [];
+
+    // required options are validated in 'validateArguments' because values may also come from config file or env variables
+    const getOptionDescription = (option: CommandOption): string | undefined => {
+        return option.isRequired ? `${option.description ?? ''} [required]`.trim() : option.description;
+    };
+
+    const validateOption = (option: CommandOption, argsFetcher: CliArgumentsFetcher): string | undefined => {
+        const value = argsFetcher.getOptionalArgumentValue(option.name);
+        const source = argsFetcher.getArgumentSource(option.name);
+
+        if (!value || !source) {
+            return option.isRequired
+                ? `Missing '${chalk.yellow(option.name)}'. Use '--${option.name}', config file or '${chalk.yellow(
+                      getEnvVariableName(option.name)
+                  )}' env variable`
+                : undefined;
+        }
+
+        if (option.type === 'number' && isNaN(Number(value))) {
+            return `Invalid number '${chalk.red(value)}' of '${chalk.yellow(option.name)}' from ${getArgumentSourceDescription(source)}`;
+        }
+
+        if (option.type === 'boolean' && !['true', 'false'].includes(value.toLowerCase())) {
+            return `Invalid boolean '${chalk.red(value)}' of '${chalk.yellow(option.name)}' from ${getArgumentSourceDescription(source)}`;
+        }
+
+        return undefined;
+    };
 
     return {
         withCommand(command: Command): CliArgumentsSetter {
+            commands.push(command);
+
             argv.command(command.name, command.description, (yargs) => {
                 command.examples.forEach((example) => yargs.example(command.name, example));
                 command.options.forEach((option) => {
                     yargs.positional(option.name, {
                         alias: option.alias,
-                        describe: option.description,
-                        type: option.type,
-                        demandOption: option.isRequired
+                        describe: getOptionDescription(option),
+                        type: option.type
                     });
                 });
             });
@@ -24,15 +57,29 @@ export function argumentsSetter(): CliArgumentsSetter {
         withOption(option: CommandOption): CliArgumentsSetter {
             argv.option(option.name, {
                 alias: option.alias,
-                description: option.description,
-                type: option.type,
-                demandOption: option.isRequired
+                description: getOptionDescription(option),
+                type: option.type
             });
 
             return this;
         },
         registerCommands(): void {
             argv.parseSync();
+        },
+        validateArguments(argsFetcher: CliArgumentsFetcher): void {
+            const command = commands.find((command) => command.name === argsFetcher.getCliAction());
+
+            if (!command) {
+                return;
+            }
+
+            const errors = command.options.flatMap((option) => validateOption(option, argsFetcher) ?? []);
+
+            if (errors.length) {
+                exitProgram({
+                    message: `Invalid arguments of command '${chalk.yellow(command.name)}':\n${errors.map((error) => ` - ${error}`).join('\n')}`
+                });
+            }
         }
     };
 }
@@ -19,6 +19,7 @@ export type CliArgumentsSetter = {
     withCommand(command: Command): CliArgumentsSetter;
     withOption(option: CommandOption): CliArgumentsSetter;
     registerCommands(): void;
+    validateArguments(argsFetcher: CliArgumentsFetcher): void;
 };
 
 export type CliArgumentsFetcher = {
@@ -26,4 +27,17 @@ export type CliArgumentsFetcher = {
     getOptionalArgumentValue(argName: string): string | undefined;
     getRequiredArgumentValue(argName: string): string;
     getBooleanArgumentValue(argName: string, defaultValue: boolean): boolean;
+    getOptionalNumberArgumentValue(argName: string): number | undefined;
+    getArgumentSource(argName: string): CliArgumentSource | undefined;
 };
+
+export type CliArgumentSource =
+    | { readonly type: 'cli' }
+    | { readonly type: 'config'; readonly filename: string; readonly profile: string | undefined }
+    | { readonly type: 'env'; readonly variable: string };
+
+export interface CliConfig {
+    readonly filename: string;
+    readonly profile: string | undefined;
+    readonly values: Readonly<Record<string, string | number | boolean>>;
+}
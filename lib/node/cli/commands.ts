@@ -5,7 +5,8 @@ export const cliArgs = argumentsSetter()
         name: 'export',
         description: 'Exports content (items & assets) from Kontent.ai environment',
         examples: [
-            `kontent-ai-migration-toolkit export --sourceEnvironmentId=x --sourceApiKey=x --language=default --items=itemA,itemB`
+            `kontent-ai-migration-toolkit export --sourceEnvironmentId=x --sourceApiKey=x --language=default --items=itemA,itemB`,
+            `kontent-ai-migration-toolkit export --sourceEnvironmentId=x --sourceApiKey=x --types=article --collections=global --languages=en,de`
         ],
         options: [
             {
@@ -22,15 +23,57 @@ export const cliArgs = argumentsSetter()
             },
             {
                 name: `language`,
-                description: `Language codename of items to export`,
+                description: `Comma separated language codenames of items to export or 'all'. Required when 'items' are set`,
                 type: 'string',
-                isRequired: true
+                isRequired: false
             },
             {
                 name: `items`,
                 description: `Comma separated item codenames to export`,
                 type: 'string',
-                isRequired: true
+                isRequired: false
+            },
+            {
+                name: `types`,
+                description: `Comma separated content type codenames. All items of given types are exported`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `collections`,
+                description: `Comma separated collection codenames. All items in given collections are exported`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `languages`,
+                description: `Comma separated language codenames. All language variants in given languages are exported`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `modifiedSince`,
+                description: `Only language variants modified since given date (e.g. '2024-01-31') are exported`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `includeDependencies`,
+                description: `When enabled, items referenced in linked items, subpages & rich text elements are exported as well`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `dependenciesDepth`,
+                description: `Max depth of crawled dependencies. Defaults to unlimited`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `includeContentModel`,
+                description: `When enabled, content types, snippets, taxonomies, collections & asset folders are exported as well`,
+                type: 'boolean',
+                isRequired: false
             },
             {
                 name: `filename`,
@@ -44,11 +87,53 @@ export const cliArgs = argumentsSetter()
                 type: 'string',
                 isRequired: false
             },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `splitSize`,
+                description: `Max size of the package (i.e. '500MB'). Larger packages are split into numbered volumes`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `itemsFormat`,
+                description: `Format of items in zip package. Use 'json' (default) or 'jsonl' to store one item per line in 'items.jsonl'`,
+                type: 'string',
+                isRequired: false
+            },
             {
                 name: `baseUrl`,
                 description: `Custom base URL`,
                 type: 'string',
                 isRequired: false
+            },
+            {
+                name: `fetchConcurrency`,
+                description: `Max number of objects fetched in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `downloadsConcurrency`,
+                description: `Max number of asset binaries downloaded in parallel. Defaults to 5`,
+                type: 'number',
+                isRequired: false
             }
         ]
     })
@@ -84,6 +169,348 @@ export const cliArgs = argumentsSetter()
                 type: 'string',
                 isRequired: false
             },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `createHtmlReportFile`,
+                description: `When enabled, a html report with import summary & failed objects is created in current dir`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `dryRun`,
+                description: `When enabled, no changes are made to target environment. Instead, a plan of all operations is printed`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `createPlanFile`,
+                description: `When enabled along with 'dryRun', the plan is also stored as a json file in current dir`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `journalFilename`,
+                description: `Name of the checkpoint journal file. Defaults to 'import-journal.jsonl'`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `resume`,
+                description: `When enabled, import continues from the checkpoint journal of a previous interrupted run`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `changeLogFilename`,
+                description: `Name of the change log file used to roll back the import. Change log is written only when set`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `importContentModel`,
+                description: `When enabled, missing content model objects stored in the package are created before content is imported`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `skipUnchangedVariants`,
+                description: `When enabled, language variants identical to the ones in target environment are left untouched. Use 'false' to import all language variants. Defaults to 'true'`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `mapping`,
+                description: `Name of a json, js or ts file with codename mapping rules applied to the package before import`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `baseUrl`,
+                description: `Custom base URL`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `fetchConcurrency`,
+                description: `Max number of objects fetched in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `contentItemsConcurrency`,
+                description: `Max number of content items imported in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `languageVariantsConcurrency`,
+                description: `Max number of language variants imported in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `assetsConcurrency`,
+                description: `Max number of new assets uploaded in parallel. Defaults to 3`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `assetEditsConcurrency`,
+                description: `Max number of existing assets updated in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            }
+        ]
+    })
+
+    .withCommand({
+        name: 'validate',
+        description: 'Validates package against Kontent.ai environment without making any changes',
+        examples: [`kontent-ai-migration-toolkit validate --targetEnvironmentId=x --targetApiKey=x --filename=data.zip`],
+        options: [
+            {
+                name: `targetApiKey`,
+                description: `Api key used for request authorization`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `targetEnvironmentId`,
+                description: `Environment id of the target environment`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `filename`,
+                description: `Name of the package file to validate`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `baseUrl`,
+                description: `Custom base URL`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `fetchConcurrency`,
+                description: `Max number of objects fetched in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            }
+        ]
+    })
+
+    .withCommand({
+        name: 'rollback',
+        description: 'Rolls back changes made by import using the change log recorded during the import',
+        examples: [`kontent-ai-migration-toolkit rollback --targetEnvironmentId=x --targetApiKey=x --changeLogFilename=import-changelog.jsonl`],
+        options: [
+            {
+                name: `targetApiKey`,
+                description: `Api key used for request authorization`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `targetEnvironmentId`,
+                description: `Environment id of the target environment`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `changeLogFilename`,
+                description: `Name of the change log file recorded by the import. Change log is archived after successful rollback`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `baseUrl`,
+                description: `Custom base URL`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `fetchConcurrency`,
+                description: `Max number of objects fetched in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `contentItemsConcurrency`,
+                description: `Max number of content items rolled back in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `languageVariantsConcurrency`,
+                description: `Max number of language variants rolled back in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `assetsConcurrency`,
+                description: `Max number of assets rolled back in parallel. Defaults to 3`,
+                type: 'number',
+                isRequired: false
+            }
+        ]
+    })
+
+    .withCommand({
+        name: 'upgrade-package',
+        description: 'Upgrades package created by previous versions of the toolkit to the current schema version in place',
+        examples: [`kontent-ai-migration-toolkit upgrade-package --filename=data.zip`],
+        options: [
+            {
+                name: `filename`,
+                description: `Name of the package file to upgrade`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            }
+        ]
+    })
+
+    .withCommand({
+        name: 'package-to-csv',
+        description: 'Stores items of a package as csv files (one per content type) that can be edited in spreadsheets',
+        examples: [`kontent-ai-migration-toolkit package-to-csv --filename=data.zip --folder=csv`],
+        options: [
+            {
+                name: `folder`,
+                description: `Folder with a csv file per content type. Defaults to 'csv'`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `filename`,
+                description: `Name of the package file`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            }
+        ]
+    })
+
+    .withCommand({
+        name: 'csv-to-package',
+        description: 'Creates package from csv files using content types of the target environment',
+        examples: [
+            `kontent-ai-migration-toolkit csv-to-package --targetEnvironmentId=x --targetApiKey=x --folder=csv --filename=data.zip`
+        ],
+        options: [
+            {
+                name: `targetEnvironmentId`,
+                description: `Id of Kontent.ai environment with content types of items in csv files`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `targetApiKey`,
+                description: `Management API key`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `folder`,
+                description: `Folder with a csv file per content type. Defaults to 'csv'`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `filename`,
+                description: `Name of the package file`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
             {
                 name: `baseUrl`,
                 description: `Custom base URL`,
@@ -93,6 +520,110 @@ export const cliArgs = argumentsSetter()
         ]
     })
 
+    .withCommand({
+        name: 'package-to-xliff',
+        description: 'Stores translatable elements of items & asset descriptions in source language as xliff file for translation vendors',
+        examples: [
+            `kontent-ai-migration-toolkit package-to-xliff --filename=data.zip --sourceLanguage=en --targetLanguage=de --xliffFilename=de.xlf`
+        ],
+        options: [
+            {
+                name: `sourceLanguage`,
+                description: `Codename of language that is translated`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `targetLanguage`,
+                description: `Codename of language the content is translated to`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `xliffFilename`,
+                description: `Name of the xliff file. Defaults to '<targetLanguage>.xlf'`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `xliffVersion`,
+                description: `Xliff version. Use '1.2' (default) or '2.0'`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `filename`,
+                description: `Name of the package file`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            }
+        ]
+    })
+
+    .withCommand({
+        name: 'xliff-to-package',
+        description: 'Creates package with items in target language from translated xliff file & package with source language items',
+        examples: [
+            `kontent-ai-migration-toolkit xliff-to-package --filename=data.zip --xliffFilename=de.xlf --outputFilename=data-de.zip`
+        ],
+        options: [
+            {
+                name: `xliffFilename`,
+                description: `Name of the translated xliff file`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `outputFilename`,
+                description: `Name of the created package with translated items`,
+                type: 'string',
+                isRequired: true
+            },
+            {
+                name: `filename`,
+                description: `Name of the package with source language items`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `format`,
+                description: `Package format. Use 'zip' (default) or 'folder' to store one json file per item & language`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKey`,
+                description: `Passphrase used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `encryptionKeyFile`,
+                description: `Name of a key file used to encrypt / decrypt the zip package`,
+                type: 'string',
+                isRequired: false
+            }
+        ]
+    })
+
     .withCommand({
         name: 'migrate',
         description:
@@ -115,7 +646,7 @@ export const cliArgs = argumentsSetter()
             },
             {
                 name: `language`,
-                description: `Language codename of items to export`,
+                description: `Comma separated language codenames of items to export or 'all'`,
                 type: 'string',
                 isRequired: true
             },
@@ -125,6 +656,48 @@ export const cliArgs = argumentsSetter()
                 type: 'string',
                 isRequired: true
             },
+            {
+                name: `includeDependencies`,
+                description: `When enabled, items referenced in linked items, subpages & rich text elements are exported as well`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `dependenciesDepth`,
+                description: `Max depth of crawled dependencies. Defaults to unlimited`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `includeContentModel`,
+                description: `When enabled, content types, snippets, taxonomies, collections & asset folders are migrated as well`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `incremental`,
+                description: `When enabled, only language variants modified since the previous incremental run are migrated`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `syncStateFilename`,
+                description: `Name of the sync state file used by incremental migrations. Defaults to 'sync-state.json'`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `changeLogFilename`,
+                description: `Name of the change log file used to roll back the migration. Change log is written only when set`,
+                type: 'string',
+                isRequired: false
+            },
+            {
+                name: `skipUnchangedVariants`,
+                description: `When enabled, language variants identical to the ones in target environment are left untouched. Use 'false' to import all language variants. Defaults to 'true'`,
+                type: 'boolean',
+                isRequired: false
+            },
             {
                 name: `targetApiKey`,
                 description: `Api key used for request authorization`,
@@ -137,15 +710,93 @@ export const cliArgs = argumentsSetter()
                 type: 'string',
                 isRequired: true
             },
+            {
+                name: `dryRun`,
+                description: `When enabled, no changes are made to target environment. Instead, a plan of all operations is printed`,
+                type: 'boolean',
+                isRequired: false
+            },
+            {
+                name: `createPlanFile`,
+                description: `When enabled along with 'dryRun', the plan is also stored as a json file in current dir`,
+                type: 'boolean',
+                isRequired: false
+            },
             {
                 name: `baseUrl`,
                 description: `Custom base URL`,
                 type: 'string',
                 isRequired: false
+            },
+            {
+                name: `fetchConcurrency`,
+                description: `Max number of objects fetched in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `downloadsConcurrency`,
+                description: `Max number of asset binaries downloaded in parallel. Defaults to 5`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `contentItemsConcurrency`,
+                description: `Max number of content items imported in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `languageVariantsConcurrency`,
+                description: `Max number of language variants imported in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `assetsConcurrency`,
+                description: `Max number of new assets uploaded in parallel. Defaults to 3`,
+                type: 'number',
+                isRequired: false
+            },
+            {
+                name: `assetEditsConcurrency`,
+                description: `Max number of existing assets updated in parallel. Defaults to 1`,
+                type: 'number',
+                isRequired: false
             }
         ]
     })
 
+    .withOption({
+        name: `config`,
+        description: `Config file with argument values. Defaults to 'kontent-migration.config.json' (or '.ts' / '.js') if it exists`,
+        type: 'string',
+        isRequired: false
+    })
+    .withOption({
+        name: `profile`,
+        description: `Name of the config file profile to use (i.e. 'staging' or 'production')`,
+        type: 'string',
+        isRequired: false
+    })
+    .withOption({
+        name: `logFormat`,
+        description: `Format of console output. Available options: 'pretty', 'plain' & 'json'. Defaults to 'pretty'`,
+        type: 'string',
+        isRequired: false
+    })
+    .withOption({
+        name: `logLevel`,
+        description: `Messages below this level are not logged. Available options: 'debug', 'info', 'warning' & 'error'. Defaults to 'debug'`,
+        type: 'string',
+        isRequired: false
+    })
+    .withOption({
+        name: `logFile`,
+        description: `When set, log messages are also appended to this file as json lines`,
+        type: 'string',
+        isRequired: false
+    })
     .withOption({
         alias: `f`,
         name: `force`,
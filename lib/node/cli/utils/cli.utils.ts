@@ -0,0 +1,203 @@
+import { parse } from 'bytes';
+import chalk from 'chalk';
+import {
+    combineLoggers,
+    ConcurrencyConfig,
+    EncryptionKey,
+    getDefaultLogger,
+    getMigrationManagementClient,
+    ItemsFormat,
+    LogFormat,
+    Logger,
+    LogLevel,
+    logLevelFilter,
+    managementClientUtils,
+    PackageFormat,
+    ProcessingStage
+} from '../../../core/index.js';
+import { SourceExportItem } from '../../../export/index.js';
+import { fileLogger, fileManager } from '../../../file/index.js';
+import { ImportMapping, ImportMappingSchema } from '../../../import/index.js';
+import { XliffVersion } from '../../../xliff/index.js';
+import { CliArgumentsFetcher } from '../cli.models.js';
+import { loadJsonOrModuleAsync } from './module.utils.js';
+
+const allLanguagesValue: string = 'all';
+
+export async function getSourceExportItemsAsync(data: {
+    readonly items: readonly string[];
+    readonly language: string;
+    readonly environmentId: string;
+    readonly apiKey: string;
+    readonly baseUrl: string | undefined;
+    readonly logger: Logger;
+}): Promise<readonly SourceExportItem[]> {
+    const languageCodenames = await getLanguageCodenamesAsync(data);
+
+    return data.items.flatMap((itemCodename) =>
+        languageCodenames.map<SourceExportItem>((languageCodename) => {
+            return {
+                itemCodename: itemCodename,
+                languageCodename: languageCodename
+            };
+        })
+    );
+}
+
+/**
+ * Loads mapping from a json file or from default export of a js / ts module
+ */
+export async function loadImportMappingAsync(filename: string, logger: Logger): Promise<ImportMapping> {
+    logger.log({
+        type: 'readFs',
+        message: `Loading mapping '${chalk.yellow(filename)}'`
+    });
+
+    return ImportMappingSchema.parse(await loadJsonOrModuleAsync(filename));
+}
+
+/**
+ * Logs to console in the format given by 'logFormat' & also to 'logFile' when set
+ */
+export function getCliLogger(argsFetcher: CliArgumentsFetcher): Logger {
+    const logFilename = argsFetcher.getOptionalArgumentValue('logFile');
+    const consoleLogger = getDefaultLogger({ format: getLogFormat(argsFetcher) });
+
+    return logLevelFilter(logFilename ? combineLoggers([consoleLogger, fileLogger(logFilename)]) : consoleLogger, getLogLevel(argsFetcher));
+}
+
+export function getLogFormat(argsFetcher: CliArgumentsFetcher): LogFormat {
+    const logFormat = argsFetcher.getOptionalArgumentValue('logFormat') ?? 'pretty';
+
+    if (logFormat !== 'pretty' && logFormat !== 'plain' && logFormat !== 'json') {
+        throw Error(`Unsupported log format '${chalk.red(logFormat)}'. Use 'pretty', 'plain' or 'json'`);
+    }
+
+    return logFormat;
+}
+
+export function getLogLevel(argsFetcher: CliArgumentsFetcher): LogLevel {
+    const logLevel = argsFetcher.getOptionalArgumentValue('logLevel') ?? 'debug';
+
+    if (logLevel !== 'debug' && logLevel !== 'info' && logLevel !== 'warning' && logLevel !== 'error') {
+        throw Error(`Unsupported log level '${chalk.red(logLevel)}'. Use 'debug', 'info', 'warning' or 'error'`);
+    }
+
+    return logLevel;
+}
+
+export function getPackageFormat(argsFetcher: CliArgumentsFetcher): PackageFormat {
+    const format = argsFetcher.getOptionalArgumentValue('format') ?? 'zip';
+
+    if (format !== 'zip' && format !== 'folder') {
+        throw Error(`Unsupported format '${chalk.red(format)}'. Use 'zip' or 'folder'`);
+    }
+
+    return format;
+}
+
+export function getItemsFormat(argsFetcher: CliArgumentsFetcher): ItemsFormat | undefined {
+    const itemsFormat = argsFetcher.getOptionalArgumentValue('itemsFormat');
+
+    if (itemsFormat !== undefined && itemsFormat !== 'json' && itemsFormat !== 'jsonl') {
+        throw Error(`Unsupported items format '${chalk.red(itemsFormat)}'. Use 'json' or 'jsonl'`);
+    }
+
+    return itemsFormat;
+}
+
+export function getXliffVersion(argsFetcher: CliArgumentsFetcher): XliffVersion | undefined {
+    const xliffVersion = argsFetcher.getOptionalArgumentValue('xliffVersion');
+
+    if (xliffVersion !== undefined && xliffVersion !== '1.2' && xliffVersion !== '2.0') {
+        throw Error(`Unsupported xliff version '${chalk.red(xliffVersion)}'. Use '1.2' or '2.0'`);
+    }
+
+    return xliffVersion;
+}
+
+/**
+ * Reads concurrency of each processing stage from '<stage>Concurrency' arguments (i.e. 'assetsConcurrency')
+ */
+export function getConcurrencyConfig(argsFetcher: CliArgumentsFetcher, stages: readonly ProcessingStage[]): ConcurrencyConfig {
+    return Object.fromEntries(
+        stages.flatMap((stage) => {
+            const argName = `${stage}Concurrency`;
+            const concurrency = argsFetcher.getOptionalNumberArgumentValue(argName);
+
+            if (concurrency === undefined) {
+                return [];
+            }
+
+            if (!Number.isInteger(concurrency) || concurrency < 1) {
+                throw Error(`Invalid '${chalk.red(argName)}' value '${chalk.red(concurrency)}'. Use a positive integer`);
+            }
+
+            return [[stage, concurrency]];
+        })
+    );
+}
+
+export function getSplitSize(argsFetcher: CliArgumentsFetcher): number | undefined {
+    const splitSize = argsFetcher.getOptionalArgumentValue('splitSize');
+
+    if (!splitSize) {
+        return undefined;
+    }
+
+    const sizeInBytes = parse(splitSize);
+
+    if (!sizeInBytes || sizeInBytes <= 0) {
+        throw Error(`Invalid split size '${chalk.red(splitSize)}'. Use size in bytes or with a unit (i.e. '500MB' or '2GB')`);
+    }
+
+    return sizeInBytes;
+}
+
+export async function getEncryptionKeyAsync(argsFetcher: CliArgumentsFetcher, logger: Logger): Promise<EncryptionKey | undefined> {
+    const encryptionKey = argsFetcher.getOptionalArgumentValue('encryptionKey');
+    const encryptionKeyFile = argsFetcher.getOptionalArgumentValue('encryptionKeyFile');
+
+    if (encryptionKey && encryptionKeyFile) {
+        throw Error(`Use either 'encryptionKey' or 'encryptionKeyFile' option, not both`);
+    }
+
+    return encryptionKeyFile ? await fileManager(logger).loadFileAsync(encryptionKeyFile) : encryptionKey;
+}
+
+async function getLanguageCodenamesAsync(data: {
+    readonly language: string;
+    readonly environmentId: string;
+    readonly apiKey: string;
+    readonly baseUrl: string | undefined;
+    readonly logger: Logger;
+}): Promise<readonly string[]> {
+    if (data.language.toLowerCase() !== allLanguagesValue) {
+        return data.language
+            .split(',')
+            .map((m) => m.trim())
+            .filter((m) => m.length);
+    }
+
+    const languages = await data.logger.logWithSpinnerAsync(async (logSpinner) => {
+        return await managementClientUtils(
+            getMigrationManagementClient({
+                environmentId: data.environmentId,
+                apiKey: data.apiKey,
+                baseUrl: data.baseUrl
+            }),
+            data.logger
+        ).getAllLanguagesAsync(logSpinner);
+    });
+
+    const languageCodenames = languages.filter((m) => m.isActive).map((m) => m.codename);
+
+    data.logger.log({
+        type: 'info',
+        message: `Exporting items in all '${chalk.yellow(languageCodenames.length.toString())}' active languages: ${languageCodenames
+            .map((m) => chalk.cyan(m))
+            .join(', ')}`
+    });
+
+    return languageCodenames;
+}
@@ -0,0 +1,35 @@
+import { promises } from 'fs';
+import { extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+
+const typeScriptExtensions: readonly string[] = ['.ts', '.mts', '.cts'];
+
+/**
+ * Loads content of a json file or default export of a js / ts module. TypeScript modules are transpiled when imported
+ * as node.js cannot import them natively.
+ */
+export async function loadJsonOrModuleAsync(filename: string): Promise<unknown> {
+    const extension = extname(filename).toLowerCase();
+
+    if (extension === '.json') {
+        return JSON.parse((await promises.readFile(filename)).toString());
+    }
+
+    const moduleUrl = pathToFileURL(resolve(filename)).href;
+    const module = (
+        typeScriptExtensions.includes(extension)
+            ? await (await import('tsx/esm/api')).tsImport(moduleUrl, import.meta.url)
+            : await import(moduleUrl)
+    ) as { readonly default?: unknown };
+
+    return getDefaultExport(module.default);
+}
+
+function getDefaultExport(value: unknown): unknown {
+    // TypeScript module outside of an ES module package is transpiled to CommonJS & its exports become the default export
+    if (typeof value === 'object' && value !== null && '__esModule' in value && 'default' in value) {
+        return value.default;
+    }
+
+    return value;
+}
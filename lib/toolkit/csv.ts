@@ -0,0 +1,128 @@
+import chalk from 'chalk';
+import { promises } from 'fs';
+import { basename, extname, join } from 'path';
+import {
+    defaultCsvFolderName,
+    executeWithTrackingAsync,
+    getDefaultLogger,
+    getMigrationManagementClient,
+    Logger,
+    ManagementClientConfig,
+    managementClientUtils,
+    mapAsync,
+    MigrationData
+} from '../core/index.js';
+import { csvTransformer } from '../csv/index.js';
+import { libMetadata } from '../metadata.js';
+
+export interface StoreCsvConfig {
+    readonly data: MigrationData;
+    /**
+     * Folder where a csv file is stored for every content type. Defaults to 'csv'
+     */
+    readonly folder?: string;
+    readonly logger?: Logger;
+}
+
+export interface ExtractCsvConfig extends ManagementClientConfig {
+    readonly folder?: string;
+    readonly logger?: Logger;
+}
+
+/**
+ * Stores items as csv files with one row per item & language so that they can be edited in spreadsheets
+ */
+export async function storeCsvAsync(config: StoreCsvConfig): Promise<void> {
+    const logger = config.logger ?? getDefaultLogger();
+    const folder = config.folder ?? defaultCsvFolderName;
+
+    await executeWithTrackingAsync<void>({
+        event: {
+            tool: 'migrationToolkit',
+            package: {
+                name: libMetadata.name,
+                version: libMetadata.version
+            },
+            action: 'storeCsv',
+            relatedEnvironmentId: undefined,
+            details: {}
+        },
+        func: async () => {
+            await promises.mkdir(folder, { recursive: true });
+
+            for (const sheet of csvTransformer(logger).transformItems(config.data.items)) {
+                const filename = join(folder, sheet.filename);
+
+                logger.log({
+                    type: 'writeFs',
+                    message: `Storing csv '${chalk.yellow(filename)}'`
+                });
+
+                await promises.writeFile(filename, sheet.csv);
+            }
+        },
+        logger: config.logger
+    });
+}
+
+/**
+ * Reads items from csv files named after content types (i.e. 'article.csv'). Element types are taken from content types
+ * of the target environment & csv files not matching any of them are skipped. Only items are loaded, assets referenced
+ * by items are expected to exist in the target environment.
+ */
+export async function extractCsvAsync(config: ExtractCsvConfig): Promise<MigrationData> {
+    const logger = config.logger ?? getDefaultLogger();
+    const folder = config.folder ?? defaultCsvFolderName;
+
+    return await executeWithTrackingAsync({
+        event: {
+            tool: 'migrationToolkit',
+            package: {
+                name: libMetadata.name,
+                version: libMetadata.version
+            },
+            action: 'extractCsv',
+            relatedEnvironmentId: config.environmentId,
+            details: {}
+        },
+        func: async () => {
+            const contentTypes = await logger.logWithSpinnerAsync(async (spinnerData) => {
+                return await managementClientUtils(getMigrationManagementClient(config), logger).getFlattenedContentTypesAsync(spinnerData);
+            });
+
+            const filenames = (await promises.readdir(folder)).filter((filename) => extname(filename).toLowerCase() === '.csv');
+
+            const items = await mapAsync(filenames, async (filename) => {
+                const contentTypeCodename = basename(filename, extname(filename));
+                const contentType = contentTypes.find((contentType) => contentType.contentTypeCodename === contentTypeCodename);
+
+                if (!contentType) {
+                    // other csv files may be stored in the same folder
+                    logger.log({
+                        type: 'warning',
+                        message: `Skipping csv '${chalk.yellow(
+                            join(folder, filename)
+                        )}' because content type '${chalk.yellow(contentTypeCodename)}' does not exist in target environment`
+                    });
+                    return [];
+                }
+
+                logger.log({
+                    type: 'readFs',
+                    message: `Reading csv '${chalk.yellow(join(folder, filename))}'`
+                });
+
+                return csvTransformer(logger).parseSheet(
+                    { filename: join(folder, filename), csv: (await promises.readFile(join(folder, filename))).toString() },
+                    contentType
+                );
+            });
+
+            return {
+                items: items.flat(),
+                assets: []
+            };
+        },
+        logger: config.logger
+    });
+}
@@ -1,23 +1,54 @@
-import { Buffer as BufferProxy } from 'buffer';
-import { defaultZipFilename, executeWithTrackingAsync, getDefaultLogger, Logger, MigrationData } from '../core/index.js';
-import { fileManager } from '../file/index.js';
+import {
+    EncryptionKey,
+    executeWithTrackingAsync,
+    getDefaultLogger,
+    getDefaultPackageFilename,
+    ItemsFormat,
+    Logger,
+    MigrationData,
+    mapAsync,
+    PackageFormat
+} from '../core/index.js';
+import { folderManager, volumeManager } from '../file/index.js';
 import { libMetadata } from '../metadata.js';
-import { zipManager } from '../zip/index.js';
+import { zipFileManager } from '../zip/index.js';
 
 export interface StoreConfig {
     readonly data: MigrationData;
     readonly filename?: string;
+    readonly format?: PackageFormat;
+    /**
+     * Passphrase or contents of a key file used to encrypt / decrypt zip package with AES-256-GCM
+     */
+    readonly encryptionKey?: EncryptionKey;
+    /**
+     * Max size of the package in bytes. Larger packages are split into numbered volumes (i.e. 'data.vol001.zip')
+     */
+    readonly maxPackageSize?: number;
+    /**
+     * Stores items of zip package as a json array ('json', default) or as JSON Lines with one item per line ('jsonl')
+     */
+    readonly itemsFormat?: ItemsFormat;
     readonly logger?: Logger;
 }
 
 export interface ExtractConfig {
+    /**
+     * Name of the package, name of the first volume of a split package or a glob pattern matching all volumes
+     */
     readonly filename?: string;
+    readonly format?: PackageFormat;
+    /**
+     * Passphrase or contents of a key file used to encrypt / decrypt zip package with AES-256-GCM
+     */
+    readonly encryptionKey?: EncryptionKey;
     readonly logger?: Logger;
 }
 
 export async function storeAsync(config: StoreConfig): Promise<void> {
     const logger = config.logger ?? getDefaultLogger();
-    const filename = config.filename ?? defaultZipFilename;
+    const format = config.format ?? 'zip';
+    const filename = config.filename ?? getDefaultPackageFilename(format);
 
     await executeWithTrackingAsync<void>({
         event: {
@@ -31,12 +62,30 @@ export async function storeAsync(config: StoreConfig): Promise<void> {
             details: {}
         },
         func: async () => {
-            const zipData = await zipManager(logger).createZipAsync(config.data);
+            const storePackageAsync = async (filename: string, data: MigrationData): Promise<void> => {
+                if (format === 'folder') {
+                    assertZipOnlyOptions(config);
+                    await folderManager(logger).storeFolderAsync(filename, data);
+                    return;
+                }
 
-            if (zipData instanceof BufferProxy) {
-                await fileManager(logger).writeFileAsync(filename, zipData);
-            } else {
-                throw Error(`Cannot store '${filename}' on File system because the provided zip is not a Buffer`);
+                await zipFileManager(logger).storeZipFileAsync(filename, data, {
+                    encryptionKey: config.encryptionKey,
+                    itemsFormat: config.itemsFormat
+                });
+            };
+
+            const volumes = config.maxPackageSize
+                ? volumeManager(logger).splitIntoVolumes(config.data, config.maxPackageSize)
+                : [config.data];
+
+            if (volumes.length === 1) {
+                await storePackageAsync(filename, config.data);
+                return;
+            }
+
+            for (const [index, volume] of volumes.entries()) {
+                await storePackageAsync(volumeManager(logger).getVolumeFilename(filename, index + 1), volume);
             }
         },
         logger: config.logger
@@ -45,7 +94,8 @@ export async function storeAsync(config: StoreConfig): Promise<void> {
 
 export async function extractAsync(config: ExtractConfig): Promise<MigrationData> {
     const logger = config.logger ?? getDefaultLogger();
-    const filename = config.filename ?? defaultZipFilename;
+    const format = config.format ?? 'zip';
+    const filename = config.filename ?? getDefaultPackageFilename(format);
 
     return await executeWithTrackingAsync({
         event: {
@@ -59,9 +109,29 @@ export async function extractAsync(config: ExtractConfig): Promise<MigrationData
             details: {}
         },
         func: async () => {
-            const fileData = await fileManager(logger).loadFileAsync(filename);
-            return await zipManager(logger).parseZipAsync(fileData);
+            const extractPackageAsync = async (filename: string): Promise<MigrationData> => {
+                if (format === 'folder') {
+                    assertZipOnlyOptions(config);
+                    return await folderManager(logger).parseFolderAsync(filename);
+                }
+
+                return await zipFileManager(logger).parseZipFileAsync(filename, { encryptionKey: config.encryptionKey });
+            };
+
+            const volumes = await mapAsync(await volumeManager(logger).getVolumeFilenamesAsync(filename), extractPackageAsync);
+
+            return volumeManager(logger).mergeVolumes(volumes);
         },
         logger: config.logger
     });
 }
+
+function assertZipOnlyOptions(config: { readonly encryptionKey?: EncryptionKey; readonly itemsFormat?: ItemsFormat }): void {
+    if (config.encryptionKey) {
+        throw Error(`Encryption is supported only for 'zip' packages`);
+    }
+
+    if (config.itemsFormat) {
+        throw Error(`Items format can be set only for 'zip' packages. Folder packages store every item in a separate file`);
+    }
+}
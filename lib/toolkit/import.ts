@@ -29,6 +29,24 @@ export async function importAsync(config: ImportConfig): Promise<ImportResult> {
                 });
             }
 
+            if (config.createHtmlReportFile) {
+                const htmlReportFile = importManager.getHtmlReportFile(importResult);
+                await writeFile(htmlReportFile.filename, htmlReportFile.content);
+                config.logger?.log({
+                    type: 'writeFs',
+                    message: `Html report '${chalk.yellow(htmlReportFile.filename)}' was created`
+                });
+            }
+
+            if (config.createPlanFile && importResult.plan) {
+                const planFile = importManager.getPlanFile(importResult.plan);
+                await writeFile(planFile.filename, planFile.content);
+                config.logger?.log({
+                    type: 'writeFs',
+                    message: `Plan '${chalk.yellow(planFile.filename)}' was created`
+                });
+            }
+
             return importResult;
         },
         logger: config.logger
@@ -2,4 +2,9 @@ export * from './export.js';
 export * from './import.js';
 export * from './elements-builder.js';
 export * from './migrate.js';
+export * from './rollback.js';
 export * from './file.js';
+export * from './validate.js';
+export * from './upgrade.js';
+export * from './csv.js';
+export * from './xliff.js';
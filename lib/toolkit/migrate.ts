@@ -1,26 +1,69 @@
 import { IRetryStrategyOptions } from '@kontent-ai/core-sdk';
+import chalk from 'chalk';
+import { z } from 'zod';
 import {
+    ConcurrencyConfig,
     ExternalIdGenerator,
     Logger,
     ManagementClientConfig,
     MigrationData,
+    MigrationItem,
+    SyncState,
+    SyncStateVariant,
+    defaultSyncStateFilename,
     executeWithTrackingAsync,
-    getDefaultLogger
+    getDefaultLogger,
+    isNotUndefined
 } from '../core/index.js';
-import { SourceExportItem } from '../export/index.js';
-import { ImportResult } from '../import/index.js';
+import { ExportQuery, SourceExportItem } from '../export/index.js';
+import { fileManager as fileManagerInit } from '../file/index.js';
+import { ImportMapping, importMapper, ImportResult } from '../import/index.js';
 import { libMetadata } from '../metadata.js';
 import { exportAsync } from './export.js';
 import { importAsync } from './import.js';
 
 export interface MigrationSource extends ManagementClientConfig {
-    readonly items: readonly SourceExportItem[];
+    readonly items?: readonly SourceExportItem[];
+    readonly query?: ExportQuery;
+    readonly includeDependencies?: boolean;
+    readonly dependenciesDepth?: number;
 }
 
 export interface MigrationConfig {
     readonly retryStrategy?: IRetryStrategyOptions;
     readonly externalIdGenerator?: ExternalIdGenerator;
     readonly logger?: Logger;
+    readonly dryRun?: boolean;
+    readonly createPlanFile?: boolean;
+    /**
+     * When enabled, missing content types, snippets, taxonomies, collections & asset folders are migrated as well
+     */
+    readonly includeContentModel?: boolean;
+    /**
+     * When enabled, only language variants modified since the previous incremental run are exported. Sync state
+     * is recorded after each run.
+     */
+    readonly incremental?: boolean;
+    /**
+     * Name of the sync state file used by incremental migrations. Defaults to 'sync-state.json'
+     */
+    readonly syncStateFilename?: string;
+    /**
+     * Name of the change log used to roll back the migration. Change log is written only when set
+     */
+    readonly changeLogFilename?: string;
+    /**
+     * When enabled, language variants identical to the ones in target environment are left untouched. Defaults to true
+     */
+    readonly skipUnchangedVariants?: boolean;
+    /**
+     * Codename mapping rules applied to exported data before import
+     */
+    readonly mapping?: ImportMapping;
+    /**
+     * Max number of objects processed in parallel per stage of both export & import
+     */
+    readonly concurrency?: ConcurrencyConfig;
     readonly sourceEnvironment: MigrationSource;
     readonly targetEnvironment: ManagementClientConfig;
 }
@@ -30,8 +73,24 @@ export interface MigrationResult {
     readonly importResult: ImportResult;
 }
 
+const SyncStateSchema = z
+    .strictObject({
+        lastSync: z.string(),
+        variants: z
+            .array(
+                z.strictObject({
+                    itemCodename: z.string(),
+                    languageCodename: z.string(),
+                    lastModified: z.string()
+                })
+            )
+            .readonly()
+    })
+    .readonly();
+
 export async function migrateAsync(config: MigrationConfig): Promise<MigrationResult> {
     const logger = config.logger ?? getDefaultLogger();
+    const syncStateFilename = config.syncStateFilename ?? defaultSyncStateFilename;
 
     return await executeWithTrackingAsync({
         event: {
@@ -43,23 +102,42 @@ export async function migrateAsync(config: MigrationConfig): Promise<MigrationRe
             action: 'migrate',
             relatedEnvironmentId: undefined,
             details: {
-                itemsCount: config.sourceEnvironment.items.length
+                itemsCount: config.sourceEnvironment.items?.length
             }
         },
         func: async () => {
+            const syncState = config.incremental ? await loadSyncStateAsync(logger, syncStateFilename) : undefined;
+
             const migrationData = await exportAsync({
                 ...config.sourceEnvironment,
                 logger: logger,
-                exportItems: config.sourceEnvironment.items
+                exportItems: config.sourceEnvironment.items,
+                query: config.sourceEnvironment.query,
+                includeDependencies: config.sourceEnvironment.includeDependencies,
+                dependenciesDepth: config.sourceEnvironment.dependenciesDepth,
+                includeContentModel: config.includeContentModel,
+                syncState: syncState,
+                concurrency: config.concurrency
             });
 
             const importResult = await importAsync({
                 ...config.targetEnvironment,
                 logger: logger,
                 data: migrationData,
-                externalIdGenerator: config.externalIdGenerator
+                externalIdGenerator: config.externalIdGenerator,
+                dryRun: config.dryRun,
+                createPlanFile: config.createPlanFile,
+                importContentModel: config.includeContentModel,
+                skipUnchangedVariants: config.skipUnchangedVariants,
+                changeLogFilename: config.changeLogFilename,
+                mapping: config.mapping,
+                concurrency: config.concurrency
             });
 
+            if (config.incremental && !config.dryRun) {
+                await storeSyncStateAsync(logger, syncStateFilename, getSyncState(syncState, migrationData, importResult, config.mapping));
+            }
+
             return {
                 importResult,
                 migrationData
@@ -68,3 +146,73 @@ export async function migrateAsync(config: MigrationConfig): Promise<MigrationRe
         logger: config.logger
     });
 }
+
+async function loadSyncStateAsync(logger: Logger, filename: string): Promise<SyncState | undefined> {
+    const fileManager = fileManagerInit(logger);
+
+    if (!(await fileManager.fileExistsAsync(filename))) {
+        logger.log({
+            type: 'info',
+            message: `Sync state '${chalk.yellow(filename)}' does not exist. All language variants will be migrated`
+        });
+        return undefined;
+    }
+
+    return SyncStateSchema.parse(JSON.parse((await fileManager.loadFileAsync(filename)).toString()));
+}
+
+async function storeSyncStateAsync(logger: Logger, filename: string, syncState: SyncState): Promise<void> {
+    await fileManagerInit(logger).writeFileAsync(filename, JSON.stringify(syncState, undefined, 4));
+}
+
+/**
+ * Sync state is keyed by identifiers of the source environment as it is matched against exported data
+ */
+function getSyncState(
+    previousSyncState: SyncState | undefined,
+    migrationData: MigrationData,
+    importResult: ImportResult,
+    mapping: ImportMapping | undefined
+): SyncState {
+    const mapper = mapping ? importMapper(mapping) : undefined;
+
+    const isMigrated = (item: MigrationItem): boolean => {
+        // imported items have mapped codenames
+        const importedItem = mapper?.mapItem(item) ?? item;
+
+        return importResult.languageVariants.some(
+            (m) =>
+                (m.state === 'valid' || m.state === 'resumed' || m.state === 'skipped') &&
+                m.inputItem.system.codename === importedItem.system.codename &&
+                m.inputItem.system.language.codename === importedItem.system.language.codename
+        );
+    };
+
+    const migratedVariants = migrationData.items
+        .filter((item) => isMigrated(item))
+        .map<SyncStateVariant | undefined>((item) => {
+            const lastModified = item.versions
+                .map((m) => m.last_modified)
+                .filter(isNotUndefined)
+                .toSorted()
+                .at(-1);
+
+            return lastModified
+                ? { itemCodename: item.system.codename, languageCodename: item.system.language.codename, lastModified: lastModified }
+                : undefined;
+        })
+        .filter(isNotUndefined);
+
+    return {
+        lastSync: new Date().toISOString(),
+        variants: [
+            ...(previousSyncState?.variants ?? []).filter(
+                (variant) =>
+                    !migratedVariants.some(
+                        (m) => m.itemCodename === variant.itemCodename && m.languageCodename === variant.languageCodename
+                    )
+            ),
+            ...migratedVariants
+        ]
+    };
+}
@@ -0,0 +1,20 @@
+import { executeWithTrackingAsync } from '../core/index.js';
+import { RollbackConfig, RollbackResult, rollbackManager } from '../import/index.js';
+import { libMetadata } from '../metadata.js';
+
+export async function rollbackAsync(config: RollbackConfig): Promise<RollbackResult> {
+    return await executeWithTrackingAsync({
+        event: {
+            tool: 'migrationToolkit',
+            package: {
+                name: libMetadata.name,
+                version: libMetadata.version
+            },
+            action: 'rollback',
+            relatedEnvironmentId: config.environmentId,
+            details: {}
+        },
+        func: async () => await rollbackManager(config).rollbackAsync(),
+        logger: config.logger
+    });
+}
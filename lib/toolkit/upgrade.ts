@@ -0,0 +1,38 @@
+import chalk from 'chalk';
+import { promises } from 'fs';
+import { EncryptionKey, getDefaultLogger, getDefaultPackageFilename, Logger, PackageFormat, packageSchemaVersion } from '../core/index.js';
+import { volumeManager } from '../file/index.js';
+import { extractAsync, storeAsync } from './file.js';
+
+export interface UpgradePackageConfig {
+    readonly filename?: string;
+    readonly format?: PackageFormat;
+    readonly encryptionKey?: EncryptionKey;
+    readonly logger?: Logger;
+}
+
+/**
+ * Rewrites package in place using the current schema version. The upgraded package is stored next to
+ * the original one first because binaries of the original package are read lazily while storing.
+ */
+export async function upgradePackageAsync(config: UpgradePackageConfig): Promise<void> {
+    const logger = config.logger ?? getDefaultLogger();
+    const format = config.format ?? 'zip';
+    const filename = config.filename ?? getDefaultPackageFilename(format);
+    const upgradedFilename = `${filename}.upgraded`;
+
+    if ((await volumeManager(logger).getVolumeFilenamesAsync(filename)).length > 1) {
+        throw Error(`Package '${chalk.red(filename)}' is split into volumes. Upgrade of split packages is not supported`);
+    }
+
+    const data = await extractAsync({ filename: filename, format: format, encryptionKey: config.encryptionKey, logger: logger });
+
+    await storeAsync({ data: data, filename: upgradedFilename, format: format, encryptionKey: config.encryptionKey, logger: logger });
+    await promises.rm(filename, { recursive: true, force: true });
+    await promises.rename(upgradedFilename, filename);
+
+    logger.log({
+        type: 'writeFs',
+        message: `Package '${chalk.yellow(filename)}' was upgraded to schema version '${chalk.yellow(packageSchemaVersion.toString())}'`
+    });
+}
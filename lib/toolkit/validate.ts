@@ -0,0 +1,36 @@
+import chalk from 'chalk';
+import { executeWithTrackingAsync, getDefaultLogger } from '../core/index.js';
+import { libMetadata } from '../metadata.js';
+import { ValidationConfig, ValidationResult, validationManager } from '../validation/index.js';
+
+export async function validateAsync(config: ValidationConfig): Promise<ValidationResult> {
+    const logger = config.logger ?? getDefaultLogger();
+
+    return await executeWithTrackingAsync({
+        event: {
+            tool: 'migrationToolkit',
+            package: {
+                name: libMetadata.name,
+                version: libMetadata.version
+            },
+            action: 'validate',
+            relatedEnvironmentId: undefined,
+            details: {}
+        },
+        func: async () => {
+            const validationResult = await validationManager({ ...config, logger: logger }).validateAsync();
+
+            for (const issue of validationResult.issues) {
+                logger.log({
+                    type: 'error',
+                    message: `${chalk.yellow(issue.objectType)} '${chalk.cyan(issue.codename)}'${
+                        issue.languageCodename ? ` (${chalk.cyan(issue.languageCodename)})` : ''
+                    }: ${issue.message}`
+                });
+            }
+
+            return validationResult;
+        },
+        logger: config.logger
+    });
+}
@@ -0,0 +1,97 @@
+import chalk from 'chalk';
+import { promises } from 'fs';
+import { executeWithTrackingAsync, getDefaultLogger, Logger, MigrationData } from '../core/index.js';
+import { parseXliff, serializeXliff, XliffVersion, xliffTransformer } from '../xliff/index.js';
+import { libMetadata } from '../metadata.js';
+
+export interface StoreXliffConfig {
+    readonly data: MigrationData;
+    readonly sourceLanguageCodename: string;
+    readonly targetLanguageCodename: string;
+    /**
+     * Name of the xliff file. Defaults to '<targetLanguageCodename>.xlf'
+     */
+    readonly filename?: string;
+    /**
+     * Defaults to '1.2'
+     */
+    readonly version?: XliffVersion;
+    readonly logger?: Logger;
+}
+
+export interface ExtractXliffConfig {
+    /**
+     * Migration data with items in source language of the xliff file
+     */
+    readonly data: MigrationData;
+    readonly filename: string;
+    readonly logger?: Logger;
+}
+
+/**
+ * Stores translatable elements of items & asset descriptions in source language as xliff file for translation vendors
+ */
+export async function storeXliffAsync(config: StoreXliffConfig): Promise<void> {
+    const logger = config.logger ?? getDefaultLogger();
+    const filename = config.filename ?? `${config.targetLanguageCodename}.xlf`;
+
+    await executeWithTrackingAsync<void>({
+        event: {
+            tool: 'migrationToolkit',
+            package: {
+                name: libMetadata.name,
+                version: libMetadata.version
+            },
+            action: 'storeXliff',
+            relatedEnvironmentId: undefined,
+            details: {}
+        },
+        func: async () => {
+            const document = xliffTransformer(logger).createDocument({
+                data: config.data,
+                sourceLanguageCodename: config.sourceLanguageCodename,
+                targetLanguageCodename: config.targetLanguageCodename,
+                version: config.version ?? '1.2'
+            });
+
+            logger.log({
+                type: 'writeFs',
+                message: `Storing '${chalk.yellow(document.units.length)}' translation units in xliff '${chalk.yellow(filename)}'`
+            });
+
+            await promises.writeFile(filename, serializeXliff(document));
+        },
+        logger: config.logger
+    });
+}
+
+/**
+ * Reads translated xliff file & returns items (and assets with translated descriptions) in target language
+ */
+export async function extractXliffAsync(config: ExtractXliffConfig): Promise<MigrationData> {
+    const logger = config.logger ?? getDefaultLogger();
+
+    return await executeWithTrackingAsync({
+        event: {
+            tool: 'migrationToolkit',
+            package: {
+                name: libMetadata.name,
+                version: libMetadata.version
+            },
+            action: 'extractXliff',
+            relatedEnvironmentId: undefined,
+            details: {}
+        },
+        func: async () => {
+            logger.log({
+                type: 'readFs',
+                message: `Reading xliff '${chalk.yellow(config.filename)}'`
+            });
+
+            const document = parseXliff((await promises.readFile(config.filename)).toString());
+
+            return xliffTransformer(logger).applyTranslations(config.data, document);
+        },
+        logger: config.logger
+    });
+}
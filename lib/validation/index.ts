@@ -0,0 +1,3 @@
+export * from './validation.models.js';
+export * from './package-validator.js';
+export * from './validation-manager.js';
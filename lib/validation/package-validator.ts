@@ -0,0 +1,270 @@
+import { AssetFolderModels, TaxonomyModels } from '@kontent-ai/management-sdk';
+import chalk from 'chalk';
+import { match, P } from 'ts-pattern';
+import {
+    FlattenedContentType,
+    MigrationAsset,
+    MigrationData,
+    MigrationElements,
+    MigrationItem,
+    parseAsMigrationReferencesArray
+} from '../core/index.js';
+import { richTextProcessor } from '../translation/index.js';
+import { PackageValidationResult, ValidationEnvironmentData, ValidationIssue } from './validation.models.js';
+
+interface ValidationReferencesLocal {
+    readonly itemCodenames: Set<string>;
+    readonly assetCodenames: Set<string>;
+}
+
+type ItemIssue = Pick<ValidationIssue, 'issueType' | 'message'>;
+
+export function packageValidator(environmentData: ValidationEnvironmentData) {
+    const getAssetFolderCodenames = (folders: readonly Readonly<AssetFolderModels.AssetFolder>[]): readonly string[] => {
+        return folders.flatMap((folder) => [folder.codename, ...getAssetFolderCodenames(folder.folders)]);
+    };
+
+    const getTaxonomyTermCodenames = (terms: readonly Readonly<TaxonomyModels.Taxonomy>[]): readonly string[] => {
+        return terms.flatMap((term) => [term.codename, ...getTaxonomyTermCodenames(term.terms)]);
+    };
+
+    const assetFolderCodenames = new Set(getAssetFolderCodenames(environmentData.assetFolders));
+
+    const validateElements = (data: {
+        readonly contentType: FlattenedContentType;
+        readonly elements: MigrationElements;
+        readonly references: ValidationReferencesLocal;
+    }): readonly ItemIssue[] => {
+        return Object.entries(data.elements).flatMap(([elementCodename, element]) => {
+            const typeElement = data.contentType.elements.find((m) => m.codename === elementCodename);
+
+            if (!typeElement) {
+                return [
+                    {
+                        issueType: 'missingElement',
+                        message: `Element '${chalk.red(elementCodename)}' does not exist in content type '${chalk.yellow(
+                            data.contentType.contentTypeCodename
+                        )}'`
+                    }
+                ];
+            }
+
+            if (typeElement.type !== element.type) {
+                return [
+                    {
+                        issueType: 'elementTypeMismatch',
+                        message: `Element '${chalk.red(elementCodename)}' in content type '${chalk.yellow(
+                            data.contentType.contentTypeCodename
+                        )}' is of type '${chalk.red(typeElement.type)}', but source type is '${chalk.yellow(element.type)}'`
+                    }
+                ];
+            }
+
+            return match(element.type)
+                .returnType<readonly ItemIssue[]>()
+                .with('multiple_choice', () => {
+                    const options = 'options' in typeElement.element ? typeElement.element.options : [];
+
+                    return parseAsMigrationReferencesArray(element.value)
+                        .filter((reference) => !options.some((option) => option.codename === reference.codename))
+                        .map<ItemIssue>((reference) => {
+                            return {
+                                issueType: 'unknownMultipleChoiceOption',
+                                message: `Option '${chalk.red(reference.codename)}' does not exist in element '${chalk.yellow(
+                                    elementCodename
+                                )}'`
+                            };
+                        });
+                })
+                .with('taxonomy', () => {
+                    const taxonomyGroupId = 'taxonomy_group' in typeElement.element ? typeElement.element.taxonomy_group.id : undefined;
+                    const taxonomy = environmentData.taxonomies.find((m) => m.id === taxonomyGroupId);
+                    const termCodenames = new Set(taxonomy ? getTaxonomyTermCodenames(taxonomy.terms) : []);
+
+                    return parseAsMigrationReferencesArray(element.value)
+                        .filter((reference) => !termCodenames.has(reference.codename))
+                        .map<ItemIssue>((reference) => {
+                            return {
+                                issueType: 'unknownTaxonomyTerm',
+                                message: `Taxonomy term '${chalk.red(reference.codename)}' does not exist in taxonomy group of element '${chalk.yellow(
+                                    elementCodename
+                                )}'`
+                            };
+                        });
+                })
+                .with('rich_text', () => {
+                    const richTextHtml = element.value?.toString() ?? '';
+
+                    richTextProcessor()
+                        .processItemCodenames(richTextHtml)
+                        .codenames.forEach((codename) => data.references.itemCodenames.add(codename));
+                    richTextProcessor()
+                        .processLinkItemCodenames(richTextHtml)
+                        .codenames.forEach((codename) => data.references.itemCodenames.add(codename));
+                    richTextProcessor()
+                        .processAssetCodenames(richTextHtml)
+                        .codenames.forEach((codename) => data.references.assetCodenames.add(codename));
+                    richTextProcessor()
+                        .processLinkAssetCodenames(richTextHtml)
+                        .codenames.forEach((codename) => data.references.assetCodenames.add(codename));
+
+                    return (element.components ?? []).flatMap((component) => {
+                        const componentType = environmentData.types.find((m) => m.contentTypeCodename === component.system.type.codename);
+
+                        if (!componentType) {
+                            return [
+                                {
+                                    issueType: 'missingContentType',
+                                    message: `Content type '${chalk.red(component.system.type.codename)}' of component '${chalk.yellow(
+                                        component.system.id
+                                    )}' in element '${chalk.yellow(elementCodename)}' does not exist`
+                                }
+                            ];
+                        }
+
+                        return validateElements({
+                            contentType: componentType,
+                            elements: component.elements,
+                            references: data.references
+                        });
+                    });
+                })
+                .with(P.union('modular_content', 'subpages'), () => {
+                    parseAsMigrationReferencesArray(element.value).forEach((m) => data.references.itemCodenames.add(m.codename));
+                    return [];
+                })
+                .with('asset', () => {
+                    parseAsMigrationReferencesArray(element.value).forEach((m) => data.references.assetCodenames.add(m.codename));
+                    return [];
+                })
+                .otherwise(() => []);
+        });
+    };
+
+    const validateItem = (item: MigrationItem, references: ValidationReferencesLocal): readonly ItemIssue[] => {
+        const issues: ItemIssue[] = [];
+
+        if (!environmentData.languages.some((m) => m.codename === item.system.language.codename)) {
+            issues.push({
+                issueType: 'missingLanguage',
+                message: `Language '${chalk.red(item.system.language.codename)}' does not exist`
+            });
+        }
+
+        if (!environmentData.collections.some((m) => m.codename === item.system.collection.codename)) {
+            issues.push({
+                issueType: 'missingCollection',
+                message: `Collection '${chalk.red(item.system.collection.codename)}' does not exist`
+            });
+        }
+
+        const workflow = environmentData.workflows.find((m) => m.codename === item.system.workflow.codename);
+
+        if (!workflow) {
+            issues.push({
+                issueType: 'missingWorkflow',
+                message: `Workflow '${chalk.red(item.system.workflow.codename)}' does not exist`
+            });
+        }
+
+        const contentType = environmentData.types.find((m) => m.contentTypeCodename === item.system.type.codename);
+
+        if (!contentType) {
+            issues.push({
+                issueType: 'missingContentType',
+                message: `Content type '${chalk.red(item.system.type.codename)}' does not exist`
+            });
+        }
+
+        for (const version of item.versions) {
+            if (
+                workflow &&
+                ![...workflow.steps, workflow.publishedStep, workflow.archivedStep, workflow.scheduledStep].some(
+                    (step) => step.codename === version.workflow_step.codename
+                )
+            ) {
+                issues.push({
+                    issueType: 'missingWorkflowStep',
+                    message: `Workflow step '${chalk.red(version.workflow_step.codename)}' does not exist in workflow '${chalk.yellow(
+                        workflow.codename
+                    )}'`
+                });
+            }
+
+            if (contentType) {
+                issues.push(...validateElements({ contentType: contentType, elements: version.elements, references: references }));
+            }
+        }
+
+        return issues;
+    };
+
+    const validateAsset = (asset: MigrationAsset): readonly ItemIssue[] => {
+        const issues: ItemIssue[] = [];
+
+        if (asset.collection && !environmentData.collections.some((m) => m.codename === asset.collection?.codename)) {
+            issues.push({
+                issueType: 'missingCollection',
+                message: `Collection '${chalk.red(asset.collection.codename)}' does not exist`
+            });
+        }
+
+        if (asset.folder && !assetFolderCodenames.has(asset.folder.codename)) {
+            issues.push({
+                issueType: 'missingAssetFolder',
+                message: `Asset folder '${chalk.red(asset.folder.codename)}' does not exist`
+            });
+        }
+
+        for (const description of asset.descriptions ?? []) {
+            if (!environmentData.languages.some((m) => m.codename === description.language.codename)) {
+                issues.push({
+                    issueType: 'missingLanguage',
+                    message: `Language '${chalk.red(description.language.codename)}' used in asset description does not exist`
+                });
+            }
+        }
+
+        return issues;
+    };
+
+    return {
+        validate(data: MigrationData): PackageValidationResult {
+            const references: ValidationReferencesLocal = { itemCodenames: new Set(), assetCodenames: new Set() };
+
+            const itemIssues = data.items.flatMap((item) =>
+                validateItem(item, references).map<ValidationIssue>((issue) => {
+                    return {
+                        ...issue,
+                        objectType: 'contentItem',
+                        codename: item.system.codename,
+                        languageCodename: item.system.language.codename
+                    };
+                })
+            );
+
+            const assetIssues = data.assets.flatMap((asset) =>
+                validateAsset(asset).map<ValidationIssue>((issue) => {
+                    return {
+                        ...issue,
+                        objectType: 'asset',
+                        codename: asset.codename,
+                        languageCodename: undefined
+                    };
+                })
+            );
+
+            return {
+                issues: [...assetIssues, ...itemIssues],
+                externalReferences: {
+                    itemCodenames: new Set(
+                        [...references.itemCodenames].filter((codename) => !data.items.some((m) => m.system.codename === codename))
+                    ),
+                    assetCodenames: new Set(
+                        [...references.assetCodenames].filter((codename) => !data.assets.some((m) => m.codename === codename))
+                    )
+                }
+            };
+        }
+    };
+}
@@ -0,0 +1,186 @@
+import chalk from 'chalk';
+import { match } from 'ts-pattern';
+import {
+    extractErrorData,
+    getConcurrency,
+    getDefaultLogger,
+    getMigrationManagementClient,
+    is404Error,
+    managementClientUtils,
+    processItemsAsync,
+    runMapiRequestAsync
+} from '../core/index.js';
+import { packageValidator } from './package-validator.js';
+import {
+    ValidationConfig,
+    ValidationEnvironmentData,
+    ValidationIssue,
+    ValidationReferences,
+    ValidationResult
+} from './validation.models.js';
+
+export function validationManager(config: ValidationConfig) {
+    const logger = config.logger ?? getDefaultLogger();
+    const managementClient = getMigrationManagementClient(config);
+
+    const getEnvironmentDataAsync = async (): Promise<ValidationEnvironmentData> => {
+        const mapiUtils = managementClientUtils(managementClient, logger);
+
+        return await logger.logWithSpinnerAsync(async (spinnerData) => {
+            spinnerData({ type: 'info', message: `Loading environment data` });
+
+            const environmentData: ValidationEnvironmentData = {
+                collections: await mapiUtils.getAllCollectionsAsync(spinnerData),
+                languages: await mapiUtils.getAllLanguagesAsync(spinnerData),
+                workflows: await mapiUtils.getAllWorkflowsAsync(spinnerData),
+                types: await mapiUtils.getFlattenedContentTypesAsync(spinnerData),
+                assetFolders: await mapiUtils.getAllAssetFoldersAsync(spinnerData),
+                taxonomies: await mapiUtils.getAllTaxonomiesAsync(spinnerData)
+            };
+
+            spinnerData({ type: 'info', message: `Environmental data loaded` });
+
+            return environmentData;
+        });
+    };
+
+    const getMissingItemReferencesAsync = async (itemCodenames: ReadonlySet<string>): Promise<readonly ValidationIssue[]> => {
+        return (
+            await processItemsAsync<string, true>({
+                action: 'Fetching content items',
+                logger: logger,
+                parallelLimit: getConcurrency(config.concurrency, 'fetch'),
+                items: Array.from(itemCodenames),
+                itemInfo: (codename) => {
+                    return {
+                        itemType: 'contentItem',
+                        title: codename
+                    };
+                },
+                processAsync: async (codename, logSpinner) => {
+                    try {
+                        await runMapiRequestAsync({
+                            logger: logger,
+                            func: async () => (await managementClient.viewContentItem().byItemCodename(codename).toPromise()).data,
+                            action: 'view',
+                            type: 'contentItem',
+                            logSpinner: logSpinner,
+                            itemName: `codename -> ${codename}`
+                        });
+
+                        return true;
+                    } catch (error) {
+                        if (!is404Error(error)) {
+                            throw error;
+                        }
+
+                        return '404';
+                    }
+                }
+            })
+        ).flatMap<ValidationIssue>((m) => {
+            return match(m)
+                .with({ state: '404' }, (m): readonly ValidationIssue[] => [
+                    {
+                        objectType: 'contentItem',
+                        codename: m.inputItem,
+                        languageCodename: undefined,
+                        issueType: 'missingReference',
+                        message: `Referenced content item '${chalk.red(m.inputItem)}' is neither part of the package nor the target environment`
+                    }
+                ])
+                .with({ state: 'error' }, (m): readonly ValidationIssue[] => [
+                    {
+                        objectType: 'contentItem',
+                        codename: m.inputItem,
+                        languageCodename: undefined,
+                        issueType: 'unverifiedReference',
+                        message: `Referenced content item '${chalk.red(m.inputItem)}' could not be verified: ${extractErrorData(m.error).message}`
+                    }
+                ])
+                .otherwise(() => []);
+        });
+    };
+
+    const getMissingAssetReferencesAsync = async (assetCodenames: ReadonlySet<string>): Promise<readonly ValidationIssue[]> => {
+        return (
+            await processItemsAsync<string, true>({
+                action: 'Fetching assets',
+                logger: logger,
+                parallelLimit: getConcurrency(config.concurrency, 'fetch'),
+                items: Array.from(assetCodenames),
+                itemInfo: (codename) => {
+                    return {
+                        itemType: 'asset',
+                        title: codename
+                    };
+                },
+                processAsync: async (codename, logSpinner) => {
+                    try {
+                        await runMapiRequestAsync({
+                            logger: logger,
+                            func: async () => (await managementClient.viewAsset().byAssetCodename(codename).toPromise()).data,
+                            action: 'view',
+                            type: 'asset',
+                            logSpinner: logSpinner,
+                            itemName: `codename -> ${codename}`
+                        });
+
+                        return true;
+                    } catch (error) {
+                        if (!is404Error(error)) {
+                            throw error;
+                        }
+
+                        return '404';
+                    }
+                }
+            })
+        ).flatMap<ValidationIssue>((m) => {
+            return match(m)
+                .with({ state: '404' }, (m): readonly ValidationIssue[] => [
+                    {
+                        objectType: 'asset',
+                        codename: m.inputItem,
+                        languageCodename: undefined,
+                        issueType: 'missingReference',
+                        message: `Referenced asset '${chalk.red(m.inputItem)}' is neither part of the package nor the target environment`
+                    }
+                ])
+                .with({ state: 'error' }, (m): readonly ValidationIssue[] => [
+                    {
+                        objectType: 'asset',
+                        codename: m.inputItem,
+                        languageCodename: undefined,
+                        issueType: 'unverifiedReference',
+                        message: `Referenced asset '${chalk.red(m.inputItem)}' could not be verified: ${extractErrorData(m.error).message}`
+                    }
+                ])
+                .otherwise(() => []);
+        });
+    };
+
+    const getMissingReferencesAsync = async (references: ValidationReferences): Promise<readonly ValidationIssue[]> => {
+        return [
+            ...(await getMissingAssetReferencesAsync(references.assetCodenames)),
+            ...(await getMissingItemReferencesAsync(references.itemCodenames))
+        ];
+    };
+
+    return {
+        async validateAsync(): Promise<ValidationResult> {
+            const environmentData = await getEnvironmentDataAsync();
+            const packageValidationResult = packageValidator(environmentData).validate(config.data);
+
+            const issues: readonly ValidationIssue[] = [
+                ...packageValidationResult.issues,
+                ...(await getMissingReferencesAsync(packageValidationResult.externalReferences))
+            ];
+
+            return {
+                isValid: issues.length === 0,
+                issues: issues
+            };
+        }
+    };
+}
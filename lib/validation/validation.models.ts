@@ -0,0 +1,59 @@
+import { TaxonomyModels } from '@kontent-ai/management-sdk';
+import { ConcurrencyConfig, Logger, ManagementClientConfig, MigrationData } from '../core/index.js';
+import { ImportContextEnvironmentData } from '../import/index.js';
+
+export type ValidationObjectType = 'contentItem' | 'asset';
+
+export type ValidationIssueType =
+    | 'missingLanguage'
+    | 'missingCollection'
+    | 'missingContentType'
+    | 'missingElement'
+    | 'elementTypeMismatch'
+    | 'missingWorkflow'
+    | 'missingWorkflowStep'
+    | 'unknownTaxonomyTerm'
+    | 'unknownMultipleChoiceOption'
+    | 'missingAssetFolder'
+    | 'missingReference'
+    | 'unverifiedReference';
+
+export interface ValidationIssue {
+    readonly objectType: ValidationObjectType;
+    readonly codename: string;
+    readonly languageCodename: string | undefined;
+    readonly issueType: ValidationIssueType;
+    readonly message: string;
+}
+
+export interface ValidationReferences {
+    readonly itemCodenames: ReadonlySet<string>;
+    readonly assetCodenames: ReadonlySet<string>;
+}
+
+export interface PackageValidationResult {
+    readonly issues: readonly ValidationIssue[];
+    /**
+     * Items & assets referenced by migration data that are not part of the package.
+     * These have to exist in the target environment.
+     */
+    readonly externalReferences: ValidationReferences;
+}
+
+export interface ValidationEnvironmentData extends ImportContextEnvironmentData {
+    readonly taxonomies: readonly Readonly<TaxonomyModels.Taxonomy>[];
+}
+
+export interface ValidationConfig extends ManagementClientConfig {
+    readonly data: MigrationData;
+    readonly logger?: Logger;
+    /**
+     * Max number of referenced objects fetched in parallel
+     */
+    readonly concurrency?: Pick<ConcurrencyConfig, 'fetch'>;
+}
+
+export interface ValidationResult {
+    readonly isValid: boolean;
+    readonly issues: readonly ValidationIssue[];
+}
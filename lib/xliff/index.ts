@@ -0,0 +1,3 @@
+export * from './xliff.models.js';
+export * from './xliff.utils.js';
+export * from './xliff-transformer.js';
@@ -0,0 +1,195 @@
+import chalk from 'chalk';
+import { match } from 'ts-pattern';
+import { Logger, MigrationAsset, MigrationData, MigrationElement, MigrationElements, MigrationItem } from '../core/index.js';
+import { XliffContent, XliffDocument, XliffUnit, XliffVersion } from './xliff.models.js';
+import { getInlineCodes, htmlToXliffContent, xliffContentToHtml, xliffContentToText } from './xliff.utils.js';
+
+export interface CreateXliffDocumentConfig {
+    readonly data: MigrationData;
+    readonly sourceLanguageCodename: string;
+    readonly targetLanguageCodename: string;
+    readonly version: XliffVersion;
+}
+
+const unitIdSeparator: string = '.';
+
+const getItemUnitId = (itemCodename: string, elementCodename: string): string =>
+    ['item', itemCodename, elementCodename].join(unitIdSeparator);
+
+const getAssetUnitId = (assetCodename: string): string => ['asset', assetCodename, 'description'].join(unitIdSeparator);
+
+/**
+ * Transforms translatable elements (text, rich text & url slug) of items & asset descriptions to xliff units
+ * & applies translated units back to migration data. Only the latest version of each language variant is used.
+ */
+export function xliffTransformer(logger: Logger) {
+    const getElementContent = (element: MigrationElement): XliffContent | undefined => {
+        if (typeof element.value !== 'string' || !element.value.length) {
+            return undefined;
+        }
+
+        return match(element.type)
+            .returnType<XliffContent | undefined>()
+            .with('rich_text', () => htmlToXliffContent(element.value as string))
+            .with('text', 'url_slug', () => [element.value as string])
+            .otherwise(() => undefined);
+    };
+
+    const createDocument = (config: CreateXliffDocumentConfig): XliffDocument => {
+        const sourceItems = config.data.items.filter((item) => item.system.language.codename === config.sourceLanguageCodename);
+
+        const itemUnits = sourceItems.flatMap<XliffUnit>((item) => {
+            return Object.entries(item.versions[0]?.elements ?? {}).flatMap<XliffUnit>(([elementCodename, element]) => {
+                const content = getElementContent(element);
+
+                if (!content) {
+                    return [];
+                }
+
+                if (element.components?.length) {
+                    logger.log({
+                        type: 'warning',
+                        message: `Components of element '${chalk.yellow(elementCodename)}' in item '${chalk.yellow(
+                            item.system.codename
+                        )}' are not translated`
+                    });
+                }
+
+                return [
+                    {
+                        id: getItemUnitId(item.system.codename, elementCodename),
+                        name: `${item.system.name} / ${elementCodename}`,
+                        source: content,
+                        target: undefined
+                    }
+                ];
+            });
+        });
+
+        const assetUnits = config.data.assets.flatMap<XliffUnit>((asset) => {
+            const description = asset.descriptions?.find(
+                (description) => description.language.codename === config.sourceLanguageCodename
+            )?.description;
+
+            if (!description) {
+                return [];
+            }
+
+            return [
+                {
+                    id: getAssetUnitId(asset.codename),
+                    name: `${asset.title} / description`,
+                    source: [description],
+                    target: undefined
+                }
+            ];
+        });
+
+        return {
+            version: config.version,
+            sourceLanguage: config.sourceLanguageCodename,
+            targetLanguage: config.targetLanguageCodename,
+            units: [...itemUnits, ...assetUnits]
+        };
+    };
+
+    const getTranslatedContent = (unit: XliffUnit | undefined): XliffContent | undefined => {
+        if (!unit?.target) {
+            return undefined;
+        }
+
+        const sourceCodes = getInlineCodes(unit.source);
+        const targetCodes = getInlineCodes(unit.target);
+
+        if (sourceCodes.length !== targetCodes.length || sourceCodes.some((code) => !targetCodes.includes(code))) {
+            logger.log({
+                type: 'warning',
+                message: `Inline markup of translation unit '${chalk.yellow(unit.id)}' differs from its source`
+            });
+        }
+
+        return unit.target;
+    };
+
+    const translateElement = (element: MigrationElement, unit: XliffUnit | undefined): MigrationElement => {
+        const translation = getTranslatedContent(unit);
+
+        if (!translation) {
+            return element;
+        }
+
+        return match(element.type)
+            .returnType<MigrationElement>()
+            .with('rich_text', () => ({ ...element, value: xliffContentToHtml(translation) }))
+            .with('url_slug', () => ({ ...element, value: xliffContentToText(translation), mode: 'custom' }))
+            .otherwise(() => ({ ...element, value: xliffContentToText(translation) }));
+    };
+
+    /**
+     * Creates items in target language of the document from source language items. Elements without translation
+     * (including non-translatable elements) are copied from the source language variant.
+     */
+    const applyTranslations = (data: MigrationData, document: XliffDocument): MigrationData => {
+        const unitsMap = new Map<string, XliffUnit>(document.units.map((unit) => [unit.id, unit]));
+
+        const items = data.items
+            .filter((item) => item.system.language.codename === document.sourceLanguage)
+            .filter((item) => document.units.some((unit) => unit.id.startsWith(getItemUnitId(item.system.codename, ''))))
+            .map<MigrationItem>((item) => {
+                const latestVersion = item.versions[0];
+
+                if (!latestVersion) {
+                    throw Error(`Item '${chalk.red(item.system.codename)}' does not have any version`);
+                }
+
+                const elements = Object.entries(latestVersion.elements).reduce<MigrationElements>(
+                    (elements, [elementCodename, element]) => ({
+                        ...elements,
+                        [elementCodename]: translateElement(element, unitsMap.get(getItemUnitId(item.system.codename, elementCodename)))
+                    }),
+                    {}
+                );
+
+                return {
+                    system: {
+                        ...item.system,
+                        language: { codename: document.targetLanguage }
+                    },
+                    versions: [
+                        {
+                            workflow_step: latestVersion.workflow_step,
+                            elements: elements
+                        }
+                    ]
+                };
+            });
+
+        const assets = data.assets.flatMap<MigrationAsset>((asset) => {
+            const translation = getTranslatedContent(unitsMap.get(getAssetUnitId(asset.codename)));
+
+            if (!translation) {
+                return [];
+            }
+
+            return [
+                {
+                    ...asset,
+                    descriptions: [
+                        ...(asset.descriptions ?? []).filter((description) => description.language.codename !== document.targetLanguage),
+                        { language: { codename: document.targetLanguage }, description: xliffContentToText(translation) }
+                    ]
+                }
+            ];
+        });
+
+        return {
+            items: items,
+            assets: assets
+        };
+    };
+
+    return {
+        createDocument,
+        applyTranslations
+    };
+}
@@ -0,0 +1,24 @@
+export type XliffVersion = '1.2' | '2.0';
+
+/**
+ * Markup that translators must not change (i.e. rich text html tags). It's protected by placeholders in xliff.
+ */
+export interface XliffInlineCode {
+    readonly code: string;
+}
+
+export type XliffContent = readonly (string | XliffInlineCode)[];
+
+export interface XliffUnit {
+    readonly id: string;
+    readonly name: string | undefined;
+    readonly source: XliffContent;
+    readonly target: XliffContent | undefined;
+}
+
+export interface XliffDocument {
+    readonly version: XliffVersion;
+    readonly sourceLanguage: string;
+    readonly targetLanguage: string;
+    readonly units: readonly XliffUnit[];
+}
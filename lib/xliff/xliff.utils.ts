@@ -0,0 +1,266 @@
+import chalk from 'chalk';
+import { XliffContent, XliffDocument, XliffUnit } from './xliff.models.js';
+
+const xmlEntities: Readonly<Record<string, string>> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'"
+};
+
+const htmlEntities: Readonly<Record<string, string>> = {
+    ...xmlEntities,
+    nbsp: '\u00A0'
+};
+
+export function serializeXliff(document: XliffDocument): string {
+    return document.version === '1.2' ? serializeXliff12(document) : serializeXliff20(document);
+}
+
+export function parseXliff(xliff: string): XliffDocument {
+    const rootAttributes = parseAttributes(/<xliff\b([^>]*)>/.exec(xliff)?.[1] ?? '');
+    const version = rootAttributes['version'];
+
+    if (version === '1.2') {
+        return parseXliff12(xliff);
+    }
+
+    if (version === '2.0' || version === '2.1') {
+        return parseXliff20(xliff, rootAttributes);
+    }
+
+    throw Error(`Unsupported xliff version '${chalk.red(version ?? 'n/a')}'. Use xliff '1.2' or '2.0'`);
+}
+
+/**
+ * Html tags are converted to inline codes & html entities in text are decoded so that translators work with plain text
+ */
+export function htmlToXliffContent(html: string): XliffContent {
+    return html
+        .split(/(<[^>]+>)/)
+        .filter((part) => part.length)
+        .map((part) => (part.startsWith('<') ? { code: part } : decodeEntities(part, htmlEntities)));
+}
+
+export function xliffContentToHtml(content: XliffContent): string {
+    return content.map((part) => (typeof part === 'string' ? escapeHtml(part) : part.code)).join('');
+}
+
+export function xliffContentToText(content: XliffContent): string {
+    return content.map((part) => (typeof part === 'string' ? part : part.code)).join('');
+}
+
+export function getInlineCodes(content: XliffContent): readonly string[] {
+    return content.flatMap((part) => (typeof part === 'string' ? [] : [part.code]));
+}
+
+function serializeXliff12(document: XliffDocument): string {
+    const serializeContent = (content: XliffContent): string => {
+        return content
+            .map((part, index) => (typeof part === 'string' ? escapeXml(part) : `<ph id="${index + 1}">${escapeXml(part.code)}</ph>`))
+            .join('');
+    };
+
+    const units = document.units.map((unit) =>
+        [
+            `      <trans-unit id="${escapeXml(unit.id)}"${unit.name ? ` resname="${escapeXml(unit.name)}"` : ''}>`,
+            `        <source>${serializeContent(unit.source)}</source>`,
+            ...(unit.target ? [`        <target>${serializeContent(unit.target)}</target>`] : []),
+            `      </trans-unit>`
+        ].join('\n')
+    );
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">`,
+        `  <file original="kontent.ai" datatype="plaintext" source-language="${escapeXml(
+            document.sourceLanguage
+        )}" target-language="${escapeXml(document.targetLanguage)}">`,
+        `    <body>`,
+        ...units,
+        `    </body>`,
+        `  </file>`,
+        `</xliff>`,
+        ''
+    ].join('\n');
+}
+
+function serializeXliff20(document: XliffDocument): string {
+    const units = document.units.map((unit) => {
+        const codes = getInlineCodes(unit.source);
+
+        const serializeContent = (content: XliffContent): string => {
+            return content
+                .map((part, index) => {
+                    if (typeof part === 'string') {
+                        return escapeXml(part);
+                    }
+
+                    return `<ph id="${index + 1}" dataRef="d${codes.indexOf(part.code) + 1}"/>`;
+                })
+                .join('');
+        };
+
+        return [
+            `    <unit id="${escapeXml(unit.id)}"${unit.name ? ` name="${escapeXml(unit.name)}"` : ''}>`,
+            ...(codes.length
+                ? [
+                      `      <originalData>`,
+                      ...codes.map((code, index) => `        <data id="d${index + 1}">${escapeXml(code)}</data>`),
+                      `      </originalData>`
+                  ]
+                : []),
+            `      <segment>`,
+            `        <source>${serializeContent(unit.source)}</source>`,
+            ...(unit.target ? [`        <target>${serializeContent(unit.target)}</target>`] : []),
+            `      </segment>`,
+            `    </unit>`
+        ].join('\n');
+    });
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${escapeXml(
+            document.sourceLanguage
+        )}" trgLang="${escapeXml(document.targetLanguage)}">`,
+        `  <file id="kontent.ai">`,
+        ...units,
+        `  </file>`,
+        `</xliff>`,
+        ''
+    ].join('\n');
+}
+
+function parseXliff12(xliff: string): XliffDocument {
+    const fileAttributes = parseAttributes(/<file\b([^>]*)>/.exec(xliff)?.[1] ?? '');
+
+    const units = Array.from(xliff.matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)).map<XliffUnit>((match) => {
+        const attributes = parseAttributes(match[1]);
+        const target = getElementContent(match[2], 'target');
+
+        return {
+            id: getRequiredAttribute(attributes, 'id'),
+            name: attributes['resname'],
+            source: parseInlineContent(getElementContent(match[2], 'source') ?? '', {}),
+            target: target !== undefined ? parseInlineContent(target, {}) : undefined
+        };
+    });
+
+    return {
+        version: '1.2',
+        sourceLanguage: getRequiredAttribute(fileAttributes, 'source-language'),
+        targetLanguage: getRequiredAttribute(fileAttributes, 'target-language'),
+        units: units
+    };
+}
+
+function parseXliff20(xliff: string, rootAttributes: Readonly<Record<string, string>>): XliffDocument {
+    const units = Array.from(xliff.matchAll(/<unit\b([^>]*)>([\s\S]*?)<\/unit>/g)).map<XliffUnit>((match) => {
+        const attributes = parseAttributes(match[1]);
+        const originalData = Object.fromEntries(
+            Array.from(match[2].matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)).map((dataMatch) => [
+                getRequiredAttribute(parseAttributes(dataMatch[1]), 'id'),
+                decodeEntities(dataMatch[2], xmlEntities)
+            ])
+        );
+
+        // tools may split units into multiple segments which are joined back together
+        const segments = Array.from(match[2].matchAll(/<(segment|ignorable)\b[^>]*>([\s\S]*?)<\/\1>/g)).map((segmentMatch) => {
+            return {
+                source: getElementContent(segmentMatch[2], 'source') ?? '',
+                target: getElementContent(segmentMatch[2], 'target')
+            };
+        });
+        const isTranslated = segments.some((segment) => segment.target !== undefined);
+
+        return {
+            id: getRequiredAttribute(attributes, 'id'),
+            name: attributes['name'],
+            source: segments.flatMap((segment) => parseInlineContent(segment.source, originalData)),
+            target: isTranslated ? segments.flatMap((segment) => parseInlineContent(segment.target ?? '', originalData)) : undefined
+        };
+    });
+
+    return {
+        version: '2.0',
+        sourceLanguage: getRequiredAttribute(rootAttributes, 'srcLang'),
+        targetLanguage: getRequiredAttribute(rootAttributes, 'trgLang'),
+        units: units
+    };
+}
+
+/**
+ * Placeholders are converted back to inline codes. Markup added by translation tools (i.e. 'mrk') is removed.
+ */
+function parseInlineContent(content: string, originalData: Readonly<Record<string, string>>): XliffContent {
+    const result: (string | { code: string })[] = [];
+    const inlineRegex = /<ph\b([^>]*?)\/>|<ph\b[^>]*>([\s\S]*?)<\/ph>|<[^>]+>/g;
+    let lastIndex = 0;
+
+    for (const match of content.matchAll(inlineRegex)) {
+        result.push(decodeEntities(content.slice(lastIndex, match.index), xmlEntities));
+        lastIndex = match.index + match[0].length;
+
+        if (match[1] !== undefined) {
+            const dataRef = parseAttributes(match[1])['dataRef'];
+            const code = dataRef ? originalData[dataRef] : undefined;
+
+            if (code !== undefined) {
+                result.push({ code: code });
+            }
+        } else if (match[2] !== undefined) {
+            result.push({ code: decodeEntities(match[2], xmlEntities) });
+        }
+    }
+
+    result.push(decodeEntities(content.slice(lastIndex), xmlEntities));
+
+    return result.filter((part) => typeof part !== 'string' || part.length);
+}
+
+function getElementContent(xml: string, elementName: string): string | undefined {
+    const match = new RegExp(`<${elementName}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${elementName}>)`).exec(xml);
+    return match ? (match[1] ?? '') : undefined;
+}
+
+function parseAttributes(attributes: string): Readonly<Record<string, string>> {
+    return Object.fromEntries(
+        Array.from(attributes.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)).map((match) => [
+            match[1],
+            decodeEntities(match[2] ?? match[3], xmlEntities)
+        ])
+    );
+}
+
+function getRequiredAttribute(attributes: Readonly<Record<string, string>>, name: string): string {
+    const value = attributes[name];
+
+    if (value === undefined) {
+        throw Error(`Invalid xliff. Missing required attribute '${chalk.red(name)}'`);
+    }
+
+    return value;
+}
+
+function escapeHtml(text: string): string {
+    return text.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;');
+}
+
+function escapeXml(text: string): string {
+    return escapeHtml(text).replaceAll('"', '&quot;');
+}
+
+function decodeEntities(text: string, entities: Readonly<Record<string, string>>): string {
+    return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity: string, name: string) => {
+        if (name.startsWith('#x') || name.startsWith('#X')) {
+            return String.fromCodePoint(parseInt(name.slice(2), 16));
+        }
+
+        if (name.startsWith('#')) {
+            return String.fromCodePoint(parseInt(name.slice(1), 10));
+        }
+
+        return entities[name] ?? entity;
+    });
+}
@@ -2,3 +2,5 @@ export * from './zip.models.js';
 export * from './zip-manager.js';
 export * from './zip-packager.js';
 export * from './zip-transformer.js';
+export * from './zip-file-manager.js';
+export * from './zip-encryption.js';
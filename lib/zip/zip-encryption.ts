@@ -0,0 +1,162 @@
+import { Buffer as BufferProxy } from 'buffer';
+import { FileHandle, open } from 'fs/promises';
+import { Readable, Transform } from 'stream';
+import yauzl from 'yauzl';
+import {
+    EncryptionKey,
+    PackageCipher,
+    createPackageCipherAsync,
+    encryptionHeaderLength,
+    encryptionTagLength,
+    getEncryptedChunksCount,
+    getPackageCipherAsync,
+    isEncryptedPackage
+} from '../core/index.js';
+
+/**
+ * Encrypts streamed archive chunk by chunk so that the whole archive is never held in memory
+ */
+export async function createEncryptionStreamAsync(key: EncryptionKey): Promise<Transform> {
+    const cipher = await createPackageCipherAsync(key);
+    let pending: BufferProxy = BufferProxy.alloc(0);
+    let chunkIndex: number = 0;
+
+    const encryptChunkAsync = async (chunk: BufferProxy, isFinal: boolean): Promise<BufferProxy> => {
+        return BufferProxy.from(await cipher.encryptChunkAsync(chunk, chunkIndex++, isFinal));
+    };
+
+    return new Transform({
+        construct(callback) {
+            this.push(BufferProxy.from(cipher.header));
+            callback();
+        },
+        transform(data: BufferProxy, _encoding, callback) {
+            pending = BufferProxy.concat([pending, data]);
+
+            // last chunk is kept until the stream ends as it needs to be marked as final
+            const encryptPendingAsync = async (): Promise<void> => {
+                while (pending.length > cipher.chunkSize) {
+                    const chunk = pending.subarray(0, cipher.chunkSize);
+                    pending = pending.subarray(cipher.chunkSize);
+                    this.push(await encryptChunkAsync(chunk, false));
+                }
+            };
+
+            encryptPendingAsync().then(
+                () => callback(),
+                (error: unknown) => callback(error as Error)
+            );
+        },
+        flush(callback) {
+            encryptChunkAsync(pending, true).then(
+                (chunk) => callback(null, chunk),
+                (error: unknown) => callback(error as Error)
+            );
+        }
+    });
+}
+
+export async function isEncryptedFileAsync(filename: string): Promise<boolean> {
+    const fileHandle = await open(filename, 'r');
+
+    try {
+        const header = BufferProxy.alloc(encryptionHeaderLength);
+        await fileHandle.read(header, 0, encryptionHeaderLength, 0);
+        return isEncryptedPackage(header);
+    } finally {
+        await fileHandle.close();
+    }
+}
+
+/**
+ * Returns function opening encrypted zip file for random access. Key is derived only once so that the file can be cheaply
+ * opened again for each read. Only chunks needed to read requested entries are decrypted.
+ */
+export async function getEncryptedZipFileOpenerAsync(
+    filename: string,
+    key: EncryptionKey,
+    options: yauzl.Options
+): Promise<() => Promise<yauzl.ZipFile>> {
+    const fileHandle = await open(filename, 'r');
+    const header = BufferProxy.alloc(encryptionHeaderLength);
+
+    try {
+        await fileHandle.read(header, 0, encryptionHeaderLength, 0);
+    } finally {
+        await fileHandle.close();
+    }
+
+    const cipher = await getPackageCipherAsync(key, header);
+
+    return async () => {
+        const fileHandle = await open(filename, 'r');
+
+        try {
+            const encryptedDataLength = (await fileHandle.stat()).size - encryptionHeaderLength;
+            const chunksCount = getEncryptedChunksCount(encryptedDataLength, cipher.chunkSize);
+            const reader = new DecryptingFileReader(fileHandle, cipher, encryptedDataLength);
+
+            // reader & its file handle are closed once the zip file is closed & all its read streams end
+            return await yauzl.fromRandomAccessReaderPromise(reader, encryptedDataLength - chunksCount * encryptionTagLength, options);
+        } catch (error) {
+            await fileHandle.close();
+            throw error;
+        }
+    };
+}
+
+class DecryptingFileReader extends yauzl.RandomAccessReader {
+    private readonly chunksCount: number;
+    // entries are read in small ranges, so the last decrypted chunk is kept to avoid decrypting it for every range
+    private lastChunk: { readonly index: number; readonly data: Promise<BufferProxy> } | undefined;
+
+    constructor(
+        private readonly fileHandle: FileHandle,
+        private readonly cipher: PackageCipher,
+        private readonly encryptedDataLength: number
+    ) {
+        super();
+        this.chunksCount = getEncryptedChunksCount(encryptedDataLength, cipher.chunkSize);
+    }
+
+    override _readStreamForRange(start: number, end: number): Readable {
+        return Readable.from(this.readRangeAsync(start, end));
+    }
+
+    override close(callback: (err: Error | null) => void): void {
+        this.fileHandle.close().then(
+            () => callback(null),
+            (error: unknown) => callback(error as Error)
+        );
+    }
+
+    private async *readRangeAsync(start: number, end: number): AsyncGenerator<BufferProxy> {
+        const chunkSize = this.cipher.chunkSize;
+
+        for (let index = Math.floor(start / chunkSize); index * chunkSize < end; index++) {
+            const chunk = await this.readChunkAsync(index);
+            const chunkStart = index * chunkSize;
+
+            yield chunk.subarray(Math.max(0, start - chunkStart), Math.min(chunk.length, end - chunkStart));
+        }
+    }
+
+    private async readChunkAsync(index: number): Promise<BufferProxy> {
+        if (this.lastChunk?.index !== index) {
+            this.lastChunk = { index: index, data: this.decryptChunkAsync(index) };
+        }
+
+        return await this.lastChunk.data;
+    }
+
+    private async decryptChunkAsync(index: number): Promise<BufferProxy> {
+        const encryptedChunkSize = this.cipher.chunkSize + encryptionTagLength;
+        const position = index * encryptedChunkSize;
+        const length = Math.min(encryptedChunkSize, this.encryptedDataLength - position);
+        const encryptedChunk = BufferProxy.alloc(length);
+
+        await this.fileHandle.read(encryptedChunk, 0, length, encryptionHeaderLength + position);
+
+        return BufferProxy.from(await this.cipher.decryptChunkAsync(encryptedChunk, index, index === this.chunksCount - 1));
+    }
+}
@@ -0,0 +1,311 @@
+import { Buffer as BufferProxy } from 'buffer';
+import chalk from 'chalk';
+import { createHash } from 'crypto';
+import { createWriteStream } from 'fs';
+import { createInterface } from 'readline';
+import { pipeline, Readable, Transform } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import yauzl from 'yauzl';
+import yazl from 'yazl';
+import { z } from 'zod';
+import {
+    EncryptionKey,
+    JsonLine,
+    Logger,
+    MigrationAsset,
+    MigrationBinaryData,
+    MigrationContentModelSchema,
+    MigrationData,
+    ZipMigrationAssetSchema,
+    ZipMigrationAssetsSchema,
+    formatBytes,
+    getJsonLines,
+    getPackageManifest,
+    isLazyBinaryData,
+    loadBinaryDataAsync,
+    packageManifestFilename,
+    parseMigrationItems,
+    readJsonLinesAsync,
+    upgradePackageData,
+    verifyPackageManifestAsync
+} from '../core/index.js';
+import { createEncryptionStreamAsync, getEncryptedZipFileOpenerAsync, isEncryptedFileAsync } from './zip-encryption.js';
+import { FileBinaryData, ZipStoreConfig, zipPackageFilenames } from './zip.models.js';
+
+type ZipAssetRecord = z.infer<typeof ZipMigrationAssetSchema>;
+
+/**
+ * Reads & writes zip packages on file system without holding asset binaries in memory. Binaries are streamed
+ * into the archive one by one and are streamed out of the archive only when they are requested.
+ */
+export function zipFileManager(logger: Logger) {
+    const getAssetFilePath = (asset: MigrationAsset): string => {
+        return `${zipPackageFilenames.binaryDataFolder}/${asset.codename.slice(0, 2)}/${asset.codename}/${asset.filename}`;
+    };
+
+    const toBufferAsync = async (data: FileBinaryData): Promise<BufferProxy> => {
+        return data instanceof Blob ? BufferProxy.from(await data.arrayBuffer()) : data;
+    };
+
+    const toJsonBuffer = (data: unknown): BufferProxy => {
+        return BufferProxy.from(JSON.stringify(data));
+    };
+
+    const getAssetRecords = (assets: readonly MigrationAsset[]): readonly ZipAssetRecord[] => {
+        return assets.map<ZipAssetRecord>((asset) => {
+            return {
+                _zipFilename: getAssetFilePath(asset),
+                filename: asset.filename,
+                title: asset.title,
+                codename: asset.codename,
+                collection: asset.collection,
+                descriptions: asset.descriptions,
+                folder: asset.folder
+            };
+        });
+    };
+
+    const addLazyEntry = (zipFile: yazl.ZipFile, entryName: string, openStreamAsync: () => Promise<Readable>): void => {
+        zipFile.addReadStreamLazy(entryName, (callback) => {
+            openStreamAsync().then(
+                (stream) => {
+                    // zip file does not listen to errors of added streams (i.e. failed download)
+                    stream.once('error', (error) => zipFile.emit('error', error));
+                    callback(null, stream);
+                },
+                (error: unknown) => callback(error, Readable.from([]))
+            );
+        });
+    };
+
+    const openBinaryDataStreamAsync = async (binaryData: MigrationBinaryData): Promise<Readable> => {
+        if (isLazyBinaryData(binaryData) && binaryData.openStreamAsync) {
+            return await binaryData.openStreamAsync();
+        }
+
+        return Readable.from([await toBufferAsync(await loadBinaryDataAsync(binaryData))]);
+    };
+
+    /**
+     * Checksum is computed as the data flows into the archive
+     */
+    const getChecksumStream = (onChecksum: (checksum: string) => void): Transform => {
+        const hash = createHash('sha256');
+
+        return new Transform({
+            transform(chunk: BufferProxy, _encoding, callback) {
+                hash.update(chunk);
+                callback(null, chunk);
+            },
+            flush(callback) {
+                onChecksum(hash.digest('hex'));
+                callback();
+            }
+        });
+    };
+
+    const getZipFileOpenerAsync = async (
+        filename: string,
+        encryptionKey: EncryptionKey | undefined
+    ): Promise<() => Promise<yauzl.ZipFile>> => {
+        const zipOptions: yauzl.Options = { lazyEntries: true, autoClose: false };
+
+        if (encryptionKey) {
+            return await getEncryptedZipFileOpenerAsync(filename, encryptionKey, zipOptions);
+        }
+
+        if (await isEncryptedFileAsync(filename)) {
+            throw Error(`Package '${chalk.red(filename)}' is encrypted. Provide encryption key to load it`);
+        }
+
+        return async () => await yauzl.openPromise(filename, zipOptions);
+    };
+
+    const storeZipFileAsync = async (filename: string, data: MigrationData, config?: ZipStoreConfig): Promise<void> => {
+        const encryptionStream = config?.encryptionKey ? await createEncryptionStreamAsync(config.encryptionKey) : undefined;
+        const zipFile = new yazl.ZipFile();
+        const writeStream = createWriteStream(filename);
+
+        logger.log({
+            type: 'writeFs',
+            message: `Streaming zip package into '${chalk.yellow(filename)}'`
+        });
+
+        if (config?.itemsFormat === 'jsonl') {
+            zipFile.addReadStream(Readable.from(getJsonLines(data.items)), zipPackageFilenames.itemsJsonLines);
+        } else {
+            zipFile.addBuffer(toJsonBuffer(data.items), zipPackageFilenames.items);
+        }
+        zipFile.addBuffer(toJsonBuffer(getAssetRecords(data.assets)), zipPackageFilenames.assets);
+
+        if (data.contentModel) {
+            zipFile.addBuffer(toJsonBuffer(data.contentModel), zipPackageFilenames.contentModel);
+        }
+
+        const checksums: Record<string, string> = {};
+
+        for (const asset of data.assets) {
+            // binary data is streamed only once the archive is ready to write it
+            addLazyEntry(zipFile, getAssetFilePath(asset), async () => {
+                return pipeline(
+                    await openBinaryDataStreamAsync(asset.binary_data),
+                    getChecksumStream((checksum) => (checksums[asset.codename] = checksum)),
+                    () => {}
+                );
+            });
+        }
+
+        // manifest is written last as it contains checksums of all binaries
+        addLazyEntry(zipFile, packageManifestFilename, () =>
+            Promise.resolve(Readable.from([toJsonBuffer(getPackageManifest(data, checksums))]))
+        );
+
+        zipFile.end();
+
+        await new Promise<void>((resolve, reject) => {
+            zipFile.on('error', (error: unknown) => {
+                writeStream.destroy();
+                reject(error instanceof Error ? error : Error(`Failed to create zip '${filename}'`));
+            });
+
+            (encryptionStream
+                ? pipelineAsync(zipFile.outputStream, encryptionStream, writeStream)
+                : pipelineAsync(zipFile.outputStream, writeStream)
+            ).then(resolve, reject);
+        });
+
+        logger.log({
+            type: 'info',
+            message: `Zip successfully generated (${chalk.yellow(formatBytes(writeStream.bytesWritten))})`
+        });
+    };
+
+    const parseZipFileAsync = async (filename: string, config?: Pick<ZipStoreConfig, 'encryptionKey'>): Promise<MigrationData> => {
+        logger.log({
+            type: 'readFs',
+            message: `Reading zip package '${chalk.yellow(filename)}'`
+        });
+
+        const openZipFileAsync = await getZipFileOpenerAsync(filename, config?.encryptionKey);
+        const zipFile = await openZipFileAsync();
+
+        try {
+            return await readZipFileAsync(zipFile, openZipFileAsync);
+        } finally {
+            zipFile.close();
+        }
+    };
+
+    const readZipFileAsync = async (zipFile: yauzl.ZipFile, openZipFileAsync: () => Promise<yauzl.ZipFile>): Promise<MigrationData> => {
+        const entries = new Map<string, yauzl.Entry>();
+
+        for await (const entry of zipFile.eachEntry()) {
+            entries.set(entry.fileName, entry);
+        }
+
+        const readEntryAsync = async (entryZipFile: yauzl.ZipFile, entry: yauzl.Entry): Promise<BufferProxy> => {
+            const chunks: BufferProxy[] = [];
+
+            for await (const chunk of await entryZipFile.openReadStreamPromise(entry)) {
+                chunks.push(chunk as BufferProxy);
+            }
+
+            return BufferProxy.concat(chunks);
+        };
+
+        /**
+         * Binaries are read lazily during import, each through its own instance of zip file. Such instance is closed
+         * as soon as its read stream ends so that no file handle is kept open
+         */
+        const openEntryStreamAsync = async (entry: yauzl.Entry): Promise<Readable> => {
+            const entryZipFile = await openZipFileAsync();
+
+            try {
+                return await entryZipFile.openReadStreamPromise(entry);
+            } finally {
+                entryZipFile.close();
+            }
+        };
+
+        const readJsonAsync = async (entryName: string): Promise<unknown> => {
+            const entry = entries.get(entryName);
+            return entry ? (JSON.parse((await readEntryAsync(zipFile, entry)).toString()) as unknown) : undefined;
+        };
+
+        const readJsonLinesEntryAsync = async (entryName: string): Promise<readonly JsonLine[] | undefined> => {
+            const entry = entries.get(entryName);
+
+            if (!entry) {
+                return undefined;
+            }
+
+            const lines: JsonLine[] = [];
+            const lineReader = createInterface({ input: await zipFile.openReadStreamPromise(entry), crlfDelay: Infinity });
+
+            for await (const line of readJsonLinesAsync(lineReader)) {
+                lines.push(line);
+            }
+
+            return lines;
+        };
+
+        const manifest = await readJsonAsync(packageManifestFilename);
+        const itemLines = await readJsonLinesEntryAsync(zipPackageFilenames.itemsJsonLines);
+        const rawData = upgradePackageData({
+            manifest: manifest,
+            data: {
+                items: itemLines ? itemLines.map((line) => line.value) : await readJsonAsync(zipPackageFilenames.items),
+                assets: await readJsonAsync(zipPackageFilenames.assets),
+                contentModel: await readJsonAsync(zipPackageFilenames.contentModel)
+            },
+            logger: logger
+        });
+
+        const assetRecords = ZipMigrationAssetsSchema.parse(rawData.assets ?? []);
+
+        const assets = assetRecords.map<MigrationAsset>((assetRecord) => {
+            const entry = entries.get(assetRecord._zipFilename);
+
+            if (!entry) {
+                throw Error(`Could not load binary data for file '${chalk.red(assetRecord._zipFilename)}'`);
+            }
+
+            return {
+                codename: assetRecord.codename,
+                filename: assetRecord.filename,
+                collection: assetRecord.collection,
+                title: assetRecord.title,
+                descriptions: assetRecord.descriptions,
+                folder: assetRecord.folder,
+                binary_data: {
+                    size: entry.uncompressedSize,
+                    loadAsync: async () => {
+                        const entryZipFile = await openZipFileAsync();
+
+                        try {
+                            return await readEntryAsync(entryZipFile, entry);
+                        } finally {
+                            entryZipFile.close();
+                        }
+                    },
+                    openStreamAsync: async () => await openEntryStreamAsync(entry)
+                }
+            };
+        });
+
+        return await verifyPackageManifestAsync({
+            manifest: manifest,
+            data: {
+                items: parseMigrationItems(rawData.items, itemLines),
+                assets: assets,
+                contentModel: rawData.contentModel ? MigrationContentModelSchema.parse(rawData.contentModel) : undefined
+            },
+            logger: logger
+        });
+    };
+
+    return {
+        storeZipFileAsync,
+        parseZipFileAsync
+    };
+}
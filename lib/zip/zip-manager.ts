@@ -1,32 +1,58 @@
 import { Buffer as BufferProxy } from 'buffer';
 import JSZip from 'jszip';
-import { Logger, MigrationData, getDefaultLogger } from '../core/index.js';
+import { Logger, MigrationData, decryptPackageAsync, encryptPackageAsync, getDefaultLogger, isEncryptedPackage } from '../core/index.js';
 import { zipPackager } from './zip-packager.js';
 import { zipTransformer } from './zip-transformer.js';
-import { FileBinaryData } from './zip.models.js';
+import { FileBinaryData, ZipStoreConfig } from './zip.models.js';
 
 export function zipManager(logger?: Logger) {
     const loggerToUse = logger ?? getDefaultLogger();
 
-    const createZipAsync = async (migrationData: MigrationData): Promise<FileBinaryData> => {
+    const createZipAsync = async (migrationData: MigrationData, config?: ZipStoreConfig): Promise<FileBinaryData> => {
         loggerToUse.log({
             type: 'info',
             message: `Creating zip package`
         });
 
-        return await zipTransformer(zipPackager(new JSZip()), loggerToUse).transformAsync(migrationData);
+        const zipData = await zipTransformer(zipPackager(new JSZip()), loggerToUse).transformAsync(migrationData, {
+            itemsFormat: config?.itemsFormat
+        });
+
+        if (!config?.encryptionKey) {
+            return zipData;
+        }
+
+        loggerToUse.log({
+            type: 'info',
+            message: `Encrypting zip package`
+        });
+
+        const encryptedData = await encryptPackageAsync(await toBytesAsync(zipData), config.encryptionKey);
+        return zipData instanceof Blob ? new Blob([encryptedData]) : BufferProxy.from(encryptedData);
     };
 
-    const parseZipAsync = async (zipFile: BufferProxy): Promise<MigrationData> => {
+    const parseZipAsync = async (zipFile: FileBinaryData, config?: Pick<ZipStoreConfig, 'encryptionKey'>): Promise<MigrationData> => {
         loggerToUse.log({
             type: 'info',
             message: `Parsing zip file`
         });
 
-        const zipPackage = zipPackager(await JSZip.loadAsync(zipFile, {}));
+        const zipData = await toBytesAsync(zipFile);
+
+        if (isEncryptedPackage(zipData) && !config?.encryptionKey) {
+            throw Error(`Package is encrypted. Provide encryption key to load it`);
+        }
+
+        const zipPackage = zipPackager(
+            await JSZip.loadAsync(config?.encryptionKey ? await decryptPackageAsync(zipData, config.encryptionKey) : zipData, {})
+        );
         return await zipTransformer(zipPackage, loggerToUse).parseAsync();
     };
 
+    const toBytesAsync = async (data: FileBinaryData): Promise<Uint8Array> => {
+        return data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data;
+    };
+
     return {
         createZipAsync,
         parseZipAsync
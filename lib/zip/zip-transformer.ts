@@ -1,25 +1,39 @@
 import chalk from 'chalk';
 import { z } from 'zod';
 import {
+    ItemsFormat,
+    JsonLine,
     Logger,
     MigrationAsset,
+    MigrationContentModel,
+    MigrationContentModelSchema,
     MigrationData,
     MigrationItem,
-    MigrationItemsSchema,
     ZipMigrationAssetSchema,
     ZipMigrationAssetsSchema,
+    getChecksumAsync,
     getDefaultLogger,
-    mapAsync
+    getPackageManifest,
+    loadBinaryDataAsync,
+    mapAsync,
+    packageManifestFilename,
+    parseMigrationItems,
+    readJsonLinesAsync,
+    toJsonLines,
+    upgradePackageData,
+    verifyPackageManifestAsync
 } from '../core/index.js';
-import { FileBinaryData, ZipPackager } from './zip.models.js';
+import { FileBinaryData, ZipPackager, zipPackageFilenames } from './zip.models.js';
 
 type ZipAssetRecord = z.infer<typeof ZipMigrationAssetSchema>;
 
 export function zipTransformer(zip: ZipPackager, logger?: Logger) {
     const loggerToUse: Logger = logger ?? getDefaultLogger();
-    const filename: string = 'items.json';
-    const assetsFilename: string = 'assets.json';
-    const assetsBinaryFolderName: string = 'binary_data';
+    const filename: string = zipPackageFilenames.items;
+    const jsonLinesFilename: string = zipPackageFilenames.itemsJsonLines;
+    const assetsFilename: string = zipPackageFilenames.assets;
+    const contentModelFilename: string = zipPackageFilenames.contentModel;
+    const assetsBinaryFolderName: string = zipPackageFilenames.binaryDataFolder;
 
     const getAssetFolderConfig = (asset: MigrationAsset): { readonly partialColder: string; readonly fullPath: string } => {
         const codenamePartialFolder: string = asset.codename.slice(0, 2);
@@ -29,15 +43,21 @@ export function zipTransformer(zip: ZipPackager, logger?: Logger) {
         };
     };
 
-    const transformItems = (items: readonly MigrationItem[]): void => {
+    const transformItems = (items: readonly MigrationItem[], itemsFormat: ItemsFormat): void => {
+        if (itemsFormat === 'jsonl') {
+            zip.addFile(jsonLinesFilename, toJsonLines(items));
+            return;
+        }
+
         zip.addFile(filename, items.length ? JSON.stringify(items) : '[]');
     };
 
-    const transformAssets = (assets: readonly MigrationAsset[]): void => {
+    const transformAssetsAsync = async (assets: readonly MigrationAsset[]): Promise<Readonly<Record<string, string>>> => {
         const assetRecords: ZipAssetRecord[] = [];
+        const checksums: Record<string, string> = {};
         const binaryDataFolder = zip.addFolder(assetsBinaryFolderName);
 
-        assets.forEach((asset) => {
+        for (const asset of assets) {
             const folderConfig = getAssetFolderConfig(asset);
             const partialFolder = binaryDataFolder.addFolder(folderConfig.partialColder);
             const codenameFolder = partialFolder.addFolder(asset.codename);
@@ -52,33 +72,50 @@ export function zipTransformer(zip: ZipPackager, logger?: Logger) {
                 folder: asset.folder
             });
 
-            if (asset.binary_data) {
-                codenameFolder.addFile(asset.filename, asset.binary_data);
-            }
-        });
+            const binaryData = await loadBinaryDataAsync(asset.binary_data);
+            checksums[asset.codename] = await getChecksumAsync(binaryData);
+            codenameFolder.addFile(asset.filename, binaryData);
+        }
 
         zip.addFile(assetsFilename, JSON.stringify(assetRecords));
+
+        return checksums;
     };
 
-    const parseItems = async () => {
-        const content = await zip.getFileContentAsync(filename);
+    const transformManifest = (data: MigrationData, checksums: Readonly<Record<string, string>>): void => {
+        zip.addFile(packageManifestFilename, JSON.stringify(getPackageManifest(data, checksums)));
+    };
 
-        if (!content) {
-            return [];
+    const transformContentModel = (contentModel: MigrationContentModel | undefined): void => {
+        if (!contentModel) {
+            return;
         }
 
-        return MigrationItemsSchema.parse(JSON.parse(content));
+        zip.addFile(contentModelFilename, JSON.stringify(contentModel));
+    };
+
+    const parseJsonAsync = async (jsonFilename: string): Promise<unknown> => {
+        const content = await zip.getFileContentAsync(jsonFilename);
+        return content ? (JSON.parse(content) as unknown) : undefined;
     };
 
-    const parseAssets = async () => {
-        const content = await zip.getFileContentAsync(assetsFilename);
+    const parseJsonLinesAsync = async (jsonLinesFilename: string): Promise<readonly JsonLine[] | undefined> => {
+        const content = await zip.getFileContentAsync(jsonLinesFilename);
+
+        if (content === undefined) {
+            return undefined;
+        }
+
+        const lines: JsonLine[] = [];
 
-        if (!content) {
-            return [];
+        for await (const line of readJsonLinesAsync(content.split('\n'))) {
+            lines.push(line);
         }
 
-        const assetRecords = ZipMigrationAssetsSchema.parse(JSON.parse(content));
+        return lines;
+    };
 
+    const parseAssetsAsync = async (assetRecords: readonly ZipAssetRecord[]): Promise<readonly MigrationAsset[]> => {
         return await mapAsync(assetRecords, async (assetRecord) => {
             const binaryFile = await zip.getBinaryDataAsync(`${assetRecord._zipFilename}`);
 
@@ -101,21 +138,36 @@ export function zipTransformer(zip: ZipPackager, logger?: Logger) {
     };
 
     return {
-        async transformAsync(data: MigrationData): Promise<FileBinaryData> {
-            transformItems(data.items);
-            transformAssets(data.assets);
+        async transformAsync(data: MigrationData, config?: { readonly itemsFormat?: ItemsFormat }): Promise<FileBinaryData> {
+            transformItems(data.items, config?.itemsFormat ?? 'json');
+            const checksums = await transformAssetsAsync(data.assets);
+            transformContentModel(data.contentModel);
+            transformManifest(data, checksums);
 
             return await zip.generateZipAsync({ logger: loggerToUse });
         },
         async parseAsync(): Promise<MigrationData> {
-            const items = await parseItems();
-            const assets = await parseAssets();
+            const manifest = await parseJsonAsync(packageManifestFilename);
+            const itemLines = await parseJsonLinesAsync(jsonLinesFilename);
+            const rawData = upgradePackageData({
+                manifest: manifest,
+                data: {
+                    items: itemLines ? itemLines.map((line) => line.value) : await parseJsonAsync(filename),
+                    assets: await parseJsonAsync(assetsFilename),
+                    contentModel: await parseJsonAsync(contentModelFilename)
+                },
+                logger: loggerToUse
+            });
 
-            const migrationData: MigrationData = {
-                assets: assets,
-                items: items
-            };
-            return migrationData;
+            return await verifyPackageManifestAsync({
+                manifest: manifest,
+                data: {
+                    items: parseMigrationItems(rawData.items, itemLines),
+                    assets: await parseAssetsAsync(ZipMigrationAssetsSchema.parse(rawData.assets ?? [])),
+                    contentModel: rawData.contentModel ? MigrationContentModelSchema.parse(rawData.contentModel) : undefined
+                },
+                logger: loggerToUse
+            });
         }
     };
 }
@@ -1,7 +1,23 @@
 import { Buffer as BufferProxy } from 'buffer';
-import { Logger } from '../core/index.js';
+import { EncryptionKey, ItemsFormat, Logger } from '../core/index.js';
 
 export type FileBinaryData = BufferProxy | Blob;
+export const zipPackageFilenames = {
+    items: 'items.json',
+    itemsJsonLines: 'items.jsonl',
+    assets: 'assets.json',
+    contentModel: 'content-model.json',
+    binaryDataFolder: 'binary_data'
+} as const;
+
+export interface ZipStoreConfig {
+    readonly encryptionKey?: EncryptionKey;
+    /**
+     * Items are stored as a single json array in 'items.json' by default or one item per line in 'items.jsonl'
+     */
+    readonly itemsFormat?: ItemsFormat;
+}
+
 export type ZipCompressionLevel = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
 
 export type ZipPackager = {
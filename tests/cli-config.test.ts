@@ -0,0 +1,95 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { argumentsFetcherAsync } from '../lib/node/cli/args/args-fetcher.js';
+import { argumentsSetter } from '../lib/node/cli/args/args-setter.js';
+
+describe('Cli config', () => {
+    let folder: string = '';
+    let configFilename: string = '';
+
+    beforeAll(async () => {
+        folder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+        configFilename = join(folder, 'kontent-migration.config.json');
+
+        await writeFile(
+            configFilename,
+            JSON.stringify({
+                sourceEnvironmentId: 'config',
+                language: 'en',
+                profiles: {
+                    staging: { sourceEnvironmentId: 'staging', retries: 'many' }
+                }
+            })
+        );
+    });
+
+    afterAll(async () => {
+        await rm(folder, { recursive: true, force: true });
+    });
+
+    const env = {
+        KONTENT_SOURCE_API_KEY: 'env',
+        KONTENT_SOURCE_ENVIRONMENT_ID: 'env',
+        KONTENT_ITEMS: 'a,b'
+    };
+
+    it('Resolves values from command line, then config profile, then config & then env variables', async () => {
+        const argsFetcher = await argumentsFetcherAsync({
+            argv: ['export', '--sourceApiKey=cli', `--config=${configFilename}`, '--profile=staging'],
+            env: env
+        });
+
+        expect(argsFetcher.getRequiredArgumentValue('sourceApiKey')).toStrictEqual('cli');
+        expect(argsFetcher.getRequiredArgumentValue('sourceEnvironmentId')).toStrictEqual('staging');
+        expect(argsFetcher.getRequiredArgumentValue('language')).toStrictEqual('en');
+        expect(argsFetcher.getRequiredArgumentValue('items')).toStrictEqual('a,b');
+        expect(argsFetcher.getArgumentSource('items')).toStrictEqual({ type: 'env', variable: 'KONTENT_ITEMS' });
+        expect(argsFetcher.getArgumentSource('language')).toStrictEqual({ type: 'config', filename: configFilename, profile: 'staging' });
+
+        await expect(
+            argumentsFetcherAsync({ argv: ['export', `--config=${configFilename}`, '--profile=production'], env })
+        ).rejects.toThrow(/does not exist/);
+    });
+
+    it('Reports source of invalid & missing values', async () => {
+        const argsFetcher = await argumentsFetcherAsync({
+            argv: ['export', `--config=${configFilename}`, '--profile=staging'],
+            env: {}
+        });
+
+        const setter = argumentsSetter().withCommand({
+            name: 'export',
+            description: '',
+            examples: [],
+            options: [
+                { name: 'sourceApiKey', isRequired: true },
+                { name: 'retries', type: 'number', isRequired: false }
+            ]
+        });
+
+        expect(() => setter.validateArguments(argsFetcher)).toThrow(/KONTENT_SOURCE_API_KEY[\s\S]*many[\s\S]*profile/);
+    });
+
+    it('Loads TypeScript config', async () => {
+        const tsConfigFilename = join(folder, 'kontent-migration.config.ts');
+
+        await writeFile(
+            tsConfigFilename,
+            [
+                `interface Config { readonly sourceEnvironmentId: string; readonly profiles: Record<string, Record<string, string>> }`,
+                `const config: Config = { sourceEnvironmentId: 'ts', profiles: { staging: { language: 'de' } } };`,
+                `export default config;`
+            ].join('\n')
+        );
+
+        const argsFetcher = await argumentsFetcherAsync({
+            argv: ['export', `--config=${tsConfigFilename}`, '--profile=staging'],
+            env: {}
+        });
+
+        expect(argsFetcher.getRequiredArgumentValue('sourceEnvironmentId')).toStrictEqual('ts');
+        expect(argsFetcher.getRequiredArgumentValue('language')).toStrictEqual('de');
+    });
+});
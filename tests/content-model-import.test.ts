@@ -0,0 +1,156 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { importAsync, Logger, MigrationData, mockManagementApiAsync, MockManagementApi } from '../lib/index.js';
+
+describe('Content model import', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [{ codename: 'marketing', name: 'Marketing' }],
+            assetFolders: [],
+            taxonomies: [{ codename: 'category', name: 'Category', terms: [{ codename: 'news', name: 'News', terms: [] }] }],
+            contentTypeSnippets: [
+                {
+                    codename: 'seo',
+                    name: 'SEO',
+                    elements: [
+                        {
+                            codename: 'seo__title',
+                            type: 'text',
+                            name: 'SEO title',
+                            maximum_text_length: { value: 60, applies_to: 'characters' }
+                        }
+                    ]
+                }
+            ],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [
+                        { codename: 'title', type: 'text', name: 'Title', is_required: true },
+                        { codename: 'instructions', type: 'guidelines', guidelines: '<p>Keep it short</p>' },
+                        { codename: 'body', type: 'rich_text', name: 'Body', allowed_content_types: [{ codename: 'article' }] },
+                        { codename: 'rating', type: 'number', name: 'Rating' },
+                        {
+                            codename: 'format',
+                            type: 'multiple_choice',
+                            name: 'Format',
+                            mode: 'single',
+                            options: [{ codename: 'short', name: 'Short' }]
+                        },
+                        { codename: 'category', type: 'taxonomy', taxonomy_group: { codename: 'category' } },
+                        { codename: 'seo', type: 'snippet', snippet: { codename: 'seo' } },
+                        { codename: 'slug', type: 'url_slug', name: 'Slug', depends_on: { element: { codename: 'title' } } }
+                    ]
+                }
+            ]
+        },
+        items: [
+            {
+                system: {
+                    codename: 'first',
+                    name: 'First',
+                    language: { codename: 'default' },
+                    type: { codename: 'article' },
+                    collection: { codename: 'marketing' },
+                    workflow: { codename: 'default' }
+                },
+                versions: [
+                    {
+                        workflow_step: { codename: 'draft' },
+                        elements: {
+                            title: { type: 'text', value: 'First' },
+                            body: { type: 'rich_text', value: '<p>Body</p>', components: [] },
+                            rating: { type: 'number', value: 5 },
+                            format: { type: 'multiple_choice', value: [{ codename: 'short' }] },
+                            category: { type: 'taxonomy', value: [{ codename: 'news' }] },
+                            seo__title: { type: 'text', value: 'SEO' },
+                            slug: { type: 'url_slug', value: 'first', mode: 'custom' }
+                        }
+                    }
+                ]
+            }
+        ],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+    });
+
+    it('Content model is created with mapped codenames before items are imported', async () => {
+        const importResult = await importAsync({
+            ...api.clientConfig,
+            data: data,
+            importContentModel: true,
+            mapping: {
+                contentTypes: { article: 'blog_post' },
+                elements: { article: { title: 'headline' } }
+            },
+            logger: logger
+        });
+
+        expect(importResult.languageVariants.map((m) => m.state)).toStrictEqual(['valid']);
+        expect(api.state.collections.map((m) => m.codename)).toStrictEqual(['default', 'marketing']);
+        expect(api.state.taxonomies.map((m) => m.codename)).toStrictEqual(['category']);
+        expect(api.state.snippets.map((m) => m.codename)).toStrictEqual(['seo']);
+
+        const [contentType] = api.state.types;
+
+        expect(contentType?.codename).toBe('blog_post');
+        expect(contentType?.elements.map((m) => [m.codename, m.type])).toStrictEqual([
+            ['headline', 'text'],
+            ['instructions', 'guidelines'],
+            ['body', 'rich_text'],
+            ['rating', 'number'],
+            ['format', 'multiple_choice'],
+            ['category', 'taxonomy'],
+            ['seo', 'snippet'],
+            ['slug', 'url_slug']
+        ]);
+        // reference to the content type itself can only be set once the type exists
+        expect(contentType?.elements.find((m) => m.codename === 'body')).toMatchObject({
+            allowed_content_types: [{ id: contentType?.id }]
+        });
+    });
+
+    it('Element of unsupported type is refused', async () => {
+        await expect(
+            importAsync({
+                ...api.clientConfig,
+                data: {
+                    items: [],
+                    assets: [],
+                    contentModel: {
+                        collections: [],
+                        assetFolders: [],
+                        taxonomies: [],
+                        contentTypeSnippets: [],
+                        contentTypes: [
+                            {
+                                codename: 'page',
+                                name: 'Page',
+                                content_groups: [],
+                                elements: [{ codename: 'title', type: 'unknown', name: 'Title' }]
+                            }
+                        ]
+                    }
+                },
+                importContentModel: true,
+                logger: logger
+            })
+        ).rejects.toThrow(/unsupported type/);
+        expect(api.state.types.map((m) => m.codename)).toStrictEqual(['blog_post']);
+    });
+});
@@ -0,0 +1,158 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+    csvTransformer,
+    extractCsvAsync,
+    FlattenedContentType,
+    importAsync,
+    Logger,
+    MigrationItem,
+    MigrationItemVersion,
+    mockManagementApiAsync,
+    parseCsv,
+    storeCsvAsync,
+    toCsv
+} from '../lib/index.js';
+
+describe('Csv', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const contentType = {
+        contentTypeCodename: 'article',
+        contentTypeId: 'article_id',
+        elements: [
+            { codename: 'title', id: 'title_id', type: 'text' },
+            { codename: 'body', id: 'body_id', type: 'rich_text' },
+            { codename: 'rating', id: 'rating_id', type: 'number' },
+            { codename: 'slug', id: 'slug_id', type: 'url_slug' },
+            { codename: 'related', id: 'related_id', type: 'modular_content' },
+            { codename: 'teaser', id: 'teaser_id', type: 'asset' }
+        ]
+    } as unknown as FlattenedContentType;
+
+    const item: MigrationItem = {
+        system: {
+            codename: 'item',
+            name: 'Item, "quoted"',
+            language: { codename: 'en' },
+            type: { codename: 'article' },
+            collection: { codename: 'default' },
+            workflow: { codename: 'default' }
+        },
+        versions: [
+            {
+                workflow_step: { codename: 'draft' },
+                elements: {
+                    title: { type: 'text', value: 'Title' },
+                    body: { type: 'rich_text', value: '<p>First line,\nsecond "line"</p>' },
+                    rating: { type: 'number', value: 4.5 },
+                    slug: { type: 'url_slug', value: 'title', mode: 'custom' },
+                    related: { type: 'modular_content', value: [{ codename: 'a' }, { codename: 'b' }] },
+                    teaser: { type: 'asset', value: [] }
+                }
+            }
+        ]
+    };
+
+    it('Escapes values with separators, quotes & new lines', () => {
+        const rows = [
+            ['a', 'b,c', 'd"e'],
+            ['multi\r\nline', '', 'f']
+        ];
+
+        expect(parseCsv(toCsv(rows))).toStrictEqual(rows);
+        expect(() => parseCsv('"unterminated')).toThrow(/not terminated/);
+    });
+
+    it('Prefixes values that could be interpreted as formulas', () => {
+        const rows = [['=SUM(A1:A2)', '+1', '-1', '@cmd', `'=quoted`, `it's`]];
+        const csv = toCsv(rows);
+
+        expect(csv).toContain(`'=SUM(A1:A2),'+1,'-1,'@cmd,''=quoted,it's`);
+        expect(parseCsv(csv)).toStrictEqual(rows);
+    });
+
+    it('Round-trips items through csv sheets', () => {
+        const sheets = csvTransformer(logger).transformItems([item]);
+
+        expect(sheets.map((sheet) => sheet.contentTypeCodename)).toStrictEqual(['article']);
+        expect(parseCsv(sheets[0].csv)[1].slice(-2)).toStrictEqual(['a,b', '']);
+        expect(csvTransformer(logger).parseSheet(sheets[0], contentType)).toStrictEqual([item]);
+        expect(() =>
+            csvTransformer(logger).parseSheet({ ...sheets[0], csv: sheets[0].csv.replace('rating', 'unknown') }, contentType)
+        ).toThrow(/does not exist/);
+    });
+
+    it('Stores draft version of items with both published & draft version', () => {
+        const getVersion = (workflowStepCodename: string, title: string): MigrationItemVersion => ({
+            workflow_step: { codename: workflowStepCodename },
+            elements: { title: { type: 'text', value: title } }
+        });
+        const getTitles = (versions: readonly MigrationItemVersion[]): readonly string[] =>
+            csvTransformer(logger)
+                .parseSheet(csvTransformer(logger).transformItems([{ ...item, versions }])[0], contentType)
+                .map((m) => m.versions[0].elements['title'].value as string);
+
+        expect(getTitles([getVersion('published', 'Published'), getVersion('draft', 'Draft')])).toStrictEqual(['Draft']);
+        expect(getTitles([getVersion('draft', 'Draft'), getVersion('published', 'Published')])).toStrictEqual(['Draft']);
+        expect(getTitles([getVersion('published', 'Published')])).toStrictEqual(['Published']);
+    });
+
+    it('Rows without codename, name or language are refused', () => {
+        const [sheet] = csvTransformer(logger).transformItems([item, { ...item, system: { ...item.system, codename: '' } }]);
+
+        expect(() => csvTransformer(logger).parseSheet(sheet, contentType)).toThrow(
+            /Missing value of column 'system.codename' in row '3' of csv 'article.csv'/
+        );
+    });
+
+    it('Csv files not named after content types of target environment are skipped', async () => {
+        const api = await mockManagementApiAsync();
+        const folder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+        const articleItem: MigrationItem = {
+            ...item,
+            versions: [{ workflow_step: { codename: 'draft' }, elements: { title: { type: 'text', value: 'Title' } } }]
+        };
+
+        try {
+            await importAsync({
+                ...api.clientConfig,
+                data: {
+                    contentModel: {
+                        collections: [],
+                        assetFolders: [],
+                        taxonomies: [],
+                        contentTypeSnippets: [],
+                        contentTypes: [
+                            {
+                                codename: 'article',
+                                name: 'Article',
+                                content_groups: [],
+                                elements: [{ codename: 'title', type: 'text', name: 'Title' }]
+                            }
+                        ]
+                    },
+                    items: [],
+                    assets: []
+                },
+                importContentModel: true,
+                logger: logger
+            });
+
+            await storeCsvAsync({ data: { items: [articleItem], assets: [] }, folder: folder, logger: logger });
+            await writeFile(join(folder, 'notes.csv'), 'note\nunrelated');
+
+            const data = await extractCsvAsync({ ...api.clientConfig, folder: folder, logger: logger });
+
+            expect(data.items).toStrictEqual([articleItem]);
+        } finally {
+            await api.closeAsync();
+            await rm(folder, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,132 @@
+import { Buffer as BufferProxy } from 'buffer';
+import { access, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { importAsync, Logger, MigrationData, MigrationItem, mockManagementApiAsync, MockManagementApi } from '../lib/index.js';
+
+describe('Dry run import', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const getItem = (codename: string, title: string, workflowStepCodename: string): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: codename,
+                language: { codename: 'default' },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: [{ workflow_step: { codename: workflowStepCodename }, elements: { title: { type: 'text', value: title } } }]
+        };
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [{ codename: 'title', type: 'text', name: 'Title' }]
+                }
+            ]
+        },
+        items: [getItem('existing', 'Existing', 'draft')],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+    let journalFolder: string;
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        journalFolder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importAsync({
+            ...api.clientConfig,
+            data: data,
+            importContentModel: true,
+            journalFilename: relative(process.cwd(), join(journalFolder, 'import-journal.jsonl')),
+            changeLogFilename: relative(process.cwd(), join(journalFolder, 'import-changelog.jsonl')),
+            logger: logger
+        });
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(journalFolder, { recursive: true, force: true });
+    });
+
+    it('Dry run plans changes without modifying target environment', async () => {
+        const state = structuredClone(api.state);
+
+        api.requests.length = 0;
+
+        const importResult = await importAsync({
+            ...api.clientConfig,
+            data: {
+                ...data,
+                items: [getItem('existing', 'Existing (edited)', 'published'), getItem('new', 'New', 'draft')],
+                assets: [{ codename: 'image', filename: 'image.txt', title: 'Image', binary_data: BufferProxy.from('binary') }]
+            },
+            importContentModel: true,
+            journalFilename: relative(process.cwd(), join(journalFolder, 'dry-run-journal.jsonl')),
+            dryRun: true,
+            logger: logger
+        });
+
+        expect(importResult.plan?.assets.map((m) => [m.codename, m.action])).toStrictEqual([['image', 'upload']]);
+        expect(importResult.plan?.contentItems.map((m) => [m.codename, m.action])).toStrictEqual([
+            ['existing', 'skip'],
+            ['new', 'create']
+        ]);
+        expect(
+            importResult.plan?.languageVariants.map((m) => [m.codename, m.state, m.actions.map((action) => action.action)])
+        ).toStrictEqual([
+            ['existing', 'exists', ['upsert', 'changeWorkflowStep', 'publish']],
+            ['new', 'doesNotExists', ['upsert', 'changeWorkflowStep']]
+        ]);
+        expect(api.requests.filter((m) => m.method !== 'GET')).toStrictEqual([]);
+        expect(api.state).toStrictEqual(state);
+        await expect(access(join(journalFolder, 'dry-run-journal.jsonl'))).rejects.toThrow();
+    });
+
+    it('Import executes language variant actions of the plan', async () => {
+        const importData: MigrationData = {
+            ...data,
+            items: [getItem('existing', 'Existing (edited)', 'published'), getItem('new', 'New', 'draft')]
+        };
+        const importResult = await importAsync({ ...api.clientConfig, data: importData, dryRun: true, logger: logger });
+
+        api.requests.length = 0;
+
+        await importAsync({
+            ...api.clientConfig,
+            data: importData,
+            journalFilename: relative(process.cwd(), join(journalFolder, 'executed-journal.jsonl')),
+            logger: logger
+        });
+
+        const actionsByRequestPath: Readonly<Record<string, string>> = {
+            default: 'upsert',
+            'change-workflow': 'changeWorkflowStep',
+            publish: 'publish',
+            'new-version': 'createNewVersion'
+        };
+
+        expect(
+            api.requests
+                .filter((m) => m.method === 'PUT' && m.path.includes('/variants/'))
+                .map((m) => actionsByRequestPath[m.path.split('/').pop() ?? ''])
+        ).toStrictEqual(importResult.plan?.languageVariants.flatMap((m) => m.actions.map((action) => action.action)));
+    });
+});
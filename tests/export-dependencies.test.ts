@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { exportAsync, importAsync, Logger, MigrationData, MigrationItem, mockManagementApiAsync, MockManagementApi } from '../lib/index.js';
+
+describe('Export dependencies', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const componentId = randomUUID();
+
+    const getItem = (
+        codename: string,
+        related: readonly string[],
+        body: string = '',
+        components: readonly string[] = []
+    ): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: codename,
+                language: { codename: 'default' },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: [
+                {
+                    workflow_step: { codename: 'draft' },
+                    elements: {
+                        related: { type: 'modular_content', value: related.map((m) => ({ codename: m })) },
+                        body: {
+                            type: 'rich_text',
+                            value: body,
+                            components: components.map((relatedCodename) => ({
+                                system: { id: componentId, type: { codename: 'article' } },
+                                elements: {
+                                    related: { type: 'modular_content', value: [{ codename: relatedCodename }] },
+                                    body: { type: 'rich_text', value: '', components: [] }
+                                }
+                            }))
+                        }
+                    }
+                }
+            ]
+        };
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [
+                        { codename: 'related', type: 'modular_content', name: 'Related' },
+                        { codename: 'body', type: 'rich_text', name: 'Body' }
+                    ]
+                }
+            ]
+        },
+        items: [
+            getItem(
+                'root',
+                ['linked'],
+                `<p><a data-item-codename="linked_in_text">link</a></p><object type="application/kenticocloud" data-type="component" data-id="${componentId}"></object>`,
+                ['linked_in_component']
+            ),
+            getItem('linked', ['nested']),
+            // circular reference back to the root item
+            getItem('nested', ['root']),
+            getItem('linked_in_text', []),
+            getItem('linked_in_component', []),
+            getItem('unrelated', [])
+        ],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+    let journalFolder: string;
+
+    const exportCodenamesAsync = async (includeDependencies: boolean, dependenciesDepth?: number): Promise<readonly string[]> => {
+        const exportedData = await exportAsync({
+            ...api.clientConfig,
+            exportItems: [{ itemCodename: 'root', languageCodename: 'default' }],
+            includeDependencies: includeDependencies,
+            dependenciesDepth: dependenciesDepth,
+            logger: logger
+        });
+
+        return exportedData.items.map((m) => m.system.codename).sort();
+    };
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        journalFolder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importAsync({
+            ...api.clientConfig,
+            data: data,
+            importContentModel: true,
+            journalFilename: relative(process.cwd(), join(journalFolder, 'import-journal.jsonl')),
+            changeLogFilename: relative(process.cwd(), join(journalFolder, 'import-changelog.jsonl')),
+            logger: logger
+        });
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(journalFolder, { recursive: true, force: true });
+    });
+
+    it('Items referenced in linked items, rich text & components are exported until no new items are found', async () => {
+        expect(await exportCodenamesAsync(false)).toStrictEqual(['root']);
+        expect(await exportCodenamesAsync(true)).toStrictEqual(['linked', 'linked_in_component', 'linked_in_text', 'nested', 'root']);
+    });
+
+    it('Dependencies are crawled up to configured depth', async () => {
+        expect(await exportCodenamesAsync(true, 1)).toStrictEqual(['linked', 'linked_in_component', 'linked_in_text', 'root']);
+    });
+});
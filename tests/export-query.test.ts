@@ -0,0 +1,109 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    exportAsync,
+    ExportQuery,
+    importAsync,
+    Logger,
+    MigrationData,
+    MigrationItem,
+    mockManagementApiAsync,
+    MockManagementApi
+} from '../lib/index.js';
+
+describe('Export query', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const getItem = (codename: string, typeCodename: string, collectionCodename: string, workflowStepCodename: string): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: codename,
+                language: { codename: 'default' },
+                type: { codename: typeCodename },
+                collection: { codename: collectionCodename },
+                workflow: { codename: 'default' }
+            },
+            versions: [{ workflow_step: { codename: workflowStepCodename }, elements: { title: { type: 'text', value: codename } } }]
+        };
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [{ codename: 'marketing', name: 'Marketing' }],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: ['article', 'page'].map((codename) => ({
+                codename: codename,
+                name: codename,
+                content_groups: [],
+                elements: [{ codename: 'title', type: 'text', name: 'Title' }]
+            }))
+        },
+        items: [
+            getItem('draft_article', 'article', 'default', 'draft'),
+            getItem('published_article', 'article', 'marketing', 'published'),
+            getItem('draft_page', 'page', 'marketing', 'draft')
+        ],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+    let journalFolder: string;
+
+    const exportCodenamesAsync = async (query: ExportQuery, exportItemCodenames: readonly string[] = []): Promise<readonly string[]> => {
+        const exportedData = await exportAsync({
+            ...api.clientConfig,
+            exportItems: exportItemCodenames.map((itemCodename) => ({ itemCodename, languageCodename: 'default' })),
+            query: query,
+            logger: logger
+        });
+
+        return exportedData.items.map((m) => m.system.codename).sort();
+    };
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        journalFolder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importAsync({
+            ...api.clientConfig,
+            data: data,
+            importContentModel: true,
+            journalFilename: relative(process.cwd(), join(journalFolder, 'import-journal.jsonl')),
+            changeLogFilename: relative(process.cwd(), join(journalFolder, 'import-changelog.jsonl')),
+            logger: logger
+        });
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(journalFolder, { recursive: true, force: true });
+    });
+
+    it('Language variants matching all query conditions are exported', async () => {
+        expect(await exportCodenamesAsync({ contentTypes: ['article'], collections: ['marketing'] })).toStrictEqual(['published_article']);
+        expect(await exportCodenamesAsync({ workflowSteps: ['draft'], languages: ['default'] })).toStrictEqual([
+            'draft_article',
+            'draft_page'
+        ]);
+        expect(await exportCodenamesAsync({ modifiedSince: new Date(Date.now() + 60 * 60 * 1000) })).toStrictEqual([]);
+    });
+
+    it('Query results are merged with explicitly listed export items', async () => {
+        expect(await exportCodenamesAsync({ contentTypes: ['page'] }, ['draft_article', 'draft_page'])).toStrictEqual([
+            'draft_article',
+            'draft_page'
+        ]);
+    });
+
+    it('Query with unknown codename is refused', async () => {
+        await expect(exportCodenamesAsync({ contentTypes: ['unknown'] })).rejects.toThrow(/Invalid content type/);
+    });
+});
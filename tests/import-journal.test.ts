@@ -0,0 +1,109 @@
+import { existsSync } from 'fs';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { importAsync, Logger, MigrationData, MigrationItem, mockManagementApiAsync, MockManagementApi } from '../lib/index.js';
+
+describe('Import journal', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const getItem = (codename: string): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: codename,
+                language: { codename: 'default' },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: [{ workflow_step: { codename: 'draft' }, elements: { title: { type: 'text', value: codename } } }]
+        };
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                { codename: 'article', name: 'Article', content_groups: [], elements: [{ codename: 'title', type: 'text', name: 'Title' }] }
+            ]
+        },
+        items: [getItem('first'), getItem('second')],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+    let folder: string;
+
+    // file paths are relative to working directory
+    const getFilename = (filename: string): string => relative(process.cwd(), join(folder, filename));
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        folder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(folder, { recursive: true, force: true });
+    });
+
+    it('Journal is not written unless configured', async () => {
+        await importAsync({
+            ...api.clientConfig,
+            data: { ...data, items: [getItem('first')] },
+            importContentModel: true,
+            changeLogFilename: getFilename('changelog.jsonl'),
+            logger: logger
+        });
+
+        expect(existsSync('import-journal.jsonl')).toBe(false);
+    });
+
+    it('Resumed import skips objects recorded in journal & keeps appending to it', async () => {
+        const journalFilename = getFilename('import-journal.jsonl');
+
+        await writeFile(
+            journalFilename,
+            [
+                { type: 'contentItem', codename: 'first' },
+                { type: 'languageVariant', codename: 'first', languageCodename: 'default' }
+            ]
+                .map((entry) => `${JSON.stringify(entry)}\n`)
+                .join('')
+        );
+
+        const importResult = await importAsync({
+            ...api.clientConfig,
+            data: data,
+            journalFilename: journalFilename,
+            resumeFrom: journalFilename,
+            changeLogFilename: getFilename('resumed-changelog.jsonl'),
+            logger: logger
+        });
+
+        expect(importResult.languageVariants.map((m) => [m.inputItem.system.codename, m.state])).toStrictEqual([
+            ['first', 'resumed'],
+            ['second', 'valid']
+        ]);
+        expect(
+            (await readFile(journalFilename))
+                .toString()
+                .split('\n')
+                .filter((line) => line.length)
+                .map((line) => JSON.parse(line) as unknown)
+        ).toStrictEqual([
+            { type: 'contentItem', codename: 'first' },
+            { type: 'languageVariant', codename: 'first', languageCodename: 'default' },
+            { type: 'contentItem', codename: 'second' },
+            { type: 'languageVariant', codename: 'second', languageCodename: 'default' }
+        ]);
+    });
+});
@@ -0,0 +1,131 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { importMapper, ImportMapping, Logger, MigrationItem } from '../lib/index.js';
+import { loadImportMappingAsync } from '../lib/node/cli/utils/cli.utils.js';
+
+describe('Import mapper', () => {
+    const item: MigrationItem = {
+        system: {
+            codename: 'item',
+            name: 'Item',
+            language: { codename: 'en' },
+            type: { codename: 'article' },
+            collection: { codename: 'default' },
+            workflow: { codename: 'default' }
+        },
+        versions: [
+            {
+                workflow_step: { codename: 'draft' },
+                elements: {
+                    title: { type: 'text', value: 'Title' },
+                    category: { type: 'taxonomy', value: [{ codename: 'news' }, { codename: 'blog' }] }
+                }
+            }
+        ]
+    };
+
+    const mapper = importMapper({
+        contentTypes: { article: 'blog_post' },
+        elements: { article: { title: 'headline' } },
+        languages: { en: 'en-US' },
+        workflowSteps: { draft: 'copywriting' },
+        taxonomyTerms: { news: 'latest_news' }
+    });
+
+    it('Codenames should be mapped', () => {
+        const [mappedItem] = mapper.mapMigrationData({ assets: [], items: [item] }).data.items;
+
+        expect(mappedItem?.system.type.codename).toStrictEqual('blog_post');
+        expect(mappedItem?.system.language.codename).toStrictEqual('en-US');
+        expect(mappedItem?.system.collection.codename).toStrictEqual('default');
+        expect(mappedItem?.versions[0]?.workflow_step.codename).toStrictEqual('copywriting');
+        expect(Object.keys(mappedItem?.versions[0]?.elements ?? {})).toStrictEqual(['headline', 'category']);
+        expect(mappedItem?.versions[0]?.elements['category']?.value).toStrictEqual([{ codename: 'latest_news' }, { codename: 'blog' }]);
+    });
+
+    it('Applied mappings should be reported', () => {
+        const { appliedMappings } = mapper.mapMigrationData({ assets: [], items: [item, item] });
+
+        expect(appliedMappings.map((m) => `${m.objectType}:${m.from}:${m.to}:${m.count}`)).toStrictEqual([
+            'contentType:article:blog_post:2',
+            'language:en:en-US:2',
+            'workflowStep:draft:copywriting:2',
+            'element:title:headline:2',
+            'taxonomyTerm:news:latest_news:2'
+        ]);
+    });
+
+    it('Content model should be mapped', () => {
+        const { contentModel } = mapper.mapMigrationData({
+            assets: [],
+            items: [],
+            contentModel: {
+                collections: [],
+                assetFolders: [],
+                contentTypeSnippets: [],
+                taxonomies: [{ codename: 'category', name: 'Category', terms: [{ codename: 'news', name: 'News', terms: [] }] }],
+                contentTypes: [
+                    {
+                        codename: 'article',
+                        name: 'Article',
+                        content_groups: [],
+                        elements: [
+                            { codename: 'title', type: 'text', name: 'Title' },
+                            {
+                                codename: 'related',
+                                type: 'modular_content',
+                                name: 'Related',
+                                allowed_content_types: [{ codename: 'article' }]
+                            },
+                            { codename: 'slug', type: 'url_slug', name: 'Slug', depends_on: { element: { codename: 'title' } } }
+                        ]
+                    }
+                ]
+            }
+        }).data;
+
+        expect(contentModel?.taxonomies).toStrictEqual([
+            { codename: 'category', name: 'Category', terms: [{ codename: 'latest_news', name: 'News', terms: [] }] }
+        ]);
+        expect(contentModel?.contentTypes).toStrictEqual([
+            {
+                codename: 'blog_post',
+                name: 'Article',
+                content_groups: [],
+                elements: [
+                    { codename: 'headline', type: 'text', name: 'Title' },
+                    {
+                        codename: 'related',
+                        type: 'modular_content',
+                        name: 'Related',
+                        allowed_content_types: [{ codename: 'blog_post' }],
+                        allowed_item_link_types: undefined
+                    },
+                    { codename: 'slug', type: 'url_slug', name: 'Slug', depends_on: { element: { codename: 'headline' } } }
+                ]
+            }
+        ]);
+    });
+
+    it('Mapping is loaded from TypeScript module', async () => {
+        const logger: Logger = {
+            log: () => {},
+            logWithSpinnerAsync: async (func) => await func(() => {})
+        };
+        const folder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        try {
+            const filename = join(folder, 'mapping.ts');
+            await writeFile(
+                filename,
+                `const mapping: { contentTypes: Record<string, string> } = { contentTypes: { article: 'blog_post' } };\nexport default mapping;`
+            );
+
+            expect(await loadImportMappingAsync(filename, logger)).toStrictEqual<ImportMapping>({ contentTypes: { article: 'blog_post' } });
+        } finally {
+            await rm(folder, { recursive: true, force: true });
+        }
+    });
+});
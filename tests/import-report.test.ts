@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { getImportHtmlReport, getKontentAppItemUrl, ImportReport } from '../lib/index.js';
+
+describe('Import html report', () => {
+    const report: ImportReport = {
+        environmentId: 'environment',
+        errorsCount: 1,
+        appliedMappings: [],
+        assets: { count: 0, successful: [], failed: [] },
+        contentItems: {
+            count: 2,
+            successful: [
+                { codename: 'first', itemId: 'first-id', language: { codename: 'en' }, type: { codename: 'article' } },
+                { codename: 'second', itemId: 'second-id', language: { codename: 'en' }, type: { codename: 'article' } }
+            ],
+            failed: []
+        },
+        languageVariants: {
+            count: 2,
+            successful: [{ codename: 'first', itemId: 'first-id', language: { codename: 'en' }, type: { codename: 'article' } }],
+            skipped: [],
+            failed: [
+                {
+                    codename: 'second',
+                    itemId: 'second-id',
+                    language: { codename: 'en' },
+                    type: { codename: 'article' },
+                    error: `Element 'title' is <invalid>`,
+                    requestUrl: 'https://manage.kontent.ai/v2/projects/environment/items/codename/second/variants/codename/en',
+                    requestData: '{"elements":[]}'
+                }
+            ]
+        }
+    };
+
+    it('Report contains links to items & escaped details of failed objects', () => {
+        const html = getImportHtmlReport(report);
+
+        expect(getKontentAppItemUrl({ environmentId: 'environment', itemId: 'first-id', languageCodename: 'en' })).toBe(
+            'https://app.kontent.ai/goto/edit-item/project/environment/variant-codename/en/item/first-id'
+        );
+        expect(html).toContain('https://app.kontent.ai/goto/edit-item/project/environment/variant-codename/en/item/first-id');
+        expect(html).toContain('https://app.kontent.ai/goto/edit-item/project/environment/variant-codename/en/item/second-id');
+        expect(html).toContain('Failed objects (1)');
+        expect(html).toContain(`Element &#39;title&#39; is &lt;invalid&gt;`);
+        expect(html).toContain('https://manage.kontent.ai/v2/projects/environment/items/codename/second/variants/codename/en');
+        expect(html).toContain('{&quot;elements&quot;:[]}');
+        expect(html).not.toContain('<invalid>');
+    });
+});
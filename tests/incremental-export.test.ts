@@ -0,0 +1,134 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { exportAsync, importAsync, Logger, MigrationData, mockManagementApiAsync, MockManagementApi, SyncState } from '../lib/index.js';
+
+describe('Incremental export', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const system = {
+        language: { codename: 'default' },
+        type: { codename: 'article' },
+        collection: { codename: 'default' },
+        workflow: { codename: 'default' }
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [
+                        { codename: 'title', type: 'text', name: 'Title' },
+                        { codename: 'related', type: 'modular_content', name: 'Related' }
+                    ]
+                }
+            ]
+        },
+        items: [
+            {
+                system: { ...system, codename: 'parent', name: 'Parent' },
+                versions: [
+                    {
+                        workflow_step: { codename: 'draft' },
+                        elements: {
+                            title: { type: 'text', value: 'Parent' },
+                            related: { type: 'modular_content', value: [{ codename: 'child' }] }
+                        }
+                    }
+                ]
+            },
+            {
+                system: { ...system, codename: 'child', name: 'Child' },
+                versions: [
+                    {
+                        workflow_step: { codename: 'published' },
+                        elements: { title: { type: 'text', value: 'Child' }, related: { type: 'modular_content', value: [] } }
+                    }
+                ]
+            },
+            {
+                system: { ...system, codename: 'other', name: 'Other' },
+                versions: [
+                    {
+                        workflow_step: { codename: 'draft' },
+                        elements: { title: { type: 'text', value: 'Other' }, related: { type: 'modular_content', value: [] } }
+                    }
+                ]
+            }
+        ],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+    let journalFolder: string;
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        journalFolder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importAsync({
+            ...api.clientConfig,
+            data: data,
+            importContentModel: true,
+            journalFilename: relative(process.cwd(), join(journalFolder, 'import-journal.jsonl')),
+            changeLogFilename: relative(process.cwd(), join(journalFolder, 'import-changelog.jsonl')),
+            logger: logger
+        });
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(journalFolder, { recursive: true, force: true });
+    });
+
+    it('Language variants not modified since last sync are skipped before their versions are fetched', async () => {
+        const syncState: SyncState = {
+            lastSync: new Date().toISOString(),
+            variants: [{ itemCodename: 'parent', languageCodename: 'default', lastModified: '2099-01-01T00:00:00.000Z' }]
+        };
+
+        api.requests.length = 0;
+
+        const exportedData = await exportAsync({
+            ...api.clientConfig,
+            exportItems: [
+                { itemCodename: 'parent', languageCodename: 'default' },
+                { itemCodename: 'other', languageCodename: 'default' }
+            ],
+            syncState: syncState,
+            logger: logger
+        });
+
+        expect(exportedData.items.map((m) => m.system.codename)).toStrictEqual(['other']);
+        expect(api.requests.some((m) => m.path.endsWith('/items/codename/parent/variants/codename/default/published'))).toBe(false);
+        expect(api.requests.some((m) => m.path.endsWith('/items/codename/other/variants/codename/default/published'))).toBe(true);
+    });
+
+    it('Dependencies of language variants not modified since last sync are exported', async () => {
+        const syncState: SyncState = {
+            lastSync: new Date().toISOString(),
+            variants: [{ itemCodename: 'parent', languageCodename: 'default', lastModified: '2099-01-01T00:00:00.000Z' }]
+        };
+
+        const exportedData = await exportAsync({
+            ...api.clientConfig,
+            exportItems: [{ itemCodename: 'parent', languageCodename: 'default' }],
+            includeDependencies: true,
+            syncState: syncState,
+            logger: logger
+        });
+
+        expect(exportedData.items.map((m) => m.system.codename)).toStrictEqual(['child']);
+    });
+});
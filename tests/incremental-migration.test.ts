@@ -0,0 +1,133 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    importAsync,
+    Logger,
+    MigrationData,
+    MigrationItem,
+    migrateAsync,
+    mockManagementApiAsync,
+    MockManagementApi,
+    SyncState
+} from '../lib/index.js';
+
+describe('Incremental migration', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const getItem = (codename: string): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: codename,
+                language: { codename: 'default' },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: [{ workflow_step: { codename: 'draft' }, elements: { title: { type: 'text', value: codename } } }]
+        };
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [{ codename: 'title', type: 'text', name: 'Title' }]
+                }
+            ]
+        },
+        items: [getItem('first'), getItem('second')],
+        assets: []
+    };
+
+    let sourceApi: MockManagementApi;
+    let targetApi: MockManagementApi;
+    let folder: string;
+
+    // file paths are relative to working directory
+    const getFilename = (filename: string): string => relative(process.cwd(), join(folder, filename));
+
+    const migrateIncrementallyAsync = async () => {
+        return await migrateAsync({
+            logger: logger,
+            includeContentModel: true,
+            incremental: true,
+            syncStateFilename: getFilename('sync-state.json'),
+            mapping: { languages: { default: 'en' } },
+            sourceEnvironment: {
+                ...sourceApi.clientConfig,
+                items: data.items.map((m) => ({ itemCodename: m.system.codename, languageCodename: 'default' }))
+            },
+            targetEnvironment: targetApi.clientConfig
+        });
+    };
+
+    const importSourceDataAsync = async (importData: MigrationData): Promise<void> => {
+        await importAsync({
+            ...sourceApi.clientConfig,
+            data: importData,
+            importContentModel: true,
+            // identical variants are upserted so that they are modified since last sync
+            skipUnchangedVariants: false,
+            logger: logger
+        });
+    };
+
+    beforeAll(async () => {
+        sourceApi = await mockManagementApiAsync();
+        targetApi = await mockManagementApiAsync({
+            languages: [{ id: '00000000-0000-0000-0000-000000000000', name: 'English', codename: 'en', is_active: true, is_default: true }]
+        });
+        folder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importSourceDataAsync(data);
+    });
+
+    afterAll(async () => {
+        await sourceApi.closeAsync();
+        await targetApi.closeAsync();
+        await rm(folder, { recursive: true, force: true });
+    });
+
+    it('Sync state is keyed by source codenames when mapping is applied', async () => {
+        const { importResult } = await migrateIncrementallyAsync();
+        const syncState = JSON.parse((await readFile(join(folder, 'sync-state.json'))).toString()) as SyncState;
+
+        expect(importResult.languageVariants.map((m) => [m.inputItem.system.language.codename, m.state])).toStrictEqual([
+            ['en', 'valid'],
+            ['en', 'valid']
+        ]);
+        expect(syncState.variants.map((m) => [m.itemCodename, m.languageCodename])).toStrictEqual([
+            ['first', 'default'],
+            ['second', 'default']
+        ]);
+
+        const { migrationData } = await migrateIncrementallyAsync();
+
+        expect(migrationData.items).toStrictEqual([]);
+    });
+
+    it('Language variants identical to the ones in target environment are skipped by incremental migration', async () => {
+        await importSourceDataAsync({ ...data, items: [getItem('first')] });
+
+        targetApi.requests.length = 0;
+
+        const { migrationData, importResult } = await migrateIncrementallyAsync();
+
+        expect(migrationData.items.map((m) => m.system.codename)).toStrictEqual(['first']);
+        expect(importResult.languageVariants.map((m) => m.state)).toStrictEqual(['skipped']);
+        expect(targetApi.requests.filter((m) => m.method === 'PUT' && m.path.includes('/variants/'))).toStrictEqual([]);
+    });
+});
@@ -0,0 +1,76 @@
+import { Chalk } from 'chalk';
+import { describe, expect, it } from 'vitest';
+import { combineLoggers, JsonLogEntry, jsonLogger, logLevelFilter, runMapiRequestAsync } from '../lib/index.js';
+
+describe('Loggers', () => {
+    const createJsonLogger = () => {
+        const entries: JsonLogEntry[] = [];
+        const logger = jsonLogger((line) => entries.push(JSON.parse(line) as JsonLogEntry));
+
+        return { logger, entries };
+    };
+
+    it('Json logger emits one entry per message without colors', async () => {
+        const { logger, entries } = createJsonLogger();
+
+        logger.log({ type: 'info', message: `Importing '${new Chalk({ level: 1 }).yellow('article')}'` });
+        await logger.logWithSpinnerAsync(async (logSpinner) => {
+            logSpinner({
+                type: 'upsert',
+                message: 'languageVariant -> article (en)',
+                mapiType: 'languageVariant',
+                itemCodename: 'article',
+                languageCodename: 'en',
+                durationMs: 42
+            });
+        });
+
+        expect(entries.map(({ timestamp, ...entry }) => ({ ...entry, timestamp: typeof timestamp }))).toStrictEqual([
+            { timestamp: 'string', level: 'info', type: 'info', message: `Importing 'article'` },
+            {
+                timestamp: 'string',
+                level: 'debug',
+                type: 'upsert',
+                mapiType: 'languageVariant',
+                itemCodename: 'article',
+                languageCodename: 'en',
+                durationMs: 42,
+                message: 'languageVariant -> article (en)'
+            }
+        ]);
+    });
+
+    it('Messages below log level are filtered out of all combined loggers', async () => {
+        const first = createJsonLogger();
+        const second = createJsonLogger();
+        const logger = logLevelFilter(combineLoggers([first.logger, second.logger]), 'warning');
+
+        logger.log({ type: 'info', message: 'Info' });
+        logger.log({ type: 'errorData', message: 'Error' });
+        await logger.logWithSpinnerAsync(async (logSpinner) => {
+            logSpinner({ type: 'view', message: 'Request' });
+            logSpinner({ type: 'warning', message: 'Warning' });
+        });
+
+        expect(first.entries.map((m) => m.message)).toStrictEqual(['Error', 'Warning']);
+        expect(second.entries.map((m) => m.message)).toStrictEqual(['Error', 'Warning']);
+    });
+
+    it('Requests are logged when they start & once they complete or fail', async () => {
+        const { logger, entries } = createJsonLogger();
+        const request = { logger: logger, action: 'upsert', type: 'contentItem', itemName: 'article', itemCodename: 'article' } as const;
+
+        await runMapiRequestAsync({ ...request, func: () => Promise.resolve() });
+        await expect(runMapiRequestAsync({ ...request, func: () => Promise.reject(Error('Invalid request')) })).rejects.toThrow(
+            'Invalid request'
+        );
+
+        expect(entries.map((m) => [m.level, m.message, typeof m.durationMs])).toStrictEqual([
+            ['debug', 'contentItem -> article', 'undefined'],
+            ['debug', expect.stringMatching(/^contentItem -> article \(\d+ms\)$/), 'number'],
+            ['debug', 'contentItem -> article', 'undefined'],
+            ['error', 'contentItem -> article failed: Invalid request', 'number']
+        ]);
+        expect(entries.every((m) => m.itemCodename === 'article' && m.mapiType === 'contentItem')).toBe(true);
+    });
+});
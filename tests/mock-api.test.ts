@@ -0,0 +1,244 @@
+import { Buffer as BufferProxy } from 'buffer';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+    exportAsync,
+    importAsync,
+    loadBinaryDataAsync,
+    Logger,
+    MigrationData,
+    mockManagementApiAsync,
+    MockManagementApi,
+    zipFileManager
+} from '../lib/index.js';
+
+describe('Mock Management API', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const system = {
+        language: { codename: 'default' },
+        type: { codename: 'article' },
+        collection: { codename: 'default' },
+        workflow: { codename: 'default' }
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [{ codename: 'tags', name: 'Tags', terms: [{ codename: 'news', name: 'News', terms: [] }] }],
+            contentTypeSnippets: [],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [
+                        { codename: 'title', type: 'text', name: 'Title' },
+                        { codename: 'tags', type: 'taxonomy', taxonomy_group: { codename: 'tags' } },
+                        { codename: 'related', type: 'modular_content', name: 'Related' },
+                        { codename: 'image', type: 'asset', name: 'Image' }
+                    ]
+                }
+            ]
+        },
+        items: [
+            {
+                system: { ...system, codename: 'first', name: 'First' },
+                versions: [
+                    {
+                        workflow_step: { codename: 'published' },
+                        elements: {
+                            title: { type: 'text', value: 'First' },
+                            tags: { type: 'taxonomy', value: [{ codename: 'news' }] },
+                            related: { type: 'modular_content', value: [{ codename: 'second' }] },
+                            image: { type: 'asset', value: [{ codename: 'image' }] }
+                        }
+                    }
+                ]
+            },
+            {
+                system: { ...system, codename: 'second', name: 'Second' },
+                versions: [
+                    {
+                        workflow_step: { codename: 'draft' },
+                        elements: {
+                            title: { type: 'text', value: 'Second' },
+                            tags: { type: 'taxonomy', value: [] },
+                            related: { type: 'modular_content', value: [] },
+                            image: { type: 'asset', value: [] }
+                        }
+                    }
+                ]
+            }
+        ],
+        assets: [
+            {
+                codename: 'image',
+                filename: 'image.txt',
+                title: 'Image',
+                binary_data: BufferProxy.from('binary')
+            }
+        ]
+    };
+
+    let api: MockManagementApi;
+    let journalFolder: string;
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        journalFolder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(journalFolder, { recursive: true, force: true });
+    });
+
+    it('Import stores content model, items & assets in mocked environment', async () => {
+        const importResult = await importAsync({
+            ...api.clientConfig,
+            data: data,
+            importContentModel: true,
+            // journal & change log paths are relative to working directory
+            journalFilename: relative(process.cwd(), join(journalFolder, 'import-journal.jsonl')),
+            changeLogFilename: relative(process.cwd(), join(journalFolder, 'import-changelog.jsonl')),
+            logger: logger
+        });
+
+        expect(importResult.languageVariants.map((m) => m.state)).toStrictEqual(['valid', 'valid']);
+        expect(api.state.types.map((m) => m.codename)).toStrictEqual(['article']);
+        expect(api.state.items.map((m) => m.codename)).toStrictEqual(['first', 'second']);
+        expect(api.state.assets.map((m) => m.file_name)).toStrictEqual(['image.txt']);
+
+        const [firstVariant] = api.state.variants;
+        expect(firstVariant?.published).toBeDefined();
+        expect(firstVariant?.latest.elements.find((m) => m.element.id === api.state.types[0]?.elements[2]?.id)?.value).toStrictEqual([
+            { id: api.state.items[1]?.id }
+        ]);
+        expect(api.requests.some((m) => m.method === 'POST' && m.path.endsWith('/files/image.txt'))).toBe(true);
+    });
+
+    it('Export of imported items matches source data', async () => {
+        const exportedData = await exportAsync({
+            ...api.clientConfig,
+            exportItems: data.items.map((m) => ({ itemCodename: m.system.codename, languageCodename: 'default' })),
+            includeContentModel: true,
+            logger: logger
+        });
+
+        expect(exportedData.items.map((m) => m.system.codename)).toStrictEqual(['first', 'second']);
+        expect(exportedData.items.map((m) => m.versions.map((version) => version.elements))).toStrictEqual(
+            data.items.map((m) => m.versions.map((version) => version.elements))
+        );
+        expect(exportedData.assets.map((m) => m.filename)).toStrictEqual(['image.txt']);
+        expect(exportedData.contentModel?.taxonomies).toStrictEqual(data.contentModel?.taxonomies);
+        expect(exportedData.contentModel?.contentTypes.map((m) => m.elements.map((element) => element.codename))).toStrictEqual([
+            ['title', 'tags', 'related', 'image']
+        ]);
+    });
+
+    it('Invalid request body is refused', async () => {
+        const response = await fetch(`${api.baseUrl}/projects/${api.state.environmentId}/items`, {
+            method: 'POST',
+            headers: { authorization: `bearer ${api.state.apiKey}`, 'content-type': 'application/json' },
+            body: JSON.stringify({ codename: 'third', type: { codename: 'article' } })
+        });
+
+        expect(response.status).toBe(400);
+        expect(((await response.json()) as { message: string }).message).toContain('name');
+        expect(api.state.items.map((m) => m.codename)).toStrictEqual(['first', 'second']);
+    });
+
+    it('Binaries are streamed from exported environment through zip package into upload', async () => {
+        const targetApi = await mockManagementApiAsync();
+
+        try {
+            const exportedData = await exportAsync({
+                ...api.clientConfig,
+                exportItems: [{ itemCodename: 'first', languageCodename: 'default' }],
+                logger: logger
+            });
+
+            const zipFilename = join(journalFolder, 'data.zip');
+            await zipFileManager(logger).storeZipFileAsync(zipFilename, { ...exportedData, items: [] });
+
+            await importAsync({
+                ...targetApi.clientConfig,
+                data: await zipFileManager(logger).parseZipFileAsync(zipFilename),
+                journalFilename: relative(process.cwd(), join(journalFolder, 'streamed-journal.jsonl')),
+                changeLogFilename: relative(process.cwd(), join(journalFolder, 'streamed-changelog.jsonl')),
+                logger: logger
+            });
+
+            expect(targetApi.state.files.map((m) => m.data.toString())).toStrictEqual(['binary']);
+        } finally {
+            await targetApi.closeAsync();
+        }
+    });
+
+    it('Binaries of following assets are prefetched & downloaded only once', async () => {
+        const sourceApi = await mockManagementApiAsync();
+        const assetCodenames = ['first_image', 'second_image', 'third_image'];
+
+        try {
+            await importAsync({
+                ...sourceApi.clientConfig,
+                data: {
+                    ...data,
+                    items: [
+                        {
+                            system: { ...system, codename: 'gallery', name: 'Gallery' },
+                            versions: [
+                                {
+                                    workflow_step: { codename: 'draft' },
+                                    elements: {
+                                        title: { type: 'text', value: 'Gallery' },
+                                        tags: { type: 'taxonomy', value: [] },
+                                        related: { type: 'modular_content', value: [] },
+                                        image: { type: 'asset', value: assetCodenames.map((codename) => ({ codename })) }
+                                    }
+                                }
+                            ]
+                        }
+                    ],
+                    assets: assetCodenames.map((codename) => ({
+                        codename: codename,
+                        filename: `${codename}.txt`,
+                        title: codename,
+                        binary_data: BufferProxy.from(codename)
+                    }))
+                },
+                importContentModel: true,
+                logger: logger
+            });
+
+            const exportedData = await exportAsync({
+                ...sourceApi.clientConfig,
+                exportItems: [{ itemCodename: 'gallery', languageCodename: 'default' }],
+                logger: logger
+            });
+            const getFileRequests = () => sourceApi.requests.filter((m) => m.method === 'GET' && m.path.startsWith('/files/'));
+
+            expect(getFileRequests()).toStrictEqual([]);
+
+            const [firstAsset, ...followingAssets] = exportedData.assets;
+            expect((await loadBinaryDataAsync(firstAsset!.binary_data)).toString()).toBe('first_image');
+
+            // following binaries are downloaded before they are requested
+            await vi.waitFor(() => expect(getFileRequests().length).toBe(3));
+
+            expect(
+                (await Promise.all(followingAssets.map(async (m) => await loadBinaryDataAsync(m.binary_data)))).map((m) => m.toString())
+            ).toStrictEqual(['second_image', 'third_image']);
+            expect(getFileRequests().length).toBe(3);
+        } finally {
+            await sourceApi.closeAsync();
+        }
+    });
+});
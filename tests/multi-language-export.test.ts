@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    exportAsync,
+    importAsync,
+    Logger,
+    LogMessage,
+    MigrationData,
+    MigrationItem,
+    mockManagementApiAsync,
+    MockManagementApi
+} from '../lib/index.js';
+
+describe('Multi-language export', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const getItem = (codename: string, languageCodename: string): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: codename,
+                language: { codename: languageCodename },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: [
+                { workflow_step: { codename: 'draft' }, elements: { title: { type: 'text', value: `${codename} (${languageCodename})` } } }
+            ]
+        };
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [{ codename: 'title', type: 'text', name: 'Title' }]
+                }
+            ]
+        },
+        items: [getItem('translated', 'default'), getItem('translated', 'de'), getItem('untranslated', 'default')],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+    let journalFolder: string;
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync({
+            languages: [
+                { id: '00000000-0000-0000-0000-000000000000', name: 'Default', codename: 'default', is_active: true, is_default: true },
+                { id: randomUUID(), name: 'German', codename: 'de', is_active: true, is_default: false }
+            ]
+        });
+        journalFolder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importAsync({
+            ...api.clientConfig,
+            data: data,
+            importContentModel: true,
+            journalFilename: relative(process.cwd(), join(journalFolder, 'import-journal.jsonl')),
+            changeLogFilename: relative(process.cwd(), join(journalFolder, 'import-changelog.jsonl')),
+            logger: logger
+        });
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(journalFolder, { recursive: true, force: true });
+    });
+
+    it('Language variants missing in some of exported languages are skipped', async () => {
+        const messages: LogMessage[] = [];
+
+        const exportedData = await exportAsync({
+            ...api.clientConfig,
+            exportItems: ['translated', 'untranslated'].flatMap((itemCodename) =>
+                ['default', 'de'].map((languageCodename) => ({ itemCodename, languageCodename }))
+            ),
+            logger: { ...logger, log: (message) => messages.push(message) }
+        });
+
+        expect(exportedData.items.map((m) => [m.system.codename, m.system.language.codename])).toStrictEqual([
+            ['translated', 'default'],
+            ['translated', 'de'],
+            ['untranslated', 'default']
+        ]);
+        expect(messages.filter((m) => m.type === 'error')).toStrictEqual([]);
+        expect(messages.some((m) => m.type === 'skip' && m.message.includes('untranslated'))).toBe(true);
+    });
+
+    it('Missing language variant is reported as error when exporting single language', async () => {
+        const messages: LogMessage[] = [];
+
+        const exportedData = await exportAsync({
+            ...api.clientConfig,
+            exportItems: [
+                { itemCodename: 'translated', languageCodename: 'de' },
+                { itemCodename: 'untranslated', languageCodename: 'de' }
+            ],
+            logger: { ...logger, log: (message) => messages.push(message) }
+        });
+
+        expect(exportedData.items.map((m) => m.system.codename)).toStrictEqual(['translated']);
+        expect(messages.filter((m) => m.type === 'error').map((m) => m.message)).toStrictEqual([
+            expect.stringContaining('Language variant does not exist')
+        ]);
+    });
+});
@@ -0,0 +1,246 @@
+import { Buffer as BufferProxy } from 'buffer';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Readable } from 'stream';
+import { afterAll, describe, expect, it } from 'vitest';
+import {
+    decryptPackageAsync,
+    encryptPackageAsync,
+    folderManager,
+    geSizeInBytes,
+    isLazyBinaryData,
+    jsonLinesFileManager,
+    LazyBinaryData,
+    loadBinaryDataAsync,
+    Logger,
+    MigrationData,
+    MigrationItem,
+    parseItemsJsonLinesAsync,
+    zipFileManager,
+    zipManager
+} from '../lib/index.js';
+
+describe('Package formats', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func({ log: () => {} } as never)
+    };
+
+    const data: MigrationData = {
+        items: [
+            {
+                system: {
+                    codename: 'item',
+                    name: 'Item',
+                    language: { codename: 'en' },
+                    type: { codename: 'article' },
+                    collection: { codename: 'default' },
+                    workflow: { codename: 'default' }
+                },
+                versions: [
+                    {
+                        workflow_step: { codename: 'draft' },
+                        elements: {
+                            title: { type: 'text', value: 'Title' },
+                            teaser: { type: 'asset', value: [{ codename: 'teaser' }] }
+                        }
+                    }
+                ]
+            }
+        ],
+        assets: [
+            {
+                codename: 'teaser',
+                filename: 'teaser.txt',
+                title: 'Teaser',
+                descriptions: [{ language: { codename: 'en' }, description: 'Teaser' }],
+                binary_data: BufferProxy.from('binary')
+            }
+        ],
+        contentModel: undefined
+    };
+
+    const foldersToRemove: string[] = [];
+
+    const createTempFolderAsync = async (): Promise<string> => {
+        const folder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+        foldersToRemove.push(folder);
+        return folder;
+    };
+
+    const loadAssetsAsync = async (migrationData: MigrationData): Promise<MigrationData> => {
+        return {
+            ...migrationData,
+            assets: await Promise.all(
+                migrationData.assets.map(async (asset) => ({ ...asset, binary_data: await loadBinaryDataAsync(asset.binary_data) }))
+            )
+        };
+    };
+
+    afterAll(async () => {
+        for (const folder of foldersToRemove) {
+            await rm(folder, { recursive: true, force: true });
+        }
+    });
+
+    it('Zip & folder round-trip to identical migration data', async () => {
+        const folder = await createTempFolderAsync();
+
+        const zipData = await zipManager(logger).createZipAsync(data);
+        const dataFromZip = await zipManager(logger).parseZipAsync(zipData as BufferProxy);
+
+        await folderManager(logger).storeFolderAsync(folder, data);
+        const dataFromFolder = await loadAssetsAsync(await folderManager(logger).parseFolderAsync(folder));
+
+        expect(dataFromFolder).toStrictEqual(dataFromZip);
+        expect((await readFile(join(folder, 'items/article/item.en.json'))).toString()).toContain('\n    "system": {');
+    });
+
+    it('Folder package overwrites previously stored package but not unrelated folder content', async () => {
+        const packageFolder = await createTempFolderAsync();
+        await folderManager(logger).storeFolderAsync(packageFolder, data);
+        await folderManager(logger).storeFolderAsync(packageFolder, { ...data, assets: [] });
+
+        expect((await folderManager(logger).parseFolderAsync(packageFolder)).assets).toStrictEqual([]);
+
+        const unrelatedFolder = await createTempFolderAsync();
+        await writeFile(join(unrelatedFolder, 'notes.txt'), 'notes');
+
+        await expect(folderManager(logger).storeFolderAsync(unrelatedFolder, data)).rejects.toThrow(/is not empty/);
+        expect((await readFile(join(unrelatedFolder, 'notes.txt'))).toString()).toBe('notes');
+    });
+
+    it('Streamed zip is readable by in-memory zip & loads binaries lazily', async () => {
+        const zipFilename = join(await createTempFolderAsync(), 'data.zip');
+        const loadedAssets: string[] = [];
+
+        await zipFileManager(logger).storeZipFileAsync(zipFilename, {
+            ...data,
+            assets: data.assets.map((asset) => ({
+                ...asset,
+                binary_data: {
+                    size: geSizeInBytes(asset.binary_data),
+                    loadAsync: async () => {
+                        loadedAssets.push(asset.codename);
+                        return await loadBinaryDataAsync(asset.binary_data);
+                    }
+                }
+            }))
+        });
+
+        const dataFromStream = await zipFileManager(logger).parseZipFileAsync(zipFilename);
+        const dataFromZip = await zipManager(logger).parseZipAsync(await readFile(zipFilename));
+
+        expect(loadedAssets).toStrictEqual(['teaser']);
+        expect(geSizeInBytes(dataFromStream.assets[0].binary_data)).toBe(6);
+        expect(await loadAssetsAsync(dataFromStream)).toStrictEqual(dataFromZip);
+    });
+
+    it('Binaries are streamed into & out of plain & encrypted zip', async () => {
+        const folder = await createTempFolderAsync();
+        // spans multiple encryption chunks
+        const binary = BufferProxy.from(new Uint8Array(2.5 * 1024 * 1024).map((_, index) => index % 251));
+
+        const streamedData: MigrationData = {
+            ...data,
+            assets: data.assets.map((asset) => ({
+                ...asset,
+                binary_data: {
+                    size: binary.length,
+                    loadAsync: () => Promise.reject(Error('Binary data should be streamed')),
+                    openStreamAsync: () => Promise.resolve(Readable.from([binary]))
+                }
+            }))
+        };
+
+        for (const encryptionKey of [undefined, 'passphrase']) {
+            const zipFilename = join(folder, `${encryptionKey ?? 'plain'}.zip`);
+            await zipFileManager(logger).storeZipFileAsync(zipFilename, streamedData, { encryptionKey: encryptionKey });
+
+            const binaryData = (await zipFileManager(logger).parseZipFileAsync(zipFilename, { encryptionKey: encryptionKey })).assets[0]
+                .binary_data;
+            const chunks: BufferProxy[] = [];
+
+            expect(isLazyBinaryData(binaryData)).toBe(true);
+            for await (const chunk of (await (binaryData as LazyBinaryData).openStreamAsync?.()) ?? []) {
+                chunks.push(chunk as BufferProxy);
+            }
+
+            expect(BufferProxy.concat(chunks).equals(binary)).toBe(true);
+        }
+    });
+
+    it('Corrupted binaries & unsupported schema versions are refused', async () => {
+        const folder = await createTempFolderAsync();
+        await folderManager(logger).storeFolderAsync(folder, data);
+
+        await writeFile(join(folder, 'binary_data/te/teaser/teaser.txt'), 'corrupted');
+        const corruptedData = await folderManager(logger).parseFolderAsync(folder);
+
+        await expect(loadBinaryDataAsync(corruptedData.assets[0].binary_data)).rejects.toThrow(/corrupted/);
+
+        const manifestPath = join(folder, 'manifest.json');
+        const manifest = JSON.parse((await readFile(manifestPath)).toString()) as Record<string, unknown>;
+        await writeFile(manifestPath, JSON.stringify({ ...manifest, schemaVersion: 999 }));
+
+        await expect(folderManager(logger).parseFolderAsync(folder)).rejects.toThrow(/newer than supported/);
+    });
+
+    it('Encrypted zip round-trips only with the correct key', async () => {
+        const zipFilename = join(await createTempFolderAsync(), 'data.zip');
+
+        await zipFileManager(logger).storeZipFileAsync(zipFilename, data, { encryptionKey: 'passphrase' });
+
+        const dataFromStream = await zipFileManager(logger).parseZipFileAsync(zipFilename, { encryptionKey: 'passphrase' });
+        const dataFromZip = await zipManager(logger).parseZipAsync(await readFile(zipFilename), { encryptionKey: 'passphrase' });
+
+        expect(await loadAssetsAsync(dataFromStream)).toStrictEqual(dataFromZip);
+        await expect(zipFileManager(logger).parseZipFileAsync(zipFilename)).rejects.toThrow(/Provide encryption key/);
+        await expect(zipFileManager(logger).parseZipFileAsync(zipFilename, { encryptionKey: 'invalid' })).rejects.toThrow(
+            /Failed to decrypt package/
+        );
+    });
+
+    it('Encrypted multi chunk data cannot be truncated', async () => {
+        const key = new Uint8Array(32).fill(7);
+        const plainData = new Uint8Array(2.5 * 1024 * 1024).map((_, index) => index % 251);
+        const encryptedData = BufferProxy.from(await encryptPackageAsync(plainData, key));
+
+        expect(BufferProxy.from(await decryptPackageAsync(encryptedData, key)).equals(plainData)).toBe(true);
+        await expect(decryptPackageAsync(encryptedData.subarray(0, encryptedData.length - 1024), key)).rejects.toThrow(
+            /Failed to decrypt package/
+        );
+    });
+
+    it('JSON Lines items round-trip & invalid lines are reported with line number', async () => {
+        const folder = await createTempFolderAsync();
+        const zipFilename = join(folder, 'data.zip');
+        const itemsFilename = join(folder, 'items.jsonl');
+
+        await zipFileManager(logger).storeZipFileAsync(zipFilename, data, { itemsFormat: 'jsonl' });
+        const zipData = await zipManager(logger).createZipAsync(data, { itemsFormat: 'jsonl' });
+
+        expect((await readFile(zipFilename)).includes('items.jsonl')).toBe(true);
+        expect((await zipFileManager(logger).parseZipFileAsync(zipFilename)).items).toStrictEqual(data.items);
+        expect((await zipManager(logger).parseZipAsync(zipData)).items).toStrictEqual(data.items);
+
+        await jsonLinesFileManager(logger).storeItemsAsync(itemsFilename, data.items);
+        const items: MigrationItem[] = [];
+
+        for await (const item of jsonLinesFileManager(logger).readItemsAsync(itemsFilename)) {
+            items.push(item);
+        }
+
+        expect(items).toStrictEqual(data.items);
+
+        const readLinesAsync = async (lines: readonly string[]): Promise<void> => {
+            for await (const item of parseItemsJsonLinesAsync(lines)) {
+                expect(item).toBeDefined();
+            }
+        };
+
+        await expect(readLinesAsync([JSON.stringify(data.items[0]), '', '{ "system": {} }'])).rejects.toThrow(/line '.*3.*'/);
+        await expect(readLinesAsync(['{ invalid'])).rejects.toThrow(/Invalid JSON on line '.*1.*'/);
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Logger, MigrationItemsSchema, packageSchemaVersion, upgradePackageData } from '../lib/index.js';
+
+describe('Package upgrade', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func({ log: () => {} } as never)
+    };
+
+    const getItems = (elements: Record<string, unknown>) => [
+        {
+            system: {
+                codename: 'item',
+                name: 'Item',
+                language: { codename: 'en' },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: [{ workflow_step: { codename: 'draft' }, elements: elements }]
+        }
+    ];
+
+    it('Flattens element values of unversioned packages', () => {
+        const upgradedData = upgradePackageData({
+            manifest: undefined,
+            logger: logger,
+            data: {
+                assets: [],
+                contentModel: undefined,
+                items: getItems({
+                    title: { type: 'text', value: 'Title' },
+                    slug: { type: 'url_slug', value: { value: 'title', mode: 'custom' } },
+                    date: { type: 'date_time', value: { value: '2024-01-01T00:00:00Z', display_timezone: 'Europe/Prague' } }
+                })
+            }
+        });
+
+        expect(MigrationItemsSchema.parse(upgradedData.items)).toStrictEqual(
+            getItems({
+                title: { type: 'text', value: 'Title' },
+                slug: { type: 'url_slug', value: 'title', mode: 'custom' },
+                date: { type: 'date_time', value: '2024-01-01T00:00:00Z', display_timezone: 'Europe/Prague' }
+            })
+        );
+    });
+
+    it('Refuses packages with newer schema version', () => {
+        expect(() =>
+            upgradePackageData({
+                manifest: { schemaVersion: packageSchemaVersion + 1 },
+                logger: logger,
+                data: { items: [], assets: [], contentModel: undefined }
+            })
+        ).toThrow(/newer than supported/);
+    });
+});
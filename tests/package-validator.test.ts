@@ -0,0 +1,200 @@
+import { AssetContracts, WorkflowModels } from '@kontent-ai/management-sdk';
+import { describe, expect, it } from 'vitest';
+import { Logger, MigrationItem, mockManagementApiAsync, packageValidator, validateAsync, ValidationEnvironmentData } from '../lib/index.js';
+
+describe('Package validator', () => {
+    const environmentData = {
+        languages: [{ codename: 'default' }],
+        collections: [{ codename: 'default' }],
+        assetFolders: [],
+        taxonomies: [],
+        workflows: [
+            {
+                codename: 'default',
+                steps: [{ codename: 'draft' }],
+                publishedStep: { codename: 'published' },
+                archivedStep: { codename: 'archived' },
+                scheduledStep: { codename: 'scheduled' }
+            } as WorkflowModels.Workflow
+        ],
+        types: [
+            {
+                contentTypeCodename: 'article',
+                contentTypeId: 'article_id',
+                elements: [
+                    {
+                        codename: 'title',
+                        id: 'title_id',
+                        type: 'text',
+                        element: { type: 'text', name: 'Title' }
+                    },
+                    {
+                        codename: 'category',
+                        id: 'category_id',
+                        type: 'multiple_choice',
+                        element: { type: 'multiple_choice', name: 'Category', mode: 'single', options: [{ name: 'A', codename: 'a' }] }
+                    },
+                    {
+                        codename: 'related',
+                        id: 'related_id',
+                        type: 'modular_content',
+                        element: { type: 'modular_content', name: 'Related' }
+                    }
+                ]
+            }
+        ]
+    } as unknown as ValidationEnvironmentData;
+
+    const createItem = (data: Pick<MigrationItem, 'versions'> & { readonly workflowCodename?: string }): MigrationItem => {
+        return {
+            system: {
+                codename: 'item',
+                name: 'Item',
+                language: { codename: 'default' },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: data.workflowCodename ?? 'default' }
+            },
+            versions: data.versions
+        };
+    };
+
+    it('Valid item should not have any issues', () => {
+        const result = packageValidator(environmentData).validate({
+            assets: [],
+            items: [
+                createItem({
+                    versions: [
+                        {
+                            workflow_step: { codename: 'published' },
+                            elements: {
+                                title: { type: 'text', value: 'Title' },
+                                category: { type: 'multiple_choice', value: [{ codename: 'a' }] }
+                            }
+                        }
+                    ]
+                })
+            ]
+        });
+
+        expect(result.issues).toStrictEqual([]);
+    });
+
+    it('All incompatibilities should be reported', () => {
+        const result = packageValidator(environmentData).validate({
+            assets: [],
+            items: [
+                createItem({
+                    versions: [
+                        {
+                            workflow_step: { codename: 'review' },
+                            elements: {
+                                title: { type: 'number', value: 1 },
+                                summary: { type: 'text', value: 'Summary' },
+                                category: { type: 'multiple_choice', value: [{ codename: 'b' }] }
+                            }
+                        }
+                    ]
+                })
+            ]
+        });
+
+        expect(result.issues.map((m) => m.issueType)).toStrictEqual([
+            'missingWorkflowStep',
+            'elementTypeMismatch',
+            'missingElement',
+            'unknownMultipleChoiceOption'
+        ]);
+    });
+
+    it('References outside of package should be returned as external references', () => {
+        const result = packageValidator(environmentData).validate({
+            assets: [],
+            items: [
+                createItem({
+                    versions: [
+                        {
+                            workflow_step: { codename: 'draft' },
+                            elements: {
+                                related: { type: 'modular_content', value: [{ codename: 'item' }, { codename: 'other_item' }] }
+                            }
+                        }
+                    ]
+                })
+            ]
+        });
+
+        expect(result.externalReferences.itemCodenames).toStrictEqual(new Set(['other_item']));
+    });
+});
+
+describe('Validation', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    it('References that could not be verified in target environment are reported as issues', async () => {
+        const api = await mockManagementApiAsync({
+            types: [
+                {
+                    id: 'article_id',
+                    codename: 'article',
+                    name: 'Article',
+                    last_modified: new Date().toISOString(),
+                    content_groups: [],
+                    elements: [
+                        { id: 'related_id', codename: 'related', name: 'Related', type: 'modular_content' },
+                        { id: 'image_id', codename: 'image', name: 'Image', type: 'asset' }
+                    ]
+                }
+            ]
+        });
+
+        try {
+            // malformed asset makes every asset lookup of mocked environment fail
+            api.state.assets.push(undefined as unknown as AssetContracts.IAssetModelContract);
+
+            const result = await validateAsync({
+                ...api.clientConfig,
+                logger: logger,
+                data: {
+                    assets: [],
+                    items: [
+                        {
+                            system: {
+                                codename: 'item',
+                                name: 'Item',
+                                language: { codename: 'default' },
+                                type: { codename: 'article' },
+                                collection: { codename: 'default' },
+                                workflow: { codename: 'default' }
+                            },
+                            versions: [
+                                {
+                                    workflow_step: { codename: 'draft' },
+                                    elements: {
+                                        related: { type: 'modular_content', value: [{ codename: 'other_item' }] },
+                                        image: { type: 'asset', value: [{ codename: 'other_asset' }] }
+                                    }
+                                }
+                            ]
+                        }
+                    ]
+                }
+            });
+
+            expect(result.isValid).toBe(false);
+            expect(
+                result.issues
+                    .filter((m) => m.issueType === 'missingReference' || m.issueType === 'unverifiedReference')
+                    .map((m) => [m.codename, m.issueType])
+            ).toStrictEqual([
+                ['other_asset', 'unverifiedReference'],
+                ['other_item', 'missingReference']
+            ]);
+        } finally {
+            await api.closeAsync();
+        }
+    });
+});
@@ -0,0 +1,132 @@
+import { Buffer as BufferProxy } from 'buffer';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { loadBinaryDataAsync, Logger, MigrationAsset, MigrationData, MigrationItem, volumeManager, zipFileManager } from '../lib/index.js';
+
+describe('Package volumes', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func({ log: () => {} } as never)
+    };
+
+    const getItem = (codename: string, language: string, assetCodename: string): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: codename,
+                language: { codename: language },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: [
+                {
+                    workflow_step: { codename: 'draft' },
+                    elements: {
+                        teaser: { type: 'asset', value: [{ codename: assetCodename }] }
+                    }
+                }
+            ]
+        };
+    };
+
+    const getAsset = (codename: string): MigrationAsset => {
+        return {
+            codename: codename,
+            filename: `${codename}.txt`,
+            title: codename,
+            descriptions: [],
+            binary_data: BufferProxy.alloc(1000, codename)
+        };
+    };
+
+    const data: MigrationData = {
+        items: [getItem('first', 'en', 'a'), getItem('second', 'en', 'b'), getItem('first', 'de', 'c'), getItem('third', 'en', 'a')],
+        assets: [getAsset('a'), getAsset('b'), getAsset('c'), getAsset('unused')],
+        contentModel: undefined
+    };
+
+    const foldersToRemove: string[] = [];
+
+    afterAll(async () => {
+        for (const folder of foldersToRemove) {
+            await rm(folder, { recursive: true, force: true });
+        }
+    });
+
+    it('Keeps language variants & referenced assets in the same volume', () => {
+        const volumes = volumeManager(logger).splitIntoVolumes(data, 2500);
+
+        expect(
+            volumes.map((volume) => volume.items.map((item) => `${item.system.codename}.${item.system.language.codename}`))
+        ).toStrictEqual([['first.en', 'first.de'], ['second.en', 'third.en'], []]);
+        expect(volumes.map((volume) => volume.assets.map((asset) => asset.codename))).toStrictEqual([['a', 'c'], ['b'], ['unused']]);
+        expect(volumes.map((volume) => volume.volume)).toStrictEqual([
+            { packageId: volumes[0].volume?.packageId, index: 1, count: 3 },
+            { packageId: volumes[0].volume?.packageId, index: 2, count: 3 },
+            { packageId: volumes[0].volume?.packageId, index: 3, count: 3 }
+        ]);
+        expect(volumes[0].volume?.packageId).toStrictEqual(expect.any(String));
+        expect(
+            volumeManager(logger)
+                .splitIntoVolumes(data, 100_000)
+                .map((volume) => volume.volume)
+        ).toStrictEqual([undefined]);
+    });
+
+    it('Reassembles volumes from the first volume or glob & refuses incomplete packages', async () => {
+        const folder = await mkdtemp(join(tmpdir(), 'kontent-ai-migration-'));
+        foldersToRemove.push(folder);
+
+        const volumes = volumeManager(logger).splitIntoVolumes(data, 2500);
+
+        for (const volume of volumes) {
+            await zipFileManager(logger).storeZipFileAsync(
+                volumeManager(logger).getVolumeFilename(join(folder, 'data.zip'), volume.volume?.index ?? 0),
+                volume
+            );
+        }
+
+        const loadVolumesAsync = async (filenames: readonly string[]): Promise<readonly MigrationData[]> => {
+            const result: MigrationData[] = [];
+
+            for (const filename of filenames) {
+                result.push(await zipFileManager(logger).parseZipFileAsync(filename));
+            }
+            return result;
+        };
+
+        const filenames = await volumeManager(logger).getVolumeFilenamesAsync(join(folder, 'data.vol001.zip'));
+        const mergedData = volumeManager(logger).mergeVolumes(await loadVolumesAsync(filenames));
+
+        expect(filenames).toStrictEqual(await volumeManager(logger).getVolumeFilenamesAsync(join(folder, 'data.vol*.zip')));
+        expect(mergedData.items.map((item) => item.system.codename)).toStrictEqual(['first', 'first', 'second', 'third']);
+        expect(await loadBinaryDataAsync(mergedData.assets[3].binary_data)).toStrictEqual(BufferProxy.alloc(1000, 'unused'));
+
+        expect(() => volumeManager(logger).mergeVolumes(volumes.slice(0, 2))).toThrow(/Volume '3' of package is missing/);
+
+        const [, , volumeOfAnotherPackage] = volumeManager(logger).splitIntoVolumes(data, 2500);
+        expect(() => volumeManager(logger).mergeVolumes([...volumes.slice(0, 2), volumeOfAnotherPackage])).toThrow(
+            /Volume '3' of package is missing or belongs to another package/
+        );
+    });
+
+    it('Packages with numbered names are not treated as volumes', async () => {
+        const folder = await mkdtemp(join(tmpdir(), 'kontent-ai-migration-'));
+        foldersToRemove.push(folder);
+
+        for (const filename of ['export.001.zip', 'export.002.zip', 'backup.2024.zip']) {
+            await zipFileManager(logger).storeZipFileAsync(join(folder, filename), data);
+        }
+
+        expect(await volumeManager(logger).getVolumeFilenamesAsync(join(folder, 'export.001.zip'))).toStrictEqual([
+            join(folder, 'export.001.zip')
+        ]);
+        expect(await volumeManager(logger).getVolumeFilenamesAsync(join(folder, 'backup.2024.zip'))).toStrictEqual([
+            join(folder, 'backup.2024.zip')
+        ]);
+        expect(volumeManager(logger).getVolumeFilename(join(folder, 'export.zip'), 2)).toBe(join(folder, 'export.vol002.zip'));
+    });
+});
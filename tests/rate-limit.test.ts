@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { Readable } from 'stream';
+import { adaptiveLimiter, getRetryStrategy, mapiRequestsTracker } from '../lib/index.js';
+
+describe('Adaptive limiter', () => {
+    const runTasksAsync = async (limiter: ReturnType<typeof adaptiveLimiter>, count: number): Promise<number> => {
+        let activeCount: number = 0;
+        let maxActiveCount: number = 0;
+
+        await Promise.all(
+            Array.from({ length: count }, () =>
+                limiter.runAsync(async () => {
+                    activeCount++;
+                    maxActiveCount = Math.max(maxActiveCount, activeCount);
+                    await new Promise((resolve) => setTimeout(resolve, 1));
+                    activeCount--;
+                })
+            )
+        );
+
+        return maxActiveCount;
+    };
+
+    it('Backs off when rate limit is exceeded & ramps up on success', async () => {
+        const limiter = adaptiveLimiter(4);
+
+        expect(await runTasksAsync(limiter, 8)).toStrictEqual(4);
+
+        mapiRequestsTracker.trackRetry(true);
+        expect(limiter.getConcurrency()).toStrictEqual(2);
+
+        mapiRequestsTracker.trackRetry(true);
+        mapiRequestsTracker.trackRetry(true);
+        expect(limiter.getConcurrency()).toStrictEqual(1);
+        expect(limiter.getDelayMs()).toStrictEqual(100);
+
+        // retries of other errors do not affect the limiter
+        mapiRequestsTracker.trackRetry(false);
+        expect(limiter.getDelayMs()).toStrictEqual(100);
+
+        expect(await runTasksAsync(limiter, 1)).toStrictEqual(1);
+        expect(limiter.getDelayMs()).toStrictEqual(0);
+
+        await runTasksAsync(limiter, 10);
+        expect(limiter.getConcurrency()).toStrictEqual(4);
+
+        limiter.dispose();
+        mapiRequestsTracker.trackRetry(true);
+        expect(limiter.getConcurrency()).toStrictEqual(4);
+    });
+
+    it('Rate exceeded retries of custom retry strategy make processing back off', () => {
+        const limiter = adaptiveLimiter(4);
+        const retryStrategy = getRetryStrategy({ maxAttempts: 1, canRetryError: () => true });
+
+        expect(retryStrategy.canRetryError?.({ response: { status: 429 } })).toBe(true);
+        expect(limiter.getConcurrency()).toStrictEqual(2);
+
+        // consumed request body stream cannot be sent again
+        expect(retryStrategy.canRetryError?.({ config: { data: Readable.from([]) }, response: { status: 429 } })).toBe(false);
+
+        limiter.dispose();
+    });
+});
@@ -0,0 +1,212 @@
+import { Buffer as BufferProxy } from 'buffer';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    importAsync,
+    Logger,
+    MigrationData,
+    MigrationItem,
+    mockManagementApiAsync,
+    MockManagementApi,
+    rollbackAsync
+} from '../lib/index.js';
+
+describe('Rollback', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const getItem = (codename: string, name: string, versions: readonly { step: string; title: string }[]): MigrationItem => {
+        return {
+            system: {
+                codename: codename,
+                name: name,
+                language: { codename: 'default' },
+                type: { codename: 'article' },
+                collection: { codename: 'default' },
+                workflow: { codename: 'default' }
+            },
+            versions: versions.map((version) => ({
+                workflow_step: { codename: version.step },
+                elements: { title: { type: 'text', value: version.title } }
+            }))
+        };
+    };
+
+    const initialData: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                { codename: 'article', name: 'Article', content_groups: [], elements: [{ codename: 'title', type: 'text', name: 'Title' }] }
+            ]
+        },
+        items: [getItem('first', 'First', [{ step: 'published', title: 'First' }])],
+        assets: [{ codename: 'image', filename: 'image.txt', title: 'Image', binary_data: BufferProxy.from('image') }]
+    };
+
+    const updatedData: MigrationData = {
+        items: [
+            getItem('first', 'First (updated)', [
+                { step: 'published', title: 'First (published update)' },
+                { step: 'draft', title: 'First (draft update)' }
+            ]),
+            getItem('second', 'Second', [{ step: 'published', title: 'Second' }])
+        ],
+        assets: [
+            { codename: 'image', filename: 'image.txt', title: 'Image (updated)', binary_data: BufferProxy.from('image') },
+            { codename: 'logo', filename: 'logo.txt', title: 'Logo', binary_data: BufferProxy.from('logo') }
+        ]
+    };
+
+    let api: MockManagementApi;
+    let folder: string;
+
+    // file paths are relative to working directory
+    const getFilename = (filename: string): string => relative(process.cwd(), join(folder, filename));
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        folder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importAsync({
+            ...api.clientConfig,
+            data: initialData,
+            importContentModel: true,
+            journalFilename: getFilename('initial-journal.jsonl'),
+            changeLogFilename: getFilename('initial-changelog.jsonl'),
+            logger: logger
+        });
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(folder, { recursive: true, force: true });
+    });
+
+    it('Rollback deletes created objects & restores previous state of modified objects', async () => {
+        const importResult = await importAsync({
+            ...api.clientConfig,
+            data: updatedData,
+            journalFilename: getFilename('import-journal.jsonl'),
+            changeLogFilename: getFilename('import-changelog.jsonl'),
+            logger: logger
+        });
+
+        expect(importResult.languageVariants.map((m) => m.state)).toStrictEqual(['valid', 'valid']);
+        expect(api.state.items.map((m) => m.name)).toStrictEqual(['First (updated)', 'Second']);
+        expect(api.state.assets.map((m) => m.title)).toStrictEqual(['Image (updated)', 'Logo']);
+
+        const rollbackResult = await rollbackAsync({
+            ...api.clientConfig,
+            changeLogFilename: getFilename('import-changelog.jsonl'),
+            logger: logger
+        });
+
+        expect(
+            rollbackResult.languageVariants.map((m) => [m.inputItem.codename, m.state === 'valid' ? m.outputItem : m.state])
+        ).toStrictEqual([
+            ['first', 'restored'],
+            ['second', 'deleted']
+        ]);
+        expect(rollbackResult.contentItems.map((m) => [m.inputItem.codename, m.state === 'valid' ? m.outputItem : m.state])).toStrictEqual([
+            ['first', 'restored'],
+            ['second', 'deleted']
+        ]);
+        expect(rollbackResult.assets.map((m) => [m.inputItem.codename, m.state === 'valid' ? m.outputItem : m.state])).toStrictEqual([
+            ['image', 'restored'],
+            ['logo', 'deleted']
+        ]);
+
+        expect(api.state.items.map((m) => m.name)).toStrictEqual(['First']);
+        expect(api.state.assets.map((m) => m.title)).toStrictEqual(['Image']);
+        expect(api.state.variants).toHaveLength(1);
+
+        const [variant] = api.state.variants;
+        const workflow = api.state.workflows[0];
+
+        expect(variant?.latest.workflow.step_identifier.id).toBe(workflow?.published_step.id);
+        expect(variant?.published?.elements.map((m) => m.value)).toStrictEqual(['First']);
+
+        // rolled back change log is archived so that the next import can use the same change log filename
+        expect((await readdir(folder)).filter((m) => m.startsWith('import-changelog.jsonl'))).toStrictEqual([
+            expect.stringMatching(/^import-changelog\.jsonl\.rolled-back-/)
+        ]);
+        await expect(
+            importAsync({
+                ...api.clientConfig,
+                data: updatedData,
+                changeLogFilename: getFilename('import-changelog.jsonl'),
+                logger: logger
+            })
+        ).resolves.toBeDefined();
+    });
+
+    it('Import refuses to overwrite change log of a previous import', async () => {
+        await expect(
+            importAsync({
+                ...api.clientConfig,
+                data: updatedData,
+                changeLogFilename: getFilename('initial-changelog.jsonl'),
+                logger: logger
+            })
+        ).rejects.toThrow('already exists');
+    });
+
+    it('Rollback deletes content types & snippets created by content model import', async () => {
+        const contentModelApi = await mockManagementApiAsync();
+
+        try {
+            await importAsync({
+                ...contentModelApi.clientConfig,
+                data: {
+                    ...initialData,
+                    contentModel: {
+                        collections: [],
+                        assetFolders: [],
+                        taxonomies: [],
+                        contentTypeSnippets: [
+                            { codename: 'seo', name: 'SEO', elements: [{ codename: 'seo__title', type: 'text', name: 'SEO title' }] }
+                        ],
+                        contentTypes: [
+                            {
+                                codename: 'article',
+                                name: 'Article',
+                                content_groups: [],
+                                elements: [
+                                    { codename: 'title', type: 'text', name: 'Title' },
+                                    { codename: 'seo', type: 'snippet', snippet: { codename: 'seo' } }
+                                ]
+                            }
+                        ]
+                    }
+                },
+                importContentModel: true,
+                changeLogFilename: getFilename('content-model-changelog.jsonl'),
+                logger: logger
+            });
+
+            expect(contentModelApi.state.types.map((m) => m.codename)).toStrictEqual(['article']);
+            expect(contentModelApi.state.snippets.map((m) => m.codename)).toStrictEqual(['seo']);
+
+            const rollbackResult = await rollbackAsync({
+                ...contentModelApi.clientConfig,
+                changeLogFilename: getFilename('content-model-changelog.jsonl'),
+                logger: logger
+            });
+
+            expect(rollbackResult.contentTypes.map((m) => [m.inputItem.codename, m.state])).toStrictEqual([['article', 'valid']]);
+            expect(rollbackResult.contentTypeSnippets.map((m) => [m.inputItem.codename, m.state])).toStrictEqual([['seo', 'valid']]);
+            expect(contentModelApi.state.types).toStrictEqual([]);
+            expect(contentModelApi.state.snippets).toStrictEqual([]);
+            expect(contentModelApi.state.items).toStrictEqual([]);
+        } finally {
+            await contentModelApi.closeAsync();
+        }
+    });
+});
@@ -0,0 +1,125 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, relative } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { importAsync, ImportConfig, Logger, MigrationData, mockManagementApiAsync, MockManagementApi } from '../lib/index.js';
+
+describe('Skip unchanged language variants', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func(() => {})
+    };
+
+    const system = {
+        language: { codename: 'default' },
+        type: { codename: 'article' },
+        collection: { codename: 'default' },
+        workflow: { codename: 'default' }
+    };
+
+    const data: MigrationData = {
+        contentModel: {
+            collections: [],
+            assetFolders: [],
+            taxonomies: [],
+            contentTypeSnippets: [],
+            contentTypes: [
+                {
+                    codename: 'article',
+                    name: 'Article',
+                    content_groups: [],
+                    elements: [{ codename: 'title', type: 'text', name: 'Title' }]
+                }
+            ]
+        },
+        items: [
+            {
+                system: { ...system, codename: 'published', name: 'Published' },
+                versions: [{ workflow_step: { codename: 'published' }, elements: { title: { type: 'text', value: 'Published' } } }]
+            },
+            {
+                system: { ...system, codename: 'draft', name: 'Draft' },
+                versions: [{ workflow_step: { codename: 'draft' }, elements: { title: { type: 'text', value: 'Draft' } } }]
+            }
+        ],
+        assets: []
+    };
+
+    let api: MockManagementApi;
+    let journalFolder: string;
+    let runsCount: number = 0;
+
+    const importDataAsync = async (config: Pick<ImportConfig, 'data' | 'skipUnchangedVariants' | 'importContentModel'>) => {
+        runsCount++;
+
+        return await importAsync({
+            ...api.clientConfig,
+            ...config,
+            journalFilename: relative(process.cwd(), join(journalFolder, `import-journal-${runsCount}.jsonl`)),
+            changeLogFilename: relative(process.cwd(), join(journalFolder, `import-changelog-${runsCount}.jsonl`)),
+            logger: logger
+        });
+    };
+
+    beforeAll(async () => {
+        api = await mockManagementApiAsync();
+        journalFolder = await mkdtemp(join(tmpdir(), 'migration-toolkit-'));
+
+        await importDataAsync({ data: data, importContentModel: true });
+    });
+
+    afterAll(async () => {
+        await api.closeAsync();
+        await rm(journalFolder, { recursive: true, force: true });
+    });
+
+    it('All language variants are imported when skipping is disabled', async () => {
+        const importResult = await importDataAsync({ data: { ...data, contentModel: undefined }, skipUnchangedVariants: false });
+
+        expect(importResult.languageVariants.map((m) => m.state)).toStrictEqual(['valid', 'valid']);
+    });
+
+    it('Language variants identical to the ones in target environment are skipped by default', async () => {
+        const importResult = await importDataAsync({
+            data: {
+                ...data,
+                contentModel: undefined,
+                items: data.items.map((item) =>
+                    item.system.codename === 'draft'
+                        ? {
+                              ...item,
+                              versions: [{ workflow_step: { codename: 'draft' }, elements: { title: { type: 'text', value: 'Changed' } } }]
+                          }
+                        : item
+                )
+            }
+        });
+
+        expect(importResult.languageVariants.map((m) => [m.inputItem.system.codename, m.state])).toStrictEqual([
+            ['published', 'skipped'],
+            ['draft', 'valid']
+        ]);
+    });
+
+    it('Language variants with different schedule are not skipped', async () => {
+        const scheduledData: MigrationData = {
+            ...data,
+            contentModel: undefined,
+            items: data.items
+                .filter((item) => item.system.codename === 'published')
+                .map((item) => ({
+                    ...item,
+                    versions: item.versions.map((version) => ({
+                        ...version,
+                        schedule: { unpublish_time: '2099-01-01T00:00:00Z', unpublish_display_timezone: 'UTC' }
+                    }))
+                }))
+        };
+
+        const firstImportResult = await importDataAsync({ data: scheduledData });
+        const secondImportResult = await importDataAsync({ data: scheduledData });
+
+        expect(firstImportResult.languageVariants.map((m) => m.state)).toStrictEqual(['valid']);
+        expect(secondImportResult.languageVariants.map((m) => m.state)).toStrictEqual(['skipped']);
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { Logger, MigrationData, MigrationItem, parseXliff, serializeXliff, XliffDocument, xliffTransformer } from '../lib/index.js';
+
+describe('Xliff', () => {
+    const logger: Logger = {
+        log: () => {},
+        logWithSpinnerAsync: async (func) => await func({ log: () => {} } as never)
+    };
+
+    const item: MigrationItem = {
+        system: {
+            codename: 'item',
+            name: 'Item',
+            language: { codename: 'en' },
+            type: { codename: 'article' },
+            collection: { codename: 'default' },
+            workflow: { codename: 'default' }
+        },
+        versions: [
+            {
+                workflow_step: { codename: 'draft' },
+                elements: {
+                    title: { type: 'text', value: 'Fish & chips' },
+                    body: { type: 'rich_text', value: '<p>Hello <strong>world</strong>&nbsp;&amp; "friends"</p>' },
+                    slug: { type: 'url_slug', value: 'fish-chips', mode: 'autogenerated' },
+                    rating: { type: 'number', value: 5 }
+                }
+            }
+        ]
+    };
+
+    const data: MigrationData = {
+        items: [item],
+        assets: [
+            {
+                codename: 'asset',
+                filename: 'asset.png',
+                title: 'Asset',
+                binary_data: new Blob([]),
+                descriptions: [{ language: { codename: 'en' }, description: 'Image' }]
+            }
+        ]
+    };
+
+    const translate = (document: XliffDocument, translations: Readonly<Record<string, string>>): string => {
+        return serializeXliff(document).replace(/<source>([\s\S]*?)<\/source>/g, (source, content: string) => {
+            const translated = Object.entries(translations).reduce((text, [from, to]) => text.replaceAll(from, to), content);
+            return `${source}\n        <target>${translated}</target>`;
+        });
+    };
+
+    it.each(['1.2', '2.0'] as const)('Protects rich text markup & round-trips xliff %s', (version) => {
+        const document = xliffTransformer(logger).createDocument({
+            data,
+            sourceLanguageCodename: 'en',
+            targetLanguageCodename: 'de',
+            version
+        });
+        const xliff = serializeXliff(document);
+
+        expect(document.units.map((unit) => unit.id)).toStrictEqual([
+            'item.item.title',
+            'item.item.body',
+            'item.item.slug',
+            'asset.asset.description'
+        ]);
+        expect(xliff).not.toContain('<strong>');
+        expect(parseXliff(xliff)).toStrictEqual(document);
+    });
+
+    it.each(['1.2', '2.0'] as const)('Creates target language items from translated xliff %s', (version) => {
+        const document = xliffTransformer(logger).createDocument({
+            data,
+            sourceLanguageCodename: 'en',
+            targetLanguageCodename: 'de',
+            version
+        });
+        const xliff = translate(document, { Fish: 'Fisch', chips: 'Pommes', Hello: 'Hallo', world: 'Welt', Image: 'Bild' });
+
+        const translatedData = xliffTransformer(logger).applyTranslations(data, parseXliff(xliff));
+        const elements = translatedData.items[0].versions[0].elements;
+
+        expect(translatedData.items[0].system.language.codename).toStrictEqual('de');
+        expect(elements['title'].value).toStrictEqual('Fisch & Pommes');
+        expect(elements['body'].value).toStrictEqual('<p>Hallo <strong>Welt</strong>\u00A0&amp; "friends"</p>');
+        expect(elements['slug']).toStrictEqual({ type: 'url_slug', value: 'fish-Pommes', mode: 'custom' });
+        expect(elements['rating']).toStrictEqual(item.versions[0].elements['rating']);
+        expect(translatedData.assets[0].descriptions).toStrictEqual([
+            { language: { codename: 'en' }, description: 'Image' },
+            { language: { codename: 'de' }, description: 'Bild' }
+        ]);
+    });
+});